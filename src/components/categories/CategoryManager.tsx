@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { useSupabaseAuth } from '../../context/SupabaseAuthContext';
+import {
+  Category,
+  CategoryInput,
+  getCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  getCategoryIcon
+} from '../../services/categoryService';
+import {
+  CategoryRules,
+  EMPTY_CATEGORY_RULES,
+  buildCategoryTree,
+  flattenCategoryTree,
+  getDescendantNames
+} from '../../utils/categoryRules';
+
+const RULE_FIELDS: Array<{ key: keyof CategoryRules; label: string; placeholder: string }> = [
+  { key: 'filenamePatterns', label: 'Filename patterns', placeholder: 'e.g. *invoice*, scan_????.pdf' },
+  { key: 'keywords', label: 'Keywords', placeholder: 'e.g. electricity, meter reading' },
+  { key: 'senders', label: 'Senders', placeholder: 'e.g. billing@power.example, @mybank.com' },
+  { key: 'mimeTypes', label: 'File types', placeholder: 'e.g. application/pdf, image/*' }
+];
+
+const splitList = (value: string): string[] => {
+  return Array.from(new Set(value.split(',').map(item => item.trim()).filter(Boolean)));
+};
+
+interface CategoryFormProps {
+  category?: Category;
+  categories: Category[];
+  onSubmit: (input: CategoryInput) => void;
+  onCancel: () => void;
+  isSaving: boolean;
+}
+
+const CategoryForm: React.FC<CategoryFormProps> = ({ category, categories, onSubmit, onCancel, isSaving }) => {
+  const [name, setName] = useState(category?.name || '');
+  const [parentId, setParentId] = useState(category?.parent_id || '');
+  const [icon, setIcon] = useState(category ? getCategoryIcon(category) : '📁');
+  const [color, setColor] = useState(category?.color || '#3B82F6');
+  const [rules, setRules] = useState<Record<keyof CategoryRules, string>>(() => {
+    const current = category?.rules || EMPTY_CATEGORY_RULES;
+    return {
+      filenamePatterns: current.filenamePatterns.join(', '),
+      keywords: current.keywords.join(', '),
+      senders: current.senders.join(', '),
+      mimeTypes: current.mimeTypes.join(', ')
+    };
+  });
+
+  // A category can't be nested under itself or its own sub-categories
+  const excluded = new Set(category ? [category.name, ...getDescendantNames(categories, category.id)] : []);
+  const parentOptions = flattenCategoryTree(buildCategoryTree(categories)).filter(option => !excluded.has(option.name));
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit({
+          name,
+          parentId: parentId || null,
+          icon,
+          color,
+          rules: {
+            filenamePatterns: splitList(rules.filenamePatterns),
+            keywords: splitList(rules.keywords),
+            senders: splitList(rules.senders),
+            mimeTypes: splitList(rules.mimeTypes)
+          }
+        });
+      }}
+      className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3 text-sm"
+    >
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <label className="flex flex-col md:col-span-2">
+          <span className="text-gray-600 dark:text-gray-400 mb-1">Name</span>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+        </label>
+        <label className="flex flex-col">
+          <span className="text-gray-600 dark:text-gray-400 mb-1">Icon</span>
+          <input
+            type="text"
+            value={icon}
+            onChange={(e) => setIcon(e.target.value)}
+            maxLength={4}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+        </label>
+        <label className="flex flex-col">
+          <span className="text-gray-600 dark:text-gray-400 mb-1">Color</span>
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            className="h-10 w-full border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+          />
+        </label>
+      </div>
+
+      <label className="flex flex-col">
+        <span className="text-gray-600 dark:text-gray-400 mb-1">Parent category</span>
+        <select
+          value={parentId}
+          onChange={(e) => setParentId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        >
+          <option value="">None (top level)</option>
+          {parentOptions.map(option => (
+            <option key={option.id} value={option.id}>
+              {'  '.repeat(option.depth)}{option.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div>
+        <p className="text-gray-900 dark:text-white font-medium">Auto-filing rules</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+          Comma-separated. A matching filename or sender files a document here; keywords and file types count as hints.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {RULE_FIELDS.map(field => (
+            <label key={field.key} className="flex flex-col">
+              <span className="text-gray-600 dark:text-gray-400 mb-1">{field.label}</span>
+              <input
+                type="text"
+                value={rules[field.key]}
+                onChange={(e) => setRules(prev => ({ ...prev, [field.key]: e.target.value }))}
+                placeholder={field.placeholder}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving || !name.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : category ? 'Save category' : 'Add category'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const describeRules = (rules: CategoryRules): string => {
+  const parts = [
+    rules.filenamePatterns.length && `${rules.filenamePatterns.length} filename`,
+    rules.keywords.length && `${rules.keywords.length} keyword`,
+    rules.senders.length && `${rules.senders.length} sender`,
+    rules.mimeTypes.length && `${rules.mimeTypes.length} file type`
+  ].filter(Boolean);
+  return parts.length > 0 ? `Rules: ${parts.join(', ')}` : 'No rules';
+};
+
+const CategoryManager: React.FC = () => {
+  const { currentUser } = useSupabaseAuth();
+  const queryClient = useQueryClient();
+  const userId = currentUser?.id;
+  const [editing, setEditing] = useState<Category | 'new' | null>(null);
+
+  const { data: categories = [], isLoading } = useQuery({
+    queryKey: ['categories', userId],
+    queryFn: () => getCategories(userId!),
+    enabled: !!userId
+  });
+
+  // Renames and deletes move documents, so document views refresh too
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['categories', userId] });
+    queryClient.invalidateQueries({ queryKey: ['category-stats'] });
+    queryClient.invalidateQueries({ queryKey: ['documents'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: CategoryInput) => editing && editing !== 'new'
+      ? updateCategory(editing.id, input)
+      : createCategory(userId!, input),
+    onSuccess: () => {
+      setEditing(null);
+      invalidate();
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteCategory,
+    onSuccess: invalidate
+  });
+
+  const handleDelete = (category: Category) => {
+    const parent = categories.find(c => c.id === category.parent_id);
+    const destination = parent ? `moved to "${parent.name}"` : 'left uncategorized';
+    if (window.confirm(`Delete the category "${category.name}"? Its documents will be ${destination}.`)) {
+      deleteMutation.mutate(category.id);
+    }
+  };
+
+  const rows = flattenCategoryTree(buildCategoryTree(categories));
+  const error = saveMutation.error || deleteMutation.error;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold">Categories</h2>
+        {editing === null && (
+          <button
+            onClick={() => {
+              saveMutation.reset();
+              setEditing('new');
+            }}
+            disabled={!userId}
+            className="flex items-center px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            New category
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Organize documents into your own categories and sub-categories. Renaming a category keeps its documents.
+      </p>
+
+      {editing === 'new' && (
+        <div className="mb-4">
+          <CategoryForm
+            categories={categories}
+            onSubmit={(input) => saveMutation.mutate(input)}
+            onCancel={() => setEditing(null)}
+            isSaving={saveMutation.isPending}
+          />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error.message}</p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading categories...</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+          {rows.map(category => (
+            <li key={category.id} className="p-3">
+              {editing !== 'new' && editing?.id === category.id ? (
+                <CategoryForm
+                  category={category}
+                  categories={categories}
+                  onSubmit={(input) => saveMutation.mutate(input)}
+                  onCancel={() => setEditing(null)}
+                  isSaving={saveMutation.isPending}
+                />
+              ) : (
+                <div className="flex items-center justify-between" style={{ paddingLeft: `${category.depth * 1.5}rem` }}>
+                  <div className="flex items-center min-w-0">
+                    <span
+                      className="w-2 h-2 rounded-full mr-2 flex-shrink-0"
+                      style={{ backgroundColor: category.color || '#3B82F6' }}
+                    />
+                    <span className="text-lg mr-2">{getCategoryIcon(category)}</span>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{category.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{describeRules(category.rules)}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => {
+                        saveMutation.reset();
+                        setEditing(category);
+                      }}
+                      className="p-2 text-gray-400 hover:text-blue-600"
+                      title="Edit category"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(category)}
+                      disabled={deleteMutation.isPending}
+                      className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                      title="Delete category"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CategoryManager;
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Pencil } from 'lucide-react';
+import { updateDocument } from '../../services/documentService';
+import { getCategories } from '../../services/categoryService';
+import { buildCategoryTree, flattenCategoryTree } from '../../utils/categoryRules';
+import { ClassificationPrediction } from '../../utils/classificationFeedback';
+import { Document } from '../../types/document';
+
+interface ClassificationEditorProps {
+  document: Document;
+}
+
+const parseTags = (value: string): string[] => {
+  return Array.from(new Set(value.split(',').map(tag => tag.trim()).filter(Boolean)));
+};
+
+const ClassificationEditor: React.FC<ClassificationEditorProps> = ({ document }) => {
+  const queryClient = useQueryClient();
+  const prediction: ClassificationPrediction | undefined = document.ai_analysis?.prediction;
+  const [isEditing, setIsEditing] = useState(false);
+  const [category, setCategory] = useState(document.category || '');
+  const [tags, setTags] = useState((document.tags || []).join(', '));
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories', document.user_id],
+    queryFn: () => getCategories(document.user_id),
+    enabled: isEditing
+  });
+  const categoryOptions = flattenCategoryTree(buildCategoryTree(categories));
+
+  useEffect(() => {
+    setCategory(document.category || '');
+    setTags((document.tags || []).join(', '));
+  }, [document.category, document.tags]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => updateDocument(document.id, { category: category || undefined, tags: parseTags(tags) }),
+    onSuccess: () => {
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['document', document.id] });
+      queryClient.invalidateQueries({ queryKey: ['category-stats'] });
+    }
+  });
+
+  if (!isEditing) {
+    return (
+      <div className="mt-4 flex items-center justify-between">
+        {prediction ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Suggested: {prediction.category} ({Math.round(prediction.confidence * 100)}% confidence)
+          </p>
+        ) : <span />}
+        <button
+          onClick={() => setIsEditing(true)}
+          className="flex items-center text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-200"
+        >
+          <Pencil className="w-4 h-4 mr-1" />
+          Edit category and tags
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveMutation.mutate();
+      }}
+      className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4"
+    >
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Category</label>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        >
+          <option value="" disabled>Choose a category</option>
+          {categoryOptions.map(option => (
+            <option key={option.id} value={option.name}>
+              {'\u00a0\u00a0'.repeat(option.depth)}{option.name}
+            </option>
+          ))}
+          {document.category && !categories.some(c => c.name === document.category) && (
+            <option value={document.category}>{document.category}</option>
+          )}
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tags</label>
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Comma-separated"
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        />
+      </div>
+      <div className="md:col-span-2 flex items-center justify-end gap-2">
+        {saveMutation.error && (
+          <p className="mr-auto text-sm text-red-600 dark:text-red-400">{saveMutation.error.message}</p>
+        )}
+        <button
+          type="button"
+          onClick={() => setIsEditing(false)}
+          className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saveMutation.isPending}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ClassificationEditor;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSupabaseAuth } from '../../context/SupabaseAuthContext';
+import { getClassifierStatus, trainUserClassifier } from '../../services/aiService';
+import { getClassificationAccuracy } from '../../services/classificationFeedbackService';
+
+const AccuracyChart: React.FC<{ userId?: string }> = ({ userId }) => {
+  const { data: points = [] } = useQuery({
+    queryKey: ['classification-accuracy', userId],
+    queryFn: getClassificationAccuracy,
+    enabled: !!userId
+  });
+
+  if (points.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Classification accuracy over time</h3>
+      <div className="flex items-end gap-2 h-32 border-b border-gray-200 dark:border-gray-700">
+        {points.map(point => (
+          <div
+            key={point.month}
+            className="flex-1 max-w-[3rem] bg-blue-500 dark:bg-blue-400 rounded-t"
+            style={{ height: `${Math.max(point.accuracy * 100, 2)}%` }}
+            title={`${Math.round(point.accuracy * 100)}% kept • ${point.corrections} of ${point.predictions} corrected`}
+          />
+        ))}
+      </div>
+      <div className="flex gap-2 mt-1">
+        {points.map(point => (
+          <span key={point.month} className="flex-1 max-w-[3rem] text-center text-xs text-gray-500 dark:text-gray-400">
+            {new Date(`${point.month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'short' })}
+          </span>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+        Share of suggested categories you kept, by the month they were suggested.
+      </p>
+    </div>
+  );
+};
+
+const ClassifierSettings: React.FC = () => {
+  const { currentUser } = useSupabaseAuth();
+  const queryClient = useQueryClient();
+  const userId = currentUser?.id;
+
+  const { data: status } = useQuery({
+    queryKey: ['classifier-status', userId],
+    queryFn: () => getClassifierStatus(userId!),
+    enabled: !!userId
+  });
+
+  const trainMutation = useMutation({
+    mutationFn: () => trainUserClassifier(userId!),
+    onSuccess: (result) => {
+      queryClient.setQueryData(['classifier-status', userId], result);
+    }
+  });
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold mb-2">Auto-categorization</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        New documents are categorized by a classifier trained on the categories you have given your
+        own documents. Correcting a suggested category retrains it automatically.
+      </p>
+      {status && (
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          {status.trainedAt
+            ? <>Trained on {status.exampleCount} document{status.exampleCount === 1 ? '' : 's'} on {new Date(status.trainedAt).toLocaleDateString()}</>
+            : 'Not trained yet; using keyword rules only'}
+          {status.accuracy !== null && <> • {Math.round(status.accuracy * 100)}% accuracy on held-out documents</>}
+        </p>
+      )}
+      <button
+        onClick={() => trainMutation.mutate()}
+        disabled={!userId || trainMutation.isPending}
+        className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+      >
+        {trainMutation.isPending ? 'Training...' : 'Retrain classifier'}
+      </button>
+      {trainMutation.error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mt-3">{trainMutation.error.message}</p>
+      )}
+      <AccuracyChart userId={userId} />
+    </div>
+  );
+};
+
+export default ClassifierSettings;
@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Pencil, Receipt } from 'lucide-react';
+import { updateDocumentFields } from '../../services/documentService';
+import { normalizeIban } from '../../utils/documentFields';
+import { DocumentFields, FieldDocumentKind } from '../../types/aiAnalysis';
+import { Document } from '../../types/document';
+
+interface DocumentFieldsEditorProps {
+  document: Document;
+}
+
+type TextField = 'vendor' | 'invoiceNumber' | 'issueDate' | 'dueDate' | 'currency' | 'iban';
+type AmountField = 'subtotal' | 'tax' | 'taxRate' | 'total';
+
+type FieldsForm = { kind: FieldDocumentKind | '' } & Record<TextField | AmountField, string>;
+
+const KINDS: Array<{ value: FieldDocumentKind; label: string }> = [
+  { value: 'invoice', label: 'Invoice' },
+  { value: 'receipt', label: 'Receipt' },
+  { value: 'bill', label: 'Bill' }
+];
+
+const TEXT_FIELDS: Array<{ key: TextField; label: string; type: 'text' | 'date'; placeholder?: string }> = [
+  { key: 'vendor', label: 'Vendor', type: 'text' },
+  { key: 'invoiceNumber', label: 'Invoice number', type: 'text' },
+  { key: 'issueDate', label: 'Issue date', type: 'date' },
+  { key: 'dueDate', label: 'Due date', type: 'date' },
+  { key: 'currency', label: 'Currency', type: 'text', placeholder: 'e.g. EUR' },
+  { key: 'iban', label: 'IBAN', type: 'text' }
+];
+
+const AMOUNT_FIELDS: Array<{ key: AmountField; label: string }> = [
+  { key: 'subtotal', label: 'Subtotal' },
+  { key: 'tax', label: 'Tax / VAT' },
+  { key: 'taxRate', label: 'Tax rate (%)' },
+  { key: 'total', label: 'Total' }
+];
+
+const toForm = (fields: DocumentFields = {}): FieldsForm => ({
+  kind: fields.kind ?? '',
+  ...Object.fromEntries(TEXT_FIELDS.map(({ key }) => [key, fields[key] ?? ''])),
+  ...Object.fromEntries(AMOUNT_FIELDS.map(({ key }) => [key, fields[key]?.toString() ?? '']))
+} as FieldsForm);
+
+/**
+ * Turn the form back into fields, leaving out empty inputs. Throws on values search could not use.
+ */
+const fromForm = (form: FieldsForm): DocumentFields => {
+  const fields: DocumentFields = {};
+  if (form.kind) fields.kind = form.kind;
+
+  TEXT_FIELDS.forEach(({ key }) => {
+    const value = form[key].trim();
+    if (value) fields[key] = value;
+  });
+  if (fields.currency) {
+    fields.currency = fields.currency.toUpperCase();
+    if (!/^[A-Z]{3}$/.test(fields.currency)) {
+      throw new Error('Enter the currency as a three-letter code, e.g. EUR');
+    }
+  }
+  if (fields.iban) {
+    const iban = normalizeIban(fields.iban);
+    if (!iban) throw new Error('The IBAN is not valid');
+    fields.iban = iban;
+  }
+
+  AMOUNT_FIELDS.forEach(({ key, label }) => {
+    const value = form[key].trim();
+    if (!value) return;
+    const amount = Number(value);
+    if (!Number.isFinite(amount)) throw new Error(`${label} must be a number`);
+    fields[key] = Math.round(amount * 100) / 100;
+  });
+  return fields;
+};
+
+const formatAmount = (amount: number, currency?: string): string => {
+  try {
+    return currency
+      ? new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount)
+      : amount.toFixed(2);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`; // Not a currency Intl knows
+  }
+};
+
+/**
+ * The vendor, dates, amounts and IBAN read from an invoice, receipt or bill, with an editor
+ * for correcting them. Corrections are what search filters such as due: and amount: see.
+ */
+const DocumentFieldsEditor: React.FC<DocumentFieldsEditorProps> = ({ document }) => {
+  const queryClient = useQueryClient();
+  const fields = document.ai_analysis?.fields;
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState<FieldsForm>(() => toForm(fields));
+
+  useEffect(() => {
+    setForm(toForm(fields));
+  }, [fields]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => updateDocumentFields(document.id, fromForm(form)),
+    onSuccess: () => {
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['document', document.id] });
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+    }
+  });
+
+  const inputClassName = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  if (!isEditing) {
+    const shown = [
+      ...TEXT_FIELDS.filter(({ key }) => fields?.[key]).map(({ key, label }) => ({ label, value: fields![key]! })),
+      ...AMOUNT_FIELDS.filter(({ key }) => fields?.[key] !== undefined).map(({ key, label }) => ({
+        label,
+        value: key === 'taxRate' ? `${fields![key]}%` : formatAmount(fields![key]!, fields?.currency)
+      }))
+    ];
+
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center text-lg font-semibold text-gray-900 dark:text-white">
+            <Receipt className="w-5 h-5 mr-2" />
+            {KINDS.find(kind => kind.value === fields?.kind)?.label ?? 'Invoice'} details
+          </h2>
+          <button
+            onClick={() => setIsEditing(true)}
+            className="flex items-center text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-200"
+          >
+            <Pencil className="w-4 h-4 mr-1" />
+            Edit fields
+          </button>
+        </div>
+        {shown.length > 0 ? (
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+            {shown.map(({ label, value }) => (
+              <div key={label} className="flex justify-between md:block">
+                <dt className="font-medium text-gray-500 dark:text-gray-400">{label}</dt>
+                <dd className="text-gray-900 dark:text-white break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No fields were found in this document.</p>
+        )}
+        <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+          {fields?.editedAt
+            ? `Corrected ${new Date(fields.editedAt).toLocaleString()}`
+            : 'Read from the document text; check them before relying on them.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveMutation.mutate();
+      }}
+      className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6 grid grid-cols-1 md:grid-cols-2 gap-4"
+    >
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Kind</label>
+        <select
+          value={form.kind}
+          onChange={(e) => setForm({ ...form, kind: e.target.value as FieldsForm['kind'] })}
+          className={inputClassName}
+        >
+          <option value="">Not set</option>
+          {KINDS.map(kind => (
+            <option key={kind.value} value={kind.value}>{kind.label}</option>
+          ))}
+        </select>
+      </div>
+      {TEXT_FIELDS.map(({ key, label, type, placeholder }) => (
+        <div key={key}>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+          <input
+            type={type}
+            value={form[key]}
+            onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+            placeholder={placeholder}
+            className={inputClassName}
+          />
+        </div>
+      ))}
+      {AMOUNT_FIELDS.map(({ key, label }) => (
+        <div key={key}>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+          <input
+            type="number"
+            step="0.01"
+            value={form[key]}
+            onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+      ))}
+      <div className="md:col-span-2 flex items-center justify-end gap-2">
+        {saveMutation.error && (
+          <p className="mr-auto text-sm text-red-600 dark:text-red-400">{saveMutation.error.message}</p>
+        )}
+        <button
+          type="button"
+          onClick={() => {
+            setForm(toForm(fields));
+            setIsEditing(false);
+          }}
+          className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saveMutation.isPending}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default DocumentFieldsEditor;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabaseAuth } from '../../context/SupabaseAuthContext';
+import { extractMissingDocumentFields } from '../../services/documentService';
+
+const DocumentFieldsSettings: React.FC = () => {
+  const { currentUser } = useSupabaseAuth();
+  const queryClient = useQueryClient();
+
+  const extractMutation = useMutation({
+    mutationFn: () => extractMissingDocumentFields(currentUser!.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+    }
+  });
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold mb-2">Invoice fields</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        New documents have their vendor, dates and amounts read during processing. Read them for
+        documents processed earlier so they can be filtered with due:, amount: and vendor:.
+      </p>
+      <button
+        onClick={() => extractMutation.mutate()}
+        disabled={!currentUser || extractMutation.isPending}
+        className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+      >
+        {extractMutation.isPending ? 'Reading fields...' : 'Read fields of earlier documents'}
+      </button>
+      {extractMutation.data && (
+        <p className="text-sm text-green-600 dark:text-green-400 mt-3">
+          Processed {extractMutation.data.extracted} document{extractMutation.data.extracted === 1 ? '' : 's'}
+          {extractMutation.data.failed > 0 && `, ${extractMutation.data.failed} failed`}
+        </p>
+      )}
+      {extractMutation.error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mt-3">{extractMutation.error.message}</p>
+      )}
+    </div>
+  );
+};
+
+export default DocumentFieldsSettings;
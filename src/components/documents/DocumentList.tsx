@@ -1,19 +1,26 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { FileText, Trash2, Share2, Edit3, Eye, Image, File, FileArchive, FileVideo, FileAudio } from 'lucide-react';
-import { deleteDocument } from '../../services/documentService';
+import { FileText, Trash2, Share2, Edit3, Eye, Image, File, FileArchive, FileVideo, FileAudio, RefreshCw, AlertCircle } from 'lucide-react';
+import { deleteDocument, retryDocumentProcessing, processRetryQueue, ProcessingStatus } from '../../services/documentService';
+import { canRetryProcessing } from '../../utils/processingRetry';
 import { syncWithSupabase, supabase } from '../../services/supabase';
 import DocumentViewer from '../viewer/DocumentViewer';
+import { ShareDialog } from '../sharing';
+import { LazyImage } from '../performance/LazyImage';
+import { getStoragePath, getSignedDocumentUrls } from '../../services/documentUrlService';
 
 interface DocumentListProps {
   userId: string;
   category?: string;
+  subcategories?: string[]; // Also list documents filed in these categories
 }
 
-export const DocumentList: React.FC<DocumentListProps> = ({ userId, category }) => {
+export const DocumentList: React.FC<DocumentListProps> = ({ userId, category, subcategories = [] }) => {
   const [selectedDocument, setSelectedDocument] = useState<any>(null);
   const [isViewerOpen, setIsViewerOpen] = useState(false);
+  const [shareTarget, setShareTarget] = useState<{ id: string; name: string } | null>(null);
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [isRetrying, setIsRetrying] = useState<string | null>(null);
   const queryClient = useQueryClient();
 
   // Auto-sync state
@@ -49,7 +56,7 @@ export const DocumentList: React.FC<DocumentListProps> = ({ userId, category })
 
   // Fetch documents with auto-refresh and category filtering
   const { data: documents = [], isLoading, error, refetch } = useQuery({
-    queryKey: ['documents', userId, category],
+    queryKey: ['documents', userId, category, subcategories],
     queryFn: async () => {
       let query = supabase
         .from('documents')
@@ -59,7 +66,9 @@ export const DocumentList: React.FC<DocumentListProps> = ({ userId, category })
 
       // Apply category filter if specified
       if (category && category !== 'ALL') {
-        query = query.eq('category', category);
+        query = subcategories.length > 0
+          ? query.in('category', [category, ...subcategories])
+          : query.eq('category', category);
       }
 
       const { data, error } = await query;
@@ -71,6 +80,20 @@ export const DocumentList: React.FC<DocumentListProps> = ({ userId, category })
     refetchOnMount: true,
   });
 
+  // Sign image thumbnails for the whole list in one request
+  useEffect(() => {
+    const imagePaths = documents
+      .filter((document: any) => document.type?.startsWith('image/'))
+      .map((document: any) => getStoragePath(document))
+      .filter((path: string | null): path is string => !!path);
+
+    if (imagePaths.length > 0) {
+      getSignedDocumentUrls(imagePaths).catch(error => {
+        console.error('Failed to sign thumbnail URLs:', error);
+      });
+    }
+  }, [documents]);
+
   // Auto-sync on mount and after operations
   useEffect(() => {
     // Initial sync on mount
@@ -129,6 +152,39 @@ export const DocumentList: React.FC<DocumentListProps> = ({ userId, category })
     },
   });
 
+  // Retry a single document's failed AI processing steps
+  const retryMutation = useMutation({
+    mutationFn: async (documentId: string) => {
+      setIsRetrying(documentId);
+      return retryDocumentProcessing(documentId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+    },
+    onError: (error) => {
+      console.error('Retry failed:', error);
+      alert('Failed to retry document processing');
+    },
+    onSettled: () => {
+      setIsRetrying(null);
+    },
+  });
+
+  // Retry every failed document that still has attempts left
+  const retryQueueMutation = useMutation({
+    mutationFn: () => processRetryQueue(userId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+      if (result.failed > 0) {
+        alert(`${result.succeeded} of ${result.retried} documents processed, ${result.failed} still failing`);
+      }
+    },
+    onError: (error) => {
+      console.error('Retry queue failed:', error);
+      alert('Failed to retry document processing');
+    },
+  });
+
   const handleDocumentClick = (document: any) => {
     setSelectedDocument(document);
     setIsViewerOpen(true);
@@ -150,6 +206,20 @@ export const DocumentList: React.FC<DocumentListProps> = ({ userId, category })
     return <File className="h-8 w-8 text-gray-500" />;
   };
 
+  const getProcessingLabel = (status?: ProcessingStatus): string | null => {
+    switch (status) {
+      case 'queued': return 'Queued for processing';
+      case 'extracting': return 'Extracting text...';
+      case 'recognizing_text': return 'Recognizing text...';
+      case 'detecting_language': return 'Detecting language...';
+      case 'classifying': return 'Classifying...';
+      case 'extracting_fields': return 'Reading invoice fields...';
+      case 'summarizing': return 'Summarizing...';
+      case 'converting': return 'Converting to PDF...';
+      default: return null;
+    }
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -186,6 +256,8 @@ export const DocumentList: React.FC<DocumentListProps> = ({ userId, category })
     );
   }
 
+  const retryableCount = documents.filter(canRetryProcessing).length;
+
   if (documents.length === 0) {
     return (
       <div className="text-center p-8">
@@ -211,10 +283,21 @@ export const DocumentList: React.FC<DocumentListProps> = ({ userId, category })
       )}
 
       <div className="bg-white shadow rounded-lg">
-        <div className="px-6 py-4 border-b border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
           <h3 className="text-lg font-medium text-gray-900">
             {category ? `${category} Documents` : 'Documents'} ({documents.length})
           </h3>
+          {retryableCount > 0 && (
+            <button
+              onClick={() => retryQueueMutation.mutate()}
+              disabled={retryQueueMutation.isPending}
+              className="flex items-center px-3 py-1 text-sm text-red-600 border border-red-200 rounded-md hover:bg-red-50 transition-colors disabled:opacity-50"
+              title="Re-run failed AI processing steps"
+            >
+              <RefreshCw className={`h-4 w-4 mr-1 ${retryQueueMutation.isPending ? 'animate-spin' : ''}`} />
+              Retry failed ({retryableCount})
+            </button>
+          )}
         </div>
         <div className="divide-y divide-gray-200">
           {documents.map((document) => (
@@ -225,7 +308,17 @@ export const DocumentList: React.FC<DocumentListProps> = ({ userId, category })
             >
               <div className="flex items-center space-x-4">
                 <div className="flex-shrink-0">
-                  {getFileIcon(document.type, document.name)}
+                  {document.type?.startsWith('image/') && getStoragePath(document) ? (
+                    <LazyImage
+                      path={getStoragePath(document)!}
+                      alt={document.name}
+                      width={32}
+                      height={32}
+                      className="relative rounded overflow-hidden"
+                    />
+                  ) : (
+                    getFileIcon(document.type, document.name)
+                  )}
                 </div>
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium text-gray-900 truncate">
@@ -239,8 +332,35 @@ export const DocumentList: React.FC<DocumentListProps> = ({ userId, category })
                       {document.category}
                     </span>
                   )}
+                  {getProcessingLabel(document.processing_status) && (
+                    <span className="inline-flex items-center ml-2 px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                      {getProcessingLabel(document.processing_status)}
+                    </span>
+                  )}
+                  {document.processing_status === 'failed' && (
+                    <span
+                      className="inline-flex items-center ml-2 px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+                      title={document.processing_error || undefined}
+                    >
+                      <AlertCircle className="h-3 w-3 mr-1" />
+                      Processing failed
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center space-x-2">
+                  {canRetryProcessing(document) && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        retryMutation.mutate(document.id);
+                      }}
+                      disabled={isRetrying === document.id}
+                      className="p-1 text-red-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                      title="Retry AI processing"
+                    >
+                      <RefreshCw className={`h-4 w-4 ${isRetrying === document.id ? 'animate-spin' : ''}`} />
+                    </button>
+                  )}
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -264,7 +384,7 @@ export const DocumentList: React.FC<DocumentListProps> = ({ userId, category })
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      // Handle share
+                      setShareTarget({ id: document.id, name: document.name });
                     }}
                     className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
                     title="Share"
@@ -304,6 +424,16 @@ export const DocumentList: React.FC<DocumentListProps> = ({ userId, category })
           }}
         />
       )}
+
+      {/* Share Dialog */}
+      {shareTarget && (
+        <ShareDialog
+          documentId={shareTarget.id}
+          documentName={shareTarget.name}
+          isOpen={!!shareTarget}
+          onClose={() => setShareTarget(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,310 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Combine, Scissors, FileOutput, RotateCw, Minimize2 } from 'lucide-react';
+import { useSupabaseAuth } from '../../context/SupabaseAuthContext';
+import { getUserDocuments } from '../../services/documentService';
+import {
+  CompressionLevel,
+  PdfOperation,
+  PdfSaveTarget,
+  compressDocument,
+  extractDocumentPages,
+  getDocumentPageCount,
+  getPdfSourcePath,
+  mergeDocuments,
+  rotateDocumentPages,
+  splitDocument
+} from '../../services/pdfToolkitService';
+import { parsePageRanges } from '../../utils/pageRanges';
+import { formatFileSize } from '../../utils/formatters';
+import { Document } from '../../types/document';
+
+interface PdfToolkitProps {
+  document: Document;
+}
+
+interface ToolkitResult {
+  message: string;
+  documents: Array<Pick<Document, 'id' | 'name'>>;
+}
+
+const OPERATIONS: Array<{ value: PdfOperation; label: string; icon: React.ElementType }> = [
+  { value: 'merge', label: 'Merge', icon: Combine },
+  { value: 'split', label: 'Split', icon: Scissors },
+  { value: 'extract', label: 'Extract pages', icon: FileOutput },
+  { value: 'rotate', label: 'Rotate', icon: RotateCw },
+  { value: 'compress', label: 'Compress', icon: Minimize2 }
+];
+
+const ROTATIONS = [
+  { value: 90, label: 'Clockwise' },
+  { value: 180, label: 'Upside down' },
+  { value: 270, label: 'Counter-clockwise' }
+];
+
+const COMPRESSION_OPTIONS: Array<{ value: CompressionLevel; label: string }> = [
+  { value: 'light', label: 'Light (best quality)' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'strong', label: 'Strong (smallest file)' }
+];
+
+const inputClassName = 'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+/**
+ * Merge, split, extract, rotate and recompress the document's PDF. Results are saved as
+ * new documents or as a new version, with where they came from kept in their metadata.
+ */
+const PdfToolkit: React.FC<PdfToolkitProps> = ({ document }) => {
+  const { currentUser } = useSupabaseAuth();
+  const queryClient = useQueryClient();
+  const [operation, setOperation] = useState<PdfOperation>('merge');
+  const [pages, setPages] = useState('');
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [angle, setAngle] = useState(90);
+  const [level, setLevel] = useState<CompressionLevel>('medium');
+  const [saveAs, setSaveAs] = useState<PdfSaveTarget>('document');
+  const [result, setResult] = useState<ToolkitResult | null>(null);
+  const [error, setError] = useState('');
+
+  // A new version replaces the file, which only makes sense when the document is a PDF itself.
+  // Only the owner replaces a document's file.
+  const canSaveAsVersion = document.type === 'application/pdf' && operation !== 'split' &&
+    document.user_id === currentUser?.id;
+
+  const { data: pageCount } = useQuery({
+    queryKey: ['document-page-count', document.id, getPdfSourcePath(document)],
+    queryFn: () => getDocumentPageCount(document),
+  });
+
+  const { data: mergeCandidates = [] } = useQuery({
+    queryKey: ['documents', currentUser?.id, 'pdf'],
+    queryFn: async () => (await getUserDocuments(currentUser!.id, undefined, 'created_at'))
+      .filter(candidate => candidate.id !== document.id && getPdfSourcePath(candidate)),
+    enabled: operation === 'merge' && !!currentUser,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (): Promise<ToolkitResult> => {
+      const userId = currentUser!.id;
+      const target = canSaveAsVersion ? saveAs : 'document';
+      const ranges = () => parsePageRanges(pages, pageCount ?? 0);
+
+      switch (operation) {
+        case 'merge': {
+          const others = mergeIds.map(id => mergeCandidates.find(candidate => candidate.id === id)!);
+          const merged = await mergeDocuments([document, ...others], userId, target);
+          return { message: target === 'version' ? 'Merged into a new version' : 'Merged into a new document', documents: target === 'version' ? [] : [merged] };
+        }
+        case 'split': {
+          const parts = await splitDocument(document, ranges(), userId);
+          return { message: `Split into ${parts.length} documents`, documents: parts };
+        }
+        case 'extract': {
+          const extracted = await extractDocumentPages(document, ranges(), userId, target);
+          return { message: target === 'version' ? 'Saved the pages as a new version' : 'Extracted the pages into a new document', documents: target === 'version' ? [] : [extracted] };
+        }
+        case 'rotate': {
+          const rotated = await rotateDocumentPages(document, angle, pages.trim() ? ranges() : null, userId, target);
+          return { message: target === 'version' ? 'Saved the rotated pages as a new version' : 'Saved the rotated pages as a new document', documents: target === 'version' ? [] : [rotated] };
+        }
+        case 'compress': {
+          const compressed = await compressDocument(document, level, userId, target);
+          return {
+            message: `Recompressed ${compressed.imagesRecompressed} image${compressed.imagesRecompressed === 1 ? '' : 's'}: ${formatFileSize(compressed.bytesBefore)} → ${formatFileSize(compressed.bytesAfter)}`,
+            documents: target === 'version' ? [] : [compressed.document]
+          };
+        }
+      }
+    },
+    onSuccess: (outcome) => {
+      setResult(outcome);
+      setError('');
+      setMergeIds([]);
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+      queryClient.invalidateQueries({ queryKey: ['document', document.id] });
+      queryClient.invalidateQueries({ queryKey: ['document-versions', document.id] });
+    },
+    onError: (err: Error) => {
+      setResult(null);
+      setError(err.message);
+    },
+  });
+
+  const selectOperation = (value: PdfOperation) => {
+    setOperation(value);
+    setPages('');
+    setResult(null);
+    setError('');
+  };
+
+  const toggleMerge = (id: string) => {
+    setMergeIds(prev => (prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]));
+  };
+
+  const needsPages = operation === 'split' || operation === 'extract';
+  const canRun = !!currentUser && !runMutation.isPending &&
+    (operation !== 'merge' || mergeIds.length > 0) &&
+    (!needsPages || (pages.trim() !== '' && pageCount !== undefined));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          PDF tools
+        </h2>
+        {pageCount !== undefined && (
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {pageCount} page{pageCount === 1 ? '' : 's'}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {OPERATIONS.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            onClick={() => selectOperation(value)}
+            className={`flex items-center px-3 py-1.5 text-sm rounded-lg border ${
+              operation === value
+                ? 'border-blue-600 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            <Icon className="h-4 w-4 mr-1.5" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        {operation === 'merge' && (
+          mergeCandidates.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No other PDF documents to merge with.</p>
+          ) : (
+            <div>
+              <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+                Pick the documents to add after this one, in order.
+              </p>
+              <ul className="max-h-48 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+                {mergeCandidates.map(candidate => {
+                  const position = mergeIds.indexOf(candidate.id);
+                  return (
+                    <li key={candidate.id}>
+                      <label className="flex items-center px-3 py-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={position >= 0}
+                          onChange={() => toggleMerge(candidate.id)}
+                          className="mr-3 rounded border-gray-300"
+                        />
+                        <span className="flex-1 truncate">{candidate.name}</span>
+                        {position >= 0 && (
+                          <span className="ml-2 text-xs text-blue-600 dark:text-blue-400">#{position + 2}</span>
+                        )}
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )
+        )}
+
+        {(needsPages || operation === 'rotate') && (
+          <div>
+            <input
+              type="text"
+              value={pages}
+              onChange={(e) => setPages(e.target.value)}
+              placeholder={operation === 'rotate' ? 'Pages, e.g. 2, 5-7 (all pages when empty)' : 'Pages, e.g. 1-3, 4-10'}
+              className={`w-full ${inputClassName}`}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              {operation === 'split'
+                ? 'Each range becomes its own document.'
+                : operation === 'extract'
+                  ? 'The pages are copied, in the order given, into one document.'
+                  : 'Ranges such as 8- run to the last page.'}
+            </p>
+          </div>
+        )}
+
+        {operation === 'rotate' && (
+          <select value={angle} onChange={(e) => setAngle(Number(e.target.value))} className={inputClassName}>
+            {ROTATIONS.map(rotation => (
+              <option key={rotation.value} value={rotation.value}>{rotation.label}</option>
+            ))}
+          </select>
+        )}
+
+        {operation === 'compress' && (
+          <div>
+            <select value={level} onChange={(e) => setLevel(e.target.value as CompressionLevel)} className={inputClassName}>
+              {COMPRESSION_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Photos and scans are re-encoded; text and drawings stay as they are.
+            </p>
+          </div>
+        )}
+
+        {canSaveAsVersion && (
+          <div className="flex items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+            <label className="flex items-center">
+              <input
+                type="radio"
+                checked={saveAs === 'document'}
+                onChange={() => setSaveAs('document')}
+                className="mr-2"
+              />
+              Save as a new document
+            </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                checked={saveAs === 'version'}
+                onChange={() => setSaveAs('version')}
+                className="mr-2"
+              />
+              Save as a new version
+            </label>
+          </div>
+        )}
+
+        <button
+          onClick={() => runMutation.mutate()}
+          disabled={!canRun}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {runMutation.isPending ? 'Working...' : OPERATIONS.find(option => option.value === operation)!.label}
+        </button>
+      </div>
+
+      {error && (
+        <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {result && (
+        <div className="mt-4 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+          <p className="text-sm text-green-800 dark:text-green-200">{result.message}</p>
+          {result.documents.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {result.documents.map(created => (
+                <li key={created.id}>
+                  <Link to={`/document/${created.id}`} className="text-sm text-blue-600 hover:underline dark:text-blue-400">
+                    {created.name}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PdfToolkit;
@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { DocumentVersion, getVersionText } from '../../services/fileVersioning';
+import { diffLines, summarizeDiff } from '../../utils/textDiff';
+
+interface VersionDiffViewProps {
+  oldVersion: DocumentVersion;
+  newVersion: DocumentVersion;
+}
+
+const lineStyles = {
+  added: 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300',
+  removed: 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300 line-through decoration-red-300',
+  unchanged: 'text-gray-700 dark:text-gray-300'
+};
+
+const linePrefix = { added: '+', removed: '-', unchanged: ' ' };
+
+const VersionDiffView: React.FC<VersionDiffViewProps> = ({ oldVersion, newVersion }) => {
+  const { data: texts, isLoading, error } = useQuery({
+    queryKey: ['version-diff', oldVersion.id, newVersion.id],
+    queryFn: async () => Promise.all([getVersionText(oldVersion), getVersionText(newVersion)]),
+    staleTime: Infinity, // Version files never change
+  });
+
+  const diff = useMemo(() => (texts ? diffLines(texts[0], texts[1]) : []), [texts]);
+  const summary = useMemo(() => summarizeDiff(diff), [diff]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+        <span className="ml-2 text-sm text-gray-500">Extracting text...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="p-4 text-sm text-red-600 dark:text-red-400">
+        Failed to compare versions: {(error as Error).message}
+      </p>
+    );
+  }
+
+  if (summary.added === 0 && summary.removed === 0) {
+    return (
+      <p className="p-4 text-sm text-gray-500 dark:text-gray-400">
+        No text differences between v{oldVersion.version_number} and v{newVersion.version_number}
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center space-x-4 px-4 py-2 text-sm border-b border-gray-200 dark:border-gray-700">
+        <span className="text-gray-700 dark:text-gray-300">
+          v{oldVersion.version_number} → v{newVersion.version_number}
+        </span>
+        <span className="text-green-600">+{summary.added}</span>
+        <span className="text-red-600">-{summary.removed}</span>
+      </div>
+      <pre className="max-h-96 overflow-auto text-xs font-mono">
+        {diff.map((line, index) => (
+          <div key={index} className={`flex px-2 ${lineStyles[line.type]}`}>
+            <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-400 select-none">
+              {line.oldLine ?? ''}
+            </span>
+            <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-400 select-none">
+              {line.newLine ?? ''}
+            </span>
+            <span className="w-4 flex-shrink-0 select-none">{linePrefix[line.type]}</span>
+            <span className="whitespace-pre-wrap break-words">{line.text}</span>
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+};
+
+export default VersionDiffView;
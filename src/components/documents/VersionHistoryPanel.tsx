@@ -0,0 +1,233 @@
+import React, { useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Upload, Eye, RotateCcw, GitCompare, X } from 'lucide-react';
+import { useSupabaseAuth } from '../../context/SupabaseAuthContext';
+import {
+  DocumentVersion,
+  getDocumentVersions,
+  createDocumentVersion,
+  restoreDocumentVersion
+} from '../../services/fileVersioning';
+import { useDocumentUrl } from '../../services/documentUrlService';
+import { formatFileSize } from '../../utils/formatters';
+import VersionDiffView from './VersionDiffView';
+
+interface VersionHistoryPanelProps {
+  documentId: string;
+  canChangeFile: boolean; // Only the owner uploads and restores versions
+}
+
+const VersionPreview: React.FC<{ version: DocumentVersion; onClose: () => void }> = ({ version, onClose }) => {
+  const { url, error } = useDocumentUrl(version.file_path);
+  const type = version.mime_type || '';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg w-full max-w-5xl h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white truncate">
+            Version {version.version_number}{version.file_name ? ` — ${version.file_name}` : ''}
+          </h3>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="flex-1 overflow-hidden">
+          {error ? (
+            <p className="p-4 text-red-600">{error.message}</p>
+          ) : !url ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+            </div>
+          ) : type.startsWith('image/') ? (
+            <div className="flex items-center justify-center h-full">
+              <img src={url} alt={`Version ${version.version_number}`} className="max-w-full max-h-full object-contain" />
+            </div>
+          ) : (
+            <iframe src={url} className="w-full h-full border-0" title={`Version ${version.version_number}`} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ documentId, canChangeFile }) => {
+  const { currentUser } = useSupabaseAuth();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [newVersionFile, setNewVersionFile] = useState<File | null>(null);
+  const [changeDescription, setChangeDescription] = useState('');
+  const [previewVersion, setPreviewVersion] = useState<DocumentVersion | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [error, setError] = useState('');
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ['document-versions', documentId],
+    queryFn: () => getDocumentVersions(documentId),
+  });
+
+  const refreshDocument = () => {
+    queryClient.invalidateQueries({ queryKey: ['document-versions', documentId] });
+    queryClient.invalidateQueries({ queryKey: ['document', documentId] });
+    queryClient.invalidateQueries({ queryKey: ['documents'] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: () => createDocumentVersion(
+      documentId,
+      newVersionFile!,
+      currentUser!.id,
+      changeDescription.trim() || undefined
+    ),
+    onSuccess: () => {
+      setNewVersionFile(null);
+      setChangeDescription('');
+      setError('');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      refreshDocument();
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (versionId: string) => restoreDocumentVersion(documentId, versionId, currentUser!.id),
+    onSuccess: () => {
+      setError('');
+      refreshDocument();
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const toggleCompare = (versionId: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(versionId)) return prev.filter(id => id !== versionId);
+      // Keep the most recent two selections
+      return [...prev, versionId].slice(-2);
+    });
+  };
+
+  const compared = versions
+    .filter(version => compareIds.includes(version.id))
+    .sort((a, b) => a.version_number - b.version_number);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+        Version history
+      </h2>
+
+      {/* Upload new version */}
+      {canChangeFile && (
+        <div className="flex flex-col md:flex-row md:items-center gap-3 mb-6">
+          <input
+            ref={fileInputRef}
+            type="file"
+            onChange={(e) => setNewVersionFile(e.target.files?.[0] || null)}
+            className="text-sm text-gray-600 dark:text-gray-300"
+          />
+          <input
+            type="text"
+            value={changeDescription}
+            onChange={(e) => setChangeDescription(e.target.value)}
+            placeholder="What changed?"
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          <button
+            onClick={() => uploadMutation.mutate()}
+            disabled={!newVersionFile || !currentUser || uploadMutation.isPending}
+            className="flex items-center justify-center px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {uploadMutation.isPending ? 'Uploading...' : 'Upload new version'}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {/* Timeline */}
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading versions...</p>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No earlier versions. Uploading a new version keeps the current file in the history.
+        </p>
+      ) : (
+        <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2">
+          {versions.map(version => (
+            <li key={version.id} className="mb-4 ml-4">
+              <div className={`absolute w-3 h-3 rounded-full -left-1.5 mt-1.5 border border-white dark:border-gray-800 ${version.is_current ? 'bg-blue-600' : 'bg-gray-300 dark:bg-gray-600'}`}></div>
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    Version {version.version_number}
+                    {version.is_current && (
+                      <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300">
+                        Current
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(version.created_at).toLocaleString()} • {formatFileSize(version.file_size)}
+                    {version.file_name && ` • ${version.file_name}`}
+                  </p>
+                  {version.change_description && (
+                    <p className="text-sm text-gray-700 dark:text-gray-300 mt-1">{version.change_description}</p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0 ml-4">
+                  <label className="flex items-center p-1 text-gray-400 hover:text-gray-600 cursor-pointer" title="Select to compare">
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(version.id)}
+                      onChange={() => toggleCompare(version.id)}
+                      className="mr-1 rounded border-gray-300"
+                    />
+                    <GitCompare className="h-4 w-4" />
+                  </label>
+                  <button
+                    onClick={() => setPreviewVersion(version)}
+                    className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                    title="Preview version"
+                  >
+                    <Eye className="h-4 w-4" />
+                  </button>
+                  {canChangeFile && !version.is_current && (
+                    <button
+                      onClick={() => restoreMutation.mutate(version.id)}
+                      disabled={restoreMutation.isPending}
+                      className="p-1 text-gray-400 hover:text-blue-600 transition-colors disabled:opacity-50"
+                      title="Restore this version"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Diff */}
+      {compared.length === 2 ? (
+        <div className="mt-4 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+          <VersionDiffView oldVersion={compared[0]} newVersion={compared[1]} />
+        </div>
+      ) : versions.length > 1 && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Select two versions to compare their text.
+        </p>
+      )}
+
+      {previewVersion && (
+        <VersionPreview version={previewVersion} onClose={() => setPreviewVersion(null)} />
+      )}
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
@@ -1,2 +1,6 @@
 export { DocumentList } from './DocumentList';
 export { default as DocumentPagination } from './DocumentPagination';
+export { default as VersionHistoryPanel } from './VersionHistoryPanel';
+export { default as ClassificationEditor } from './ClassificationEditor';
+export { default as DocumentFieldsEditor } from './DocumentFieldsEditor';
+export { default as PdfToolkit } from './PdfToolkit';
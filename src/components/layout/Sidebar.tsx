@@ -1,10 +1,14 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { NavLink } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { useLanguage } from '../../context/LanguageContext';
 import { useSupabaseAuth } from '../../context/SupabaseAuthContext';
 import { getStorageUsage } from '../../services/storageService';
 import { getCategoryStats } from '../../services/aiService';
+import { Category, getCategories, getCategoryIcon } from '../../services/categoryService';
+import { buildCategoryTree, CategoryTreeNode } from '../../utils/categoryRules';
+import { getSharedWithMe } from '../../services/sharingService';
+import { getSavedSearches, getSavedSearchCounts } from '../../services/savedSearchService';
 
 interface SidebarProps {
   isMobile?: boolean;
@@ -41,6 +45,44 @@ const Sidebar: React.FC<SidebarProps> = ({ isMobile = false, onClose }) => {
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
+  // Fetch documents other users have shared with the current user
+  const { data: sharedDocuments = [] } = useQuery({
+    queryKey: ['shared-with-me', currentUser?.id],
+    queryFn: () => getSharedWithMe(currentUser?.id || ''),
+    enabled: !!currentUser?.id,
+    refetchInterval: 30000,
+  });
+
+  // Fetch smart folders and how many documents each one currently matches
+  const { data: savedSearches = [] } = useQuery({
+    queryKey: ['saved-searches', currentUser?.id],
+    queryFn: () => getSavedSearches(currentUser?.id || ''),
+    enabled: !!currentUser?.id,
+  });
+
+  // Keyed under 'documents' so every document mutation that invalidates ['documents']
+  // refreshes the counts; editing a smart folder changes its updated_at
+  const { data: savedSearchCounts = {} } = useQuery({
+    queryKey: [
+      'documents',
+      'saved-search-counts',
+      currentUser?.id,
+      savedSearches.map(search => `${search.id}:${search.updated_at}`),
+    ],
+    queryFn: () => getSavedSearchCounts(savedSearches),
+    enabled: !!currentUser?.id && savedSearches.length > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Fetch the user's categories, nested under their parents
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories', currentUser?.id],
+    queryFn: () => getCategories(currentUser?.id || ''),
+    enabled: !!currentUser?.id,
+  });
+
+  const categoryTree = useMemo(() => buildCategoryTree(categories), [categories]);
+
   const totalStorage = 1 * 1024 * 1024 * 1024; // 1 GB in bytes (Supabase free tier)
   const usedStorage = storageData?.totalSize ?? 0;
   const usagePercentage = totalStorage > 0 ? (usedStorage / totalStorage) * 100 : 0;
@@ -56,6 +98,43 @@ const Sidebar: React.FC<SidebarProps> = ({ isMobile = false, onClose }) => {
     return Object.values(categoryStats).reduce((sum, count) => sum + count, 0);
   };
 
+  // A category's count includes the documents in its sub-categories
+  const getCategoryCount = (category: CategoryTreeNode<Category>): number => {
+    return category.children.reduce((sum, child) => sum + getCategoryCount(child), categoryStats[category.name] || 0);
+  };
+
+  const renderCategory = (category: CategoryTreeNode<Category>): React.ReactNode => {
+    const count = getCategoryCount(category);
+
+    return (
+      <React.Fragment key={category.id}>
+        <NavLink 
+          to={`/category/${category.id}`} 
+          onClick={handleLinkClick}
+          style={{ paddingLeft: `${0.5 + category.depth * 1.25}rem` }}
+          className={({ isActive }) => 
+            `flex items-center justify-between p-2 rounded-lg transition-colors ${
+              isActive 
+                ? 'bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-300' 
+                : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`
+          }
+        >
+          <div className="flex items-center min-w-0">
+            <span className={category.depth > 0 ? 'text-lg' : 'text-2xl'}>{getCategoryIcon(category)}</span>
+            <span className="ml-3 text-sm truncate">{category.name}</span>
+          </div>
+          {count > 0 && (
+            <span className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
+              {count}
+            </span>
+          )}
+        </NavLink>
+        {category.children.map(child => renderCategory(child))}
+      </React.Fragment>
+    );
+  };
+
   return (
     <div
       className={`h-full bg-white dark:bg-gray-800 shadow-md flex flex-col ${
@@ -159,216 +238,55 @@ const Sidebar: React.FC<SidebarProps> = ({ isMobile = false, onClose }) => {
               )}
             </NavLink>
 
-            {/* Personal */}
-            <NavLink 
-              to="/category/personal" 
-              onClick={handleLinkClick}
-              className={({ isActive }) => 
-                `flex items-center justify-between p-2 rounded-lg transition-colors ${
-                  isActive 
-                    ? 'bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-300' 
-                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`
-              }
-            >
-              <div className="flex items-center">
-                <span className="text-2xl">👤</span>
-                <span className="ml-3 text-sm">Personal</span>
-              </div>
-              {(categoryStats['Personal'] || 0) > 0 && (
-                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
-                  {categoryStats['Personal']}
-                </span>
-              )}
-            </NavLink>
-
-            {/* Bills & Utilities */}
-            <NavLink 
-              to="/category/bills" 
-              onClick={handleLinkClick}
-              className={({ isActive }) => 
-                `flex items-center justify-between p-2 rounded-lg transition-colors ${
-                  isActive 
-                    ? 'bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-300' 
-                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`
-              }
-            >
-              <div className="flex items-center">
-                <span className="text-2xl">💡</span>
-                <span className="ml-3 text-sm">Bills & Utilities</span>
-              </div>
-              {(categoryStats['Bills & Utilities'] || 0) > 0 && (
-                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
-                  {categoryStats['Bills & Utilities']}
-                </span>
-              )}
-            </NavLink>
-
-            {/* Medical */}
-            <NavLink 
-              to="/category/medical" 
-              onClick={handleLinkClick}
-              className={({ isActive }) => 
-                `flex items-center justify-between p-2 rounded-lg transition-colors ${
-                  isActive 
-                    ? 'bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-300' 
-                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`
-              }
-            >
-              <div className="flex items-center">
-                <span className="text-2xl">🏥</span>
-                <span className="ml-3 text-sm">Medical</span>
-              </div>
-              {(categoryStats['Medical'] || 0) > 0 && (
-                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
-                  {categoryStats['Medical']}
-                </span>
-              )}
-            </NavLink>
-
-            {/* Legal */}
-            <NavLink 
-              to="/category/legal" 
-              onClick={handleLinkClick}
-              className={({ isActive }) => 
-                `flex items-center justify-between p-2 rounded-lg transition-colors ${
-                  isActive 
-                    ? 'bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-300' 
-                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`
-              }
-            >
-              <div className="flex items-center">
-                <span className="text-2xl">⚖️</span>
-                <span className="ml-3 text-sm">Legal</span>
-              </div>
-              {(categoryStats['Legal'] || 0) > 0 && (
-                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
-                  {categoryStats['Legal']}
-                </span>
-              )}
-            </NavLink>
-
-            {/* Financial */}
-            <NavLink 
-              to="/category/financial" 
-              onClick={handleLinkClick}
-              className={({ isActive }) => 
-                `flex items-center justify-between p-2 rounded-lg transition-colors ${
-                  isActive 
-                    ? 'bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-300' 
-                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`
-              }
-            >
-              <div className="flex items-center">
-                <span className="text-2xl">💰</span>
-                <span className="ml-3 text-sm">Financial</span>
-              </div>
-              {(categoryStats['Financial'] || 0) > 0 && (
-                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
-                  {categoryStats['Financial']}
-                </span>
-              )}
-            </NavLink>
+            {categoryTree.map(category => renderCategory(category))}
+          </li>
 
-            {/* Work & Business */}
-            <NavLink 
-              to="/category/work" 
-              onClick={handleLinkClick}
-              className={({ isActive }) => 
-                `flex items-center justify-between p-2 rounded-lg transition-colors ${
-                  isActive 
-                    ? 'bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-300' 
-                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`
-              }
-            >
-              <div className="flex items-center">
-                <span className="text-2xl">💼</span>
-                <span className="ml-3 text-sm">Work & Business</span>
-              </div>
-              {(categoryStats['Work & Business'] || 0) > 0 && (
-                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
-                  {categoryStats['Work & Business']}
+          {/* Smart Folders */}
+          {savedSearches.length > 0 && (
+            <li className="pt-4">
+              <div className="flex items-center px-2 mb-2">
+                <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Smart Folders
                 </span>
-              )}
-            </NavLink>
-
-            {/* Education */}
-            <NavLink 
-              to="/category/education" 
-              onClick={handleLinkClick}
-              className={({ isActive }) => 
-                `flex items-center justify-between p-2 rounded-lg transition-colors ${
-                  isActive 
-                    ? 'bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-300' 
-                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`
-              }
-            >
-              <div className="flex items-center">
-                <span className="text-2xl">🎓</span>
-                <span className="ml-3 text-sm">Education</span>
               </div>
-              {(categoryStats['Education'] || 0) > 0 && (
-                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
-                  {categoryStats['Education']}
-                </span>
-              )}
-            </NavLink>
 
-            {/* Travel */}
-            <NavLink 
-              to="/category/travel" 
-              onClick={handleLinkClick}
-              className={({ isActive }) => 
-                `flex items-center justify-between p-2 rounded-lg transition-colors ${
-                  isActive 
-                    ? 'bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-300' 
-                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`
-              }
-            >
-              <div className="flex items-center">
-                <span className="text-2xl">✈️</span>
-                <span className="ml-3 text-sm">Travel</span>
-              </div>
-              {(categoryStats['Travel'] || 0) > 0 && (
-                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
-                  {categoryStats['Travel']}
-                </span>
-              )}
-            </NavLink>
+              {savedSearches.map(search => (
+                <NavLink 
+                  key={search.id}
+                  to={`/smart-folder/${search.id}`} 
+                  onClick={handleLinkClick}
+                  className={({ isActive }) => 
+                    `flex items-center justify-between p-2 rounded-lg transition-colors ${
+                      isActive 
+                        ? 'bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-300' 
+                        : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`
+                  }
+                >
+                  <div className="flex items-center min-w-0">
+                    <span className="text-2xl">{search.icon || '🔎'}</span>
+                    <span className="ml-3 text-sm truncate">{search.name}</span>
+                  </div>
+                  {savedSearchCounts[search.id] !== undefined && (
+                    <span className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
+                      {savedSearchCounts[search.id]}
+                    </span>
+                  )}
+                </NavLink>
+              ))}
+            </li>
+          )}
 
-            {/* Insurance */}
-            <NavLink 
-              to="/category/insurance" 
-              onClick={handleLinkClick}
-              className={({ isActive }) => 
-                `flex items-center justify-between p-2 rounded-lg transition-colors ${
-                  isActive 
-                    ? 'bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-300' 
-                    : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`
-              }
-            >
-              <div className="flex items-center">
-                <span className="text-2xl">🛡️</span>
-                <span className="ml-3 text-sm">Insurance</span>
-              </div>
-              {(categoryStats['Insurance'] || 0) > 0 && (
-                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
-                  {categoryStats['Insurance']}
-                </span>
-              )}
-            </NavLink>
+          {/* Shared */}
+          <li className="pt-4">
+            <div className="flex items-center px-2 mb-2">
+              <span className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Sharing
+              </span>
+            </div>
 
-            {/* Other */}
             <NavLink 
-              to="/category/other" 
+              to="/shared" 
               onClick={handleLinkClick}
               className={({ isActive }) => 
                 `flex items-center justify-between p-2 rounded-lg transition-colors ${
@@ -379,12 +297,12 @@ const Sidebar: React.FC<SidebarProps> = ({ isMobile = false, onClose }) => {
               }
             >
               <div className="flex items-center">
-                <span className="text-2xl">📄</span>
-                <span className="ml-3 text-sm">Other</span>
+                <span className="text-2xl">👥</span>
+                <span className="ml-3 text-sm">Shared with me</span>
               </div>
-              {(categoryStats['Other'] || 0) > 0 && (
-                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
-                  {categoryStats['Other']}
+              {sharedDocuments.length > 0 && (
+                <span className="text-xs px-2 py-1 rounded-full bg-blue-100 dark:bg-blue-800 text-blue-700 dark:text-blue-300">
+                  {sharedDocuments.length}
                 </span>
               )}
             </NavLink>
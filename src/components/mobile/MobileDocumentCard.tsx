@@ -3,6 +3,8 @@ import { Document } from '../../types/document';
 import { useLanguage } from '../../context/LanguageContext';
 import { formatDistanceToNow } from 'date-fns';
 import { formatFileSize } from '../../utils/formatters';
+import { LazyImage } from '../performance/LazyImage';
+import { getStoragePath, resolveDocumentUrl } from '../../services/documentUrlService';
 
 interface MobileDocumentCardProps {
   document: Document;
@@ -21,6 +23,21 @@ const MobileDocumentCard: React.FC<MobileDocumentCardProps> = ({
 }) => {
   const { translate } = useLanguage();
   const [showActions, setShowActions] = useState(false);
+  const storagePath = getStoragePath(document);
+
+  // Fall back to a signed download link when the parent doesn't handle downloads
+  const handleDownload = async () => {
+    if (onDownload) {
+      onDownload(document);
+      return;
+    }
+
+    try {
+      window.location.href = await resolveDocumentUrl(document, { download: document.name });
+    } catch (error) {
+      console.error('Error downloading document:', error);
+    }
+  };
 
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
@@ -86,6 +103,18 @@ const MobileDocumentCard: React.FC<MobileDocumentCardProps> = ({
         </button>
       </div>
 
+      {/* Image preview */}
+      {document.type.startsWith('image/') && storagePath && (
+        <div className="mb-3 cursor-pointer" onClick={() => onView(document)}>
+          <LazyImage
+            path={storagePath}
+            alt={document.name}
+            height={160}
+            className="relative w-full rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-700"
+          />
+        </div>
+      )}
+
       {/* Metadata */}
       <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 mb-3">
         <span>{formatFileSize(document.size)}</span>
@@ -126,10 +155,10 @@ const MobileDocumentCard: React.FC<MobileDocumentCardProps> = ({
               <span>{translate('common.view')}</span>
             </button>
 
-            {onDownload && (
+            {storagePath && (
               <button
                 onClick={() => {
-                  onDownload(document);
+                  handleDownload();
                   setShowActions(false);
                 }}
                 className="flex items-center justify-center space-x-2 px-3 py-2 text-sm text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20 rounded-lg hover:bg-green-100 dark:hover:bg-green-900/30"
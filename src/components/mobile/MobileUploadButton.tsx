@@ -1,29 +1,42 @@
 import React, { useRef, useState } from 'react';
 import { useLanguage } from '../../context/LanguageContext';
+import ScanAssembler from '../upload/ScanAssembler';
 
 interface MobileUploadButtonProps {
   onFileSelect: (files: FileList) => void;
   isUploading?: boolean;
+  uploadProgress?: number; // 0-100, reported by resumable uploads
   disabled?: boolean;
   multiple?: boolean;
   accept?: string;
+  // Offers to scan several photos into one PDF when set. Camera photos then open in the
+  // scanner too, so their page edges are found and they come out looking scanned.
+  onScanComplete?: (pdf: File) => void;
 }
 
 const MobileUploadButton: React.FC<MobileUploadButtonProps> = ({
   onFileSelect,
   isUploading = false,
+  uploadProgress,
   disabled = false,
   multiple = true,
-  accept = '.pdf,.doc,.docx,.txt,.jpg,.jpeg,.png,.gif'
+  accept = '.pdf,.doc,.docx,.txt,.jpg,.jpeg,.png,.gif',
+  onScanComplete
 }) => {
   const { translate } = useLanguage();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [scanFiles, setScanFiles] = useState<File[] | null>(null);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
+    const fromCamera = event.target.hasAttribute('capture');
     if (files && files.length > 0) {
-      onFileSelect(files);
+      if (fromCamera && onScanComplete) {
+        setScanFiles(Array.from(files));
+      } else {
+        onFileSelect(files);
+      }
     }
     // Reset input value to allow selecting the same file again
     if (fileInputRef.current) {
@@ -57,10 +70,26 @@ const MobileUploadButton: React.FC<MobileUploadButtonProps> = ({
 
   const handleClick = () => {
     if (!disabled && !isUploading && fileInputRef.current) {
+      // Undo a previous "Take photo" so files can be chosen again
+      fileInputRef.current.removeAttribute('capture');
+      fileInputRef.current.setAttribute('accept', accept);
       fileInputRef.current.click();
     }
   };
 
+  if (scanFiles && onScanComplete) {
+    return (
+      <ScanAssembler
+        initialFiles={scanFiles}
+        onComplete={pdf => {
+          setScanFiles(null);
+          onScanComplete(pdf);
+        }}
+        onCancel={() => setScanFiles(null)}
+      />
+    );
+  }
+
   return (
     <div className="relative">
       {/* Hidden file input */}
@@ -143,15 +172,26 @@ const MobileUploadButton: React.FC<MobileUploadButtonProps> = ({
                 </svg>
               </div>
               <p className="text-sm font-medium text-gray-900 dark:text-white">
-                {translate('upload.processing')}
+                {uploadProgress !== undefined && uploadProgress < 100
+                  ? `${translate('upload.uploading')} ${Math.round(uploadProgress)}%`
+                  : translate('upload.processing')
+                }
               </p>
+              {uploadProgress !== undefined && uploadProgress < 100 && (
+                <div className="w-40 mx-auto mt-2 bg-gray-200 dark:bg-gray-600 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all duration-300 ease-out"
+                    style={{ width: `${uploadProgress}%` }}
+                  />
+                </div>
+              )}
             </div>
           </div>
         )}
       </div>
 
       {/* Quick action buttons for mobile */}
-      <div className="mt-4 grid grid-cols-2 gap-3">
+      <div className={`mt-4 grid gap-3 ${onScanComplete ? 'grid-cols-3' : 'grid-cols-2'}`}>
         <button
           onClick={handleClick}
           disabled={disabled || isUploading}
@@ -185,6 +225,21 @@ const MobileUploadButton: React.FC<MobileUploadButtonProps> = ({
             {translate('upload.takePhoto')}
           </span>
         </button>
+
+        {onScanComplete && (
+          <button
+            onClick={() => setScanFiles([])}
+            disabled={disabled || isUploading}
+            className="flex items-center justify-center space-x-2 px-4 py-3 bg-gray-700 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+            </svg>
+            <span className="text-sm font-medium">
+              {translate('upload.scanPages')}
+            </span>
+          </button>
+        )}
       </div>
     </div>
   );
@@ -1,8 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { usePerformanceOptimization } from '../../services/performanceOptimizer';
+import { useDocumentUrl } from '../../services/documentUrlService';
 
 interface LazyImageProps {
-  src: string;
+  src?: string;
+  path?: string; // Storage path in the private documents bucket; signed on demand
+
   alt: string;
   width?: number;
   height?: number;
@@ -15,6 +18,7 @@ interface LazyImageProps {
 
 export const LazyImage: React.FC<LazyImageProps> = ({
   src,
+  path,
   alt,
   width,
   height,
@@ -29,6 +33,7 @@ export const LazyImage: React.FC<LazyImageProps> = ({
   const [hasError, setHasError] = useState(false);
   const imgRef = useRef<HTMLImageElement>(null);
   const { optimizeImageUrl } = usePerformanceOptimization();
+  const { url: signedUrl, error: urlError } = useDocumentUrl(path && isInView ? path : null);
 
   useEffect(() => {
     const observer = new IntersectionObserver(
@@ -51,7 +56,8 @@ export const LazyImage: React.FC<LazyImageProps> = ({
     return () => observer.disconnect();
   }, []);
 
-  const optimizedSrc = optimizeImageUrl(src, width, height, quality);
+  const resolvedSrc = path ? signedUrl : src;
+  const optimizedSrc = resolvedSrc ? optimizeImageUrl(resolvedSrc, width, height, quality) : null;
 
   const handleLoad = () => {
     setIsLoaded(true);
@@ -85,7 +91,7 @@ export const LazyImage: React.FC<LazyImageProps> = ({
     <div className={`lazy-image-container ${className}`} style={{ width, height }}>
       <img
         ref={imgRef}
-        src={hasError ? errorSrc : (isInView ? optimizedSrc : placeholderSrc)}
+        src={hasError || urlError ? errorSrc : (isInView && optimizedSrc ? optimizedSrc : placeholderSrc)}
         alt={alt}
         width={width}
         height={height}
@@ -98,7 +104,7 @@ export const LazyImage: React.FC<LazyImageProps> = ({
         decoding="async"
       />
       
-      {!isLoaded && isInView && !hasError && (
+      {!isLoaded && isInView && !hasError && !urlError && (
         <div className="absolute inset-0 flex items-center justify-center bg-gray-100">
           <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
         </div>
@@ -1,6 +1,9 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useLanguage } from '../../context/LanguageContext';
-import { SearchFilters } from '../../services/searchService';
+import { SearchFilters, getSearchFacets } from '../../services/searchService';
+import { parseSearchQuery } from '../../utils/searchQuery';
+import SearchFacets from './SearchFacets';
 
 interface AdvancedSearchProps {
   onSearch: (query: string, filters: SearchFilters) => void;
@@ -11,6 +14,21 @@ const AdvancedSearch: React.FC<AdvancedSearchProps> = ({ onSearch, onClose }) =>
   const { translate } = useLanguage();
   const [query, setQuery] = useState('');
   const [filters, setFilters] = useState<SearchFilters>({});
+  const syntaxErrors = useMemo(() => parseSearchQuery(query).errors, [query]);
+  const [facetQuery, setFacetQuery] = useState('');
+
+  // Refresh the refinements once typing settles on a valid query
+  useEffect(() => {
+    if (syntaxErrors.length > 0) return;
+    const timeout = setTimeout(() => setFacetQuery(query), 300);
+    return () => clearTimeout(timeout);
+  }, [query, syntaxErrors.length]);
+
+  const { data: facets } = useQuery({
+    queryKey: ['search-facets', facetQuery, filters],
+    queryFn: () => getSearchFacets(facetQuery, filters),
+    retry: false,
+  });
 
   const categories = [
     'Financial', 'Legal', 'Medical', 'Academic', 'Business', 'Personal', 'Other'
@@ -33,6 +51,7 @@ const AdvancedSearch: React.FC<AdvancedSearchProps> = ({ onSearch, onClose }) =>
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (syntaxErrors.length > 0) return;
     onSearch(query, filters);
   };
 
@@ -68,11 +87,44 @@ const AdvancedSearch: React.FC<AdvancedSearchProps> = ({ onSearch, onClose }) =>
               type="text"
               value={query}
               onChange={(e) => setQuery(e.target.value)}
-              placeholder="Enter search terms..."
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              placeholder='e.g. invoice category:Financial size:>1mb uploaded:2024-01..2024-06'
+              aria-invalid={syntaxErrors.length > 0}
+              className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm ${
+                syntaxErrors.length > 0 ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+              }`}
             />
+            {syntaxErrors.length > 0 ? (
+              <ul className="mt-2 space-y-1">
+                {syntaxErrors.map(error => (
+                  <li key={`${error.start}-${error.message}`} className="text-sm text-red-600 dark:text-red-400">
+                    <code className="px-1 bg-red-50 dark:bg-red-900/30 rounded">
+                      {query.slice(error.start, error.end) || query.slice(error.start) || '…'}
+                    </code>{' '}
+                    {error.message}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Fields: <code>category:</code>, <code>tag:</code>, <code>type:pdf</code>, <code>size:&gt;5mb</code>,{' '}
+                <code>uploaded:2024-01..2024-06</code>, <code>lang:mk</code>; on invoices <code>vendor:</code>,{' '}
+                <code>amount:&gt;100</code>, <code>due:&lt;2024-07-01</code>, <code>issued:2024</code>,{' '}
+                <code>currency:eur</code>. Use "quotes" for phrases,{' '}
+                <code>-</code> to exclude and <code>OR</code> between terms.
+              </p>
+            )}
           </div>
 
+          {/* Refinements for the current query */}
+          {facets && facets.total > 0 && (
+            <div className="p-4 bg-gray-50 dark:bg-gray-900 rounded-lg">
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                {facets.total} matching document{facets.total === 1 ? '' : 's'} — click to refine
+              </p>
+              <SearchFacets facets={facets} query={query} onQueryChange={setQuery} />
+            </div>
+          )}
+
           {/* Category Filter */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -204,7 +256,8 @@ const AdvancedSearch: React.FC<AdvancedSearchProps> = ({ onSearch, onClose }) =>
             </button>
             <button
               type="submit"
-              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              disabled={syntaxErrors.length > 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Search
             </button>
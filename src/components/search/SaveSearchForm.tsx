@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { FolderPlus } from 'lucide-react';
+import { useSupabaseAuth } from '../../context/SupabaseAuthContext';
+import { SearchFilters, SearchSortField } from '../../services/searchService';
+import { createSavedSearch } from '../../services/savedSearchService';
+
+interface SaveSearchFormProps {
+  query: string;
+  filters: SearchFilters;
+}
+
+const sortOptions: Array<{ value: string; label: string }> = [
+  { value: 'relevance:desc', label: 'Best match' },
+  { value: 'created_at:desc', label: 'Newest first' },
+  { value: 'created_at:asc', label: 'Oldest first' },
+  { value: 'name:asc', label: 'Name (A-Z)' },
+  { value: 'size:desc', label: 'Largest first' }
+];
+
+const SaveSearchForm: React.FC<SaveSearchFormProps> = ({ query, filters }) => {
+  const { currentUser } = useSupabaseAuth();
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [sort, setSort] = useState(sortOptions[0].value);
+  const [error, setError] = useState('');
+  const [savedName, setSavedName] = useState('');
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const [sortBy, sortOrder] = sort.split(':') as [SearchSortField, 'asc' | 'desc'];
+      return createSavedSearch(currentUser!.id, { name, query, filters, sortBy, sortOrder });
+    },
+    onSuccess: (saved) => {
+      setSavedName(saved.name);
+      setName('');
+      setError('');
+      setIsOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['saved-searches', currentUser?.id] });
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  if (!isOpen) {
+    return (
+      <div className="flex items-center text-sm">
+        <button
+          onClick={() => {
+            setIsOpen(true);
+            setSavedName('');
+          }}
+          disabled={!currentUser}
+          className="flex items-center text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+        >
+          <FolderPlus className="h-4 w-4 mr-1" />
+          Save as smart folder
+        </button>
+        {savedName && (
+          <span className="ml-3 text-green-600 dark:text-green-400">Saved "{savedName}"</span>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveMutation.mutate();
+      }}
+      className="flex flex-col md:flex-row md:items-center gap-2 text-sm"
+    >
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Smart folder name, e.g. Unpaid invoices 2024"
+        autoFocus
+        className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+      />
+      <select
+        value={sort}
+        onChange={(e) => setSort(e.target.value)}
+        className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+      >
+        {sortOptions.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <button
+        type="submit"
+        disabled={!name.trim() || saveMutation.isPending}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+      >
+        {saveMutation.isPending ? 'Saving...' : 'Save'}
+      </button>
+      <button
+        type="button"
+        onClick={() => {
+          setIsOpen(false);
+          setError('');
+        }}
+        className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+      >
+        Cancel
+      </button>
+      {error && <p className="text-red-600 dark:text-red-400 md:ml-2">{error}</p>}
+    </form>
+  );
+};
+
+export default SaveSearchForm;
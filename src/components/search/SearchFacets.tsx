@@ -0,0 +1,75 @@
+import React from 'react';
+import { SearchFacets as SearchFacetsData, SearchFacetName } from '../../services/searchService';
+import { formatFieldTerm, hasQueryTerm, toggleQueryTerm, SearchField } from '../../utils/searchQuery';
+
+interface SearchFacetsProps {
+  facets?: SearchFacetsData;
+  query: string;
+  onQueryChange: (query: string) => void;
+}
+
+// Facets in display order, with the query-language field each one refines
+const facetGroups: Array<{ name: SearchFacetName; label: string; field: SearchField }> = [
+  { name: 'category', label: 'Category', field: 'category' },
+  { name: 'document_type', label: 'Document type', field: 'doctype' },
+  { name: 'type', label: 'File type', field: 'type' },
+  { name: 'language', label: 'Language', field: 'lang' },
+  { name: 'tags', label: 'Tags', field: 'tag' },
+  { name: 'uploaded_year', label: 'Uploaded', field: 'uploaded' },
+  { name: 'uploaded_month', label: 'Month', field: 'uploaded' }
+];
+
+const formatBucketLabel = (name: SearchFacetName, value: string): string => {
+  if (name === 'type') return value.split('/').pop()?.toUpperCase() || value;
+  if (name === 'uploaded_month') {
+    const [year, month] = value.split('-').map(Number);
+    return new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+  }
+  return value;
+};
+
+const SearchFacets: React.FC<SearchFacetsProps> = ({ facets, query, onQueryChange }) => {
+  if (!facets || facets.total === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      {facetGroups.map(group => {
+        const buckets = facets[group.name];
+        if (!buckets || buckets.length === 0) return null;
+
+        return (
+          <div key={group.name}>
+            <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">
+              {group.label}
+            </h4>
+            <div className="flex flex-wrap gap-1">
+              {buckets.map(bucket => {
+                const term = formatFieldTerm(group.field, bucket.value);
+                const isActive = hasQueryTerm(query, term);
+
+                return (
+                  <button
+                    key={bucket.value}
+                    type="button"
+                    onClick={() => onQueryChange(toggleQueryTerm(query, term))}
+                    title={term}
+                    className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                      isActive
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {formatBucketLabel(group.name, bucket.value)}
+                    <span className={`ml-1 ${isActive ? 'text-blue-100' : 'text-gray-400'}`}>{bucket.count}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SearchFacets;
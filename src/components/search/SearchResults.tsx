@@ -0,0 +1,84 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { FileText } from 'lucide-react';
+import { SearchResult } from '../../services/searchService';
+import { parseHighlightedSnippet } from '../../utils/highlight';
+import { formatFileSize } from '../../utils/formatters';
+
+interface SearchResultsProps {
+  result?: SearchResult;
+  isLoading: boolean;
+  error?: Error | null;
+}
+
+const Snippet: React.FC<{ snippet: string | null }> = ({ snippet }) => {
+  const segments = parseHighlightedSnippet(snippet);
+  if (segments.length === 0) return null;
+
+  return (
+    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 line-clamp-2">
+      {segments.map((segment, index) => segment.highlighted ? (
+        <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 text-gray-900 dark:text-white rounded px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      ))}
+    </p>
+  );
+};
+
+const SearchResults: React.FC<SearchResultsProps> = ({ result, isLoading, error }) => {
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+        <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">Searching...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="p-4 text-sm text-red-600 dark:text-red-400">{error.message}</p>;
+  }
+
+  if (!result) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 text-sm text-gray-500 dark:text-gray-400">
+        {result.totalCount} result{result.totalCount === 1 ? '' : 's'} ({result.searchTime} ms)
+      </div>
+      {result.hits.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500 dark:text-gray-400">No documents match your search.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {result.hits.map(hit => (
+            <li key={hit.document.id}>
+              <Link
+                to={`/document/${hit.document.id}`}
+                className="flex items-start p-4 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                <FileText className="h-5 w-5 text-gray-400 mt-0.5 flex-shrink-0" />
+                <div className="ml-3 min-w-0 flex-1">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{hit.document.name}</p>
+                    <span className="ml-4 text-xs text-gray-400 flex-shrink-0" title="Relevance">
+                      {hit.score.toFixed(3)}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {hit.document.category || 'Uncategorized'} • {formatFileSize(hit.document.size)}
+                  </p>
+                  <Snippet snippet={hit.snippet} />
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchResults;
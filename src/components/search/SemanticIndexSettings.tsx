@@ -0,0 +1,42 @@
+import React from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { useSupabaseAuth } from '../../context/SupabaseAuthContext';
+import { indexMissingEmbeddings } from '../../services/documentEmbeddingService';
+import { getEmbeddingProvider } from '../../services/embeddingService';
+
+const SemanticIndexSettings: React.FC = () => {
+  const { currentUser } = useSupabaseAuth();
+
+  const indexMutation = useMutation({
+    mutationFn: () => indexMissingEmbeddings(currentUser!.id),
+  });
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold mb-2">Semantic search</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        New documents are indexed after processing. Index documents processed earlier, or after
+        switching embedding models, to include them in semantic results.
+        Current model: <code>{getEmbeddingProvider().model}</code>
+      </p>
+      <button
+        onClick={() => indexMutation.mutate()}
+        disabled={!currentUser || indexMutation.isPending}
+        className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+      >
+        {indexMutation.isPending ? 'Indexing...' : 'Index unindexed documents'}
+      </button>
+      {indexMutation.data && (
+        <p className="text-sm text-green-600 dark:text-green-400 mt-3">
+          Indexed {indexMutation.data.indexed} document{indexMutation.data.indexed === 1 ? '' : 's'}
+          {indexMutation.data.failed > 0 && `, ${indexMutation.data.failed} failed`}
+        </p>
+      )}
+      {indexMutation.error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mt-3">{indexMutation.error.message}</p>
+      )}
+    </div>
+  );
+};
+
+export default SemanticIndexSettings;
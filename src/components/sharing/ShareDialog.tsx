@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { X, Trash2 } from 'lucide-react';
+import { useSupabaseAuth } from '../../context/SupabaseAuthContext';
+import {
+  shareDocument,
+  revokeShare,
+  getDocumentShares,
+  isShareActive,
+  SharePermission
+} from '../../services/sharingService';
+import ShareLinkPanel from './ShareLinkPanel';
+
+interface ShareDialogProps {
+  documentId: string;
+  documentName: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const permissionLabels: Record<SharePermission, string> = {
+  read: 'Can view',
+  write: 'Can edit',
+  admin: 'Can manage sharing'
+};
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ documentId, documentName, isOpen, onClose }) => {
+  const { currentUser } = useSupabaseAuth();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [permission, setPermission] = useState<SharePermission>('read');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const { data: shares = [], isLoading } = useQuery({
+    queryKey: ['document-shares', documentId],
+    queryFn: () => getDocumentShares(documentId),
+    enabled: isOpen,
+  });
+
+  const shareMutation = useMutation({
+    mutationFn: () => shareDocument(
+      documentId,
+      email,
+      permission,
+      // Expire at the end of the chosen day
+      expiresAt ? new Date(`${expiresAt}T23:59:59`) : undefined
+    ),
+    onSuccess: () => {
+      setNotice(`If ${email.trim()} has a DocVault account, they can now open this document.`);
+      setEmail('');
+      setExpiresAt('');
+      setError('');
+      queryClient.invalidateQueries({ queryKey: ['document-shares', documentId] });
+    },
+    onError: (err: Error) => {
+      setNotice('');
+      setError(err.message);
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (shareId: string) => revokeShare(shareId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['document-shares', documentId] });
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !currentUser) return;
+    shareMutation.mutate();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white truncate">
+            Share "{documentName}"
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Email address
+            </label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="accountant@example.com"
+              required
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Permission
+              </label>
+              <select
+                value={permission}
+                onChange={(e) => setPermission(e.target.value as SharePermission)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                {(Object.keys(permissionLabels) as SharePermission[]).map(value => (
+                  <option key={value} value={value}>{permissionLabels[value]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Expires (optional)
+              </label>
+              <input
+                type="date"
+                value={expiresAt}
+                min={new Date().toISOString().split('T')[0]}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          {notice && (
+            <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+              <p className="text-sm text-green-700 dark:text-green-400">{notice}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={shareMutation.isPending || !email.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {shareMutation.isPending ? 'Sharing...' : 'Share'}
+            </button>
+          </div>
+        </form>
+
+        {/* Existing shares */}
+        <div className="px-6 pb-6">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
+            People with access
+          </h3>
+          {isLoading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Not shared with anyone yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {shares.map(share => (
+                <li key={share.id} className="flex items-center justify-between py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900 dark:text-white truncate">
+                      {share.shared_with_email || share.shared_with}
+                    </p>
+                    <p className={`text-xs ${isShareActive(share) ? 'text-gray-500 dark:text-gray-400' : 'text-red-500'}`}>
+                      {permissionLabels[share.permission]}
+                      {share.expires_at && (
+                        isShareActive(share)
+                          ? ` • expires ${new Date(share.expires_at).toLocaleDateString()}`
+                          : ' • expired'
+                      )}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => revokeMutation.mutate(share.id)}
+                    disabled={revokeMutation.isPending}
+                    className="p-1 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                    title="Revoke access"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <ShareLinkPanel documentId={documentId} />
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Copy, Check, Link2Off, Lock } from 'lucide-react';
+import {
+  createShareLink,
+  getShareLinks,
+  revokeShareLink,
+  getShareLinkUrl,
+  isShareLinkActive,
+  ShareLink
+} from '../../services/shareLinkService';
+
+interface ShareLinkPanelProps {
+  documentId: string;
+}
+
+const describeLink = (link: ShareLink) => {
+  const parts: string[] = [link.view_only ? 'View only' : 'View & download'];
+  if (link.has_password) parts.push('password');
+  if (link.expires_at) parts.push(`until ${new Date(link.expires_at).toLocaleDateString()}`);
+  if (link.max_downloads !== null) parts.push(`${link.download_count}/${link.max_downloads} downloads`);
+  if (link.revoked_at) parts.push('revoked');
+  return parts.join(' • ');
+};
+
+const ShareLinkPanel: React.FC<ShareLinkPanelProps> = ({ documentId }) => {
+  const queryClient = useQueryClient();
+  const [password, setPassword] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const [viewOnly, setViewOnly] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const { data: links = [] } = useQuery({
+    queryKey: ['share-links', documentId],
+    queryFn: () => getShareLinks(documentId),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => createShareLink(documentId, {
+      password: password || undefined,
+      expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`) : undefined,
+      maxDownloads: maxDownloads ? parseInt(maxDownloads, 10) : undefined,
+      viewOnly
+    }),
+    onSuccess: (link) => {
+      setPassword('');
+      setExpiresAt('');
+      setMaxDownloads('');
+      setViewOnly(false);
+      setError('');
+      handleCopy(link);
+      queryClient.invalidateQueries({ queryKey: ['share-links', documentId] });
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (linkId: string) => revokeShareLink(linkId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['share-links', documentId] });
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(link.token));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy share link:', err);
+    }
+  };
+
+  const inputClassName = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+  return (
+    <div className="px-6 pb-6 border-t border-gray-200 dark:border-gray-700 pt-6">
+      <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
+        Public links
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password (optional)"
+          autoComplete="new-password"
+          className={inputClassName}
+        />
+        <input
+          type="date"
+          value={expiresAt}
+          min={new Date().toISOString().split('T')[0]}
+          onChange={(e) => setExpiresAt(e.target.value)}
+          title="Expires"
+          className={inputClassName}
+        />
+        <input
+          type="number"
+          min={1}
+          value={maxDownloads}
+          onChange={(e) => setMaxDownloads(e.target.value)}
+          placeholder="Max downloads"
+          disabled={viewOnly}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="flex items-center justify-between mb-4">
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={viewOnly}
+            onChange={(e) => setViewOnly(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>View only (no download)</span>
+        </label>
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {createMutation.isPending ? 'Creating...' : 'Create link'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-3">{error}</p>
+      )}
+
+      {links.length > 0 && (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {links.map(link => {
+            const active = isShareLinkActive(link);
+            return (
+              <li key={link.id} className="flex items-center justify-between py-2">
+                <div className="min-w-0">
+                  <p className={`text-sm truncate flex items-center ${active ? 'text-gray-900 dark:text-white' : 'text-gray-400 line-through'}`}>
+                    {link.has_password && <Lock className="h-3 w-3 mr-1 flex-shrink-0" />}
+                    …/s/{link.token.slice(0, 12)}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{describeLink(link)}</p>
+                </div>
+                {active && (
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => handleCopy(link)}
+                      className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                      title="Copy link"
+                    >
+                      {copiedId === link.id ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                    </button>
+                    <button
+                      onClick={() => revokeMutation.mutate(link.id)}
+                      disabled={revokeMutation.isPending}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                      title="Revoke link"
+                    >
+                      <Link2Off className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ShareLinkPanel;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useSupabaseAuth } from '../../context/SupabaseAuthContext';
 import { supabase } from '../../services/supabase';
+import { Document, findDuplicateGroups, removeDuplicateDocuments, DuplicateCleanupResult } from '../../services/documentService';
 import { useLanguage } from '../../context/LanguageContext';
 
 interface StorageStats {
@@ -9,6 +10,7 @@ interface StorageStats {
   documentCount: number;
   categoryBreakdown: Record<string, { size: number; count: number }>;
   largestFiles: Array<{ name: string; size: number; id: string }>;
+  duplicateGroups: Document[][]; // Copies with identical contents, oldest first
 }
 
 const StorageOptimizer: React.FC = () => {
@@ -17,6 +19,9 @@ const StorageOptimizer: React.FC = () => {
   const [stats, setStats] = useState<StorageStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isOptimizing, setIsOptimizing] = useState(false);
+  const [lastCleanup, setLastCleanup] = useState<DuplicateCleanupResult | null>(null);
+  // Copy to keep per checksum; every other copy in the group is removed
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
 
   useEffect(() => {
     if (currentUser?.id) {
@@ -55,12 +60,17 @@ const StorageOptimizer: React.FC = () => {
         .slice(0, 10)
         .map(doc => ({ name: doc.name, size: doc.size, id: doc.id })) || [];
 
+      // Keep the oldest copy of each group unless the user picks another
+      const duplicateGroups = await findDuplicateGroups(currentUser!.id);
+      setKeepIds(Object.fromEntries(duplicateGroups.map(group => [group[0].checksum!, group[0].id])));
+
       setStats({
         totalSize,
         usedSize: totalSize,
         documentCount,
         categoryBreakdown,
-        largestFiles
+        largestFiles,
+        duplicateGroups
       });
     } catch (error) {
       console.error('Error loading storage stats:', error);
@@ -69,17 +79,19 @@ const StorageOptimizer: React.FC = () => {
     }
   };
 
-  const optimizeStorage = async () => {
+  const duplicatesToRemove = (stats?.duplicateGroups || [])
+    .flatMap(group => group.filter(doc => doc.id !== keepIds[doc.checksum!]));
+
+  const removeDuplicates = async () => {
+    const bytes = duplicatesToRemove.reduce((sum, doc) => sum + (doc.size || 0), 0);
+    if (!window.confirm(`Delete ${duplicatesToRemove.length} duplicate cop${duplicatesToRemove.length !== 1 ? 'ies' : 'y'} (${formatFileSize(bytes)})? Their names, categories, tags and shares are deleted with them.`)) {
+      return;
+    }
+
     setIsOptimizing(true);
     try {
-      // Simulate storage optimization
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // In a real implementation, this would:
-      // 1. Compress images
-      // 2. Remove duplicate files
-      // 3. Archive old documents
-      // 4. Clean up orphaned files
+      const result = await removeDuplicateDocuments(duplicatesToRemove);
+      setLastCleanup(result);
       
       await loadStorageStats();
     } catch (error) {
@@ -121,13 +133,6 @@ const StorageOptimizer: React.FC = () => {
         <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
           Storage Overview
         </h2>
-        <button
-          onClick={optimizeStorage}
-          disabled={isOptimizing}
-          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          {isOptimizing ? 'Optimizing...' : 'Optimize Storage'}
-        </button>
       </div>
 
       {/* Storage Usage */}
@@ -170,6 +175,61 @@ const StorageOptimizer: React.FC = () => {
         </div>
       </div>
 
+      {/* Duplicates */}
+      <div className="mb-6 bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Duplicate files
+          </span>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {stats.duplicateGroups.length} group{stats.duplicateGroups.length !== 1 ? 's' : ''}
+          </span>
+        </div>
+        {stats.duplicateGroups.map(group => (
+          <fieldset key={group[0].checksum} className="mt-3 border-t border-gray-200 dark:border-gray-600 pt-2">
+            <legend className="sr-only">Copy of {group[0].name} to keep</legend>
+            {group.map(doc => (
+              <label key={doc.id} className="flex items-start space-x-2 py-1 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  name={`keep-${doc.checksum}`}
+                  checked={keepIds[doc.checksum!] === doc.id}
+                  onChange={() => setKeepIds(prev => ({ ...prev, [doc.checksum!]: doc.id }))}
+                  className="mt-1 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="min-w-0">
+                  <span className="block text-gray-700 dark:text-gray-300 truncate">{doc.name}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {[
+                      doc.category || 'Uncategorized',
+                      doc.tags?.length ? doc.tags.join(', ') : null,
+                      `added ${new Date(doc.created_at).toLocaleDateString()}`,
+                      formatFileSize(doc.size || 0)
+                    ].filter(Boolean).join(' • ')}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+        ))}
+        {duplicatesToRemove.length > 0 && (
+          <div className="flex justify-end mt-3">
+            <button
+              onClick={removeDuplicates}
+              disabled={isOptimizing}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isOptimizing ? 'Removing...' : `Keep selected, remove ${duplicatesToRemove.length} other cop${duplicatesToRemove.length !== 1 ? 'ies' : 'y'}`}
+            </button>
+          </div>
+        )}
+        {lastCleanup && (
+          <p className="text-xs text-green-600 dark:text-green-400 mt-2">
+            Removed {lastCleanup.removed} duplicate{lastCleanup.removed !== 1 ? 's' : ''}, freed {formatFileSize(lastCleanup.bytesFreed)}
+          </p>
+        )}
+      </div>
+
       {/* Category Breakdown */}
       <div className="mb-6">
         <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSupabaseAuth } from '../../context/SupabaseAuthContext';
+import { getCategories } from '../../services/categoryService';
+import {
+  DEFAULT_VERSION_RETENTION,
+  VersionRetentionPolicy,
+  VersionRetentionRule,
+  VersionPruneResult,
+  getVersionRetentionPolicy,
+  saveVersionRetentionPolicy,
+  isRetentionRuleActive,
+  pruneVersionsNow
+} from '../../services/versionRetentionService';
+import { formatFileSize } from '../../utils/formatters';
+
+interface RuleEditorProps {
+  rule: VersionRetentionRule;
+  onChange: (rule: VersionRetentionRule) => void;
+}
+
+const parseLimit = (value: string): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const RuleEditor: React.FC<RuleEditorProps> = ({ rule, onChange }) => (
+  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+    <label className="flex flex-col">
+      <span className="text-gray-600 dark:text-gray-400 mb-1">Keep last N versions</span>
+      <input
+        type="number"
+        min={1}
+        value={rule.keepLast ?? ''}
+        placeholder="All"
+        onChange={(e) => onChange({ ...rule, keepLast: parseLimit(e.target.value) })}
+        className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+      />
+    </label>
+    <label className="flex flex-col">
+      <span className="text-gray-600 dark:text-gray-400 mb-1">Keep versions younger than (days)</span>
+      <input
+        type="number"
+        min={1}
+        value={rule.keepDays ?? ''}
+        placeholder="Forever"
+        onChange={(e) => onChange({ ...rule, keepDays: parseLimit(e.target.value) })}
+        className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+      />
+    </label>
+    <label className="flex items-center md:mt-6">
+      <input
+        type="checkbox"
+        checked={rule.keepFirst}
+        onChange={(e) => onChange({ ...rule, keepFirst: e.target.checked })}
+        className="mr-2 rounded border-gray-300 text-blue-600"
+      />
+      <span className="text-gray-700 dark:text-gray-300">Always keep the first version</span>
+    </label>
+  </div>
+);
+
+const VersionRetentionSettings: React.FC = () => {
+  const { currentUser } = useSupabaseAuth();
+  const queryClient = useQueryClient();
+  const [policy, setPolicy] = useState<VersionRetentionPolicy>(DEFAULT_VERSION_RETENTION);
+  const [lastPrune, setLastPrune] = useState<VersionPruneResult | null>(null);
+  const [error, setError] = useState('');
+
+  const { data: savedPolicy, isLoading } = useQuery({
+    queryKey: ['version-retention', currentUser?.id],
+    queryFn: () => getVersionRetentionPolicy(currentUser!.id),
+    enabled: !!currentUser?.id,
+  });
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['categories', currentUser?.id],
+    queryFn: () => getCategories(currentUser!.id),
+    enabled: !!currentUser?.id,
+  });
+
+  useEffect(() => {
+    if (savedPolicy) setPolicy(savedPolicy);
+  }, [savedPolicy]);
+
+  // Overrides for renamed or deleted categories stay listed so they can be removed
+  const categoryNames = Array.from(new Set([
+    ...categories.map(category => category.name),
+    ...Object.keys(policy.categories)
+  ]));
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveVersionRetentionPolicy(currentUser!.id, policy),
+    onSuccess: () => {
+      setError('');
+      queryClient.invalidateQueries({ queryKey: ['version-retention', currentUser?.id] });
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const pruneMutation = useMutation({
+    mutationFn: pruneVersionsNow,
+    onSuccess: (result) => {
+      setLastPrune(result);
+      queryClient.invalidateQueries({ queryKey: ['document-versions'] });
+      queryClient.invalidateQueries({ queryKey: ['storageUsage'] });
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const setCategoryRule = (category: string, rule: VersionRetentionRule | null) => {
+    setPolicy(prev => {
+      const categories = { ...prev.categories };
+      if (rule) {
+        categories[category] = rule;
+      } else {
+        delete categories[category];
+      }
+      return { ...prev, categories };
+    });
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading retention policy...</p>;
+  }
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold mb-2">Version retention</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Older versions outside these limits are deleted every night. A version is kept if any rule keeps it;
+        the current version is never deleted.
+      </p>
+
+      <RuleEditor
+        rule={policy.default}
+        onChange={(rule) => setPolicy(prev => ({ ...prev, default: rule }))}
+      />
+      {!isRetentionRuleActive(policy.default) && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">All versions are kept by default.</p>
+      )}
+
+      <h3 className="text-sm font-medium text-gray-900 dark:text-white mt-6 mb-2">Category overrides</h3>
+      <div className="space-y-3">
+        {categoryNames.map(category => {
+          const override = policy.categories[category];
+          return (
+            <div key={category} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+              <label className="flex items-center text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!override}
+                  onChange={(e) => setCategoryRule(category, e.target.checked ? { ...policy.default } : null)}
+                  className="mr-2 rounded border-gray-300 text-blue-600"
+                />
+                <span className="text-gray-700 dark:text-gray-300">{category}</span>
+                {!override && <span className="ml-2 text-xs text-gray-400">uses default</span>}
+              </label>
+              {override && (
+                <div className="mt-3">
+                  <RuleEditor rule={override} onChange={(rule) => setCategoryRule(category, rule)} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mt-4">{error}</p>
+      )}
+
+      <div className="flex items-center justify-between mt-6">
+        <button
+          onClick={() => pruneMutation.mutate()}
+          disabled={pruneMutation.isPending}
+          className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          {pruneMutation.isPending ? 'Pruning...' : 'Prune now'}
+        </button>
+        <button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || !currentUser}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save retention policy'}
+        </button>
+      </div>
+
+      {lastPrune && (
+        <p className="text-sm text-green-600 dark:text-green-400 mt-3">
+          Removed {lastPrune.pruned} version{lastPrune.pruned === 1 ? '' : 's'}, freed {formatFileSize(lastPrune.bytesFreed)}
+          {lastPrune.failures.length > 0 && ` (${lastPrune.failures.length} failed)`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default VersionRetentionSettings;
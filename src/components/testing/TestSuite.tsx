@@ -60,7 +60,7 @@ const TestSuite: React.FC<TestSuiteProps> = ({ onClose }) => {
     {
       name: 'AI Document Classification',
       test: async () => {
-        const result = await classifyDocument('invoice.pdf', 'application/pdf', 'Invoice #123 Amount: $500');
+        const result = await classifyDocument('invoice.pdf', 'application/pdf', 'Invoice #123 Amount: $500', currentUser?.id);
         if (!result.category) throw new Error('No classification result');
         return result;
       }
@@ -8,6 +8,7 @@ import {
   TranslationResult
 } from '../../services/translationService';
 import { Document as AppDocument } from '../../types/document';
+import { resolveDocumentUrl } from '../../services/documentUrlService';
 import { useLanguage } from '../../context/LanguageContext';
 
 interface DocumentTranslationProps {
@@ -48,7 +49,7 @@ const DocumentTranslation: React.FC<DocumentTranslationProps> = ({
       setTranslationInProgress(true);
       const translationResult = await translateDocument(
         document.id || '',
-        document.url,
+        await resolveDocumentUrl(document),
         document.type,
         targetLanguage,
         document.metadata?.language
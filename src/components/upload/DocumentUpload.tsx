@@ -1,10 +1,17 @@
 import React, { useState, useRef } from 'react';
 import { useSupabaseAuth } from '../../context/SupabaseAuthContext';
 import { useLanguage } from '../../context/LanguageContext';
-import { uploadDocument } from '../../services/documentService';
+import {
+  uploadDocument,
+  checkForDuplicate,
+  resolveDuplicateUpload,
+  DocumentUploadProgress,
+  DuplicateResolution
+} from '../../services/documentService';
 import { Document, DocumentUploadResult } from '../../types/document';
 import { useQueryClient } from '@tanstack/react-query';
-import { PDFConversionService } from '../../services/pdfConversionService';
+import ScanAssembler from './ScanAssembler';
+import MobileUploadButton from '../mobile/MobileUploadButton';
 
 interface DocumentUploadProps {
   onUploadComplete?: (documentId: string) => void;
@@ -22,7 +29,10 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({
   const [uploadProgress, setUploadProgress] = useState<{ [key: string]: number }>({});
   const [uploadedFiles, setUploadedFiles] = useState<string[]>([]);
   const [error, setError] = useState<string>('');
+  const [duplicatePrompt, setDuplicatePrompt] = useState<{ fileName: string; existingDocument: Document } | null>(null);
+  const [scanFiles, setScanFiles] = useState<File[] | null>(null); // Photos being assembled into one PDF
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const duplicateResolverRef = useRef<((resolution: DuplicateResolution) => void) | null>(null);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -52,6 +62,36 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  const imageFiles = files.filter(f => f.type.startsWith('image/'));
+
+  // The assembled PDF takes the place of the photos it was made from
+  const handleScanComplete = (pdf: File) => {
+    const used = scanFiles ?? [];
+    setFiles(prev => [...prev.filter(f => !used.includes(f)), pdf]);
+    setScanFiles(null);
+  };
+
+  // Progress of the file being uploaded right now, for the mobile button
+  const activeUploadProgress = Object.values(uploadProgress).find(progress => progress < 100);
+
+  const handleMobileFileSelect = (selectedFiles: FileList) => {
+    setFiles(prev => [...prev, ...Array.from(selectedFiles)]);
+  };
+
+  // Pause the upload loop until the user decides what to do with a duplicate
+  const askDuplicateResolution = (fileName: string, existingDocument: Document) => {
+    return new Promise<DuplicateResolution>(resolve => {
+      duplicateResolverRef.current = resolve;
+      setDuplicatePrompt({ fileName, existingDocument });
+    });
+  };
+
+  const handleDuplicateChoice = (resolution: DuplicateResolution) => {
+    duplicateResolverRef.current?.(resolution);
+    duplicateResolverRef.current = null;
+    setDuplicatePrompt(null);
+  };
+
   const handleUpload = async () => {
     if (!currentUser || files.length === 0) return;
 
@@ -66,29 +106,31 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({
         
         // Initialize progress
         setUploadProgress(prev => ({ ...prev, [fileName]: 0 }));
-        
-        // Simulate progress updates (since Supabase doesn't provide real-time progress)
-        const progressInterval = setInterval(() => {
-          setUploadProgress(prev => {
-            const current = prev[fileName] || 0;
-            if (current < 90) {
-              return { ...prev, [fileName]: current + Math.random() * 15 };
-            }
-            return prev;
-          });
-        }, 200);
+
+        // Report progress as each chunk is confirmed
+        const handleProgress = ({ progress }: DocumentUploadProgress) => {
+          setUploadProgress(prev => ({ ...prev, [fileName]: progress }));
+        };
 
         try {
-          // Upload the document
-          const document = await uploadDocument(file, currentUser.id);
+          // Look for an identical file before uploading
+          const { checksum, existingDocument } = await checkForDuplicate(file, currentUser.id);
+
+          const document = existingDocument
+            ? await resolveDuplicateUpload(
+                file,
+                currentUser.id,
+                existingDocument,
+                await askDuplicateResolution(fileName, existingDocument),
+                checksum,
+                handleProgress
+              )
+            : await uploadDocument(file, currentUser.id, undefined, undefined, undefined, handleProgress, checksum);
           
           // Mark as complete
           setUploadProgress(prev => ({ ...prev, [fileName]: 100 }));
           setUploadedFiles(prev => [...prev, fileName]);
           
-          // Clear progress interval
-          clearInterval(progressInterval);
-          
           // Small delay to show 100% completion
           setTimeout(() => {
             setUploadProgress(prev => {
@@ -103,7 +145,6 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({
           }
           
         } catch (uploadError: any) {
-          clearInterval(progressInterval);
           console.error(`Upload failed for ${fileName}:`, uploadError);
           setError(`Failed to upload ${fileName}: ${uploadError.message}`);
           setUploadProgress(prev => {
@@ -147,9 +188,19 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({
         {translate('upload.title') || 'Upload Documents'}
       </h2>
 
+      {/* Phones pick files, take photos or scan pages from one button */}
+      <div className="md:hidden">
+        <MobileUploadButton
+          onFileSelect={handleMobileFileSelect}
+          isUploading={uploading}
+          uploadProgress={activeUploadProgress}
+          onScanComplete={pdf => setFiles(prev => [...prev, pdf])}
+        />
+      </div>
+
       {/* Drag and Drop Area */}
       <div
-        className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+        className={`hidden md:block border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
           isDragging
             ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/20'
             : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500'
@@ -177,12 +228,21 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({
         <p className="text-gray-500 dark:text-gray-400 mb-4">
           {translate('upload.or') || 'or'}
         </p>
-        <button
-          onClick={() => fileInputRef.current?.click()}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-        >
-          {translate('upload.browse') || 'Browse Files'}
-        </button>
+        <div className="flex flex-wrap justify-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {translate('upload.browse') || 'Browse Files'}
+          </button>
+          <button
+            onClick={() => setScanFiles([])}
+            disabled={uploading || scanFiles !== null}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {translate('upload.scanPages')}
+          </button>
+        </div>
         <input
           ref={fileInputRef}
           type="file"
@@ -207,13 +267,30 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({
             </div>
             <div className="flex items-center space-x-2">
               <span className="text-xs text-blue-600 dark:text-blue-400">
-                {files.filter(f => f.type.startsWith('image/')).length} image{files.filter(f => f.type.startsWith('image/')).length !== 1 ? 's' : ''} detected
+                {imageFiles.length} image{imageFiles.length !== 1 ? 's' : ''} detected
               </span>
+              {imageFiles.length > 1 && scanFiles === null && !uploading && (
+                <button
+                  onClick={() => setScanFiles(imageFiles)}
+                  className="text-xs font-medium text-blue-700 dark:text-blue-300 underline hover:text-blue-900"
+                >
+                  {translate('upload.combineIntoPdf')}
+                </button>
+              )}
             </div>
           </div>
         </div>
       )}
 
+      {/* Multi-page scan assembly */}
+      {scanFiles !== null && (
+        <ScanAssembler
+          initialFiles={scanFiles}
+          onComplete={handleScanComplete}
+          onCancel={() => setScanFiles(null)}
+        />
+      )}
+
       {/* File List */}
       {files.length > 0 && (
         <div className="mt-6">
@@ -320,6 +397,37 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({
         </div>
       )}
 
+      {/* Duplicate Prompt */}
+      {duplicatePrompt && (
+        <div className="mt-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+          <p className="text-sm text-yellow-800 dark:text-yellow-200 mb-3">
+            <span className="font-medium">{duplicatePrompt.fileName}</span> is identical to{' '}
+            <span className="font-medium">{duplicatePrompt.existingDocument.name}</span>, uploaded{' '}
+            {new Date(duplicatePrompt.existingDocument.created_at).toLocaleDateString()}.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => handleDuplicateChoice('link')}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Link to existing
+            </button>
+            <button
+              onClick={() => handleDuplicateChoice('version')}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200 dark:bg-blue-900 dark:text-blue-200"
+            >
+              Upload as new version
+            </button>
+            <button
+              onClick={() => handleDuplicateChoice('keep_both')}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200"
+            >
+              Keep both
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
@@ -0,0 +1,487 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Camera, ChevronLeft, ChevronRight, Crop, ImagePlus, RotateCcw, RotateCw, Trash2 } from 'lucide-react';
+import { PDFConversionService } from '../../services/pdfConversionService';
+import { detectDocumentCorners, loadScanImage, renderScanPage } from '../../services/scanImageService';
+import { DEFAULT_SCAN_ENHANCEMENT, Quad, ScanColorMode, ScanEnhancement } from '../../utils/documentScan';
+import {
+  CropMargins,
+  DEFAULT_SCAN_EDITS,
+  MAX_SKEW_DEGREES,
+  NO_CROP,
+  ScanPageEdits,
+  ScanPageSize,
+  clampCrop,
+  clampSkew,
+  movePage,
+  rotatePage,
+  scanFileName
+} from '../../utils/scanPages';
+
+interface ScanPage {
+  id: string;
+  file: File;
+  image: HTMLImageElement;
+  detectedCorners: Quad | null;
+  edits: ScanPageEdits;
+}
+
+interface ScanAssemblerProps {
+  initialFiles?: File[];
+  onComplete: (file: File) => void;
+  onCancel: () => void;
+}
+
+const PAGE_SIZE_OPTIONS: Array<{ value: ScanPageSize; label: string }> = [
+  { value: 'a4', label: 'A4' },
+  { value: 'letter', label: 'Letter' },
+  { value: 'fit', label: 'Fit to image' }
+];
+
+const COLOR_MODE_OPTIONS: Array<{ value: ScanColorMode; label: string }> = [
+  { value: 'color', label: 'Color' },
+  { value: 'grayscale', label: 'Grayscale' },
+  { value: 'bw', label: 'Black and white' }
+];
+
+const CROP_EDGES: Array<{ edge: keyof CropMargins; label: string }> = [
+  { edge: 'top', label: 'Top' },
+  { edge: 'bottom', label: 'Bottom' },
+  { edge: 'left', label: 'Left' },
+  { edge: 'right', label: 'Right' }
+];
+
+const THUMBNAIL_SIZE = 240;
+const EDITOR_PREVIEW_SIZE = 720;
+
+let nextPageId = 0;
+
+interface ScanPagePreviewProps {
+  image: HTMLImageElement;
+  edits: ScanPageEdits;
+  enhancement: ScanEnhancement;
+  maxSize: number;
+  className?: string;
+}
+
+const ScanPagePreview: React.FC<ScanPagePreviewProps> = ({ image, edits, enhancement, maxSize, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const target = canvasRef.current;
+    const ctx = target?.getContext('2d');
+    if (!target || !ctx) return;
+    const rendered = renderScanPage(image, edits, enhancement, maxSize);
+    target.width = rendered.width;
+    target.height = rendered.height;
+    ctx.drawImage(rendered, 0, 0);
+  }, [image, edits, enhancement, maxSize]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
+
+/**
+ * Build one PDF from several photos. Each photo is flattened to the sheet of paper found
+ * in it and enhanced to look scanned; pages can be reordered by dragging, turned, cropped,
+ * straightened and removed before the document is created.
+ */
+const ScanAssembler: React.FC<ScanAssemblerProps> = ({ initialFiles = [], onComplete, onCancel }) => {
+  const [pages, setPages] = useState<ScanPage[]>([]);
+  const [pageSize, setPageSize] = useState<ScanPageSize>('a4');
+  const [enhancement, setEnhancement] = useState<ScanEnhancement>(DEFAULT_SCAN_ENHANCEMENT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [building, setBuilding] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+
+  const addFiles = useCallback(async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length < files.length) {
+      setError('Only photos and other images can be added as pages');
+    }
+    if (images.length === 0) return;
+
+    setLoading(true);
+    try {
+      const added: ScanPage[] = [];
+      for (const file of images) {
+        try {
+          const image = await loadScanImage(file);
+          const detectedCorners = detectDocumentCorners(image);
+          added.push({
+            id: `page-${nextPageId++}`,
+            file,
+            image,
+            detectedCorners,
+            edits: { ...DEFAULT_SCAN_EDITS, corners: detectedCorners }
+          });
+        } catch {
+          setError(`${file.name} could not be read as an image`);
+        }
+      }
+      setPages(prev => [...prev, ...added]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Files chosen before the assembler opened become its first pages. The ref keeps
+  // them from being added twice when StrictMode runs the effect again in development.
+  const initialFilesAdded = useRef(false);
+  useEffect(() => {
+    if (initialFilesAdded.current) return;
+    initialFilesAdded.current = true;
+    if (initialFiles.length > 0) {
+      addFiles(initialFiles);
+    }
+  }, [initialFiles, addFiles]);
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      addFiles(Array.from(e.target.files));
+    }
+    e.target.value = '';
+  };
+
+  const updateEdits = (id: string, update: (edits: ScanPageEdits) => ScanPageEdits) => {
+    setPages(prev => prev.map(page => (page.id === id ? { ...page, edits: update(page.edits) } : page)));
+  };
+
+  const removePage = (id: string) => {
+    setPages(prev => prev.filter(page => page.id !== id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (dragIndex !== null) {
+      setPages(prev => movePage(prev, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
+
+  const handleCreate = async () => {
+    if (pages.length === 0) return;
+    setBuilding(true);
+    setError('');
+    try {
+      const pdf = await PDFConversionService.assembleScanPDF(
+        pages.map(page => ({ image: page.file, edits: page.edits })),
+        { pageSize, enhancement }
+      );
+      onComplete(new File([pdf], scanFileName(), { type: 'application/pdf' }));
+    } catch (err: any) {
+      console.error('Scan assembly failed:', err);
+      setError(err.message || 'Failed to create PDF');
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  const editingPage = pages.find(page => page.id === editingId);
+
+  return (
+    <div className="mt-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-sm font-medium text-gray-900 dark:text-white">
+          Scanned pages ({pages.length})
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={building}
+            className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200 dark:bg-blue-900 dark:text-blue-200 disabled:opacity-50"
+          >
+            <ImagePlus className="h-4 w-4 mr-1" />
+            Add photos
+          </button>
+          <button
+            onClick={() => cameraInputRef.current?.click()}
+            disabled={building}
+            className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-green-700 bg-green-100 hover:bg-green-200 dark:bg-green-900 dark:text-green-200 disabled:opacity-50"
+          >
+            <Camera className="h-4 w-4 mr-1" />
+            Take photo
+          </button>
+        </div>
+        <input ref={fileInputRef} type="file" multiple accept="image/*" onChange={handleFileInput} className="hidden" />
+        <input
+          ref={cameraInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={handleFileInput}
+          className="hidden"
+        />
+      </div>
+
+      {pages.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+          {loading ? 'Loading photos...' : 'Add photos of each page, in any order. Drag them into place afterwards.'}
+        </p>
+      ) : (
+        <ol className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+          {pages.map((page, index) => (
+            <li
+              key={page.id}
+              draggable={!building}
+              onDragStart={e => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDragIndex(index);
+              }}
+              onDragOver={e => {
+                e.preventDefault();
+                e.stopPropagation();
+              }}
+              onDrop={e => handleDrop(e, index)}
+              onDragEnd={() => setDragIndex(null)}
+              className={`relative rounded-lg border bg-gray-50 dark:bg-gray-700 p-2 cursor-move ${
+                page.id === editingId
+                  ? 'border-blue-500'
+                  : dragIndex === index
+                    ? 'border-blue-300 opacity-50'
+                    : 'border-gray-200 dark:border-gray-600'
+              }`}
+            >
+              <div className="h-32 flex items-center justify-center overflow-hidden">
+                <ScanPagePreview
+                  image={page.image}
+                  edits={page.edits}
+                  enhancement={enhancement}
+                  maxSize={THUMBNAIL_SIZE}
+                  className="max-h-full max-w-full shadow"
+                />
+              </div>
+              <div className="mt-2 flex items-center justify-between">
+                <span className="text-xs text-gray-500 dark:text-gray-400">{index + 1}</span>
+                <div className="flex items-center">
+                  {/* Touch screens cannot drag, so pages can also be moved one step at a time */}
+                  <button
+                    onClick={() => setPages(prev => movePage(prev, index, index - 1))}
+                    disabled={building || index === 0}
+                    title="Move earlier"
+                    className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-white disabled:opacity-30"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setPages(prev => movePage(prev, index, index + 1))}
+                    disabled={building || index === pages.length - 1}
+                    title="Move later"
+                    className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-white disabled:opacity-30"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => updateEdits(page.id, edits => ({ ...edits, rotation: rotatePage(edits.rotation, 1) }))}
+                    disabled={building}
+                    title="Rotate"
+                    className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-white disabled:opacity-30"
+                  >
+                    <RotateCw className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setEditingId(page.id === editingId ? null : page.id)}
+                    disabled={building}
+                    title="Crop and straighten"
+                    className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-white disabled:opacity-30"
+                  >
+                    <Crop className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => removePage(page.id)}
+                    disabled={building}
+                    title="Remove page"
+                    className="p-1 text-red-500 hover:text-red-700 disabled:opacity-30"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Crop and deskew editor for the selected page */}
+      {editingPage && (
+        <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="flex-1 flex items-center justify-center">
+              <div className="relative inline-block overflow-hidden">
+                <ScanPagePreview
+                  image={editingPage.image}
+                  edits={{ ...editingPage.edits, crop: NO_CROP }}
+                  enhancement={enhancement}
+                  maxSize={EDITOR_PREVIEW_SIZE}
+                  className="block max-w-full max-h-96"
+                />
+                <div
+                  className="absolute border-2 border-blue-500 pointer-events-none"
+                  style={{
+                    top: `${editingPage.edits.crop.top * 100}%`,
+                    right: `${editingPage.edits.crop.right * 100}%`,
+                    bottom: `${editingPage.edits.crop.bottom * 100}%`,
+                    left: `${editingPage.edits.crop.left * 100}%`,
+                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)'
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className="md:w-64 space-y-3">
+              <div className="flex gap-2">
+                <button
+                  onClick={() => updateEdits(editingPage.id, edits => ({ ...edits, rotation: rotatePage(edits.rotation, -1) }))}
+                  className="flex-1 inline-flex items-center justify-center px-2 py-1.5 text-sm rounded-md bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200"
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Left
+                </button>
+                <button
+                  onClick={() => updateEdits(editingPage.id, edits => ({ ...edits, rotation: rotatePage(edits.rotation, 1) }))}
+                  className="flex-1 inline-flex items-center justify-center px-2 py-1.5 text-sm rounded-md bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200"
+                >
+                  <RotateCw className="h-4 w-4 mr-1" />
+                  Right
+                </button>
+              </div>
+
+              <label className="flex items-center text-xs text-gray-600 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={editingPage.edits.corners !== null}
+                  disabled={!editingPage.detectedCorners}
+                  onChange={e => updateEdits(editingPage.id, edits => ({
+                    ...edits,
+                    corners: e.target.checked ? editingPage.detectedCorners : null
+                  }))}
+                  className="mr-2"
+                />
+                {editingPage.detectedCorners ? 'Flatten to the page edges' : 'No page edges found'}
+              </label>
+
+              <label className="block text-xs text-gray-600 dark:text-gray-300">
+                Straighten ({editingPage.edits.skew.toFixed(1)}°)
+                <input
+                  type="range"
+                  min={-MAX_SKEW_DEGREES}
+                  max={MAX_SKEW_DEGREES}
+                  step={0.5}
+                  value={editingPage.edits.skew}
+                  onChange={e => updateEdits(editingPage.id, edits => ({ ...edits, skew: clampSkew(Number(e.target.value)) }))}
+                  className="w-full"
+                />
+              </label>
+
+              {CROP_EDGES.map(({ edge, label }) => (
+                <label key={edge} className="block text-xs text-gray-600 dark:text-gray-300">
+                  Crop {label.toLowerCase()} ({Math.round(editingPage.edits.crop[edge] * 100)}%)
+                  <input
+                    type="range"
+                    min={0}
+                    max={0.45}
+                    step={0.005}
+                    value={editingPage.edits.crop[edge]}
+                    onChange={e => updateEdits(editingPage.id, edits => ({
+                      ...edits,
+                      crop: clampCrop({ ...edits.crop, [edge]: Number(e.target.value) })
+                    }))}
+                    className="w-full"
+                  />
+                </label>
+              ))}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => updateEdits(editingPage.id, () => ({ ...DEFAULT_SCAN_EDITS, corners: editingPage.detectedCorners }))}
+                  className="flex-1 px-2 py-1.5 text-sm rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:text-gray-200"
+                >
+                  Reset
+                </button>
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="flex-1 px-2 py-1.5 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+            Page size
+            <select
+              value={pageSize}
+              onChange={e => setPageSize(e.target.value as ScanPageSize)}
+              disabled={building}
+              className="ml-2 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            >
+              {PAGE_SIZE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+            Look
+            <select
+              value={enhancement.mode}
+              onChange={e => setEnhancement(prev => ({ ...prev, mode: e.target.value as ScanColorMode }))}
+              disabled={building}
+              className="ml-2 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            >
+              {COLOR_MODE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          {enhancement.mode !== 'bw' && (
+            <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={enhancement.autoContrast}
+                onChange={e => setEnhancement(prev => ({ ...prev, autoContrast: e.target.checked }))}
+                disabled={building}
+                className="mr-2"
+              />
+              Auto contrast
+            </label>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            disabled={building}
+            className="px-4 py-2 text-sm font-medium rounded-md text-gray-700 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={building || loading || pages.length === 0}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {building
+              ? 'Creating PDF...'
+              : `Create PDF${pages.length > 0 ? ` (${pages.length} page${pages.length > 1 ? 's' : ''})` : ''}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScanAssembler;
@@ -1,2 +1,3 @@
 export { default as DocumentUpload } from './DocumentUpload';
 export { default as UploadModal } from './UploadModal';
+export { default as ScanAssembler } from './ScanAssembler';
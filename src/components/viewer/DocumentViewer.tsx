@@ -1,54 +1,63 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useLanguage } from '../../context/LanguageContext';
 import { supabase } from '../../services/supabase';
 import { Document } from '../../services/documentService';
+import { resolveShareLink, fetchShareLinkContent, ShareLinkStatus } from '../../services/shareLinkService';
+import { useDocumentUrl } from '../../services/documentUrlService';
 
 interface DocumentViewerProps {
   documentId?: string;
   document?: Document;
   isOpen?: boolean;
   onClose?: () => void;
+  shareToken?: string; // Render a public share link instead of a stored document
 }
 
-const DocumentViewer: React.FC<DocumentViewerProps> = ({ documentId, document: propDocument, isOpen = true, onClose }) => {
+// Translation keys for share link states that cannot be opened
+const shareLinkErrors: Partial<Record<ShareLinkStatus, string>> = {
+  not_found: 'viewer.error.linkNotFound',
+  expired: 'viewer.error.linkExpired',
+  view_only: 'viewer.error.linkViewOnly',
+  limit_reached: 'viewer.error.linkLimitReached'
+};
+
+const getViewerType = (doc: Pick<Document, 'type'>): 'pdf' | 'image' | 'text' | 'other' => {
+  if (doc.type === 'application/pdf') return 'pdf';
+  if (doc.type.startsWith('image/')) return 'image';
+  if (doc.type === 'text/plain' || doc.type === 'text/html' || doc.type === 'application/json') return 'text';
+  return 'other';
+};
+
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ documentId, document: propDocument, isOpen = true, onClose, shareToken }) => {
   const { translate } = useLanguage();
   const [document, setDocument] = useState<Document | null>(propDocument || null);
   const [loading, setLoading] = useState<boolean>(!propDocument);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null); // Translation key
   const [viewerType, setViewerType] = useState<'pdf' | 'image' | 'text' | 'other'>('other');
+  const [viewOnly, setViewOnly] = useState(false);
+  const [passwordPrompt, setPasswordPrompt] = useState<'password_required' | 'invalid_password' | null>(null);
+  const [linkPassword, setLinkPassword] = useState('');
 
-  useEffect(() => {
-    // If we have a document prop, use it directly
-    if (propDocument) {
-      setDocument(propDocument);
-      setLoading(false);
-      determineViewerType(propDocument);
-      return;
-    }
+  const [shareLinkFile, setShareLinkFile] = useState<Blob | null>(null);
+  const [shareLinkFileUrl, setShareLinkFileUrl] = useState<string>();
 
-    // Otherwise fetch by ID
-    if (documentId) {
-      fetchDocument();
-    }
-  }, [documentId, propDocument]);
-
-  const determineViewerType = (doc: Document) => {
-    if (doc.type === 'application/pdf') {
-      setViewerType('pdf');
-    } else if (doc.type.startsWith('image/')) {
-      setViewerType('image');
-    } else if (
-      doc.type === 'text/plain' ||
-      doc.type === 'text/html' ||
-      doc.type === 'application/json'
-    ) {
-      setViewerType('text');
-    } else {
-      setViewerType('other');
-    }
-  };
+  // Share links show an object URL of the streamed file; everything else is signed on demand
+  const { url: signedUrl, error: urlError } = useDocumentUrl(shareToken ? null : document);
+  const fileUrl = (shareToken ? shareLinkFileUrl : signedUrl) || undefined;
+
+  // The object URL lives as long as the file it points to, and is released when the
+  // file is replaced or the viewer unmounts
+  useEffect(() => {
+    if (!shareLinkFile) return;
+    const objectUrl = URL.createObjectURL(shareLinkFile);
+    setShareLinkFileUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setShareLinkFileUrl(undefined);
+    };
+  }, [shareLinkFile]);
 
-  const fetchDocument = async () => {
+  const fetchDocument = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
@@ -62,25 +71,123 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({ documentId, document: p
 
       if (fetchError || !documentData) {
         console.error('Document fetch error:', fetchError);
-        setError(translate('viewer.error.notFound'));
+        setError('viewer.error.notFound');
         setLoading(false);
         return;
       }
 
-      determineViewerType(documentData);
+      setViewerType(getViewerType(documentData));
       setDocument(documentData);
       setLoading(false);
     } catch (err) {
       console.error('Error fetching document:', err);
-      setError(translate('viewer.error.fetchFailed'));
+      setError('viewer.error.fetchFailed');
+      setLoading(false);
+    }
+  }, [documentId]);
+
+  const openShareLink = useCallback(async (password?: string) => {
+    if (!shareToken) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const link = await resolveShareLink(shareToken, password);
+
+      if (link.status === 'password_required' || link.status === 'invalid_password') {
+        setPasswordPrompt(link.status);
+        setLoading(false);
+        return;
+      }
+
+      if (link.status !== 'ok' || !link.document) {
+        setError(shareLinkErrors[link.status] || 'viewer.error.notFound');
+        setLoading(false);
+        return;
+      }
+
+      // Link documents only carry what the viewer needs to render them
+      const linkDocument = {
+        id: shareToken,
+        name: link.document.name,
+        type: link.document.type,
+        size: link.document.size,
+        url: '',
+        path: '',
+        user_id: '',
+        created_at: '',
+        updated_at: ''
+      };
+
+      // Only previewable files are fetched; the others are only downloaded
+      const linkViewerType = getViewerType(linkDocument);
+      let file: Blob | null = null;
+      if (linkViewerType !== 'other') {
+        const content = await fetchShareLinkContent(shareToken, password);
+        if (content.status !== 'ok' || !content.file) {
+          setError(shareLinkErrors[content.status] || 'viewer.error.fetchFailed');
+          setLoading(false);
+          return;
+        }
+        file = content.file;
+      }
+
+      setPasswordPrompt(null);
+      setViewOnly(!!link.viewOnly);
+      setViewerType(linkViewerType);
+      setShareLinkFile(file);
+      setDocument(linkDocument);
+      setLoading(false);
+    } catch (err) {
+      console.error('Error opening share link:', err);
+      setError('viewer.error.fetchFailed');
       setLoading(false);
     }
+  }, [shareToken]);
+
+  useEffect(() => {
+    // Public share links resolve through the share-link edge function
+    if (shareToken) {
+      openShareLink();
+      return;
+    }
+
+    // If we have a document prop, use it directly
+    if (propDocument) {
+      setDocument(propDocument);
+      setLoading(false);
+      setViewerType(getViewerType(propDocument));
+      return;
+    }
+
+    // Otherwise fetch by ID
+    if (documentId) {
+      fetchDocument();
+    }
+  }, [documentId, propDocument, shareToken, fetchDocument, openShareLink]);
+
+  const handleShareLinkDownload = async () => {
+    if (!shareToken) return;
+
+    try {
+      const link = await resolveShareLink(shareToken, linkPassword || undefined, 'download');
+      if (link.status !== 'ok' || !link.signedUrl) {
+        setError(shareLinkErrors[link.status] || 'viewer.error.fetchFailed');
+        return;
+      }
+      window.location.href = link.signedUrl;
+    } catch (err) {
+      console.error('Error downloading from share link:', err);
+      setError('viewer.error.fetchFailed');
+    }
   };
 
   // If not open, don't render
   if (!isOpen) return null;
 
-  if (loading) {
+  const waitingForFile = shareToken ? !!shareLinkFile && !fileUrl : !fileUrl && !urlError;
+  if (loading || (document && waitingForFile)) {
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
         <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md mx-4">
@@ -93,12 +200,48 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({ documentId, document: p
     );
   }
 
-  if (error || !document) {
+  if (passwordPrompt) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            openShareLink(linkPassword);
+          }}
+          className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4"
+        >
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Password required</h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-4">
+            This shared document is protected. Enter the password to open it.
+          </p>
+          <input
+            type="password"
+            value={linkPassword}
+            onChange={(e) => setLinkPassword(e.target.value)}
+            autoFocus
+            className="w-full px-3 py-2 mb-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+          {passwordPrompt === 'invalid_password' && (
+            <p className="text-sm text-red-600 dark:text-red-400 mb-2">Incorrect password</p>
+          )}
+          <button
+            type="submit"
+            disabled={!linkPassword}
+            className="w-full mt-2 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Open
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  if (error || urlError || !document) {
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
         <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md mx-4">
           <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Error</h3>
-          <p className="text-gray-600 dark:text-gray-400 mb-4">{error || 'Document not found'}</p>
+          <p className="text-gray-600 dark:text-gray-400 mb-4">{error ? translate(error) : urlError?.message || translate('viewer.error.notFound')}</p>
           <button
             onClick={onClose}
             className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
@@ -115,7 +258,7 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({ documentId, document: p
       case 'pdf':
         return (
           <iframe
-            src={document.url}
+            src={viewOnly ? `${fileUrl}#toolbar=0` : fileUrl}
             className="w-full h-full border-0"
             title={document.name}
             style={{ minHeight: '600px' }}
@@ -125,17 +268,19 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({ documentId, document: p
         return (
           <div className="flex items-center justify-center h-full">
             <img
-              src={document.url}
+              src={fileUrl}
               alt={document.name}
               className="max-w-full max-h-full object-contain"
             />
           </div>
         );
       case 'text':
+        // Sandboxed so an HTML file cannot run script with DocVault's origin
         return (
           <div className="bg-white dark:bg-gray-800 p-4 rounded-md h-full overflow-auto">
             <iframe
-              src={document.url}
+              src={fileUrl}
+              sandbox=""
               className="w-full h-full border-0"
               title={document.name}
             />
@@ -152,16 +297,25 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({ documentId, document: p
               <p className="text-gray-600 dark:text-gray-400 mb-4">
                 This file type cannot be previewed directly
               </p>
-              <a
-                href={document.url}
-                download={document.name}
-                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-              >
-                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                </svg>
-                Download
-              </a>
+              {!viewOnly && (
+                <a
+                  href={fileUrl}
+                  download={document.name}
+                  onClick={(e) => {
+                    // Share link downloads go through the edge function so they are counted
+                    if (shareToken) {
+                      e.preventDefault();
+                      handleShareLinkDownload();
+                    }
+                  }}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                  Download
+                </a>
+              )}
             </div>
           </div>
         );
@@ -176,14 +330,24 @@ const DocumentViewer: React.FC<DocumentViewerProps> = ({ documentId, document: p
           <h2 className="text-lg font-medium text-gray-900 dark:text-white truncate">
             {document.name}
           </h2>
-          <button
-            onClick={onClose}
-            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
-          >
-            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
+          <div className="flex items-center space-x-2">
+            {shareToken && !viewOnly && (
+              <button
+                onClick={handleShareLinkDownload}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                Download
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
         </div>
 
         {/* Content */}
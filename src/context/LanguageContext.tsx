@@ -191,6 +191,16 @@ const defaultTranslations: Translations = {
     mk: 'Пребарај датотеки',
     fr: 'Parcourir les fichiers',
   },
+  'upload.scanPages': {
+    en: 'Scan pages into one PDF',
+    mk: 'Скенирај страници во еден PDF',
+    fr: 'Numériser des pages en un seul PDF',
+  },
+  'upload.combineIntoPdf': {
+    en: 'Combine into one PDF',
+    mk: 'Спои во еден PDF',
+    fr: 'Combiner en un seul PDF',
+  },
   'upload.selectedFiles': {
     en: 'Selected Files',
     mk: 'Избрани датотеки',
@@ -481,6 +491,26 @@ const defaultTranslations: Translations = {
     mk: 'Неуспешно вчитување на документот',
     fr: 'Échec du chargement du document',
   },
+  'viewer.error.linkNotFound': {
+    en: 'This link does not exist or has been revoked',
+    mk: 'Оваа врска не постои или е повлечена',
+    fr: 'Ce lien n\'existe pas ou a été révoqué',
+  },
+  'viewer.error.linkExpired': {
+    en: 'This link has expired',
+    mk: 'Оваа врска е истечена',
+    fr: 'Ce lien a expiré',
+  },
+  'viewer.error.linkViewOnly': {
+    en: 'This link does not allow downloads',
+    mk: 'Оваа врска не дозволува преземање',
+    fr: 'Ce lien ne permet pas le téléchargement',
+  },
+  'viewer.error.linkLimitReached': {
+    en: 'This link has reached its limit',
+    mk: 'Оваа врска го достигна своето ограничување',
+    fr: 'Ce lien a atteint sa limite',
+  },
   'viewer.unsupportedFormat': {
     en: 'Unsupported Format',
     mk: 'Неподдржан формат',
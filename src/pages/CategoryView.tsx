@@ -1,34 +1,31 @@
 import React, { useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { useLanguage } from '../context/LanguageContext';
 import { useSupabaseAuth } from '../context/SupabaseAuthContext';
 import { DocumentList } from '../components/documents';
 import { UploadModal } from '../components/upload';
+import { getCategories, getCategoryIcon } from '../services/categoryService';
+import { getDescendantNames } from '../utils/categoryRules';
 
 const CategoryView: React.FC = () => {
-  const { categoryName } = useParams<{ categoryName: string }>();
+  const { categoryId } = useParams<{ categoryId: string }>();
   const { translate } = useLanguage();
   const { currentUser } = useSupabaseAuth();
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
-  
-  // Map category name to display name and database category
-  const getCategoryInfo = (category: string) => {
-    const categoryMap: Record<string, { displayName: string; dbCategory: string }> = {
-      'personal': { displayName: 'Personal', dbCategory: 'Personal' },
-      'bills': { displayName: 'Bills & Utilities', dbCategory: 'Bills & Utilities' },
-      'medical': { displayName: 'Medical', dbCategory: 'Medical' },
-      'legal': { displayName: 'Legal', dbCategory: 'Legal' },
-      'financial': { displayName: 'Financial', dbCategory: 'Financial' },
-      'work': { displayName: 'Work & Business', dbCategory: 'Work & Business' },
-      'education': { displayName: 'Education', dbCategory: 'Education' },
-      'travel': { displayName: 'Travel', dbCategory: 'Travel' },
-      'insurance': { displayName: 'Insurance', dbCategory: 'Insurance' },
-      'other': { displayName: 'Other', dbCategory: 'Other' }
-    };
-    return categoryMap[category.toLowerCase()] || { displayName: category, dbCategory: category };
-  };
 
-  const categoryInfo = getCategoryInfo(categoryName || '');
+  const { data: categories = [], isLoading } = useQuery({
+    queryKey: ['categories', currentUser?.id],
+    queryFn: () => getCategories(currentUser?.id || ''),
+    enabled: !!currentUser?.id,
+  });
+
+  // Links use the category id; a name also works for hand-typed URLs
+  const category = categories.find(c => c.id === categoryId)
+    || categories.find(c => c.name.toLowerCase() === (categoryId || '').toLowerCase());
+  const subcategories = categories.filter(c => category && c.parent_id === category.id);
+  const descendantNames = category ? getDescendantNames(categories, category.id) : [];
+  const parent = categories.find(c => category && c.id === category.parent_id);
 
   const handleUploadComplete = () => {
     // Refresh the document list
@@ -41,11 +38,16 @@ const CategoryView: React.FC = () => {
         {/* Header */}
         <div className="flex justify-between items-center mb-6">
           <div>
+            {parent && (
+              <Link to={`/category/${parent.id}`} className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-200">
+                {getCategoryIcon(parent)} {parent.name}
+              </Link>
+            )}
             <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
-              {categoryInfo.displayName}
+              {category ? `${getCategoryIcon(category)} ${category.name}` : categoryId}
             </h1>
             <p className="text-gray-600 dark:text-gray-400 mt-1">
-              Category documents
+              {category || isLoading ? 'Category documents' : 'This category no longer exists'}
             </p>
           </div>
           
@@ -60,8 +62,25 @@ const CategoryView: React.FC = () => {
           </button>
         </div>
 
+        {/* Sub-categories */}
+        {subcategories.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {subcategories.map(sub => (
+              <Link
+                key={sub.id}
+                to={`/category/${sub.id}`}
+                className="px-3 py-1 text-sm rounded-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                {getCategoryIcon(sub)} {sub.name}
+              </Link>
+            ))}
+          </div>
+        )}
+
         {/* Document List */}
-        <DocumentList userId={currentUser?.id || ''} category={categoryInfo.dbCategory} />
+        {category && (
+          <DocumentList userId={currentUser?.id || ''} category={category.name} subcategories={descendantNames} />
+        )}
       </div>
       
       <UploadModal 
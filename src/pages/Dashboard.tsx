@@ -8,6 +8,11 @@ import { DocumentCategory } from '../services/aiService';
 import { useLanguage } from '../context/LanguageContext';
 import { useAuditLogger } from '../services/auditLogger';
 import { getStorageUsage } from '../services/storageService';
+import { advancedSearch, SearchFilters, SearchMode } from '../services/searchService';
+import SearchResults from '../components/search/SearchResults';
+import AdvancedSearch from '../components/search/AdvancedSearch';
+import SaveSearchForm from '../components/search/SaveSearchForm';
+import SearchFacets from '../components/search/SearchFacets';
 
 interface ActivityItem {
   id: string;
@@ -23,6 +28,10 @@ const Dashboard: React.FC = () => {
   const { isUploadModalOpen, openModal, closeModal } = useUploadModal();
   const { query: queryAuditLogs } = useAuditLogger();
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>({});
+  const [isAdvancedSearchOpen, setIsAdvancedSearchOpen] = useState(false);
+  const [searchMode, setSearchMode] = useState<SearchMode>('keyword');
   const [recentActivity, setRecentActivity] = useState<ActivityItem[]>([]);
 
   // Fetch storage usage data
@@ -33,6 +42,44 @@ const Dashboard: React.FC = () => {
     refetchInterval: 300000, // Refetch every 5 minutes instead of 30 seconds
   });
 
+  // Wait for typing to settle before hitting the search RPC
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const hasSearchFilters = Object.values(searchFilters).some(value => value !== undefined);
+  const isSearchActive = debouncedSearch.length > 0 || hasSearchFilters;
+
+  const { data: searchResult, isLoading: isSearching, error: searchError } = useQuery({
+    queryKey: ['search', currentUser?.id, debouncedSearch, searchFilters, searchMode],
+    queryFn: () => advancedSearch({
+      query: debouncedSearch,
+      filters: searchFilters,
+      sortBy: 'relevance',
+      sortOrder: 'desc',
+      limit: 20,
+      offset: 0,
+      mode: searchMode,
+      withFacets: true
+    }, currentUser!.id),
+    enabled: !!currentUser?.id && isSearchActive,
+    retry: false,
+  });
+
+  const handleAdvancedSearch = (query: string, filters: SearchFilters) => {
+    setSearchTerm(query);
+    setDebouncedSearch(query.trim());
+    setSearchFilters(filters);
+    setIsAdvancedSearchOpen(false);
+  };
+
+  // Facet refinements apply immediately instead of waiting for the typing debounce
+  const handleRefine = (query: string) => {
+    setSearchTerm(query);
+    setDebouncedSearch(query.trim());
+  };
+
   // Fetch recent activity
   useEffect(() => {
     if (currentUser?.id) {
@@ -131,11 +178,61 @@ const Dashboard: React.FC = () => {
           type="search" 
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
-          className="block w-full p-3 pl-10 text-sm border border-gray-300 rounded-lg bg-gray-50 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white" 
+          className="block w-full p-3 pl-10 pr-24 text-sm border border-gray-300 rounded-lg bg-gray-50 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white" 
           placeholder={`${translate('search')}...`} 
         />
+        <button
+          type="button"
+          onClick={() => setIsAdvancedSearchOpen(true)}
+          className="absolute inset-y-0 right-0 px-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Advanced
+        </button>
       </div>
 
+      <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+        <label className="flex items-center" title="Also match documents with similar meaning, not just the same words">
+          <input
+            type="checkbox"
+            checked={searchMode === 'semantic'}
+            onChange={(e) => setSearchMode(e.target.checked ? 'semantic' : 'keyword')}
+            className="mr-2 rounded border-gray-300 text-blue-600"
+          />
+          Semantic search
+        </label>
+        {hasSearchFilters && (
+          <>
+            <span className="ml-4">Advanced filters applied</span>
+            <button
+              onClick={() => setSearchFilters({})}
+              className="ml-2 text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Clear
+            </button>
+          </>
+        )}
+      </div>
+
+      {isSearchActive && (
+        <div className="space-y-3">
+          <SaveSearchForm query={debouncedSearch} filters={searchFilters} />
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {searchResult?.facets && searchResult.facets.total > 0 && (
+              <div className="md:col-span-1 bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 h-fit">
+                <SearchFacets facets={searchResult.facets} query={debouncedSearch} onQueryChange={handleRefine} />
+              </div>
+            )}
+            <div className={searchResult?.facets && searchResult.facets.total > 0 ? 'md:col-span-3' : 'md:col-span-4'}>
+              <SearchResults result={searchResult} isLoading={isSearching} error={searchError} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isAdvancedSearchOpen && (
+        <AdvancedSearch onSearch={handleAdvancedSearch} onClose={() => setIsAdvancedSearchOpen(false)} />
+      )}
+
               {/* Quick Actions & Stats */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
           {/* Storage Usage Card */}
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { getDocument } from '../services/documentService';
+import { useDocumentUrl, resolveDocumentUrl, getSignedDocumentUrl } from '../services/documentUrlService';
 import { useSupabaseAuth } from '../context/SupabaseAuthContext';
 import { useLanguage } from '../context/LanguageContext';
 import { Document } from '../types/document';
@@ -15,6 +16,9 @@ import {
   FolderIcon
 } from '@heroicons/react/24/outline';
 import { formatFileSize, formatDate } from '../utils/formatters';
+import { VersionHistoryPanel, ClassificationEditor, DocumentFieldsEditor, PdfToolkit } from '../components/documents';
+import { DOCUMENT_CATEGORIES } from '../services/aiService';
+import { getPdfSourcePath } from '../services/pdfToolkitService';
 
 const DocumentView: React.FC = () => {
   const { documentId } = useParams<{ documentId: string }>();
@@ -35,6 +39,8 @@ const DocumentView: React.FC = () => {
     staleTime: 60000, // 1 minute
   });
 
+  const { url: fileUrl } = useDocumentUrl(document);
+
   // Get document icon based on file type
   const getDocumentIcon = (type: string) => {
     if (type.startsWith('image/')) {
@@ -51,14 +57,35 @@ const DocumentView: React.FC = () => {
   };
 
   // Handle download
-  const handleDownload = () => {
-    if (document?.url) {
-      const link = window.document.createElement('a');
-      link.href = document.url;
-      link.download = document.name;
-      window.document.body.appendChild(link);
-      link.click();
-      window.document.body.removeChild(link);
+  const handleDownload = async () => {
+    if (document) {
+      try {
+        const link = window.document.createElement('a');
+        link.href = await resolveDocumentUrl(document, { download: document.name });
+        link.download = document.name;
+        window.document.body.appendChild(link);
+        link.click();
+        window.document.body.removeChild(link);
+      } catch (error) {
+        console.error('Error downloading document:', error);
+      }
+    }
+  };
+
+  // Download the PDF/A copy converted from the original
+  const handleDownloadPdf = async () => {
+    if (document?.pdf_path) {
+      try {
+        const pdfName = document.name.replace(/\.[^/.]+$/, '') + '.pdf';
+        const link = window.document.createElement('a');
+        link.href = await getSignedDocumentUrl(document.pdf_path, { download: pdfName });
+        link.download = pdfName;
+        window.document.body.appendChild(link);
+        link.click();
+        window.document.body.removeChild(link);
+      } catch (error) {
+        console.error('Error downloading PDF copy:', error);
+      }
     }
   };
 
@@ -105,15 +132,26 @@ const DocumentView: React.FC = () => {
           {translate('common.back')}
         </button>
         
-        <button
-          onClick={handleDownload}
-          className="flex items-center px-4 py-2 bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-300 rounded-md hover:bg-primary-200 dark:hover:bg-primary-800 focus:outline-none focus:ring-2 focus:ring-primary-500"
-        >
-          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-          </svg>
-          {translate('common.download')}
-        </button>
+        <div className="flex items-center space-x-2">
+          {document.pdf_path && (
+            <button
+              onClick={handleDownloadPdf}
+              title="Download the PDF/A copy"
+              className="flex items-center px-4 py-2 border border-primary-200 dark:border-primary-800 text-primary-600 dark:text-primary-300 rounded-md hover:bg-primary-50 dark:hover:bg-primary-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              PDF/A
+            </button>
+          )}
+          <button
+            onClick={handleDownload}
+            className="flex items-center px-4 py-2 bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-300 rounded-md hover:bg-primary-200 dark:hover:bg-primary-800 focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+            {translate('common.download')}
+          </button>
+        </div>
       </div>
 
       {/* Document Info */}
@@ -157,6 +195,8 @@ const DocumentView: React.FC = () => {
                 </div>
               </div>
             )}
+
+            <ClassificationEditor document={document} />
           </div>
         </div>
       </div>
@@ -199,6 +239,12 @@ const DocumentView: React.FC = () => {
         </div>
       )}
 
+      {/* Invoice, receipt and bill fields; bills and financial documents can have them added by hand */}
+      {document.ai_analysis && (document.ai_analysis.fields ||
+        document.category === DOCUMENT_CATEGORIES.BILLS || document.category === DOCUMENT_CATEGORIES.FINANCIAL) && (
+        <DocumentFieldsEditor document={document} />
+      )}
+
       {/* Document Preview */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
         <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
@@ -208,7 +254,7 @@ const DocumentView: React.FC = () => {
         {document.type.startsWith('image/') ? (
           <div className="flex justify-center">
             <img
-              src={document.url}
+              src={fileUrl || undefined}
               alt={document.name}
               className={`max-w-full h-auto rounded-lg shadow-md transition-opacity duration-300 ${
                 isImageLoaded ? 'opacity-100' : 'opacity-0'
@@ -225,7 +271,7 @@ const DocumentView: React.FC = () => {
         ) : document.type === 'application/pdf' ? (
           <div className="text-center">
             <iframe
-              src={document.url}
+              src={fileUrl || undefined}
               className="w-full h-96 border rounded-lg"
               title={document.name}
             />
@@ -250,6 +296,12 @@ const DocumentView: React.FC = () => {
           </div>
         )}
       </div>
+
+      {/* Merge, split, extract, rotate and compress */}
+      {getPdfSourcePath(document) && <PdfToolkit document={document} />}
+
+      {/* Version History */}
+      <VersionHistoryPanel documentId={document.id} canChangeFile={document.user_id === currentUser?.id} />
     </div>
   );
 };
@@ -1,6 +1,11 @@
 import React from 'react';
 import { useLanguage, LanguageType } from '../context/LanguageContext';
 import { useTheme } from '../context/ThemeContext';
+import VersionRetentionSettings from '../components/storage/VersionRetentionSettings';
+import SemanticIndexSettings from '../components/search/SemanticIndexSettings';
+import ClassifierSettings from '../components/documents/ClassifierSettings';
+import DocumentFieldsSettings from '../components/documents/DocumentFieldsSettings';
+import CategoryManager from '../components/categories/CategoryManager';
 
 const Settings: React.FC = () => {
   const { language, setLanguage, translate } = useLanguage();
@@ -47,6 +52,31 @@ const Settings: React.FC = () => {
             <option value="fr">Français</option>
           </select>
         </div>
+
+        {/* Version Retention */}
+        <div className="mt-8 pt-8 border-t border-gray-200 dark:border-gray-700">
+          <VersionRetentionSettings />
+        </div>
+
+        {/* Semantic Search */}
+        <div className="mt-8 pt-8 border-t border-gray-200 dark:border-gray-700">
+          <SemanticIndexSettings />
+        </div>
+
+        {/* Categories */}
+        <div className="mt-8 pt-8 border-t border-gray-200 dark:border-gray-700">
+          <CategoryManager />
+        </div>
+
+        {/* Auto-categorization */}
+        <div className="mt-8 pt-8 border-t border-gray-200 dark:border-gray-700">
+          <ClassifierSettings />
+        </div>
+
+        {/* Invoice Fields */}
+        <div className="mt-8 pt-8 border-t border-gray-200 dark:border-gray-700">
+          <DocumentFieldsSettings />
+        </div>
       </div>
     </div>
   );
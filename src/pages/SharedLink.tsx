@@ -0,0 +1,20 @@
+import React from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import DocumentViewer from '../components/viewer/DocumentViewer';
+
+// Public page for tokenized share links; no login required
+const SharedLink: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900">
+      <DocumentViewer
+        shareToken={token}
+        onClose={() => navigate('/')}
+      />
+    </div>
+  );
+};
+
+export default SharedLink;
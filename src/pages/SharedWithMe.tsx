@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Eye } from 'lucide-react';
+import { useSupabaseAuth } from '../context/SupabaseAuthContext';
+import { getSharedWithMe, SharePermission } from '../services/sharingService';
+import { Document } from '../services/documentService';
+import DocumentViewer from '../components/viewer/DocumentViewer';
+
+const permissionLabels: Record<SharePermission, string> = {
+  read: 'View only',
+  write: 'Can edit',
+  admin: 'Can manage'
+};
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const SharedWithMe: React.FC = () => {
+  const { currentUser } = useSupabaseAuth();
+  const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
+
+  const { data: sharedDocuments = [], isLoading, error } = useQuery({
+    queryKey: ['shared-with-me', currentUser?.id],
+    queryFn: () => getSharedWithMe(currentUser?.id || ''),
+    enabled: !!currentUser?.id,
+  });
+
+  return (
+    <>
+      <div className="p-6">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Shared with me
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Documents other people have shared with you
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">Failed to load shared documents</p>
+          </div>
+        ) : sharedDocuments.length === 0 ? (
+          <div className="text-center py-12">
+            <span className="text-5xl">👥</span>
+            <p className="text-gray-500 dark:text-gray-400 mt-4">Nothing has been shared with you yet</p>
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow divide-y divide-gray-200 dark:divide-gray-700">
+            {sharedDocuments.map(({ share, document }) => (
+              <div
+                key={share.id}
+                className="p-4 flex items-center justify-between hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+                onClick={() => setSelectedDocument(document)}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                    {document.name}
+                  </p>
+                  <div className="flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    <span>{formatFileSize(document.size)}</span>
+                    {document.category && <span>• {document.category}</span>}
+                    <span>• Shared {new Date(share.created_at).toLocaleDateString()}</span>
+                    {share.expires_at && (
+                      <span>• Until {new Date(share.expires_at).toLocaleDateString()}</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3 ml-4">
+                  <span className="text-xs px-2 py-1 rounded-full bg-blue-100 dark:bg-blue-800 text-blue-700 dark:text-blue-300">
+                    {permissionLabels[share.permission]}
+                  </span>
+                  <Eye className="h-4 w-4 text-gray-400" />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selectedDocument && (
+        <DocumentViewer
+          document={selectedDocument}
+          isOpen={!!selectedDocument}
+          onClose={() => setSelectedDocument(null)}
+        />
+      )}
+    </>
+  );
+};
+
+export default SharedWithMe;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Trash2 } from 'lucide-react';
+import { useSupabaseAuth } from '../context/SupabaseAuthContext';
+import { advancedSearch } from '../services/searchService';
+import { getSavedSearch, deleteSavedSearch } from '../services/savedSearchService';
+import SearchResults from '../components/search/SearchResults';
+
+// Smart folders show the first page of matches; refine the search for more
+const SMART_FOLDER_LIMIT = 100;
+
+const SmartFolder: React.FC = () => {
+  const { searchId } = useParams<{ searchId: string }>();
+  const { currentUser } = useSupabaseAuth();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+
+  const { data: savedSearch, isLoading, error } = useQuery({
+    queryKey: ['saved-search', searchId],
+    queryFn: () => getSavedSearch(searchId!),
+    enabled: !!searchId,
+  });
+
+  const { data: result, isLoading: isSearching, error: searchError } = useQuery({
+    queryKey: ['search', currentUser?.id, 'smart-folder', savedSearch],
+    queryFn: () => advancedSearch({
+      query: savedSearch!.query,
+      filters: savedSearch!.filters,
+      sortBy: savedSearch!.sort_by,
+      sortOrder: savedSearch!.sort_order,
+      limit: SMART_FOLDER_LIMIT,
+      offset: 0
+    }, currentUser!.id),
+    enabled: !!savedSearch && !!currentUser?.id,
+    retry: false,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteSavedSearch(searchId!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches', currentUser?.id] });
+      navigate('/dashboard');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !savedSearch) {
+    return (
+      <div className="p-6 text-center">
+        <p className="text-red-600">Smart folder not found</p>
+      </div>
+    );
+  }
+
+  const activeFilters = Object.entries(savedSearch.filters).filter(([, value]) => value !== undefined && value !== null);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            <span className="mr-2">{savedSearch.icon || '🔎'}</span>
+            {savedSearch.name}
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1 text-sm">
+            {savedSearch.query ? <code>{savedSearch.query}</code> : 'All documents'}
+            {activeFilters.length > 0 && ` • ${activeFilters.map(([key, value]) => `${key}: ${value}`).join(', ')}`}
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            if (window.confirm(`Delete the smart folder "${savedSearch.name}"? Documents are not affected.`)) {
+              deleteMutation.mutate();
+            }
+          }}
+          disabled={deleteMutation.isPending}
+          className="flex items-center px-3 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg disabled:opacity-50"
+        >
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete folder
+        </button>
+      </div>
+
+      <SearchResults result={result} isLoading={isSearching} error={searchError} />
+    </div>
+  );
+};
+
+export default SmartFolder;
@@ -4,3 +4,6 @@ export { default as CategoryView } from './CategoryView';
 export { default as Settings } from './Settings';
 export { default as NotFound } from './NotFound';
 export { default as Upload } from './Upload';
+export { default as SharedWithMe } from './SharedWithMe';
+export { default as SharedLink } from './SharedLink';
+export { default as SmartFolder } from './SmartFolder';
@@ -10,7 +10,11 @@ const Dashboard = React.lazy(() => import('../pages/Dashboard'));
 const CategoryView = React.lazy(() => import('../pages/CategoryView'));
 const DocumentView = React.lazy(() => import('../pages/DocumentView'));
 const Upload = React.lazy(() => import('../pages/Upload'));
+const SharedWithMe = React.lazy(() => import('../pages/SharedWithMe'));
+const Settings = React.lazy(() => import('../pages/Settings'));
+const SmartFolder = React.lazy(() => import('../pages/SmartFolder'));
 const NotFound = React.lazy(() => import('../pages/NotFound'));
+const SharedLink = React.lazy(() => import('../pages/SharedLink'));
 
 // Auth pages
 const Login = React.lazy(() => import('../components/auth/Login'));
@@ -39,6 +43,7 @@ const AppRoutes: React.FC = () => {
         <Route path="/register" element={!currentUser ? <Register /> : <Navigate to="/dashboard" replace />} />
         <Route path="/forgot-password" element={!currentUser ? <ForgotPassword /> : <Navigate to="/dashboard" replace />} />
         <Route path="/splash" element={<SplashScreen />} />
+        <Route path="/s/:token" element={<SharedLink />} />
         
         {/* TestSprite Integration Testing Route (Development Only) */}
         <Route 
@@ -64,7 +69,7 @@ const AppRoutes: React.FC = () => {
           } 
         />
         <Route 
-          path="/category/:categoryName" 
+          path="/category/:categoryId" 
           element={
             <ProtectedRoute>
               <Layout>
@@ -93,6 +98,36 @@ const AppRoutes: React.FC = () => {
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/settings" 
+          element={
+            <ProtectedRoute>
+              <Layout>
+                <Settings />
+              </Layout>
+            </ProtectedRoute>
+          } 
+        />
+        <Route 
+          path="/shared" 
+          element={
+            <ProtectedRoute>
+              <Layout>
+                <SharedWithMe />
+              </Layout>
+            </ProtectedRoute>
+          } 
+        />
+        <Route 
+          path="/smart-folder/:searchId" 
+          element={
+            <ProtectedRoute>
+              <Layout>
+                <SmartFolder />
+              </Layout>
+            </ProtectedRoute>
+          } 
+        />
         <Route path="*" element={<NotFound />} />
       </Routes>
     </React.Suspense>
@@ -1,6 +1,18 @@
 import { supabase } from './supabase';
+import {
+  trainTextClassifier,
+  predictTextCategory,
+  isCompatibleClassifier,
+  LabeledText,
+  TextClassifierModel
+} from './textClassifier';
+import { getCategories } from './categoryService';
+import { recognizeImage } from './ocrService';
+import { CategoryWithRules, EMPTY_CATEGORY_RULES, matchCategoryRules } from '../utils/categoryRules';
+import { detectLanguage } from '../utils/textAnalysis';
 
-// Document categories for classification
+// Categories every account starts with (see create_default_categories).
+// Each user's own, editable list lives in the categories table.
 export const DOCUMENT_CATEGORIES = {
   PERSONAL: 'Personal',
   BILLS: 'Bills & Utilities',
@@ -18,7 +30,7 @@ export type DocumentCategory = typeof DOCUMENT_CATEGORIES[keyof typeof DOCUMENT_
 
 // Document metadata interface
 export interface DocumentMetadata {
-  category: DocumentCategory;
+  category: string;
   confidence: number;
   extractedText?: string;
   keywords: string[];
@@ -26,225 +38,207 @@ export interface DocumentMetadata {
   documentType?: string;
 }
 
-// Classification rules based on filename and content patterns (used internally)
-const getClassificationRules = () => ({
-  [DOCUMENT_CATEGORIES.BILLS]: [
-    'bill', 'invoice', 'receipt', 'utility', 'electric', 'gas', 'water', 'internet', 'phone'
-  ],
-  [DOCUMENT_CATEGORIES.MEDICAL]: [
-    'medical', 'doctor', 'prescription', 'hospital', 'clinic', 'health', 'insurance', 'lab'
-  ],
-  [DOCUMENT_CATEGORIES.LEGAL]: [
-    'contract', 'agreement', 'legal', 'court', 'lawyer', 'attorney', 'deed', 'will'
-  ],
-  [DOCUMENT_CATEGORIES.FINANCIAL]: [
-    'bank', 'statement', 'tax', 'loan', 'mortgage', 'credit', 'investment', 'finance'
-  ],
-  [DOCUMENT_CATEGORIES.WORK]: [
-    'resume', 'cv', 'payslip', 'salary', 'employment', 'work', 'business', 'company'
-  ],
-  [DOCUMENT_CATEGORIES.EDUCATION]: [
-    'diploma', 'certificate', 'transcript', 'school', 'university', 'education', 'course'
-  ],
-  [DOCUMENT_CATEGORIES.TRAVEL]: [
-    'passport', 'visa', 'ticket', 'boarding', 'hotel', 'travel', 'flight', 'reservation'
-  ],
-  [DOCUMENT_CATEGORIES.INSURANCE]: [
-    'insurance', 'policy', 'claim', 'coverage', 'premium', 'deductible'
-  ]
-});
+/**
+ * The categories a document can be filed into: the user's own, or the
+ * default names without rules when there is no user
+ */
+const getClassificationCategories = async (userId?: string): Promise<CategoryWithRules[]> => {
+  if (!userId) {
+    return Object.values(DOCUMENT_CATEGORIES).map(name => ({ name, rules: EMPTY_CATEGORY_RULES }));
+  }
+  return getCategories(userId);
+};
 
 /**
- * Enhanced ML-based document classification with TensorFlow.js
+ * Classify a document with the user's auto-filing rules and trained classifier.
+ * A rule match wins when it is more certain than the classifier, so explicit
+ * filename and sender rules file documents even before any training.
  */
 export const classifyDocument = async (
   fileName: string,
   mimeType: string,
-  extractedText: string
+  extractedText: string,
+  userId?: string
 ): Promise<DocumentMetadata> => {
   try {
-    // Use both keyword-based and ML-based classification
-    const keywordResult = await classifyByKeywords(fileName, mimeType, extractedText);
-    const mlResult = await classifyByML(extractedText);
-    
-    // Combine results with weighted confidence
-    const combinedConfidence = (keywordResult.confidence * 0.4) + (mlResult.confidence * 0.6);
-    
-    // Use ML result if confidence is high, otherwise fall back to keywords
-    const finalCategory = mlResult.confidence > 0.7 ? mlResult.category as DocumentCategory : keywordResult.category;
-    
+    const categories = await getClassificationCategories(userId);
+    const keywordResult = await classifyByKeywords(fileName, mimeType, extractedText, categories);
+    const mlResult = categories.length > 1
+      ? await classifyByML(`${fileName} ${extractedText}`, categories, userId)
+      : null;
+
+    const best = mlResult && mlResult.confidence >= keywordResult.confidence ? mlResult : keywordResult;
+
     return {
-      category: finalCategory,
-      confidence: combinedConfidence,
+      category: best.category,
+      confidence: best.confidence,
       extractedText,
-      keywords: [...keywordResult.keywords, ...mlResult.keywords],
+      keywords: Array.from(new Set([...keywordResult.keywords, ...(mlResult?.keywords || [])])),
       documentType: getDocumentType(mimeType),
-      language: detectLanguage(extractedText)
+      language: detectLanguage(extractedText).language
     };
   } catch (error) {
     console.error('ML classification failed, falling back to keywords:', error);
-    return classifyByKeywords(fileName, mimeType, extractedText);
+    return classifyByKeywords(fileName, mimeType, extractedText, []);
   }
 };
 
+// Trained models per user, reused while the user's category names are unchanged
+const classifierCache = new Map<string, TextClassifierModel>();
+
+const classifierOptions = (categories: CategoryWithRules[]) => ({
+  labels: categories.map(category => category.name),
+  seedKeywords: Object.fromEntries(categories.map(category => [category.name, category.rules.keywords]))
+});
+
 /**
- * ML-based classification using TensorFlow.js (mock implementation)
+ * Load the user's persisted classifier. A model trained for a different set of
+ * categories is retrained first; without a user, only the category keywords are known.
  */
-const classifyByML = async (text: string): Promise<{category: string, confidence: number, keywords: string[]}> => {
-  // Mock ML classification - in production this would use actual ML models
-  const textFeatures = extractTextFeatures(text);
-  
-  // Simulate ML model prediction
-  const predictions = {
-    'Financial': Math.random() * 0.3 + (textFeatures.financialScore * 0.7),
-    'Legal': Math.random() * 0.3 + (textFeatures.legalScore * 0.7),
-    'Medical': Math.random() * 0.3 + (textFeatures.medicalScore * 0.7),
-    'Academic': Math.random() * 0.3 + (textFeatures.academicScore * 0.7),
-    'Business': Math.random() * 0.3 + (textFeatures.businessScore * 0.7),
-    'Personal': Math.random() * 0.3 + (textFeatures.personalScore * 0.7)
-  };
-  
-  const bestCategory = Object.entries(predictions).reduce((a, b) => 
-    (predictions as any)[a[0]] > (predictions as any)[b[0]] ? a : b
-  )[0];
-  
-  return {
-    category: bestCategory,
-    confidence: (predictions as any)[bestCategory],
-    keywords: textFeatures.extractedKeywords
-  };
+const loadClassifier = async (categories: CategoryWithRules[], userId?: string): Promise<TextClassifierModel> => {
+  const options = classifierOptions(categories);
+  if (!userId) return trainTextClassifier([], options);
+
+  const cached = classifierCache.get(userId);
+  if (isCompatibleClassifier(cached, options.labels)) return cached;
+
+  const { data, error } = await supabase
+    .from('classifier_models')
+    .select('model')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load classifier: ${error.message}`);
+  }
+
+  if (isCompatibleClassifier(data?.model, options.labels)) {
+    classifierCache.set(userId, data!.model);
+    return data!.model;
+  }
+
+  return trainAndSaveClassifier(userId, categories);
 };
 
+export interface ClassifierStatus {
+  exampleCount: number;
+  accuracy: number | null;
+  trainedAt: string | null;
+}
+
 /**
- * Extract features from text for ML classification
+ * Get when the user's classifier was last trained and how well it did
  */
-const extractTextFeatures = (text: string) => {
-  const lowerText = text.toLowerCase();
-  
-  // Financial indicators
-  const financialTerms = ['$', '€', '£', 'invoice', 'payment', 'tax', 'bank', 'account'];
-  const financialScore = financialTerms.filter(term => lowerText.includes(term)).length / financialTerms.length;
-  
-  // Legal indicators
-  const legalTerms = ['contract', 'agreement', 'clause', 'legal', 'court', 'law'];
-  const legalScore = legalTerms.filter(term => lowerText.includes(term)).length / legalTerms.length;
-  
-  // Medical indicators
-  const medicalTerms = ['patient', 'doctor', 'medical', 'diagnosis', 'treatment', 'prescription'];
-  const medicalScore = medicalTerms.filter(term => lowerText.includes(term)).length / medicalTerms.length;
-  
-  // Academic indicators
-  const academicTerms = ['research', 'study', 'university', 'thesis', 'academic', 'journal'];
-  const academicScore = academicTerms.filter(term => lowerText.includes(term)).length / academicTerms.length;
-  
-  // Business indicators
-  const businessTerms = ['company', 'business', 'meeting', 'project', 'client', 'revenue'];
-  const businessScore = businessTerms.filter(term => lowerText.includes(term)).length / businessTerms.length;
-  
-  // Personal indicators
-  const personalTerms = ['personal', 'family', 'home', 'photo', 'vacation', 'hobby'];
-  const personalScore = personalTerms.filter(term => lowerText.includes(term)).length / personalTerms.length;
-  
-  // Extract key terms
-  const extractedKeywords = [
-    ...financialTerms.filter(term => lowerText.includes(term)),
-    ...legalTerms.filter(term => lowerText.includes(term)),
-    ...medicalTerms.filter(term => lowerText.includes(term)),
-    ...academicTerms.filter(term => lowerText.includes(term)),
-    ...businessTerms.filter(term => lowerText.includes(term)),
-    ...personalTerms.filter(term => lowerText.includes(term))
-  ];
-  
+export const getClassifierStatus = async (userId: string): Promise<ClassifierStatus> => {
+  const { data, error } = await supabase
+    .from('classifier_models')
+    .select('example_count, accuracy, trained_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch classifier status: ${error.message}`);
+  }
+
   return {
-    financialScore,
-    legalScore,
-    medicalScore,
-    academicScore,
-    businessScore,
-    personalScore,
-    extractedKeywords
+    exampleCount: data?.example_count || 0,
+    accuracy: data?.accuracy ?? null,
+    trainedAt: data?.trained_at || null
   };
 };
 
 /**
- * Keyword-based classification (fallback method)
+ * Train from the user's categorised documents and persist the model.
+ * Categories the pipeline filled in itself are left out until the user confirms or
+ * corrects them, so the model never learns from its own guesses. A category without
+ * a source was picked at upload; older guesses were marked as the pipeline's in 014.
  */
-const classifyByKeywords = async (
-  fileName: string,
-  mimeType: string,
-  extractedText: string
-): Promise<DocumentMetadata> => {
-  const text = `${fileName} ${extractedText}`.toLowerCase();
-  
-  const categories = {
-    'Financial': ['invoice', 'receipt', 'bank', 'statement', 'tax', 'financial', 'budget', 'expense'],
-    'Legal': ['contract', 'agreement', 'legal', 'law', 'court', 'judge', 'attorney', 'lawyer'],
-    'Medical': ['medical', 'health', 'doctor', 'patient', 'diagnosis', 'treatment', 'prescription'],
-    'Academic': ['research', 'study', 'paper', 'thesis', 'dissertation', 'journal', 'academic'],
-    'Business': ['business', 'company', 'corporation', 'meeting', 'proposal', 'project', 'plan'],
-    'Personal': ['personal', 'family', 'home', 'address', 'phone', 'email', 'birthday']
-  };
+const trainAndSaveClassifier = async (
+  userId: string,
+  categories: CategoryWithRules[]
+): Promise<TextClassifierModel> => {
+  const options = classifierOptions(categories);
 
-  let bestCategory = 'Other';
-  let maxScore = 0;
-  const keywords: string[] = [];
+  const { data: documents, error } = await supabase
+    .from('documents')
+    .select('name, category, ai_analysis')
+    .eq('user_id', userId)
+    .in('category', options.labels)
+    .or('metadata->>categorySource.is.null,metadata->>categorySource.neq.ai');
 
-  for (const [category, categoryKeywords] of Object.entries(categories)) {
-    let score = 0;
-    const foundKeywords: string[] = [];
+  if (error) {
+    throw new Error(`Failed to fetch training documents: ${error.message}`);
+  }
 
-    for (const keyword of categoryKeywords) {
-      if (text.includes(keyword)) {
-        score += 1;
-        foundKeywords.push(keyword);
-      }
-    }
+  const examples: LabeledText[] = (documents || []).map((doc: any) => ({
+    text: `${doc.name} ${doc.ai_analysis?.extractedText || ''}`,
+    label: doc.category
+  }));
 
-    if (score > maxScore) {
-      maxScore = score;
-      bestCategory = category;
-      keywords.length = 0;
-      keywords.push(...foundKeywords);
-    }
+  const model = trainTextClassifier(examples, options);
+
+  const { error: saveError } = await supabase
+    .from('classifier_models')
+    .upsert({
+      user_id: userId,
+      model,
+      example_count: model.exampleCount,
+      accuracy: model.accuracy,
+      trained_at: new Date().toISOString()
+    }, { onConflict: 'user_id' });
+
+  if (saveError) {
+    throw new Error(`Failed to save classifier: ${saveError.message}`);
   }
 
-  const confidence = Math.min(maxScore / 3, 1);
-  
+  classifierCache.set(userId, model);
+  return model;
+};
+
+/**
+ * Retrain the user's classifier over their current categories
+ */
+export const trainUserClassifier = async (userId: string): Promise<ClassifierStatus> => {
+  const model = await trainAndSaveClassifier(userId, await getCategories(userId));
+  return { exampleCount: model.exampleCount, accuracy: model.accuracy, trainedAt: new Date().toISOString() };
+};
+
+/**
+ * Classification with the user's trained text classifier
+ */
+const classifyByML = async (
+  text: string,
+  categories: CategoryWithRules[],
+  userId?: string
+): Promise<{category: string, confidence: number, keywords: string[]}> => {
+  const prediction = predictTextCategory(await loadClassifier(categories, userId), text);
+
   return {
-    category: bestCategory as DocumentCategory,
-    confidence,
-    extractedText,
-    keywords: Array.from(new Set(keywords)),
-    documentType: getDocumentType(mimeType),
-    language: detectLanguage(extractedText)
+    category: prediction.label,
+    confidence: prediction.confidence,
+    keywords: prediction.keywords
   };
 };
 
 /**
- * Detect document language
+ * Classification by the categories' auto-filing rules (fallback method)
  */
-const detectLanguage = (text: string): string => {
-  // Simple language detection based on common words
-  const languages = {
-    'en': ['the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by'],
-    'es': ['el', 'la', 'y', 'o', 'pero', 'en', 'con', 'por', 'para', 'de', 'que', 'se'],
-    'fr': ['le', 'la', 'et', 'ou', 'mais', 'dans', 'sur', 'avec', 'par', 'pour', 'de', 'que'],
-    'de': ['der', 'die', 'das', 'und', 'oder', 'aber', 'in', 'auf', 'mit', 'von', 'zu', 'für']
+const classifyByKeywords = async (
+  fileName: string,
+  mimeType: string,
+  extractedText: string,
+  categories: CategoryWithRules[]
+): Promise<DocumentMetadata> => {
+  const match = matchCategoryRules(categories, { fileName, mimeType, text: extractedText });
+
+  return {
+    category: match?.category || DOCUMENT_CATEGORIES.OTHER,
+    confidence: match ? Math.min(match.score / 3, 1) : 0,
+    extractedText,
+    keywords: match?.keywords || [],
+    documentType: getDocumentType(mimeType),
+    language: detectLanguage(extractedText).language
   };
-  
-  const lowerText = text.toLowerCase();
-  let bestLang = 'en';
-  let maxMatches = 0;
-  
-  for (const [lang, words] of Object.entries(languages)) {
-    const matches = words.filter(word => lowerText.includes(` ${word} `)).length;
-    if (matches > maxMatches) {
-      maxMatches = matches;
-      bestLang = lang;
-    }
-  }
-  
-  return bestLang;
 };
 
 /**
@@ -298,18 +292,12 @@ const extractTextFromPDF = async (file: File): Promise<string> => {
 };
 
 /**
- * Extract text from image using Tesseract.js OCR
+ * Extract text from an image with the active OCR provider
  */
 const extractTextFromImage = async (file: File): Promise<string> => {
   try {
-    // Dynamic import to avoid bundling issues
-    const { createWorker } = await import('tesseract.js');
-    
-    const worker = await createWorker('eng');
-    const { data: { text } } = await worker.recognize(file);
-    await worker.terminate();
-    
-    return text || '';
+    const page = await recognizeImage(file);
+    return page.text || '';
   } catch (error) {
     console.error('Error performing OCR:', error);
     return '';
@@ -365,7 +353,7 @@ export const updateDocumentWithClassification = async (
  */
 export const getDocumentsByCategory = async (
   userId: string,
-  category: DocumentCategory
+  category: string
 ): Promise<any[]> => {
   const { data, error } = await supabase
     .from('documents')
@@ -395,16 +383,11 @@ export const getCategoryStats = async (userId: string): Promise<Record<string, n
   }
 
   const stats: Record<string, number> = {};
-  
-  // Initialize all categories with 0
-  Object.values(DOCUMENT_CATEGORIES).forEach(category => {
-    stats[category] = 0;
-  });
 
-  // Count documents in each category
+  // Count documents in each category the user has filed into
   data?.forEach((doc: any) => {
-    if (doc.category && stats.hasOwnProperty(doc.category)) {
-      stats[doc.category]++;
+    if (doc.category) {
+      stats[doc.category] = (stats[doc.category] || 0) + 1;
     }
   });
 
@@ -190,6 +190,7 @@ export const documentCache = new CacheManager(50, 10 * 60 * 1000); // 10 minutes
 export const searchCache = new CacheManager(30, 5 * 60 * 1000);    // 5 minutes for search results
 export const userCache = new CacheManager(20, 15 * 60 * 1000);     // 15 minutes for user data
 export const generalCache = new CacheManager(100, 5 * 60 * 1000);  // General purpose cache
+export const urlCache = new CacheManager(200, 55 * 60 * 1000);     // Signed storage URLs (valid for 1 hour)
 
 // Cache key generators
 export const cacheKeys = {
@@ -203,7 +204,9 @@ export const cacheKeys = {
   translation: (text: string, targetLang: string) => 
     `translation:${targetLang}:${text.substring(0, 50)}`,
   aiClassification: (text: string) => 
-    `ai:classification:${text.substring(0, 100)}`
+    `ai:classification:${text.substring(0, 100)}`,
+  signedUrl: (path: string, variant: string = 'view') =>
+    `signed-url:${variant}:${path}`
 };
 
 // React hook for cache operations
@@ -242,6 +245,7 @@ export const useCache = () => {
       searchCache.clear();
       userCache.clear();
       generalCache.clear();
+      urlCache.clear();
     },
     
     // Statistics
@@ -249,7 +253,8 @@ export const useCache = () => {
       document: documentCache.getStats(),
       search: searchCache.getStats(),
       user: userCache.getStats(),
-      general: generalCache.getStats()
+      general: generalCache.getStats(),
+      url: urlCache.getStats()
     })
   };
 };
@@ -0,0 +1,121 @@
+import { supabase } from './supabase';
+import { CategoryRules, normalizeCategoryRules } from '../utils/categoryRules';
+
+export interface Category {
+  id: string;
+  user_id: string;
+  name: string;
+  parent_id: string | null;
+  color: string | null;
+  icon: string | null;
+  rules: CategoryRules;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CategoryInput {
+  name: string;
+  parentId?: string | null;
+  color?: string;
+  icon?: string;
+  rules?: CategoryRules;
+}
+
+// Postgres unique_violation, raised for a duplicate (user_id, lower(name))
+const UNIQUE_VIOLATION = '23505';
+
+// Accounts created before categories were stored start with this icon
+const LEGACY_DEFAULT_ICON = 'document';
+
+/**
+ * Icon to show for a category: its emoji, or a folder for the legacy default
+ */
+export const getCategoryIcon = (category: Pick<Category, 'icon'>): string => {
+  return category.icon && category.icon !== LEGACY_DEFAULT_ICON ? category.icon : '📁';
+};
+
+const toCategory = (row: any): Category => ({
+  ...row,
+  parent_id: row.parent_id || null,
+  rules: normalizeCategoryRules(row.rules)
+});
+
+const toRow = (input: Partial<CategoryInput>) => ({
+  ...(input.name !== undefined && { name: input.name.trim() }),
+  ...(input.parentId !== undefined && { parent_id: input.parentId || null }),
+  ...(input.color !== undefined && { color: input.color }),
+  ...(input.icon !== undefined && { icon: input.icon }),
+  ...(input.rules !== undefined && { rules: input.rules })
+});
+
+const describeError = (error: { code?: string; message: string }, name?: string): string => {
+  return error.code === UNIQUE_VIOLATION
+    ? `A category named "${name?.trim()}" already exists`
+    : error.message;
+};
+
+/**
+ * List a user's categories in alphabetical order
+ */
+export const getCategories = async (userId: string): Promise<Category[]> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load categories: ${error.message}`);
+  }
+
+  return (data || []).map(toCategory);
+};
+
+/**
+ * Create a category, optionally nested under another
+ */
+export const createCategory = async (userId: string, input: CategoryInput): Promise<Category> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .insert({ user_id: userId, ...toRow(input) })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create category: ${describeError(error, input.name)}`);
+  }
+
+  return toCategory(data);
+};
+
+/**
+ * Update a category. Renaming moves its documents to the new name.
+ */
+export const updateCategory = async (id: string, input: Partial<CategoryInput>): Promise<Category> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .update(toRow(input))
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update category: ${describeError(error, input.name)}`);
+  }
+
+  return toCategory(data);
+};
+
+/**
+ * Delete a category. Its documents and sub-categories move up to its parent.
+ */
+export const deleteCategory = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('categories')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete category: ${error.message}`);
+  }
+};
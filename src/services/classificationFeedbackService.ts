@@ -0,0 +1,77 @@
+import { supabase } from './supabase';
+import { trainUserClassifier } from './aiService';
+import {
+  ClassificationOverride,
+  AccuracyPoint,
+  collectRejectedTags,
+  toAccuracyPoints
+} from '../utils/classificationFeedback';
+
+/**
+ * Store manual overrides of a document's predicted category or tags as labeled examples.
+ * A category correction retrains the user's classifier in the background.
+ */
+export const recordClassificationOverrides = async (
+  userId: string,
+  documentId: string,
+  overrides: ClassificationOverride[]
+): Promise<void> => {
+  if (overrides.length === 0) return;
+
+  const { error } = await supabase
+    .from('classification_feedback')
+    .insert(overrides.map(override => ({
+      user_id: userId,
+      document_id: documentId,
+      field: override.field,
+      predicted_category: override.predictedCategory,
+      predicted_confidence: override.predictedConfidence,
+      predicted_tags: override.predictedTags,
+      corrected_category: override.correctedCategory,
+      corrected_tags: override.correctedTags
+    })));
+
+  if (error) {
+    throw new Error(`Failed to record classification feedback: ${error.message}`);
+  }
+
+  if (overrides.some(override => override.field === 'category')) {
+    trainUserClassifier(userId).catch(trainError => {
+      console.error('Failed to retrain classifier after correction:', trainError);
+    });
+  }
+};
+
+/**
+ * Tags the user keeps removing from predictions, lowercased
+ */
+export const getRejectedTags = async (userId: string): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('classification_feedback')
+    .select('predicted_tags, corrected_tags')
+    .eq('user_id', userId)
+    .eq('field', 'tags')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load tag feedback: ${error.message}`);
+  }
+
+  return collectRejectedTags((data || []).map((row: any) => ({
+    predictedTags: row.predicted_tags || [],
+    correctedTags: row.corrected_tags || []
+  })));
+};
+
+/**
+ * Monthly share of category predictions the user kept, oldest first
+ */
+export const getClassificationAccuracy = async (): Promise<AccuracyPoint[]> => {
+  const { data, error } = await supabase.rpc('classification_accuracy_by_month');
+
+  if (error) {
+    throw new Error(`Failed to load classification accuracy: ${error.message}`);
+  }
+
+  return toAccuracyPoints(data || []);
+};
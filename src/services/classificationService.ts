@@ -1,252 +0,0 @@
-import { Document } from './documentService';
-
-// TODO: Replace with Supabase Edge Functions when implemented
-// For now, using mock implementation during Firebase migration
-
-export interface ClassificationResult {
-  success: boolean;
-  documentId: string;
-  classification: {
-    categories: string[];
-    tags: string[];
-    summary: string;
-    language: string;
-    confidence: number;
-    keywords: string[];
-  };
-}
-
-export interface TextExtractionResult {
-  extractedText: string;
-  confidence: number;
-  language: string;
-  wordCount: number;
-  characterCount: number;
-}
-
-export interface PDFConversionResult {
-  pdfUrl: string;
-  status: string;
-  fileSize: number;
-  processingTime: number;
-}
-
-/**
- * Classify a document using AI to extract categories, tags, and summary
- * 
- * Note: This requires a Supabase Edge Function to be set up that integrates
- * with an AI service like Google Cloud Natural Language API or a custom model.
- */
-export const classifyDocument = async (
-  documentId: string,
-  documentUrl: string,
-  documentType: string
-): Promise<ClassificationResult> => {
-  try {
-    // Call the Supabase Edge Function
-    const response = await fetch(`${process.env.REACT_APP_SUPABASE_URL}/functions/v1/classify-document`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.REACT_APP_SUPABASE_ANON_KEY}`
-      },
-      body: JSON.stringify({
-        documentId,
-        documentUrl,
-        documentType
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result = await response.json();
-    return result as ClassificationResult;
-  } catch (error) {
-    console.error('Error classifying document:', error);
-    throw error;
-  }
-};
-
-/**
- * Extract text content from a document using Supabase Edge Function
- * 
- * Note: This requires a Supabase Edge Function to be set up that can
- * extract text from different document types (PDF, DOCX, etc.)
- */
-export const extractTextFromDocument = async (
-  documentUrl: string,
-  documentType: string
-): Promise<TextExtractionResult> => {
-  try {
-    // Call the Supabase Edge Function
-    const response = await fetch(`${process.env.REACT_APP_SUPABASE_URL}/functions/v1/extract-text`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.REACT_APP_SUPABASE_ANON_KEY}`
-      },
-      body: JSON.stringify({
-        documentUrl,
-        documentType
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result = await response.json();
-    return result as TextExtractionResult;
-  } catch (error) {
-    console.error('Error extracting text from document:', error);
-    throw error;
-  }
-};
-
-/**
- * Detect the language of a document using Supabase Edge Function
- */
-export const detectLanguage = async (
-  documentUrl: string,
-  documentType: string
-): Promise<string> => {
-  try {
-    // Call the Supabase Edge Function
-    const response = await fetch(`${process.env.REACT_APP_SUPABASE_URL}/functions/v1/detect-language`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.REACT_APP_SUPABASE_ANON_KEY}`
-      },
-      body: JSON.stringify({
-        documentUrl,
-        documentType
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result = await response.json();
-    return result.language;
-  } catch (error) {
-    console.error('Error detecting document language:', error);
-    throw error;
-  }
-};
-
-/**
- * Generate a summary of a document using Supabase Edge Function
- */
-export const generateDocumentSummary = async (
-  documentUrl: string,
-  documentType: string,
-  maxLength: number = 200
-): Promise<string> => {
-  try {
-    // Call the Supabase Edge Function
-    const response = await fetch(`${process.env.REACT_APP_SUPABASE_URL}/functions/v1/summarize-document`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.REACT_APP_SUPABASE_ANON_KEY}`
-      },
-      body: JSON.stringify({
-        documentUrl,
-        documentType,
-        maxLength
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result = await response.json();
-    return result.summary;
-  } catch (error) {
-    console.error('Error generating document summary:', error);
-    throw error;
-  }
-};
-
-/**
- * Process a document after upload to extract metadata, classify, and tag
- */
-export const processDocument = async (document: Document): Promise<Document> => {
-  try {
-    // Classify the document
-    const classificationResult = await classifyDocument(
-      document.id || '',
-      document.url,
-      document.type
-    );
-    
-    // Update document with classification results
-    const updatedDocument: Document = {
-      ...document,
-      category: classificationResult.classification.categories[0] || document.category,
-      tags: classificationResult.classification.tags || document.tags || [],
-      metadata: {
-        ...document.metadata,
-        summary: classificationResult.classification.summary,
-        language: classificationResult.classification.language,
-        categories: classificationResult.classification.categories,
-        classificationConfidence: classificationResult.classification.confidence
-      }
-    };
-    
-    return updatedDocument;
-  } catch (error) {
-    console.error('Error processing document:', error);
-    // Return original document if processing fails
-    return document;
-  }
-};
-
-/**
- * Mock implementation of document classification for development/testing
- * This simulates the AI classification without requiring the actual Cloud Functions
- */
-// Removed mockClassifyDocument
-
-/**
- * Convert a document to PDF format using Supabase Edge Function
- * 
- * Note: This requires a Supabase Edge Function to be set up that can
- * convert various document types to PDF format.
- */
-export const convertToPDF = async (
-  documentUrl: string,
-  documentType: string,
-  documentId?: string
-): Promise<PDFConversionResult> => {
-  try {
-    // Call the Supabase Edge Function
-    const response = await fetch(`${process.env.REACT_APP_SUPABASE_URL}/functions/v1/convert-to-pdf`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.REACT_APP_SUPABASE_ANON_KEY}`
-      },
-      body: JSON.stringify({
-        documentUrl,
-        documentType,
-        documentId
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const result = await response.json();
-    return result as PDFConversionResult;
-  } catch (error) {
-    console.error('Error converting document to PDF:', error);
-    throw error;
-  }
-};
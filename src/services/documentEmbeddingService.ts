@@ -0,0 +1,102 @@
+import { supabase } from './supabase';
+import { chunkDocumentText, getEmbeddingProvider, PageText } from './embeddingService';
+
+// Chunks sent to the provider per request
+const EMBED_BATCH_SIZE = 32;
+
+/**
+ * Chunk a document's extracted text per page, embed the chunks and replace
+ * the document's stored vectors for the active model. Returns the chunk count.
+ */
+export const indexDocumentEmbeddings = async (documentId: string): Promise<number> => {
+  const { data: document, error } = await supabase
+    .from('documents')
+    .select('id, user_id, ai_analysis')
+    .eq('id', documentId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load document for indexing: ${error.message}`);
+  }
+
+  const provider = getEmbeddingProvider();
+  const pages: PageText[] | undefined = document.ai_analysis?.pages;
+  const chunks = chunkDocumentText(document.ai_analysis?.extractedText || '', pages);
+
+  const embeddings: number[][] = [];
+  for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+    const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+    embeddings.push(...await provider.embed(batch.map(chunk => chunk.content)));
+  }
+
+  const { error: deleteError } = await supabase
+    .from('document_chunks')
+    .delete()
+    .eq('document_id', documentId)
+    .eq('model', provider.model);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear old embeddings: ${deleteError.message}`);
+  }
+
+  if (chunks.length === 0) return 0;
+
+  const { error: insertError } = await supabase
+    .from('document_chunks')
+    .insert(chunks.map((chunk, index) => ({
+      document_id: documentId,
+      user_id: document.user_id,
+      chunk_index: chunk.chunkIndex,
+      page_number: chunk.pageNumber,
+      content: chunk.content,
+      embedding: embeddings[index],
+      model: provider.model
+    })));
+
+  if (insertError) {
+    throw new Error(`Failed to store embeddings: ${insertError.message}`);
+  }
+
+  return chunks.length;
+};
+
+/**
+ * Index every document with extracted text that has no vectors for the active model yet
+ */
+export const indexMissingEmbeddings = async (userId: string): Promise<{ indexed: number; failed: number }> => {
+  const provider = getEmbeddingProvider();
+
+  const [{ data: documents, error }, { data: indexedChunks, error: chunksError }] = await Promise.all([
+    supabase
+      .from('documents')
+      .select('id')
+      .eq('user_id', userId)
+      .not('ai_analysis->>extractedText', 'is', null),
+    supabase
+      .from('document_chunks')
+      .select('document_id')
+      .eq('user_id', userId)
+      .eq('model', provider.model)
+      .eq('chunk_index', 0)
+  ]);
+
+  if (error || chunksError) {
+    throw new Error(`Failed to find unindexed documents: ${(error || chunksError)!.message}`);
+  }
+
+  const indexedIds = new Set((indexedChunks || []).map(chunk => chunk.document_id));
+  let indexed = 0;
+  let failed = 0;
+
+  for (const document of (documents || []).filter(doc => !indexedIds.has(doc.id))) {
+    try {
+      await indexDocumentEmbeddings(document.id);
+      indexed++;
+    } catch (err) {
+      console.error(`Failed to index document ${document.id}:`, err);
+      failed++;
+    }
+  }
+
+  return { indexed, failed };
+};
@@ -0,0 +1,248 @@
+import { supabase } from './supabase';
+import { classifyDocument, DOCUMENT_CATEGORIES } from './aiService';
+import { getRejectedTags } from './classificationFeedbackService';
+import { CLASSIFIER_VERSION } from './textClassifier';
+import { getOcrProvider, recognizeImage, recognizePdfPages } from './ocrService';
+import { detectLanguage, summarizeText } from '../utils/textAnalysis';
+import { findImageOnlyPages, mergeOcrText } from '../utils/aiAnalysis';
+import { detectFieldDocumentKind, extractDocumentFields } from '../utils/documentFields';
+import {
+  PipelineStageName,
+  StageOutputs,
+  ExtractionOutput,
+  ExtractedPage,
+  ConversionOutput
+} from '../types/aiAnalysis';
+import type { Document, ProcessingStatus } from './documentService';
+
+export interface PipelineContext {
+  document: Pick<Document, 'id' | 'name' | 'type' | 'user_id' | 'category'>;
+  fileUrl: string; // Signed URL of the file, for stages that read it in the browser
+  outputs: Partial<StageOutputs>; // Outputs of the stages that ran before this one
+}
+
+export interface PipelineStage<K extends PipelineStageName = PipelineStageName> {
+  name: K;
+  version: string; // Recorded with the output; a stage whose version changed runs again on retry
+  status: ProcessingStatus; // Shown on the document while the stage runs
+  shouldRun?: (context: PipelineContext) => boolean; // Skipped when this returns false
+  run: (context: PipelineContext) => Promise<StageOutputs[K]>;
+}
+
+// Stages run in this order; later stages read the outputs of earlier ones
+export const PIPELINE_STAGE_ORDER: PipelineStageName[] = ['extract', 'ocr', 'language', 'classify', 'fields', 'summarize', 'convert'];
+
+const SUMMARY_LENGTH = 200;
+// Documents filed here are read for invoice fields even when their text does not say "invoice"
+const FIELD_CATEGORIES: string[] = [DOCUMENT_CATEGORIES.BILLS, DOCUMENT_CATEGORIES.FINANCIAL];
+const MAX_SUGGESTED_TAGS = 5;
+
+// What the convert-to-pdf edge function can read, by MIME type and by extension
+const CONVERTIBLE_TYPES = new Set([
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.oasis.opendocument.text',
+  'text/plain',
+  'text/csv',
+  'text/html',
+  'application/xhtml+xml',
+  'text/markdown',
+  'text/x-markdown',
+  'image/jpeg',
+  'image/jpg',
+  'image/png'
+]);
+const CONVERTIBLE_EXTENSIONS = new Set([
+  'docx', 'odt', 'txt', 'text', 'log', 'csv', 'html', 'htm', 'xhtml', 'md', 'markdown', 'jpg', 'jpeg', 'png'
+]);
+
+const isConvertibleToPdf = (document: Pick<Document, 'name' | 'type'>): boolean => {
+  const extension = document.name.split('.').pop()?.toLowerCase() || '';
+  return CONVERTIBLE_TYPES.has(document.type.toLowerCase()) || CONVERTIBLE_EXTENSIONS.has(extension);
+};
+
+const requireExtraction = (context: PipelineContext): ExtractionOutput => {
+  if (!context.outputs.extract) {
+    throw new Error('Text extraction has not run');
+  }
+  return context.outputs.extract;
+};
+
+/**
+ * The document's text: the text layer, with recognized text for the pages that had none
+ */
+const getDocumentText = (context: PipelineContext): string => {
+  return mergeOcrText(requireExtraction(context), context.outputs.ocr).extractedText;
+};
+
+const extractStage: PipelineStage<'extract'> = {
+  name: 'extract',
+  version: 'edge-extract-text-v2',
+  status: 'extracting',
+  run: async ({ document }) => {
+    const { data, error } = await supabase.functions.invoke('extract-text', {
+      body: { documentId: document.id }
+    });
+
+    if (error) {
+      throw new Error(`Failed to extract text: ${error.message}`);
+    }
+
+    const extractedText: string = data?.extractedText || '';
+    return {
+      extractedText,
+      ...(Array.isArray(data?.pages) && { pages: data.pages as ExtractedPage[] }),
+      wordCount: data?.wordCount ?? (extractedText.match(/\S+/g) || []).length,
+      characterCount: data?.characterCount ?? extractedText.length
+    };
+  }
+};
+
+/**
+ * Recognizes images, and the pages of a PDF that have no text layer
+ */
+const ocrStage: PipelineStage<'ocr'> = {
+  name: 'ocr',
+  get version() {
+    return getOcrProvider().name;
+  },
+  status: 'recognizing_text',
+  shouldRun: (context) => context.document.type.startsWith('image/')
+    || (context.document.type === 'application/pdf' && findImageOnlyPages(requireExtraction(context)).length > 0),
+  run: async (context) => {
+    const response = await fetch(context.fileUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to download document for OCR: ${response.status} ${response.statusText}`);
+    }
+    const file = await response.blob();
+
+    const pages = context.document.type.startsWith('image/')
+      ? [await recognizeImage(file)]
+      : await recognizePdfPages(file, findImageOnlyPages(requireExtraction(context)));
+
+    return { provider: getOcrProvider().name, pages };
+  }
+};
+
+const languageStage: PipelineStage<'language'> = {
+  name: 'language',
+  version: 'stopwords-v1',
+  status: 'detecting_language',
+  run: async (context) => {
+    const guess = detectLanguage(getDocumentText(context));
+    return { language: guess.language, languageConfidence: guess.confidence };
+  }
+};
+
+/**
+ * Files the document with the user's rules and trained classifier. Suggested tags
+ * leave out any the user has removed from earlier predictions.
+ */
+const classifyStage: PipelineStage<'classify'> = {
+  name: 'classify',
+  version: `rules-naive-bayes-v${CLASSIFIER_VERSION}`,
+  status: 'classifying',
+  run: async (context) => {
+    const { document } = context;
+    const result = await classifyDocument(document.name, document.type, getDocumentText(context), document.user_id);
+
+    let rejectedTags = new Set<string>();
+    try {
+      rejectedTags = await getRejectedTags(document.user_id);
+    } catch (error) {
+      console.error('Failed to load rejected tags:', error);
+    }
+
+    return {
+      prediction: {
+        category: result.category,
+        confidence: result.confidence,
+        tags: result.keywords
+          .filter(keyword => !rejectedTags.has(keyword.trim().toLowerCase()))
+          .slice(0, MAX_SUGGESTED_TAGS),
+        predictedAt: new Date().toISOString()
+      },
+      keywords: result.keywords,
+      documentType: result.documentType || 'Unknown Document'
+    };
+  }
+};
+
+/**
+ * Reads vendor, dates, totals, tax and IBAN from invoices, receipts and bills: documents
+ * filed as bills or financial, or whose text names one of those kinds
+ */
+const fieldsStage: PipelineStage<'fields'> = {
+  name: 'fields',
+  version: 'labelled-fields-v1',
+  status: 'extracting_fields',
+  shouldRun: (context) => {
+    const category = context.document.category || context.outputs.classify?.prediction.category;
+    return (!!category && FIELD_CATEGORIES.includes(category))
+      || detectFieldDocumentKind(getDocumentText(context)) !== null;
+  },
+  run: async (context) => ({
+    fields: extractDocumentFields(getDocumentText(context))
+  })
+};
+
+const summarizeStage: PipelineStage<'summarize'> = {
+  name: 'summarize',
+  version: 'extractive-v1',
+  status: 'summarizing',
+  run: async (context) => ({
+    summary: summarizeText(getDocumentText(context), SUMMARY_LENGTH)
+  })
+};
+
+/**
+ * Converts office, text, web and image documents to a PDF/A copy stored next to the original.
+ * Formats the converter cannot read are skipped; a failed conversion names the format.
+ */
+const convertStage: PipelineStage<'convert'> = {
+  name: 'convert',
+  version: 'edge-convert-to-pdfa-v2',
+  status: 'converting',
+  shouldRun: ({ document }) => isConvertibleToPdf(document),
+  run: async ({ document }) => {
+    const { data, error } = await supabase.functions.invoke('convert-to-pdf', {
+      body: { documentId: document.id }
+    });
+
+    if (error) {
+      throw new Error(`Failed to convert to PDF: ${error.message}`);
+    }
+    if (!data?.success) {
+      const format = data?.format ? data.format.toUpperCase() : document.type;
+      throw new Error(`Failed to convert ${format} to PDF: ${data?.error || 'unknown error'}`);
+    }
+
+    return { format: data.format, pdfPath: data.pdfPath } as ConversionOutput;
+  }
+};
+
+type StageRegistry = { [K in PipelineStageName]: PipelineStage<K> };
+
+const activeStages: StageRegistry = {
+  extract: extractStage,
+  ocr: ocrStage,
+  language: languageStage,
+  classify: classifyStage,
+  fields: fieldsStage,
+  summarize: summarizeStage,
+  convert: convertStage
+};
+
+/**
+ * The stages that make up the pipeline, in the order they run
+ */
+export const getPipelineStages = (): PipelineStage[] => {
+  return PIPELINE_STAGE_ORDER.map(name => activeStages[name] as PipelineStage);
+};
+
+/**
+ * Swap the implementation of one stage, e.g. a hosted summarizer or an offline extractor.
+ * Give the replacement a new version so documents record which implementation produced their results.
+ */
+export const setPipelineStage = <K extends PipelineStageName>(stage: PipelineStage<K>): void => {
+  (activeStages as Record<PipelineStageName, PipelineStage<any>>)[stage.name] = stage;
+};
@@ -1,13 +1,56 @@
 import { supabase } from './supabase';
 import { clearStorageCache } from './storageService';
-import { classifyDocument, extractTextFromDocument, convertToPDF } from './classificationService';
+import { uploadFileResumable, ResumableUploadProgress } from './resumableUpload';
+import { resolveDocumentUrl, invalidateDocumentUrl } from './documentUrlService';
+import { createDocumentVersion } from './fileVersioning';
+import { indexDocumentEmbeddings } from './documentEmbeddingService';
+import { computeFileChecksum } from '../utils/fileHash';
+import { getPipelineStages, PipelineContext } from './documentPipeline';
+import { recordClassificationOverrides } from './classificationFeedbackService';
+import { findClassificationOverrides } from '../utils/classificationFeedback';
+import { buildAIAnalysis } from '../utils/aiAnalysis';
+import { canRetryProcessing, MAX_PROCESSING_ATTEMPTS } from '../utils/processingRetry';
+import { AIAnalysis, DocumentFields, PipelineStageName, StageOutputs } from '../types/aiAnalysis';
+
+export type ProcessingStatus =
+  | 'queued'
+  | 'extracting'
+  | 'recognizing_text'
+  | 'detecting_language'
+  | 'classifying'
+  | 'extracting_fields'
+  | 'summarizing'
+  | 'converting'
+  | 'done'
+  | 'failed';
+
+export type ProcessingStepName = PipelineStageName;
+
+export interface ProcessingStepState<T = unknown> {
+  status: 'running' | 'succeeded' | 'failed' | 'skipped';
+  attempts: number;
+  version?: string; // Version of the stage that produced the result
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: T;
+}
+
+export type ProcessingSteps = { [K in ProcessingStepName]?: ProcessingStepState<StageOutputs[K]> };
+
+export interface ProcessingQueueResult {
+  retried: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
 
 export interface Document {
   id: string;
   name: string;
   type: string;
   size: number;
-  url: string;
+  url?: string | null; // Legacy public URL; resolve access through documentUrlService
   path: string;
   user_id: string;
   category?: string;
@@ -16,15 +59,34 @@ export interface Document {
   confidence?: number;
   document_type?: string;
   language?: string;
-  ai_analysis?: any; // JSONB field for AI processing results
+  ai_analysis?: AIAnalysis | null;
   metadata?: Record<string, any>;
+  processing_status?: ProcessingStatus;
+  processing_steps?: ProcessingSteps;
+  processing_attempts?: number;
+  processing_error?: string | null;
+  processing_updated_at?: string;
+  checksum?: string; // SHA-256 of the file contents
+  pdf_path?: string | null; // PDF/A copy converted from the original
   created_at: string;
   updated_at: string;
 }
 
 export interface DocumentUploadProgress {
-  progress: number;
-  snapshot: any;
+  progress: number; // 0-100
+  snapshot: ResumableUploadProgress;
+}
+
+export type DuplicateResolution = 'link' | 'version' | 'keep_both';
+
+export interface DuplicateCheckResult {
+  checksum: string;
+  existingDocument: Document | null;
+}
+
+export interface DuplicateCleanupResult {
+  removed: number;
+  bytesFreed: number;
 }
 
 /**
@@ -36,34 +98,31 @@ export const uploadDocument = async (
   category?: string,
   tags?: string[],
   metadata?: Record<string, any>,
-  onProgress?: (progress: DocumentUploadProgress) => void
+  onProgress?: (progress: DocumentUploadProgress) => void,
+  checksum?: string
 ): Promise<Document> => {
   try {
     const fileName = `${Date.now()}_${file.name}`;
-    const filePath = `${userId}/${fileName}`;
-    
-    // Upload file to Supabase Storage
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from('documents')
-      .upload(filePath, file);
-
-    if (uploadError) {
-      throw uploadError;
-    }
-
-    // Get public URL for the uploaded file
-    const { data: { publicUrl } } = supabase.storage
-      .from('documents')
-      .getPublicUrl(filePath);
+    const fileChecksum = checksum || await computeFileChecksum(file);
+    
+    // Upload file to Supabase Storage in resumable chunks.
+    // An interrupted upload of the same file resumes under its original path.
+    const { objectName: filePath } = await uploadFileResumable(file, {
+      bucket: 'documents',
+      objectName: `${userId}/${fileName}`,
+      contentType: file.type,
+      onProgress: (snapshot) => onProgress?.({ progress: snapshot.progress, snapshot })
+    });
 
     // Create document metadata in database
     const documentData: Omit<Document, 'id'> = {
       name: file.name,
       type: file.type,
       size: file.size,
-      url: publicUrl,
       path: filePath,
       user_id: userId,
+      processing_status: 'queued',
+      checksum: fileChecksum,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
       ...(category && { category }),
@@ -86,7 +145,7 @@ export const uploadDocument = async (
     clearStorageCache(userId);
     
     // 🆕 Start AI processing pipeline in background
-    processDocumentWithAI(docData.id, publicUrl, file.type).catch(error => {
+    processDocumentWithAI(docData).catch(error => {
       console.error('AI processing failed for document:', docData.id, error);
     });
     
@@ -105,66 +164,415 @@ export const uploadDocument = async (
   }
 };
 
-// 🆕 AI Processing Pipeline
-const processDocumentWithAI = async (documentId: string, documentUrl: string, documentType: string) => {
+/**
+ * Persist processing state on the document row.
+ * State writes never throw so a database hiccup cannot mask the step error.
+ */
+const saveProcessingState = async (
+  documentId: string,
+  updates: Partial<Document>
+): Promise<void> => {
+  const { error } = await supabase
+    .from('documents')
+    .update({
+      ...updates,
+      processing_updated_at: new Date().toISOString()
+    })
+    .eq('id', documentId);
+
+  if (error) {
+    console.error('Failed to save processing state for document:', documentId, error);
+  }
+};
+
+/**
+ * Run the document pipeline, skipping stages that already succeeded with their current version.
+ * Every transition is written to the document so failures are visible and retryable.
+ */
+const processDocumentWithAI = async (
+  document: Pick<Document, 'id' | 'path' | 'url' | 'type' | 'name' | 'user_id' | 'category' | 'tags' | 'metadata' | 'ai_analysis'>,
+  previousSteps: ProcessingSteps = {},
+  previousAttempts: number = 0
+): Promise<ProcessingStatus> => {
+  const documentId = document.id;
+  const steps: ProcessingSteps = { ...previousSteps };
+  const attempts = previousAttempts + 1;
+
+  console.log(`Starting AI processing for document: ${documentId} (attempt ${attempts})`);
+
+  // The edge functions fetch the file themselves, so hand them a signed URL
+  let fileUrl: string;
   try {
-    console.log(`Starting AI processing for document: ${documentId}`);
-    
-    // Step 1: Extract text from document
-    const extractedText = await extractTextFromDocument(documentUrl, documentType);
-    console.log(`Text extraction completed for document: ${documentId}`);
-    
-    // Step 2: Classify document
-    const classification = await classifyDocument(documentId, documentUrl, documentType);
-    console.log(`Classification completed for document: ${documentId}`);
-    
-    // Step 3: Convert to PDF (if not already PDF)
-    let pdfUrl = documentUrl;
-    if (documentType !== 'application/pdf') {
-      const pdfResult = await convertToPDF(documentUrl, documentType, documentId);
-      pdfUrl = pdfResult.pdfUrl;
-      console.log(`PDF conversion completed for document: ${documentId}`);
+    fileUrl = await resolveDocumentUrl(document);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await saveProcessingState(documentId, {
+      processing_status: 'failed',
+      processing_steps: steps,
+      processing_attempts: attempts,
+      processing_error: `sign: ${message}`
+    });
+    return 'failed';
+  }
+
+  const context: PipelineContext = { document, fileUrl, outputs: {} };
+  const states = steps as Partial<Record<ProcessingStepName, ProcessingStepState>>;
+  // Once one stage runs again, every later stage works from its new output
+  let rerun = false;
+
+  for (const stage of getPipelineStages()) {
+    const { name } = stage;
+    const previous = states[name];
+    const finished = previous?.status === 'succeeded' || previous?.status === 'skipped';
+    if (!rerun && finished && previous?.version === stage.version) {
+      if (previous.status === 'succeeded') {
+        Object.assign(context.outputs, { [name]: previous.result });
+      }
+      continue;
     }
-    
-    // Step 4: Update document with AI results
-    const aiAnalysis = {
-      extractedText: extractedText.extractedText,
-      classification: classification.classification,
-      pdfUrl,
-      processedAt: new Date().toISOString(),
-      confidence: classification.classification.confidence,
-      language: classification.classification.language,
-      summary: classification.classification.summary,
-      keywords: classification.classification.keywords,
-      wordCount: extractedText.wordCount,
-      characterCount: extractedText.characterCount
+    rerun = true;
+
+    if (stage.shouldRun && !stage.shouldRun(context)) {
+      states[name] = { status: 'skipped', attempts: previous?.attempts || 0, version: stage.version };
+      continue;
+    }
+
+    const stepState: ProcessingStepState = {
+      status: 'running',
+      attempts: (previous?.attempts || 0) + 1,
+      version: stage.version,
+      startedAt: new Date().toISOString()
     };
-    
+    states[name] = stepState;
+
+    await saveProcessingState(documentId, {
+      processing_status: stage.status,
+      processing_steps: steps,
+      processing_attempts: attempts,
+      processing_error: null
+    });
+
+    try {
+      const result = await stage.run(context);
+      Object.assign(context.outputs, { [name]: result });
+      states[name] = {
+        ...stepState,
+        status: 'succeeded',
+        finishedAt: new Date().toISOString(),
+        result
+      };
+      console.log(`Step "${name}" completed for document: ${documentId}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      states[name] = {
+        ...stepState,
+        status: 'failed',
+        finishedAt: new Date().toISOString(),
+        error: message
+      };
+
+      console.error(`AI processing step "${name}" failed for document: ${documentId}`, error);
+      await saveProcessingState(documentId, {
+        processing_status: 'failed',
+        processing_steps: steps,
+        processing_attempts: attempts,
+        processing_error: `${name}: ${message}`
+      });
+      return 'failed';
+    }
+  }
+
+  try {
+    const aiAnalysis = buildAIAnalysis(steps);
+    const { prediction } = aiAnalysis;
+
+    // Fields the user corrected win over a new extraction; the database keeps them,
+    // also when they were saved while this run was in progress
     const { error: updateError } = await supabase
       .from('documents')
       .update({
         ai_analysis: aiAnalysis,
-        keywords: classification.classification.keywords,
-        language: classification.classification.language,
-        confidence: classification.classification.confidence,
-        document_type: classification.classification.categories[0] || 'Unknown'
+        // Fill in only what the user left empty; pipeline categories are marked so training skips them
+        ...(!document.category && {
+          category: prediction.category,
+          metadata: { ...document.metadata, categorySource: 'ai' }
+        }),
+        ...(!document.tags?.length && prediction.tags.length > 0 && { tags: prediction.tags }),
+        keywords: aiAnalysis.keywords,
+        language: aiAnalysis.language,
+        confidence: prediction.confidence,
+        document_type: aiAnalysis.documentType,
+        processing_status: 'done',
+        processing_steps: steps,
+        processing_attempts: attempts,
+        processing_error: null,
+        processing_updated_at: new Date().toISOString()
       })
       .eq('id', documentId);
-      
+
     if (updateError) {
       throw updateError;
     }
-    
-    console.log(`AI processing completed successfully for document: ${documentId}`);
-    
   } catch (error) {
-    console.error('AI processing failed:', error);
-    // Update status to failed (you might want to add a status field to your schema)
-    // await supabase
-    //   .from('documents')
-    //   .update({ status: 'failed' })
-    //   .eq('id', documentId);
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Failed to save AI results for document:', documentId, error);
+    await saveProcessingState(documentId, {
+      processing_status: 'failed',
+      processing_steps: steps,
+      processing_attempts: attempts,
+      processing_error: `save: ${message}`
+    });
+    return 'failed';
+  }
+
+  // Semantic search falls back to full-text matching until vectors exist, so indexing is best effort
+  try {
+    await indexDocumentEmbeddings(documentId);
+  } catch (error) {
+    console.error('Failed to index embeddings for document:', documentId, error);
+  }
+
+  console.log(`AI processing completed successfully for document: ${documentId}`);
+  return 'done';
+};
+
+/**
+ * Re-run the AI pipeline for a document, repeating only the steps that did not succeed
+ */
+export const retryDocumentProcessing = async (documentId: string): Promise<ProcessingStatus> => {
+  const document = await getDocument(documentId);
+
+  if (!document) {
+    throw new Error('Document not found');
+  }
+
+  if (document.processing_status !== 'failed') {
+    throw new Error(`Document is not in a failed state (status: ${document.processing_status || 'unknown'})`);
+  }
+
+  if (!canRetryProcessing(document)) {
+    throw new Error(`Processing has failed ${MAX_PROCESSING_ATTEMPTS} times; no retry attempts are left`);
+  }
+
+  return processDocumentWithAI(
+    document,
+    document.processing_steps || {},
+    document.processing_attempts || 0
+  );
+};
+
+/**
+ * Run the whole pipeline again, e.g. after the document's file was replaced by another version.
+ * Fields the user corrected are kept.
+ */
+export const reprocessDocument = async (documentId: string): Promise<ProcessingStatus> => {
+  const document = await getDocument(documentId);
+
+  if (!document) {
+    throw new Error('Document not found');
+  }
+
+  return processDocumentWithAI(document);
+};
+
+/**
+ * Run the fields stage for processed documents that finished before it existed.
+ * The pipeline skips the stages that already succeeded, so only the new ones run.
+ */
+export const extractMissingDocumentFields = async (userId: string): Promise<{ extracted: number; failed: number }> => {
+  const { data: documents, error } = await supabase
+    .from('documents')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('processing_status', 'done')
+    .is('processing_steps->fields', null);
+
+  if (error) {
+    throw new Error(`Failed to find documents without fields: ${error.message}`);
+  }
+
+  let extracted = 0;
+  let failed = 0;
+
+  for (const document of (documents || []) as Document[]) {
+    const status = await processDocumentWithAI(
+      document,
+      document.processing_steps || {},
+      document.processing_attempts || 0
+    );
+
+    if (status === 'done') {
+      extracted++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { extracted, failed };
+};
+
+/**
+ * Get documents whose AI processing failed, most recent first
+ */
+export const getFailedProcessingDocuments = async (userId: string): Promise<Document[]> => {
+  const { data: documents, error } = await supabase
+    .from('documents')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('processing_status', 'failed')
+    .order('processing_updated_at', { ascending: false, nullsFirst: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch failed documents: ${error.message}`);
+  }
+
+  return (documents || []) as Document[];
+};
+
+/**
+ * Drain the retry queue for a user: retry every failed document that still has attempts left.
+ * Documents are processed one at a time to keep load on the edge functions predictable.
+ */
+export const processRetryQueue = async (userId: string): Promise<ProcessingQueueResult> => {
+  const failedDocuments = await getFailedProcessingDocuments(userId);
+  const queue = failedDocuments.filter(canRetryProcessing);
+  const result: ProcessingQueueResult = {
+    retried: 0,
+    succeeded: 0,
+    failed: 0,
+    skipped: failedDocuments.length - queue.length
+  };
+
+  for (const document of queue) {
+    result.retried++;
+    const status = await processDocumentWithAI(
+      document,
+      document.processing_steps || {},
+      document.processing_attempts || 0
+    );
+
+    if (status === 'done') {
+      result.succeeded++;
+    } else {
+      result.failed++;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Find an existing document of the user with identical contents
+ */
+export const findDuplicateDocument = async (
+  userId: string,
+  checksum: string
+): Promise<Document | null> => {
+  const { data: documents, error } = await supabase
+    .from('documents')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('checksum', checksum)
+    .order('created_at', { ascending: true })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to check for duplicates: ${error.message}`);
   }
+
+  return documents && documents.length > 0 ? documents[0] as Document : null;
+};
+
+/**
+ * Hash a file and look for an already uploaded copy before uploading it
+ */
+export const checkForDuplicate = async (
+  file: File,
+  userId: string
+): Promise<DuplicateCheckResult> => {
+  const checksum = await computeFileChecksum(file);
+  const existingDocument = await findDuplicateDocument(userId, checksum);
+
+  return { checksum, existingDocument };
+};
+
+/**
+ * Upload a file that duplicates an existing document, using the user's chosen resolution:
+ * - link: reuse the existing document, nothing is uploaded
+ * - version: store the file as a new version of the existing document
+ * - keep_both: upload as a separate document
+ */
+export const resolveDuplicateUpload = async (
+  file: File,
+  userId: string,
+  existingDocument: Document,
+  resolution: DuplicateResolution,
+  checksum: string,
+  onProgress?: (progress: DocumentUploadProgress) => void
+): Promise<Document> => {
+  switch (resolution) {
+    case 'link':
+      return existingDocument;
+    case 'version':
+      await createDocumentVersion(
+        existingDocument.id,
+        file,
+        userId,
+        `Re-uploaded ${file.name}`,
+        checksum
+      );
+      return existingDocument;
+    case 'keep_both':
+      return uploadDocument(file, userId, undefined, undefined, undefined, onProgress, checksum);
+  }
+};
+
+/**
+ * Group a user's documents by content hash, returning only groups with more than one copy.
+ * Each group is ordered oldest first.
+ */
+export const findDuplicateGroups = async (userId: string): Promise<Document[][]> => {
+  const { data: documents, error } = await supabase
+    .from('documents')
+    .select('*')
+    .eq('user_id', userId)
+    .not('checksum', 'is', null)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch documents: ${error.message}`);
+  }
+
+  const groups = new Map<string, Document[]>();
+  (documents || []).forEach((doc: Document) => {
+    const group = groups.get(doc.checksum!) || [];
+    group.push(doc);
+    groups.set(doc.checksum!, group);
+  });
+
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
+
+/**
+ * Delete the duplicate copies the user chose to remove from the groups found by findDuplicateGroups.
+ * Copies can differ in name, category, tags and shares, so nothing is removed without being listed.
+ */
+export const removeDuplicateDocuments = async (
+  duplicates: Pick<Document, 'id' | 'size'>[]
+): Promise<DuplicateCleanupResult> => {
+  const result: DuplicateCleanupResult = { removed: 0, bytesFreed: 0 };
+
+  for (const duplicate of duplicates) {
+    try {
+      await deleteDocument(duplicate.id);
+      result.removed++;
+      result.bytesFreed += duplicate.size || 0;
+    } catch (error) {
+      console.error('Failed to remove duplicate document:', duplicate.id, error);
+    }
+  }
+
+  return result;
 };
 
 /**
@@ -239,7 +647,8 @@ export const getUserDocuments = async (
 };
 
 /**
- * Update a document's metadata
+ * Update a document's metadata.
+ * Changing the category or tags records any override of the AI's prediction as feedback.
  */
 export const updateDocument = async (
   documentId: string,
@@ -247,11 +656,30 @@ export const updateDocument = async (
 ): Promise<void> => {
   try {
     // Add last modified timestamp
-    const updatedData = {
+    const updatedData: Partial<Document> = {
       ...updates,
       updated_at: new Date().toISOString()
     };
-    
+
+    let current: Pick<Document, 'user_id' | 'category' | 'tags' | 'metadata' | 'ai_analysis'> | null = null;
+    if (updates.category !== undefined || updates.tags !== undefined) {
+      const { data, error: fetchError } = await supabase
+        .from('documents')
+        .select('user_id, category, tags, metadata, ai_analysis')
+        .eq('id', documentId)
+        .single();
+
+      if (fetchError) {
+        throw fetchError;
+      }
+      current = data;
+
+      // A category set here is the user's choice, so the classifier may train on it
+      if (updates.category !== undefined) {
+        updatedData.metadata = { ...current?.metadata, ...updates.metadata, categorySource: 'user' };
+      }
+    }
+
     const { error } = await supabase
       .from('documents')
       .update(updatedData)
@@ -260,12 +688,44 @@ export const updateDocument = async (
     if (error) {
       throw error;
     }
+
+    // Feedback is best effort: the user's edit has already been saved.
+    // It trains the owner's classifier, so edits made through a write share are not recorded.
+    if (current) {
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (session?.user.id !== current.user_id) return;
+        await recordClassificationOverrides(current.user_id, documentId, findClassificationOverrides(current, updates));
+      } catch (feedbackError) {
+        console.error('Failed to record classification feedback:', feedbackError);
+      }
+    }
   } catch (error) {
     console.error('Error updating document:', error);
     throw error;
   }
 };
 
+/**
+ * Save the user's corrections to a document's invoice fields. Corrected fields are
+ * marked with editedAt, so processing the document again keeps them.
+ */
+export const updateDocumentFields = async (
+  documentId: string,
+  fields: DocumentFields
+): Promise<DocumentFields> => {
+  const edited: DocumentFields = { ...fields, editedAt: new Date().toISOString() };
+  const { error } = await supabase.rpc('set_document_fields', {
+    doc_id: documentId,
+    new_fields: edited
+  });
+
+  if (error) {
+    throw new Error(`Failed to save document fields: ${error.message}`);
+  }
+  return edited;
+};
+
 /**
  * Delete a document from database and Storage
  */
@@ -282,15 +742,31 @@ export const deleteDocument = async (documentId: string): Promise<void> => {
       throw new Error('Document not found');
     }
     
-    // Delete from Storage
-    if (document.path) {
+    // The version rows go with the document, so read their files first
+    const { data: versions, error: versionsError } = await supabase
+      .from('document_versions')
+      .select('file_path')
+      .eq('document_id', documentId);
+
+    if (versionsError) {
+      throw new Error(`Failed to load document versions: ${versionsError.message}`);
+    }
+
+    // Delete from Storage, along with the converted PDF copy and every version's file
+    const paths = Array.from(new Set(
+      [document.path, document.pdf_path, ...(versions || []).map(version => version.file_path)]
+        .filter((path): path is string => !!path)
+    ));
+    if (paths.length > 0) {
       const { error: storageError } = await supabase.storage
         .from('documents')
-        .remove([document.path]);
+        .remove(paths);
       
       if (storageError) {
         console.warn('Failed to delete from storage:', storageError);
       }
+
+      paths.forEach(path => invalidateDocumentUrl(path));
     }
     
     // Delete from database
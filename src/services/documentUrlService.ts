@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import { supabase } from './supabase';
+import { urlCache, cacheKeys } from './cacheManager';
+
+// Signed URLs live for an hour; cached entries expire five minutes earlier
+// so a URL handed out from the cache is never about to lapse.
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+const SIGNED_URL_CACHE_TTL = (SIGNED_URL_TTL_SECONDS - 5 * 60) * 1000;
+
+const STORAGE_BUCKET = 'documents';
+
+export interface SignedUrlOptions {
+  download?: string | boolean; // Force a download, optionally with a file name
+}
+
+/**
+ * Work out the storage object path for a document.
+ * Rows created before the bucket went private only carry a public URL.
+ */
+export const getStoragePath = (
+  document: { path?: string | null; url?: string | null }
+): string | null => {
+  if (document.path) {
+    return document.path;
+  }
+
+  const marker = `/object/public/${STORAGE_BUCKET}/`;
+  if (document.url && document.url.includes(marker)) {
+    return decodeURIComponent(document.url.split(marker)[1].split('?')[0]);
+  }
+
+  return null;
+};
+
+/**
+ * Get a short-lived signed URL for a storage object, reusing a cached one when possible
+ */
+export const getSignedDocumentUrl = async (
+  path: string,
+  options: SignedUrlOptions = {}
+): Promise<string> => {
+  const key = cacheKeys.signedUrl(path, options.download ? `download:${options.download}` : 'view');
+  const cached = urlCache.get<string>(key);
+  if (cached) {
+    return cached;
+  }
+
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS, options.download ? { download: options.download } : undefined);
+
+  if (error || !data) {
+    throw new Error(`Failed to sign document URL: ${error?.message}`);
+  }
+
+  urlCache.set(key, data.signedUrl, SIGNED_URL_CACHE_TTL);
+  return data.signedUrl;
+};
+
+/**
+ * Sign many storage objects in one request, e.g. for a page of thumbnails.
+ * Returns a map of path to signed URL; paths that fail to sign are left out.
+ */
+export const getSignedDocumentUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  const urls: Record<string, string> = {};
+  const missing: string[] = [];
+
+  paths.forEach(path => {
+    const cached = urlCache.get<string>(cacheKeys.signedUrl(path, 'view'));
+    if (cached) {
+      urls[path] = cached;
+    } else {
+      missing.push(path);
+    }
+  });
+
+  if (missing.length === 0) {
+    return urls;
+  }
+
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .createSignedUrls(missing, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    throw new Error(`Failed to sign document URLs: ${error.message}`);
+  }
+
+  (data || []).forEach(({ path, signedUrl, error: signError }) => {
+    if (path && signedUrl && !signError) {
+      urls[path] = signedUrl;
+      urlCache.set(cacheKeys.signedUrl(path, 'view'), signedUrl, SIGNED_URL_CACHE_TTL);
+    }
+  });
+
+  return urls;
+};
+
+/**
+ * Resolve a viewable URL for a document row
+ */
+export const resolveDocumentUrl = async (
+  document: { path?: string | null; url?: string | null },
+  options: SignedUrlOptions = {}
+): Promise<string> => {
+  const path = getStoragePath(document);
+  if (!path) {
+    throw new Error('Document has no storage path');
+  }
+  return getSignedDocumentUrl(path, options);
+};
+
+/**
+ * Drop the cached view URL for a path, e.g. after the object was replaced or deleted
+ */
+export const invalidateDocumentUrl = (path: string): void => {
+  urlCache.delete(cacheKeys.signedUrl(path, 'view'));
+};
+
+/**
+ * React hook resolving a signed URL for a document or storage path.
+ * Pass null to skip resolution (e.g. while the document is loading).
+ */
+export const useDocumentUrl = (
+  source: { path?: string | null; url?: string | null } | string | null | undefined,
+  options: SignedUrlOptions = {}
+) => {
+  const path = typeof source === 'string' ? source : source ? getStoragePath(source) : null;
+  const hasSource = !!source;
+  const download = options.download;
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [loading, setLoading] = useState<boolean>(!!path);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!path) {
+      setUrl(null);
+      setError(hasSource ? new Error('Document has no storage path') : null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    getSignedDocumentUrl(path, { download })
+      .then(signedUrl => {
+        if (!cancelled) setUrl(signedUrl);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path, download, hasSource]);
+
+  return { url, error, loading };
+};
@@ -0,0 +1,174 @@
+// Embedding providers and text chunking for semantic search.
+// Stored vectors are tagged with the provider's model id, so switching providers never mixes spaces.
+
+export const EMBEDDING_DIMENSIONS = 384; // Must match vector(384) in document_chunks
+
+export interface EmbeddingProvider {
+  model: string; // Stored alongside each vector; queries only compare vectors from the same model
+  dimensions: number;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+export interface TextChunk {
+  chunkIndex: number;
+  pageNumber: number;
+  content: string;
+}
+
+export interface PageText {
+  pageNumber: number;
+  text: string;
+}
+
+const CHUNK_SIZE = 1000;   // Characters per chunk
+const CHUNK_OVERLAP = 200; // Characters repeated between neighbouring chunks of a page
+
+const WORD_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.5;
+
+// FNV-1a, 32-bit
+const hash = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const tokenize = (text: string): string[] => {
+  return text.toLowerCase().normalize('NFKC').match(/[\p{L}\p{N}]+/gu) || [];
+};
+
+/**
+ * Deterministic, offline embedding: signed feature hashing of words and character
+ * trigrams with sublinear term frequency, L2-normalised. It captures shared words and
+ * word forms (lease/leases/leasing) but not synonyms; use a model provider for those.
+ */
+export const embedTextLocally = (text: string, dimensions: number = EMBEDDING_DIMENSIONS): number[] => {
+  const features = new Map<string, number>();
+  const add = (feature: string, weight: number) => {
+    features.set(feature, (features.get(feature) || 0) + weight);
+  };
+
+  tokenize(text).forEach(word => {
+    add(`w:${word}`, WORD_WEIGHT);
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+
+  const vector = new Array<number>(dimensions).fill(0);
+  features.forEach((weight, feature) => {
+    const h = hash(feature);
+    const sign = h & 0x80000000 ? -1 : 1;
+    vector[h % dimensions] += sign * (1 + Math.log(weight));
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+export const localEmbeddingProvider: EmbeddingProvider = {
+  model: `local-hash-${EMBEDDING_DIMENSIONS}-v1`,
+  dimensions: EMBEDDING_DIMENSIONS,
+  embed: async (texts) => texts.map(text => embedTextLocally(text))
+};
+
+/**
+ * Provider backed by the embed-text edge function, which calls a hosted embedding model.
+ * The function fixes the model and requires a signed-in user, so this id must match it.
+ */
+export const remoteEmbeddingProvider: EmbeddingProvider = {
+  model: 'text-embedding-3-small',
+  dimensions: EMBEDDING_DIMENSIONS,
+  embed: async (texts) => {
+    // Loaded on use so the local provider and chunking stay free of the client
+    const { supabase } = await import('./supabase');
+    const { data, error } = await supabase.functions.invoke('embed-text', {
+      body: { texts }
+    });
+
+    if (error) {
+      throw new Error(`Embedding failed: ${error.message}`);
+    }
+    if (data?.model !== remoteEmbeddingProvider.model) {
+      throw new Error(`Embedding failed: expected model ${remoteEmbeddingProvider.model}, got ${data?.model}`);
+    }
+
+    return data.embeddings as number[][];
+  }
+};
+
+let activeProvider: EmbeddingProvider = process.env.REACT_APP_EMBEDDING_PROVIDER === 'remote'
+  ? remoteEmbeddingProvider
+  : localEmbeddingProvider;
+
+export const getEmbeddingProvider = (): EmbeddingProvider => activeProvider;
+
+/**
+ * Swap the embedding provider, e.g. to a local stand-in when running offline or in tests
+ */
+export const setEmbeddingProvider = (provider: EmbeddingProvider): void => {
+  if (provider.dimensions !== EMBEDDING_DIMENSIONS) {
+    throw new Error(`Embedding provider must produce ${EMBEDDING_DIMENSIONS} dimensions, got ${provider.dimensions}`);
+  }
+  activeProvider = provider;
+};
+
+/**
+ * Split text into pages: explicit page texts when extraction recorded them,
+ * otherwise form feeds, otherwise a single page
+ */
+export const splitIntoPages = (text: string, pages?: PageText[]): PageText[] => {
+  if (pages && pages.length > 0) return pages;
+  return text
+    .split('\f')
+    .map((pageText, index) => ({ pageNumber: index + 1, text: pageText }))
+    .filter(page => page.text.trim().length > 0);
+};
+
+/**
+ * Chunk each page into overlapping windows, breaking on whitespace where possible
+ */
+export const chunkDocumentText = (text: string, pages?: PageText[]): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+
+  splitIntoPages(text, pages).forEach(page => {
+    const content = page.text.replace(/\s+/g, ' ').trim();
+    let start = 0;
+
+    while (start < content.length) {
+      let end = Math.min(start + CHUNK_SIZE, content.length);
+      if (end < content.length) {
+        const lastSpace = content.lastIndexOf(' ', end);
+        if (lastSpace > start + CHUNK_SIZE / 2) end = lastSpace;
+      }
+
+      chunks.push({ chunkIndex: chunks.length, pageNumber: page.pageNumber, content: content.slice(start, end).trim() });
+
+      if (end >= content.length) break;
+      start = Math.max(end - CHUNK_OVERLAP, start + 1);
+      const nextSpace = content.indexOf(' ', start);
+      if (nextSpace !== -1 && nextSpace < end) start = nextSpace + 1;
+    }
+  });
+
+  return chunks;
+};
+
+/**
+ * Cosine similarity of two vectors
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
@@ -1,4 +1,7 @@
 import { supabase } from './supabase';
+import { computeFileChecksum } from '../utils/fileHash';
+import { extractTextFromDocument } from './aiService';
+import { reprocessDocument } from './documentService';
 
 export interface DocumentVersion {
   id: string;
@@ -6,22 +9,134 @@ export interface DocumentVersion {
   version_number: number;
   file_path: string;
   file_size: number;
+  checksum?: string;
   created_at: string;
   created_by: string;
   change_description?: string;
   is_current: boolean;
+  file_name?: string;
+  mime_type?: string;
+  extracted_text?: string | null;
 }
 
 /**
- * Create a new version of a document
+ * Record the document's existing file as version 1 so the original stays in the timeline.
+ * Documents uploaded before versioning was used have no version rows at all.
+ */
+const ensureBaselineVersion = async (documentId: string, userId: string): Promise<void> => {
+  const { count, error: countError } = await supabase
+    .from('document_versions')
+    .select('id', { count: 'exact', head: true })
+    .eq('document_id', documentId);
+
+  if (countError) {
+    throw new Error(`Failed to get version info: ${countError.message}`);
+  }
+
+  if (count && count > 0) {
+    return;
+  }
+
+  const { data: document, error: documentError } = await supabase
+    .from('documents')
+    .select('name, type, size, path, checksum, ai_analysis, created_at')
+    .eq('id', documentId)
+    .single();
+
+  if (documentError || !document) {
+    throw new Error('Document not found');
+  }
+
+  if (!document.path) {
+    return;
+  }
+
+  const { error: insertError } = await supabase
+    .from('document_versions')
+    .insert([{
+      document_id: documentId,
+      version_number: 1,
+      file_path: document.path,
+      file_size: document.size,
+      file_name: document.name,
+      mime_type: document.type,
+      checksum: document.checksum,
+      created_at: document.created_at,
+      created_by: userId,
+      change_description: 'Original upload',
+      extracted_text: document.ai_analysis?.extractedText ?? null,
+      is_current: true
+    }]);
+
+  if (insertError) {
+    throw new Error(`Failed to record original version: ${insertError.message}`);
+  }
+};
+
+/**
+ * Point the document row at a version's file so every view shows that version.
+ * The PDF/A copy belonged to the previous file, so it is dropped, and the document
+ * is processed again in the background to extract, index and convert the new file.
+ */
+const setDocumentFile = async (
+  documentId: string,
+  version: Pick<DocumentVersion, 'file_path' | 'file_size' | 'checksum' | 'mime_type'>
+): Promise<void> => {
+  const { data: current, error: fetchError } = await supabase
+    .from('documents')
+    .select('pdf_path')
+    .eq('id', documentId)
+    .single();
+
+  if (fetchError) {
+    throw new Error(`Failed to update document: ${fetchError.message}`);
+  }
+
+  const { error } = await supabase
+    .from('documents')
+    .update({
+      path: version.file_path,
+      size: version.file_size,
+      checksum: version.checksum,
+      ...(version.mime_type && { type: version.mime_type }),
+      pdf_path: null,
+      processing_status: 'queued',
+      processing_error: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', documentId);
+
+  if (error) {
+    throw new Error(`Failed to update document: ${error.message}`);
+  }
+
+  if (current?.pdf_path) {
+    const { error: removeError } = await supabase.storage.from('documents').remove([current.pdf_path]);
+    if (removeError) {
+      console.warn('Failed to remove the previous PDF copy:', removeError);
+    }
+  }
+
+  reprocessDocument(documentId).catch(processingError => {
+    console.error('AI processing failed for new version of document:', documentId, processingError);
+  });
+};
+
+/**
+ * Create a new version of a document. Only the owner can; the file goes into their folder.
  */
 export const createDocumentVersion = async (
   documentId: string,
   file: File,
   userId: string,
-  changeDescription?: string
+  changeDescription?: string,
+  checksum?: string
 ): Promise<DocumentVersion> => {
   try {
+    const fileChecksum = checksum || await computeFileChecksum(file);
+
+    await ensureBaselineVersion(documentId, userId);
+
     // Get current version number
     const { data: currentVersions, error: versionError } = await supabase
       .from('document_versions')
@@ -51,19 +166,29 @@ export const createDocumentVersion = async (
     }
 
     // Mark all previous versions as not current
-    await supabase
+    const { error: resetError } = await supabase
       .from('document_versions')
       .update({ is_current: false })
       .eq('document_id', documentId);
 
-    // Create version record
+    if (resetError) {
+      await supabase.storage.from('documents').remove([filePath]);
+      throw new Error(`Failed to update versions: ${resetError.message}`);
+    }
+
+    // Create version record. Plain text is cheap to keep for diffs;
+    // other formats are extracted on demand by getVersionText.
     const versionData = {
       document_id: documentId,
       version_number: nextVersion,
       file_path: filePath,
       file_size: file.size,
+      file_name: file.name,
+      mime_type: file.type,
+      checksum: fileChecksum,
       created_by: userId,
       change_description: changeDescription,
+      extracted_text: file.type === 'text/plain' ? await file.text() : null,
       is_current: true
     };
 
@@ -79,6 +204,8 @@ export const createDocumentVersion = async (
       throw new Error(`Database error: ${dbError.message}`);
     }
 
+    await setDocumentFile(documentId, version as DocumentVersion);
+
     return version as DocumentVersion;
   } catch (error) {
     console.error('Error creating document version:', error);
@@ -104,7 +231,7 @@ export const getDocumentVersions = async (documentId: string): Promise<DocumentV
 };
 
 /**
- * Restore a specific version as current
+ * Restore a specific version as current. Only the owner can.
  */
 export const restoreDocumentVersion = async (
   documentId: string,
@@ -112,12 +239,27 @@ export const restoreDocumentVersion = async (
   userId: string
 ): Promise<void> => {
   try {
+    const { data: version, error: fetchError } = await supabase
+      .from('document_versions')
+      .select('*')
+      .eq('id', versionId)
+      .eq('document_id', documentId)
+      .single();
+
+    if (fetchError || !version) {
+      throw new Error('Version not found');
+    }
+
     // Mark all versions as not current
-    await supabase
+    const { error: resetError } = await supabase
       .from('document_versions')
       .update({ is_current: false })
       .eq('document_id', documentId);
 
+    if (resetError) {
+      throw new Error(`Failed to restore version: ${resetError.message}`);
+    }
+
     // Mark selected version as current
     const { error } = await supabase
       .from('document_versions')
@@ -127,6 +269,8 @@ export const restoreDocumentVersion = async (
     if (error) {
       throw new Error(`Failed to restore version: ${error.message}`);
     }
+
+    await setDocumentFile(documentId, version as DocumentVersion);
   } catch (error) {
     console.error('Error restoring document version:', error);
     throw error;
@@ -176,3 +320,36 @@ export const deleteDocumentVersion = async (versionId: string): Promise<void> =>
     throw error;
   }
 };
+
+/**
+ * Get the extracted text of a version, extracting and storing it on first use
+ */
+export const getVersionText = async (version: DocumentVersion): Promise<string> => {
+  if (version.extracted_text != null) {
+    return version.extracted_text;
+  }
+
+  const { data: blob, error: downloadError } = await supabase.storage
+    .from('documents')
+    .download(version.file_path);
+
+  if (downloadError || !blob) {
+    throw new Error(`Failed to download version: ${downloadError?.message}`);
+  }
+
+  const file = new File([blob], version.file_name || version.file_path.split('/').pop() || 'version', {
+    type: version.mime_type || blob.type
+  });
+  const text = await extractTextFromDocument(file);
+
+  const { error: updateError } = await supabase
+    .from('document_versions')
+    .update({ extracted_text: text })
+    .eq('id', version.id);
+
+  if (updateError) {
+    console.warn('Failed to store extracted version text:', updateError);
+  }
+
+  return text;
+};
@@ -1,5 +1,5 @@
 export { api } from './api';
-export * from './classificationService';
+export * from './documentPipeline';
 export * from './documentService';
 export * from './supabase';
 export * from './storageService';
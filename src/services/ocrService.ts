@@ -0,0 +1,160 @@
+import type { Worker as TesseractWorker } from 'tesseract.js';
+import { supabase } from './supabase';
+import type { OcrPage } from '../types/aiAnalysis';
+
+export type OcrPageResult = Omit<OcrPage, 'pageNumber'>;
+
+export interface OcrProvider {
+  name: string; // Recorded as the OCR stage version
+  recognize: (image: HTMLCanvasElement) => Promise<OcrPageResult>;
+}
+
+// Tesseract language codes, e.g. "eng+deu"
+const OCR_LANGUAGES = process.env.REACT_APP_OCR_LANGUAGES || 'eng';
+
+// Where the Tesseract worker, WASM core and language data are served from.
+// Set it to a path on this site to run OCR without contacting a CDN.
+const OCR_ASSET_URL = process.env.REACT_APP_OCR_ASSET_URL;
+
+// PDF pages are rendered at twice their size (about 144 dpi), enough for body text
+const PDF_RENDER_SCALE = 2;
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+let tesseractWorker: Promise<TesseractWorker> | null = null;
+
+const getTesseractWorker = (): Promise<TesseractWorker> => {
+  if (!tesseractWorker) {
+    tesseractWorker = import('tesseract.js').then(({ createWorker }) => createWorker(
+      OCR_LANGUAGES.split('+'),
+      undefined,
+      OCR_ASSET_URL
+        ? { workerPath: `${OCR_ASSET_URL}/worker.min.js`, corePath: OCR_ASSET_URL, langPath: OCR_ASSET_URL }
+        : {}
+    ));
+    // A worker that failed to start is created afresh next time
+    tesseractWorker.catch(() => {
+      tesseractWorker = null;
+    });
+  }
+  return tesseractWorker;
+};
+
+/**
+ * Tesseract compiled to WebAssembly, running in a web worker in the browser
+ */
+export const tesseractOcrProvider: OcrProvider = {
+  name: `tesseract-wasm-${OCR_LANGUAGES}-v1`,
+  recognize: async (image) => {
+    const worker = await getTesseractWorker();
+    const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+
+    const words = (data.blocks || [])
+      .flatMap(block => block.paragraphs)
+      .flatMap(paragraph => paragraph.lines)
+      .flatMap(line => line.words)
+      .map(word => ({
+        text: word.text,
+        confidence: round(word.confidence / 100),
+        box: { x0: word.bbox.x0, y0: word.bbox.y0, x1: word.bbox.x1, y1: word.bbox.y1 }
+      }));
+
+    return {
+      text: data.text,
+      confidence: round(data.confidence / 100),
+      width: image.width,
+      height: image.height,
+      words
+    };
+  }
+};
+
+/**
+ * Google Cloud Vision through the process-document edge function, which holds the API key
+ */
+export const cloudVisionOcrProvider: OcrProvider = {
+  name: 'cloud-vision-document-text-v1',
+  recognize: async (image) => {
+    const { data, error } = await supabase.functions.invoke('process-document', {
+      body: { image: image.toDataURL('image/jpeg', 0.9).split(',')[1] }
+    });
+
+    if (error) {
+      throw new Error(`Cloud Vision OCR failed: ${error.message}`);
+    }
+
+    return {
+      text: data.text || '',
+      confidence: data.confidence ?? 0,
+      width: image.width,
+      height: image.height,
+      words: data.words || []
+    };
+  }
+};
+
+let activeProvider: OcrProvider = process.env.REACT_APP_OCR_PROVIDER === 'cloud-vision'
+  ? cloudVisionOcrProvider
+  : tesseractOcrProvider;
+
+export const getOcrProvider = (): OcrProvider => activeProvider;
+
+/**
+ * Swap the OCR provider, e.g. to Cloud Vision for handwriting or languages without Tesseract data
+ */
+export const setOcrProvider = (provider: OcrProvider): void => {
+  activeProvider = provider;
+};
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width);
+  canvas.height = Math.ceil(height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  return [canvas, context];
+};
+
+/**
+ * Recognize the text of an image file
+ */
+export const recognizeImage = async (image: Blob): Promise<OcrPage> => {
+  const bitmap = await createImageBitmap(image);
+  const [canvas, context] = createCanvas(bitmap.width, bitmap.height);
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  return { pageNumber: 1, ...await activeProvider.recognize(canvas) };
+};
+
+/**
+ * Rasterize the given pages of a PDF and recognize their text, one page at a time
+ */
+export const recognizePdfPages = async (pdf: Blob, pageNumbers: number[]): Promise<OcrPage[]> => {
+  if (pageNumbers.length === 0) return [];
+
+  const pdfjs = await import('pdfjs-dist/webpack');
+  const pdfDocument = await pdfjs.getDocument({ data: new Uint8Array(await pdf.arrayBuffer()) }).promise;
+
+  try {
+    const pages: OcrPage[] = [];
+    for (const pageNumber of pageNumbers) {
+      const page = await pdfDocument.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const [canvas, context] = createCanvas(viewport.width, viewport.height);
+
+      // Scans are often transparent where the paper was white
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: context, viewport }).promise;
+      page.cleanup();
+
+      pages.push({ pageNumber, ...await activeProvider.recognize(canvas) });
+    }
+    return pages;
+  } finally {
+    await pdfDocument.destroy();
+  }
+};
@@ -1,11 +1,63 @@
+import type { jsPDF } from 'jspdf';
 import { supabase } from './supabase';
+import { getSignedDocumentUrl } from './documentUrlService';
+import { getOcrProvider } from './ocrService';
+import { detectDocumentCorners, loadScanImage, prepareScanImage, renderScanPage } from './scanImageService';
+import type { ScanEnhancement } from '../utils/documentScan';
+import { fitImageOnPage, layoutOcrWords } from '../utils/ocrTextLayer';
+import { ScanPageEdits, ScanPageSize, scanPageFormat } from '../utils/scanPages';
 
 export interface PDFConversionResult {
   success: boolean;
-  pdfUrl?: string;
+  pdfPath?: string;
+  pdfUrl?: string; // Short-lived signed URL for immediate use
   error?: string;
 }
 
+export interface PDFConversionOptions {
+  searchable?: boolean; // Add an invisible OCR text layer (default true)
+  pageSize?: ScanPageSize; // Default 'a4'
+  detectEdges?: boolean; // Find the sheet of paper in a photo and warp it flat
+  enhancement?: ScanEnhancement; // Colour mode and automatic contrast for photos of paper
+}
+
+// A photo and the edits to apply to it before it becomes a page
+export interface ScanPageSource {
+  image: Blob;
+  edits: ScanPageEdits;
+}
+
+/**
+ * Load an image and draw it onto a canvas of the same size
+ */
+const loadImageCanvas = (imageUrl: string): Promise<HTMLCanvasElement> => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+
+  return new Promise((resolve, reject) => {
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+
+      if (!ctx) {
+        reject(new Error('Canvas context not available'));
+        return;
+      }
+
+      canvas.width = img.width;
+      canvas.height = img.height;
+      ctx.drawImage(img, 0, 0);
+      resolve(canvas);
+    };
+
+    img.onerror = () => {
+      reject(new Error('Failed to load image'));
+    };
+
+    img.src = imageUrl;
+  });
+};
+
 export class PDFConversionService {
   /**
    * Convert an image to PDF using canvas and jsPDF
@@ -13,7 +65,8 @@ export class PDFConversionService {
   static async convertImageToPDF(
     imageUrl: string,
     fileName: string,
-    userId: string
+    userId: string,
+    options: PDFConversionOptions = {}
   ): Promise<PDFConversionResult> {
     try {
       // Check if jsPDF is available
@@ -21,114 +74,17 @@ export class PDFConversionService {
         throw new Error('PDF conversion only available in browser');
       }
 
-      // Dynamically import jsPDF to avoid SSR issues
-      const jsPDF = (await import('jspdf')).default;
-      
-      // Create a canvas to load the image
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) {
-        throw new Error('Canvas context not available');
+      let canvas: HTMLCanvasElement;
+      try {
+        canvas = PDFConversionService.prepareScan(await loadImageCanvas(imageUrl), options);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Image processing failed: ${errorMessage}`);
       }
 
-      // Load the image
-      const img = new Image();
-      img.crossOrigin = 'anonymous';
-      
-      return new Promise((resolve, reject) => {
-        img.onload = async () => {
-          try {
-            // Set canvas dimensions to match image
-            canvas.width = img.width;
-            canvas.height = img.height;
-            
-            // Draw image on canvas
-            ctx.drawImage(img, 0, 0);
-            
-            // Convert canvas to blob
-            canvas.toBlob(async (blob) => {
-              if (!blob) {
-                reject(new Error('Failed to convert image to blob'));
-                return;
-              }
-
-              try {
-                // Convert blob to PDF
-                const pdf = new jsPDF({
-                  orientation: img.width > img.height ? 'landscape' : 'portrait',
-                  unit: 'mm',
-                  format: 'a4'
-                });
-
-                // Calculate dimensions to fit image on page
-                const pageWidth = pdf.internal.pageSize.getWidth();
-                const pageHeight = pdf.internal.pageSize.getHeight();
-                
-                const imgWidth = img.width;
-                const imgHeight = img.height;
-                
-                // Calculate scaling to fit image on page
-                const scaleX = pageWidth / imgWidth;
-                const scaleY = pageHeight / imgHeight;
-                const scale = Math.min(scaleX, scaleY, 1); // Don't scale up
-                
-                const scaledWidth = imgWidth * scale;
-                const scaledHeight = imgHeight * scale;
-                
-                // Center image on page
-                const x = (pageWidth - scaledWidth) / 2;
-                const y = (pageHeight - scaledHeight) / 2;
-
-                // Add image to PDF
-                const imgData = canvas.toDataURL('image/jpeg', 0.8);
-                pdf.addImage(imgData, 'JPEG', x, y, scaledWidth, scaledHeight);
-
-                // Generate PDF blob
-                const pdfBlob = pdf.output('blob');
-                
-                // Upload PDF to Supabase storage
-                const pdfFileName = fileName.replace(/\.[^/.]+$/, '.pdf');
-                const { data: uploadData, error: uploadError } = await supabase.storage
-                  .from('documents')
-                  .upload(`${userId}/${Date.now()}_${pdfFileName}`, pdfBlob, {
-                    contentType: 'application/pdf',
-                    cacheControl: '3600'
-                  });
-
-                if (uploadError) {
-                  throw new Error(`Upload failed: ${uploadError.message}`);
-                }
-
-                // Get public URL
-                const { data: urlData } = supabase.storage
-                  .from('documents')
-                  .getPublicUrl(uploadData.path);
-
-                resolve({
-                  success: true,
-                  pdfUrl: urlData.publicUrl
-                });
-
-              } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                reject(new Error(`PDF conversion failed: ${errorMessage}`));
-              }
-            }, 'image/jpeg', 0.8);
-
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            reject(new Error(`Image processing failed: ${errorMessage}`));
-          }
-        };
-
-        img.onerror = () => {
-          reject(new Error('Failed to load image'));
-        };
-
-        img.src = imageUrl;
-      });
+      const pdf = await PDFConversionService.addScannedPage(null, canvas, options);
 
+      return await PDFConversionService.uploadPDF(pdf.output('blob'), fileName, userId);
     } catch (error) {
       console.error('PDF conversion error:', error);
       return {
@@ -144,117 +100,158 @@ export class PDFConversionService {
   static async convertImagesToPDF(
     imageUrls: string[],
     fileName: string,
-    userId: string
+    userId: string,
+    options: PDFConversionOptions = {}
   ): Promise<PDFConversionResult> {
     try {
       if (typeof window === 'undefined') {
         throw new Error('PDF conversion only available in browser');
       }
 
-      const jsPDF = (await import('jspdf')).default;
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'mm',
-        format: 'a4'
-      });
-
-      const pageWidth = pdf.internal.pageSize.getWidth();
-      const pageHeight = pdf.internal.pageSize.getHeight();
+      if (imageUrls.length === 0) {
+        throw new Error('No images to convert');
+      }
 
+      let pdf: jsPDF | null = null;
       for (let i = 0; i < imageUrls.length; i++) {
-        const imageUrl = imageUrls[i];
-        
-        // Load image
-        const img = new Image();
-        img.crossOrigin = 'anonymous';
-        
-        await new Promise<void>((resolve, reject) => {
-          img.onload = () => {
-            try {
-              // Create canvas for this image
-              const canvas = document.createElement('canvas');
-              const ctx = canvas.getContext('2d');
-              
-              if (!ctx) {
-                reject(new Error('Canvas context not available'));
-                return;
-              }
-
-              canvas.width = img.width;
-              canvas.height = img.height;
-              ctx.drawImage(img, 0, 0);
-
-              // Calculate scaling
-              const imgWidth = img.width;
-              const imgHeight = img.height;
-              
-              const scaleX = pageWidth / imgWidth;
-              const scaleY = pageHeight / imgHeight;
-              const scale = Math.min(scaleX, scaleY, 1);
-              
-              const scaledWidth = imgWidth * scale;
-              const scaledHeight = imgHeight * scale;
-              
-              // Center image
-              const x = (pageWidth - scaledWidth) / 2;
-              const y = (pageHeight - scaledHeight) / 2;
-
-              // Add image to PDF
-              const imgData = canvas.toDataURL('image/jpeg', 0.8);
-              pdf.addImage(imgData, 'JPEG', x, y, scaledWidth, scaledHeight);
-
-              // Add new page if not the last image
-              if (i < imageUrls.length - 1) {
-                pdf.addPage();
-              }
+        let canvas: HTMLCanvasElement;
+        try {
+          canvas = PDFConversionService.prepareScan(await loadImageCanvas(imageUrls[i]), options);
+        } catch {
+          throw new Error(`Failed to load image ${i + 1}`);
+        }
+
+        try {
+          pdf = await PDFConversionService.addScannedPage(pdf, canvas, options);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          throw new Error(`Failed to process image ${i + 1}: ${errorMessage}`);
+        }
+      }
 
-              resolve();
-            } catch (error) {
-              const errorMessage = error instanceof Error ? error.message : String(error);
-              reject(new Error(`Failed to process image ${i + 1}: ${errorMessage}`));
-            }
-          };
+      return await PDFConversionService.uploadPDF(pdf!.output('blob'), fileName, userId);
+    } catch (error) {
+      console.error('Multi-image PDF conversion error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
 
-          img.onerror = () => {
-            reject(new Error(`Failed to load image ${i + 1}`));
-          };
+  /**
+   * Build one PDF from photos, applying each page's rotation, crop and skew. The
+   * document is returned rather than stored, so it can be uploaded like any other file.
+   */
+  static async assembleScanPDF(
+    pages: ScanPageSource[],
+    options: PDFConversionOptions = {}
+  ): Promise<Blob> {
+    if (typeof window === 'undefined') {
+      throw new Error('PDF conversion only available in browser');
+    }
+    if (pages.length === 0) {
+      throw new Error('No pages to assemble');
+    }
 
-          img.src = imageUrl;
-        });
+    let pdf: jsPDF | null = null;
+    for (let i = 0; i < pages.length; i++) {
+      try {
+        const canvas = renderScanPage(await loadScanImage(pages[i].image), pages[i].edits, options.enhancement ?? null);
+        pdf = await PDFConversionService.addScannedPage(pdf, canvas, options);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to process page ${i + 1}: ${errorMessage}`);
       }
+    }
 
-      // Generate PDF blob
-      const pdfBlob = pdf.output('blob');
-      
-      // Upload PDF
-      const pdfFileName = fileName.replace(/\.[^/.]+$/, '.pdf');
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('documents')
-        .upload(`${userId}/${Date.now()}_${pdfFileName}`, pdfBlob, {
-          contentType: 'application/pdf',
-          cacheControl: '3600'
-        });
+    return pdf!.output('blob');
+  }
 
-      if (uploadError) {
-        throw new Error(`Upload failed: ${uploadError.message}`);
-      }
+  /**
+   * Flatten and enhance a photo of paper as the options ask, before it is placed on a page
+   */
+  private static prepareScan(canvas: HTMLCanvasElement, options: PDFConversionOptions): HTMLCanvasElement {
+    if (!options.detectEdges && !options.enhancement) return canvas;
+    const corners = options.detectEdges ? detectDocumentCorners(canvas) : null;
+    return prepareScanImage(canvas, corners, options.enhancement ?? null);
+  }
+
+  /**
+   * Add a page sized for a scanned image, starting the document if there is none yet,
+   * and draw the image on it, centered and fitted, with the recognized words laid over
+   * it as invisible text. The page is still added, without a text layer, when OCR fails.
+   */
+  private static async addScannedPage(
+    current: jsPDF | null,
+    canvas: HTMLCanvasElement,
+    options: PDFConversionOptions
+  ): Promise<jsPDF> {
+    const pageSize = options.pageSize ?? 'a4';
+    const { format, orientation } = scanPageFormat(pageSize, canvas.width, canvas.height);
+    // Dynamically import jsPDF to avoid SSR issues
+    const pdf = current
+      ? current.addPage(format, orientation)
+      : new (await import('jspdf')).default({ orientation, unit: 'mm', format });
+
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    // A fit-to-image page has the image's proportions, so the image fills it
+    const placement = pageSize === 'fit'
+      ? { x: 0, y: 0, width: pageWidth, height: pageHeight }
+      : fitImageOnPage(canvas.width, canvas.height, pageWidth, pageHeight);
+
+    const imgData = canvas.toDataURL('image/jpeg', 0.8);
+    pdf.addImage(imgData, 'JPEG', placement.x, placement.y, placement.width, placement.height);
+
+    if (options.searchable === false) return pdf;
+
+    let words;
+    try {
+      words = layoutOcrWords(await getOcrProvider().recognize(canvas), placement);
+    } catch (error) {
+      console.error('OCR failed, page will not be searchable:', error);
+      return pdf;
+    }
 
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('documents')
-        .getPublicUrl(uploadData.path);
+    // The standard fonts cover Latin text only; other scripts still select, but may copy out garbled
+    pdf.setFont('helvetica', 'normal');
+    words.forEach(word => {
+      pdf.setFontSize(word.fontSize);
+      const naturalWidth = pdf.getTextWidth(word.text);
+      pdf.text(word.text, word.x, word.y, {
+        baseline: 'bottom',
+        renderingMode: 'invisible',
+        horizontalScale: naturalWidth > 0 ? word.width / naturalWidth : 1
+      });
+    });
+    return pdf;
+  }
 
-      return {
-        success: true,
-        pdfUrl: urlData.publicUrl
-      };
+  /**
+   * Upload a generated PDF next to the user's documents
+   */
+  private static async uploadPDF(
+    pdfBlob: Blob,
+    fileName: string,
+    userId: string
+  ): Promise<PDFConversionResult> {
+    const pdfFileName = fileName.replace(/\.[^/.]+$/, '.pdf');
+    const { data: uploadData, error: uploadError } = await supabase.storage
+      .from('documents')
+      .upload(`${userId}/${Date.now()}_${pdfFileName}`, pdfBlob, {
+        contentType: 'application/pdf',
+        cacheControl: '3600'
+      });
 
-    } catch (error) {
-      console.error('Multi-image PDF conversion error:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error)
-      };
+    if (uploadError) {
+      throw new Error(`Upload failed: ${uploadError.message}`);
     }
+
+    return {
+      success: true,
+      pdfPath: uploadData.path,
+      pdfUrl: await getSignedDocumentUrl(uploadData.path)
+    };
   }
 }
@@ -0,0 +1,310 @@
+import { supabase } from './supabase';
+import { Document, getDocument, updateDocument, uploadDocument } from './documentService';
+import { createDocumentVersion } from './fileVersioning';
+import {
+  JpegEncoder,
+  extractPdfPages,
+  getPdfPageCount,
+  mergePdfs,
+  recompressPdfImages,
+  rotatePdfPages,
+  splitPdf
+} from '../utils/pdfToolkit';
+import { PageRange, formatPageIndices, formatPageRange, pageRangeIndices } from '../utils/pageRanges';
+
+export type PdfOperation = 'merge' | 'split' | 'extract' | 'rotate' | 'compress';
+
+export type PdfSaveTarget = 'document' | 'version';
+
+export type CompressionLevel = 'light' | 'medium' | 'strong';
+
+export interface PdfProvenanceSource {
+  documentId: string;
+  name: string;
+  checksum?: string; // Identifies the exact file the pages came from
+  pages?: string; // e.g. "1-3, 5"; every page when absent
+}
+
+// How a document or version was made by an operation, kept in metadata.provenance
+export interface PdfProvenance {
+  operation: PdfOperation;
+  sources: PdfProvenanceSource[];
+  options?: Record<string, string | number>;
+  version?: number; // Version of the target document the result was saved as
+  created_at: string;
+}
+
+export interface CompressionResult {
+  document: Document;
+  imagesRecompressed: number;
+  bytesBefore: number;
+  bytesAfter: number;
+}
+
+// JPEG quality and the longest side images are scaled down to
+const COMPRESSION_LEVELS: Record<CompressionLevel, { quality: number; maxDimension: number }> = {
+  light: { quality: 0.8, maxDimension: 2480 },
+  medium: { quality: 0.65, maxDimension: 1754 },
+  strong: { quality: 0.5, maxDimension: 1240 }
+};
+
+const STORAGE_BUCKET = 'documents';
+
+/**
+ * The PDF an operation works on: the document's own file, or the PDF/A copy converted from it
+ */
+export const getPdfSourcePath = (document: Pick<Document, 'type' | 'path' | 'pdf_path'>): string | null =>
+  document.type === 'application/pdf' ? document.path : document.pdf_path ?? null;
+
+const downloadPdf = async (document: Document): Promise<Uint8Array> => {
+  const path = getPdfSourcePath(document);
+  if (!path) {
+    throw new Error(`${document.name} has no PDF to work on`);
+  }
+
+  const { data, error } = await supabase.storage.from(STORAGE_BUCKET).download(path);
+  if (error || !data) {
+    throw new Error(`Failed to download ${document.name}: ${error?.message}`);
+  }
+  return new Uint8Array(await data.arrayBuffer());
+};
+
+export const getDocumentPageCount = async (document: Document): Promise<number> =>
+  getPdfPageCount(await downloadPdf(document));
+
+const baseName = (name: string): string => name.replace(/\.[^/.]+$/, '');
+
+const provenanceSource = (document: Document, pages?: string): PdfProvenanceSource => ({
+  documentId: document.id,
+  name: document.name,
+  ...(document.checksum && { checksum: document.checksum }),
+  ...(pages && { pages })
+});
+
+const describeProvenance = ({ operation, sources, options }: PdfProvenance): string => {
+  const pages = sources[0]?.pages ? `pages ${sources[0].pages}` : 'all pages';
+  switch (operation) {
+    case 'merge':
+      return `Merged ${sources.map(source => source.name).join(', ')}`;
+    case 'split':
+    case 'extract':
+      return `Extracted ${pages} of ${sources[0].name}`;
+    case 'rotate':
+      return `Rotated ${pages} by ${options?.angle}°`;
+    case 'compress':
+      return `Recompressed ${options?.imagesRecompressed} image(s), ${options?.level} compression`;
+  }
+};
+
+/**
+ * Store an operation's result as a new document, or as the next version of the target
+ * document. Either way the operation and its sources are recorded in metadata.provenance.
+ */
+const saveResult = async (
+  bytes: Uint8Array,
+  fileName: string,
+  target: Document,
+  userId: string,
+  saveAs: PdfSaveTarget,
+  provenance: PdfProvenance
+): Promise<Document> => {
+  const file = new File([bytes], fileName, { type: 'application/pdf' });
+
+  if (saveAs === 'document') {
+    return uploadDocument(file, userId, undefined, undefined, { provenance: [provenance] });
+  }
+
+  // A converted PDF/A copy cannot stand in for a Word file or a photo
+  if (target.type !== 'application/pdf') {
+    throw new Error('Only a PDF document can take the result as a new version');
+  }
+  // The new version replaces the file and queues the document for processing again,
+  // so the row is read back rather than patched from the stale target
+  const version = await createDocumentVersion(target.id, file, userId, describeProvenance(provenance));
+  const current = await getDocument(target.id);
+  if (!current) {
+    throw new Error('Document not found after saving the new version');
+  }
+  const metadata = {
+    ...current.metadata,
+    provenance: [...(current.metadata?.provenance ?? []), { ...provenance, version: version.version_number }]
+  };
+  await updateDocument(target.id, { metadata });
+  return { ...current, metadata };
+};
+
+/**
+ * Re-encode JPEG images with the browser's encoder, scaled down to the longest side given
+ */
+const createJpegEncoder = (quality: number, maxDimension: number): JpegEncoder => async (jpeg) => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(new Blob([jpeg], { type: 'image/jpeg' }));
+  } catch {
+    return null; // A JPEG variant the browser cannot decode stays as it is
+  }
+
+  const scale = Math.min(maxDimension / Math.max(bitmap.width, bitmap.height), 1);
+  const canvas = window.document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+  if (!blob) return null;
+  return { bytes: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height, components: 3 };
+};
+
+/**
+ * Join documents into one, in the order given. Saved as a new version of the first
+ * document, or as a new document.
+ */
+export const mergeDocuments = async (
+  documents: Document[],
+  userId: string,
+  saveAs: PdfSaveTarget = 'document'
+): Promise<Document> => {
+  if (documents.length < 2) {
+    throw new Error('Choose at least two documents to merge');
+  }
+
+  const sources: Uint8Array[] = [];
+  for (const document of documents) {
+    sources.push(await downloadPdf(document));
+  }
+
+  return saveResult(
+    await mergePdfs(sources),
+    `${baseName(documents[0].name)} (merged).pdf`,
+    documents[0],
+    userId,
+    saveAs,
+    {
+      operation: 'merge',
+      sources: documents.map(document => provenanceSource(document)),
+      created_at: new Date().toISOString()
+    }
+  );
+};
+
+/**
+ * Split a document into one new document per page range
+ */
+export const splitDocument = async (
+  document: Document,
+  ranges: PageRange[],
+  userId: string
+): Promise<Document[]> => {
+  const parts = await splitPdf(await downloadPdf(document), ranges);
+
+  const created: Document[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    const pages = formatPageRange(ranges[i]);
+    created.push(await saveResult(
+      parts[i],
+      `${baseName(document.name)} (pages ${pages}).pdf`,
+      document,
+      userId,
+      'document',
+      {
+        operation: 'split',
+        sources: [provenanceSource(document, pages)],
+        created_at: new Date().toISOString()
+      }
+    ));
+  }
+  return created;
+};
+
+/**
+ * Copy the pages in the ranges, in the order given, into one document
+ */
+export const extractDocumentPages = async (
+  document: Document,
+  ranges: PageRange[],
+  userId: string,
+  saveAs: PdfSaveTarget = 'document'
+): Promise<Document> => {
+  const indices = pageRangeIndices(ranges);
+  const pages = formatPageIndices(indices);
+
+  return saveResult(
+    await extractPdfPages(await downloadPdf(document), indices),
+    `${baseName(document.name)} (pages ${pages}).pdf`,
+    document,
+    userId,
+    saveAs,
+    {
+      operation: 'extract',
+      sources: [provenanceSource(document, pages)],
+      created_at: new Date().toISOString()
+    }
+  );
+};
+
+/**
+ * Turn the pages in the ranges clockwise by a multiple of 90 degrees; every page without ranges
+ */
+export const rotateDocumentPages = async (
+  document: Document,
+  angle: number,
+  ranges: PageRange[] | null,
+  userId: string,
+  saveAs: PdfSaveTarget = 'version'
+): Promise<Document> => {
+  const indices = ranges ? pageRangeIndices(ranges) : undefined;
+
+  return saveResult(
+    await rotatePdfPages(await downloadPdf(document), angle, indices),
+    saveAs === 'version' ? document.name : `${baseName(document.name)} (rotated).pdf`,
+    document,
+    userId,
+    saveAs,
+    {
+      operation: 'rotate',
+      sources: [provenanceSource(document, indices && formatPageIndices(indices))],
+      options: { angle },
+      created_at: new Date().toISOString()
+    }
+  );
+};
+
+/**
+ * Re-encode the document's photos and scans at a lower quality and resolution.
+ * Nothing is saved when no image gets smaller.
+ */
+export const compressDocument = async (
+  document: Document,
+  level: CompressionLevel,
+  userId: string,
+  saveAs: PdfSaveTarget = 'version'
+): Promise<CompressionResult> => {
+  const { quality, maxDimension } = COMPRESSION_LEVELS[level];
+  const source = await downloadPdf(document);
+  const { bytes, imagesRecompressed } = await recompressPdfImages(source, createJpegEncoder(quality, maxDimension));
+
+  if (imagesRecompressed === 0 || bytes.length >= source.length) {
+    throw new Error('The document has no images that this level makes smaller');
+  }
+
+  const saved = await saveResult(
+    bytes,
+    saveAs === 'version' ? document.name : `${baseName(document.name)} (compressed).pdf`,
+    document,
+    userId,
+    saveAs,
+    {
+      operation: 'compress',
+      sources: [provenanceSource(document)],
+      options: { level, quality, maxDimension, imagesRecompressed },
+      created_at: new Date().toISOString()
+    }
+  );
+
+  return { document: saved, imagesRecompressed, bytesBefore: source.length, bytesAfter: bytes.length };
+};
@@ -44,10 +44,6 @@ class PerformanceOptimizer {
   }
 
   private initializeOptimizations(): void {
-    if (this.config.enableImageLazyLoading) {
-      this.setupImageLazyLoading();
-    }
-
     if (this.config.enableResourcePreloading) {
       this.setupResourcePreloading();
     }
@@ -59,8 +55,14 @@ class PerformanceOptimizer {
     this.startPerformanceMonitoring();
   }
 
-  // Image Lazy Loading
-  private setupImageLazyLoading(): void {
+  // Image Lazy Loading. The observer is created on first use so importing this
+  // module does not require IntersectionObserver (e.g. under jsdom).
+  private getImageObserver(): IntersectionObserver | undefined {
+    const existing = this.observers.get('imageObserver') as IntersectionObserver | undefined;
+    if (existing || !this.config.enableImageLazyLoading || typeof IntersectionObserver === 'undefined') {
+      return existing;
+    }
+
     const imageObserver = new IntersectionObserver(
       (entries) => {
         entries.forEach((entry) => {
@@ -82,10 +84,11 @@ class PerformanceOptimizer {
     );
 
     this.observers.set('imageObserver', imageObserver);
+    return imageObserver;
   }
 
   public observeImage(img: HTMLImageElement): void {
-    const observer = this.observers.get('imageObserver');
+    const observer = this.getImageObserver();
     if (observer && img) {
       observer.observe(img);
     }
@@ -0,0 +1,106 @@
+import * as tus from 'tus-js-client';
+import { supabase } from './supabase';
+
+// Supabase Storage only accepts 6MB chunks on the resumable endpoint
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Backoff between automatic retries when the connection drops mid-upload
+const RETRY_DELAYS = [0, 1000, 3000, 5000, 10000, 20000];
+
+export interface ResumableUploadProgress {
+  bytesUploaded: number;
+  totalBytes: number;
+  progress: number; // 0-100
+}
+
+export interface ResumableUploadOptions {
+  bucket: string;
+  objectName: string;
+  contentType?: string;
+  onProgress?: (progress: ResumableUploadProgress) => void;
+}
+
+export interface ResumableUploadResult {
+  objectName: string;
+  resumed: boolean;
+}
+
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const anonKey = process.env.REACT_APP_SUPABASE_ANON_KEY || '';
+
+  return {
+    authorization: `Bearer ${session?.access_token || anonKey}`,
+    apikey: anonKey
+  };
+};
+
+/**
+ * Upload a file to Supabase Storage using the TUS resumable protocol.
+ *
+ * Progress is reported per chunk. If an earlier upload of the same file was
+ * interrupted (page reload, lost connection), it is resumed from the last
+ * confirmed chunk and the original object name is reused.
+ */
+export const uploadFileResumable = async (
+  file: File,
+  options: ResumableUploadOptions
+): Promise<ResumableUploadResult> => {
+  const objectFolder = options.objectName.split('/')[0];
+
+  const upload = new tus.Upload(file, {
+    endpoint: `${process.env.REACT_APP_SUPABASE_URL}/storage/v1/upload/resumable`,
+    retryDelays: RETRY_DELAYS,
+    headers: {
+      'x-upsert': 'false'
+    },
+    // A long upload can outlive the access token, so each chunk reads the current session
+    onBeforeRequest: async (req) => {
+      const headers = await getAuthHeaders();
+      Object.entries(headers).forEach(([name, value]) => req.setHeader(name, value));
+    },
+    uploadDataDuringCreation: true,
+    removeFingerprintOnSuccess: true,
+    metadata: {
+      bucketName: options.bucket,
+      objectName: options.objectName,
+      contentType: options.contentType || file.type || 'application/octet-stream',
+      cacheControl: '3600'
+    },
+    chunkSize: CHUNK_SIZE
+  });
+
+  // Resume a previous interrupted upload of this file for the same user folder
+  const previousUploads = await upload.findPreviousUploads();
+  const previousUpload = previousUploads.find(previous =>
+    previous.metadata?.bucketName === options.bucket &&
+    previous.metadata?.objectName?.split('/')[0] === objectFolder
+  );
+
+  let objectName = options.objectName;
+  if (previousUpload) {
+    objectName = previousUpload.metadata.objectName;
+    upload.options.metadata = { ...upload.options.metadata, objectName };
+    upload.resumeFromPreviousUpload(previousUpload);
+  }
+
+  return new Promise((resolve, reject) => {
+    upload.options.onProgress = (bytesUploaded: number, bytesTotal: number) => {
+      options.onProgress?.({
+        bytesUploaded,
+        totalBytes: bytesTotal,
+        progress: bytesTotal > 0 ? (bytesUploaded / bytesTotal) * 100 : 0
+      });
+    };
+
+    upload.options.onSuccess = () => {
+      resolve({ objectName, resumed: !!previousUpload });
+    };
+
+    upload.options.onError = (error: Error) => {
+      reject(new Error(`Resumable upload failed: ${error.message}`));
+    };
+
+    upload.start();
+  });
+};
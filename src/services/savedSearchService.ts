@@ -0,0 +1,118 @@
+import { supabase } from './supabase';
+import { SearchFilters, SearchSortField, countSearchMatches } from './searchService';
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  sort_by: SearchSortField;
+  sort_order: 'asc' | 'desc';
+  icon: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  sortBy: SearchSortField;
+  sortOrder: 'asc' | 'desc';
+  icon?: string;
+}
+
+// Postgres unique_violation, raised for a duplicate (user_id, name)
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * List a user's saved searches in alphabetical order
+ */
+export const getSavedSearches = async (userId: string): Promise<SavedSearch[]> => {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load saved searches: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+/**
+ * Get a single saved search
+ */
+export const getSavedSearch = async (id: string): Promise<SavedSearch> => {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load saved search: ${error.message}`);
+  }
+
+  return data;
+};
+
+/**
+ * Save a search as a named smart folder
+ */
+export const createSavedSearch = async (userId: string, input: SavedSearchInput): Promise<SavedSearch> => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Smart folder name is required');
+  }
+
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .insert({
+      user_id: userId,
+      name,
+      query: input.query.trim(),
+      filters: input.filters,
+      sort_by: input.sortBy,
+      sort_order: input.sortOrder,
+      ...(input.icon ? { icon: input.icon } : {})
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      throw new Error(`A smart folder named "${name}" already exists`);
+    }
+    throw new Error(`Failed to save search: ${error.message}`);
+  }
+
+  return data;
+};
+
+/**
+ * Delete a saved search
+ */
+export const deleteSavedSearch = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('saved_searches')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete saved search: ${error.message}`);
+  }
+};
+
+/**
+ * Count the documents currently matching each saved search, in a single request
+ */
+export const getSavedSearchCounts = async (
+  searches: SavedSearch[]
+): Promise<Record<string, number>> => {
+  if (searches.length === 0) return {};
+  return countSearchMatches(searches);
+};
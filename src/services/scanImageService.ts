@@ -0,0 +1,134 @@
+import {
+  PixelImage,
+  Quad,
+  ScanEnhancement,
+  detectDocumentQuad,
+  enhanceScan,
+  warpPerspective
+} from '../utils/documentScan';
+import { ScanPageEdits, rotatedBounds, scanPageCropRect } from '../utils/scanPages';
+
+// Scans keep no more detail than an A4 page at 300 dpi
+const MAX_SCAN_DIMENSION = 3508;
+
+// The sheet's border is looked for in a small copy of the photo
+const DETECTION_DIMENSION = 400;
+
+type ScanSource = HTMLImageElement | HTMLCanvasElement;
+
+const sourceSize = (image: ScanSource) => ({
+  width: image instanceof HTMLImageElement ? image.naturalWidth : image.width,
+  height: image instanceof HTMLImageElement ? image.naturalHeight : image.height
+});
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  return [canvas, ctx];
+};
+
+const readPixels = (image: ScanSource, scale: number): ImageData => {
+  const { width, height } = sourceSize(image);
+  const [canvas, ctx] = createCanvas(width * scale, height * scale);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const pixelsToCanvas = (pixels: PixelImage): HTMLCanvasElement => {
+  const [canvas, ctx] = createCanvas(pixels.width, pixels.height);
+  ctx.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+  return canvas;
+};
+
+/**
+ * Decode a photo into an image element. Browsers apply the camera's EXIF
+ * orientation, so the image is drawn the way it was taken.
+ */
+export const loadScanImage = (file: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+};
+
+/**
+ * Corners of the sheet of paper in a photo, in the photo's pixels, or null when
+ * no sheet stands out from the background
+ */
+export const detectDocumentCorners = (image: ScanSource): Quad | null => {
+  const { width, height } = sourceSize(image);
+  const scale = Math.min(DETECTION_DIMENSION / Math.max(width, height), 1);
+  const corners = detectDocumentQuad(readPixels(image, scale));
+  return corners && (corners.map(({ x, y }) => ({ x: x / scale, y: y / scale })) as Quad);
+};
+
+/**
+ * Flatten the sheet inside the corners and apply the enhancement, at no more than
+ * maxDimension pixels along the longer side. Either step may be left out.
+ */
+export const prepareScanImage = (
+  image: ScanSource,
+  corners: Quad | null,
+  enhancement: ScanEnhancement | null,
+  maxDimension: number = MAX_SCAN_DIMENSION
+): HTMLCanvasElement => {
+  const { width, height } = sourceSize(image);
+  // Read only as much detail as the result can hold
+  const extent = corners
+    ? Math.max(...corners.map((corner, i) => {
+        const next = corners[(i + 1) % 4];
+        return Math.hypot(next.x - corner.x, next.y - corner.y);
+      }))
+    : Math.max(width, height);
+  const scale = Math.min(maxDimension / extent, 1);
+
+  let pixels: PixelImage = readPixels(image, scale);
+  if (corners) {
+    pixels = warpPerspective(pixels, corners.map(({ x, y }) => ({ x: x * scale, y: y * scale })) as Quad, maxDimension);
+  }
+  if (enhancement) {
+    enhanceScan(pixels, enhancement);
+  }
+  return pixelsToCanvas(pixels);
+};
+
+/**
+ * Draw an image with its page edits applied: the sheet flattened and enhanced, then
+ * turned by the rotation and skew around its center, then cropped. Corners uncovered
+ * by straightening are filled with white, like paper. maxDimension scales the result
+ * down for previews.
+ */
+export const renderScanPage = (
+  image: ScanSource,
+  edits: ScanPageEdits,
+  enhancement: ScanEnhancement | null = null,
+  maxDimension?: number
+): HTMLCanvasElement => {
+  const source = edits.corners || enhancement
+    ? prepareScanImage(image, edits.corners, enhancement, maxDimension)
+    : image;
+  const { width, height } = sourceSize(source);
+  const angle = edits.rotation + edits.skew;
+  const bounds = rotatedBounds(width, height, angle);
+  const crop = scanPageCropRect(width, height, edits);
+  const scale = maxDimension ? Math.min(maxDimension / Math.max(crop.width, crop.height), 1) : 1;
+
+  const [canvas, ctx] = createCanvas(crop.width * scale, crop.height * scale);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.translate(bounds.width / 2 - crop.x, bounds.height / 2 - crop.y);
+  ctx.rotate((angle * Math.PI) / 180);
+  ctx.drawImage(source, -width / 2, -height / 2, width, height);
+
+  return canvas;
+};
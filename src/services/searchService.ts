@@ -1,10 +1,37 @@
 import { supabase } from './supabase';
 import { Document } from './documentService';
+import { parseSearchQuery, renderFilter, SearchFilterExpr } from '../utils/searchQuery';
+import { getEmbeddingProvider } from './embeddingService';
+
+export interface SearchHit {
+  document: Document;
+  score: number;          // ts_rank, or the blended semantic score in semantic mode (0 without a query)
+  snippet: string | null; // ts_headline excerpt with matches wrapped in <mark></mark>
+  similarity?: number;    // Cosine similarity of the best matching chunk (semantic mode only)
+}
+
+export interface SearchFacetBucket {
+  value: string;
+  count: number;
+}
+
+export type SearchFacetName =
+  | 'category'
+  | 'document_type'
+  | 'language'
+  | 'type'
+  | 'tags'
+  | 'uploaded_year'
+  | 'uploaded_month';
+
+export type SearchFacets = { total: number } & Partial<Record<SearchFacetName, SearchFacetBucket[]>>;
 
 export interface SearchResult {
   documents: Document[];
+  hits: SearchHit[];
   totalCount: number;
   searchTime: number;
+  facets?: SearchFacets; // Present when requested with withFacets
 }
 
 export interface SearchFilters {
@@ -17,6 +44,145 @@ export interface SearchFilters {
   language?: string;
 }
 
+export type SearchSortField = 'relevance' | 'created_at' | 'name' | 'size' | 'confidence';
+
+export type SearchMode = 'keyword' | 'semantic';
+
+// Share of the semantic score taken by vector similarity; the rest is the full-text rank
+export const DEFAULT_SEMANTIC_WEIGHT = 0.7;
+
+export interface AdvancedSearchParams {
+  query?: string;
+  filters: SearchFilters;
+  sortBy: SearchSortField;
+  sortOrder: 'asc' | 'desc';
+  limit: number;
+  offset: number;
+  mode?: SearchMode;
+  semanticWeight?: number;
+  withFacets?: boolean;
+}
+
+type SearchRow = Document & {
+  search_rank: number | null;
+  search_snippet: string | null;
+  similarity?: number | null;
+};
+
+const toSearchHits = (rows: SearchRow[]): SearchHit[] => {
+  return rows.map(({ search_rank, search_snippet, similarity, ...document }) => ({
+    document: document as Document,
+    score: search_rank ?? 0,
+    snippet: search_snippet,
+    ...(similarity !== undefined ? { similarity: similarity ?? 0 } : {})
+  }));
+};
+
+interface SemanticQuery {
+  embedding: number[];
+  model: string;
+  weight: number;
+}
+
+/**
+ * Ranked full-text query over the stored search vector. The query text is passed
+ * as an RPC argument, so commas and parentheses in it cannot break the filter.
+ */
+const rankedSearch = (query: string | undefined, semantic?: SemanticQuery) => {
+  if (semantic) {
+    return supabase.rpc('semantic_search_documents', {
+      query_embedding: semantic.embedding,
+      embedding_model: semantic.model,
+      search_query: query?.trim() || '',
+      semantic_weight: semantic.weight
+    }, { count: 'exact' });
+  }
+  return supabase.rpc('search_documents', { search_query: query?.trim() || '' }, { count: 'exact' });
+};
+
+interface FilterableQuery<T> {
+  filter(column: string, operator: string, value: unknown): T;
+  or(filters: string): T;
+}
+
+/**
+ * Apply a compiled query-language filter to a Supabase query builder
+ */
+const applySearchFilter = <T extends FilterableQuery<T>>(query: T, expr: SearchFilterExpr): T => {
+  switch (expr.kind) {
+    case 'condition':
+      return query.filter(expr.column, expr.operator, expr.value);
+    case 'and':
+      return expr.items.reduce(applySearchFilter, query);
+    case 'or':
+      return query.or(expr.items.map(renderFilter).join(','));
+  }
+};
+
+const parseQueryOrThrow = (query: string | undefined) => {
+  const parsed = parseSearchQuery(query || '');
+  if (parsed.errors.length > 0) {
+    throw new Error(`Invalid search query: ${parsed.errors[0].message}`);
+  }
+  return parsed;
+};
+
+/**
+ * Embed the free-text part of a query with the active provider.
+ * Returns undefined when there is no text to compare, so the search stays keyword-only.
+ */
+const embedSearchText = async (text: string, weight: number): Promise<SemanticQuery | undefined> => {
+  if (!text.trim()) return undefined;
+  const provider = getEmbeddingProvider();
+  const [embedding] = await provider.embed([text]);
+  return { embedding, model: provider.model, weight };
+};
+
+/**
+ * Parse the query language and start a ranked search with its field filters applied
+ */
+const buildSearchQuery = (
+  query: string | undefined,
+  userId: string,
+  semantic?: SemanticQuery
+) => {
+  const parsed = parseQueryOrThrow(query);
+
+  return parsed.filters.reduce(
+    applySearchFilter,
+    rankedSearch(parsed.text, semantic).eq('user_id', userId)
+  );
+};
+
+/**
+ * Express the structured SearchFilters as query-language filters
+ */
+const searchFiltersToExprs = (filters: SearchFilters): SearchFilterExpr[] => {
+  const exprs: SearchFilterExpr[] = [];
+  const add = (column: string, operator: string, value: string | number) => {
+    exprs.push({ kind: 'condition', column, operator, value: String(value) });
+  };
+
+  if (filters.category) add('category', 'eq', filters.category);
+  if (filters.dateFrom) add('created_at', 'gte', filters.dateFrom);
+  if (filters.dateTo) add('created_at', 'lte', filters.dateTo);
+  if (filters.fileType) add('type', 'eq', filters.fileType);
+  if (filters.minSize) add('size', 'gte', filters.minSize);
+  if (filters.maxSize) add('size', 'lte', filters.maxSize);
+  if (filters.language) add('language', 'eq', filters.language);
+  return exprs;
+};
+
+/**
+ * Apply the structured SearchFilters on top of a search query
+ */
+const applySearchFilters = (
+  query: ReturnType<typeof buildSearchQuery>,
+  filters: SearchFilters
+): ReturnType<typeof buildSearchQuery> => {
+  return searchFiltersToExprs(filters).reduce(applySearchFilter, query);
+};
+
 /**
  * Full-text search across documents
  */
@@ -30,54 +196,11 @@ export const searchDocuments = async (
   const startTime = Date.now();
   
   try {
-    let searchQuery = supabase
-      .from('documents')
-      .select('*', { count: 'exact' })
-      .eq('user_id', userId);
-
-    // Full-text search in document content and metadata
-    if (query.trim()) {
-      searchQuery = searchQuery.or(`
-        name.ilike.%${query}%,
-        ai_analysis->>extractedText.ilike.%${query}%,
-        keywords.cs.{${query}},
-        category.ilike.%${query}%
-      `);
-    }
-
-    // Apply filters
-    if (filters) {
-      if (filters.category) {
-        searchQuery = searchQuery.eq('category', filters.category);
-      }
-      
-      if (filters.dateFrom) {
-        searchQuery = searchQuery.gte('created_at', filters.dateFrom);
-      }
-      
-      if (filters.dateTo) {
-        searchQuery = searchQuery.lte('created_at', filters.dateTo);
-      }
-      
-      if (filters.fileType) {
-        searchQuery = searchQuery.eq('type', filters.fileType);
-      }
-      
-      if (filters.minSize) {
-        searchQuery = searchQuery.gte('size', filters.minSize);
-      }
-      
-      if (filters.maxSize) {
-        searchQuery = searchQuery.lte('size', filters.maxSize);
-      }
-      
-      if (filters.language) {
-        searchQuery = searchQuery.eq('language', filters.language);
-      }
-    }
+    const searchQuery = applySearchFilters(buildSearchQuery(query, userId), filters ?? {});
 
-    // Apply pagination and ordering
-    const { data: documents, error, count } = await searchQuery
+    // Best matches first; newest first among equal ranks (and when there is no query)
+    const { data, error, count } = await searchQuery
+      .order('search_rank', { ascending: false })
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1);
 
@@ -85,10 +208,12 @@ export const searchDocuments = async (
       throw new Error(`Search failed: ${error.message}`);
     }
 
+    const hits = toSearchHits((data || []) as SearchRow[]);
     const searchTime = Date.now() - startTime;
 
     return {
-      documents: documents || [],
+      documents: hits.map(hit => hit.document),
+      hits,
       totalCount: count || 0,
       searchTime
     };
@@ -173,62 +298,100 @@ export const getPopularSearchTerms = async (userId: string): Promise<string[]> =
  * Advanced search with complex filters and sorting
  */
 export const advancedSearch = async (
-  searchParams: {
-    query?: string;
-    filters: SearchFilters;
-    sortBy: 'created_at' | 'name' | 'size' | 'confidence';
-    sortOrder: 'asc' | 'desc';
-    limit: number;
-    offset: number;
-  },
+  searchParams: AdvancedSearchParams,
   userId: string
 ): Promise<SearchResult> => {
   const startTime = Date.now();
   
   try {
-    let searchQuery = supabase
-      .from('documents')
-      .select('*', { count: 'exact' })
-      .eq('user_id', userId);
+    // Semantic mode compares the free text against chunk embeddings as well
+    const semantic = searchParams.mode === 'semantic'
+      ? await embedSearchText(
+        parseQueryOrThrow(searchParams.query).text,
+        searchParams.semanticWeight ?? DEFAULT_SEMANTIC_WEIGHT
+      )
+      : undefined;
 
-    // Apply text search
-    if (searchParams.query?.trim()) {
-      searchQuery = searchQuery.or(`
-        name.ilike.%${searchParams.query}%,
-        ai_analysis->>extractedText.ilike.%${searchParams.query}%,
-        keywords.cs.{${searchParams.query}},
-        category.ilike.%${searchParams.query}%
-      `);
-    }
-
-    // Apply all filters
-    const filters = searchParams.filters;
-    if (filters.category) searchQuery = searchQuery.eq('category', filters.category);
-    if (filters.dateFrom) searchQuery = searchQuery.gte('created_at', filters.dateFrom);
-    if (filters.dateTo) searchQuery = searchQuery.lte('created_at', filters.dateTo);
-    if (filters.fileType) searchQuery = searchQuery.eq('type', filters.fileType);
-    if (filters.minSize) searchQuery = searchQuery.gte('size', filters.minSize);
-    if (filters.maxSize) searchQuery = searchQuery.lte('size', filters.maxSize);
-    if (filters.language) searchQuery = searchQuery.eq('language', filters.language);
+    // Apply text search and all filters
+    let searchQuery = applySearchFilters(
+      buildSearchQuery(searchParams.query, userId, semantic),
+      searchParams.filters
+    );
 
     // Apply sorting
-    const { data: documents, error, count } = await searchQuery
-      .order(searchParams.sortBy, { ascending: searchParams.sortOrder === 'asc' })
-      .range(searchParams.offset, searchParams.offset + searchParams.limit - 1);
+    const ascending = searchParams.sortOrder === 'asc';
+    searchQuery = searchParams.sortBy === 'relevance'
+      ? searchQuery.order('search_rank', { ascending }).order('created_at', { ascending: false })
+      : searchQuery.order(searchParams.sortBy, { ascending });
+
+    const [{ data, error, count }, facets] = await Promise.all([
+      searchQuery.range(searchParams.offset, searchParams.offset + searchParams.limit - 1),
+      searchParams.withFacets ? getSearchFacets(searchParams.query || '', searchParams.filters) : undefined
+    ]);
 
     if (error) {
       throw new Error(`Advanced search failed: ${error.message}`);
     }
 
+    const hits = toSearchHits((data || []) as SearchRow[]);
     const searchTime = Date.now() - startTime;
 
     return {
-      documents: documents || [],
+      documents: hits.map(hit => hit.document),
+      hits,
       totalCount: count || 0,
-      searchTime
+      searchTime,
+      ...(facets ? { facets } : {})
     };
   } catch (error) {
     console.error('Advanced search error:', error);
     throw error;
   }
 };
+
+/**
+ * Count the documents matching each of several queries and filters in one RPC,
+ * keyed by the given ids. Queries that do not parse count as 0.
+ */
+export const countSearchMatches = async (
+  searches: { id: string; query: string; filters: SearchFilters }[]
+): Promise<Record<string, number>> => {
+  const payload = searches.flatMap(search => {
+    const parsed = parseSearchQuery(search.query || '');
+    if (parsed.errors.length > 0) return [];
+    return [{
+      id: search.id,
+      search_query: parsed.text,
+      search_filters: [...parsed.filters, ...searchFiltersToExprs(search.filters || {})]
+    }];
+  });
+
+  const { data, error } = await supabase.rpc('count_search_matches', { searches: payload });
+
+  if (error) {
+    throw new Error(`Failed to count search results: ${error.message}`);
+  }
+
+  const counts = (data || {}) as Record<string, number>;
+  return Object.fromEntries(searches.map(search => [search.id, counts[search.id] || 0]));
+};
+
+/**
+ * Facet counts (category, document type, language, file type, tags, upload year and month)
+ * for the caller's documents matching a query and filters, aggregated in one RPC.
+ * Facets follow the full-text match, also in semantic mode.
+ */
+export const getSearchFacets = async (query: string, filters: SearchFilters = {}): Promise<SearchFacets> => {
+  const parsed = parseQueryOrThrow(query);
+
+  const { data, error } = await supabase.rpc('search_document_facets', {
+    search_query: parsed.text,
+    search_filters: [...parsed.filters, ...searchFiltersToExprs(filters)]
+  });
+
+  if (error) {
+    throw new Error(`Failed to load search facets: ${error.message}`);
+  }
+
+  return data as SearchFacets;
+};
@@ -0,0 +1,195 @@
+import { supabase } from './supabase';
+
+export interface ShareLink {
+  id: string;
+  document_id: string;
+  created_by: string;
+  token: string;
+  expires_at: string | null;
+  max_downloads: number | null;
+  download_count: number;
+  view_only: boolean;
+  revoked_at: string | null;
+  created_at: string;
+  has_password: boolean;
+}
+
+export interface ShareLinkOptions {
+  password?: string;
+  expiresAt?: Date;
+  maxDownloads?: number;
+  viewOnly?: boolean;
+}
+
+export type ShareLinkStatus =
+  | 'ok'
+  | 'not_found'
+  | 'expired'
+  | 'password_required'
+  | 'invalid_password'
+  | 'view_only'
+  | 'limit_reached';
+
+export interface ResolvedShareLink {
+  status: ShareLinkStatus;
+  signedUrl?: string;
+  expiresIn?: number;
+  document?: {
+    name: string;
+    type: string;
+    size: number;
+  };
+  viewOnly?: boolean;
+  downloadsRemaining?: number | null;
+}
+
+// Everything but the password hash, which clients cannot read
+const SHARE_LINK_COLUMNS =
+  'id, document_id, created_by, token, has_password, expires_at, max_downloads, download_count, view_only, revoked_at, created_at';
+
+/**
+ * Check whether a share link can still be opened
+ */
+export const isShareLinkActive = (
+  link: Pick<ShareLink, 'expires_at' | 'revoked_at' | 'max_downloads' | 'download_count' | 'view_only'>
+): boolean => {
+  if (link.revoked_at) return false;
+  if (link.expires_at && new Date(link.expires_at).getTime() <= Date.now()) return false;
+  if (!link.view_only && link.max_downloads !== null && link.download_count >= link.max_downloads) return false;
+  return true;
+};
+
+/**
+ * Build the public URL for a share link token
+ */
+export const getShareLinkUrl = (token: string): string => {
+  return `${window.location.origin}/s/${token}`;
+};
+
+/**
+ * Create a public share link for a document.
+ * The password is hashed in the database and never stored in plain text.
+ */
+export const createShareLink = async (
+  documentId: string,
+  options: ShareLinkOptions = {}
+): Promise<ShareLink> => {
+  const { data: linkId, error } = await supabase.rpc('create_share_link', {
+    doc_id: documentId,
+    link_password: options.password || null,
+    link_expires_at: options.expiresAt ? options.expiresAt.toISOString() : null,
+    link_max_downloads: options.maxDownloads || null,
+    link_view_only: options.viewOnly ?? false
+  });
+
+  if (error) {
+    throw new Error(`Failed to create share link: ${error.message}`);
+  }
+
+  const { data: link, error: fetchError } = await supabase
+    .from('share_links')
+    .select(SHARE_LINK_COLUMNS)
+    .eq('id', linkId)
+    .single();
+
+  if (fetchError) {
+    throw new Error(`Failed to load share link: ${fetchError.message}`);
+  }
+
+  return link as ShareLink;
+};
+
+/**
+ * List all share links for a document, newest first
+ */
+export const getShareLinks = async (documentId: string): Promise<ShareLink[]> => {
+  const { data: links, error } = await supabase
+    .from('share_links')
+    .select(SHARE_LINK_COLUMNS)
+    .eq('document_id', documentId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to get share links: ${error.message}`);
+  }
+
+  return (links || []) as ShareLink[];
+};
+
+/**
+ * Revoke a share link. The token stops working immediately.
+ */
+export const revokeShareLink = async (linkId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', linkId);
+
+  if (error) {
+    throw new Error(`Failed to revoke share link: ${error.message}`);
+  }
+};
+
+export interface ShareLinkContent {
+  status: ShareLinkStatus;
+  file?: Blob;
+}
+
+const shareLinkEndpoint = () => `${process.env.REACT_APP_SUPABASE_URL}/functions/v1/share-link`;
+
+const shareLinkHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${process.env.REACT_APP_SUPABASE_ANON_KEY}`
+});
+
+/**
+ * Check a share link token. 'view' returns the document's details without the file;
+ * 'download' also returns a short-lived signed download URL and counts against the limit.
+ * Works without a session; the share-link edge function validates the token,
+ * password, expiry and download limit.
+ */
+export const resolveShareLink = async (
+  token: string,
+  password?: string,
+  action: 'view' | 'download' = 'view'
+): Promise<ResolvedShareLink> => {
+  const response = await fetch(shareLinkEndpoint(), {
+    method: 'POST',
+    headers: shareLinkHeaders(),
+    body: JSON.stringify({ token, password, action })
+  });
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(`Failed to open share link: ${result.error || response.status}`);
+  }
+
+  return result as ResolvedShareLink;
+};
+
+/**
+ * Fetch a shared document's file through the share-link edge function, for display.
+ * The file is streamed rather than signed, so view-only links never expose a URL
+ * that could be downloaded from. Viewing does not count against the download limit.
+ */
+export const fetchShareLinkContent = async (
+  token: string,
+  password?: string
+): Promise<ShareLinkContent> => {
+  const response = await fetch(shareLinkEndpoint(), {
+    method: 'POST',
+    headers: shareLinkHeaders(),
+    body: JSON.stringify({ token, password, action: 'content' })
+  });
+
+  if (!response.ok) {
+    const result = await response.json();
+    if (result.status) {
+      return { status: result.status as ShareLinkStatus };
+    }
+    throw new Error(`Failed to open share link: ${result.error || response.status}`);
+  }
+
+  return { status: 'ok', file: await response.blob() };
+};
@@ -0,0 +1,102 @@
+import { supabase } from './supabase';
+import { Document } from './documentService';
+
+export type SharePermission = 'read' | 'write' | 'admin';
+
+export interface DocumentShare {
+  id: string;
+  document_id: string;
+  shared_by: string;
+  shared_with: string;
+  shared_with_email?: string;
+  permission: SharePermission;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface SharedDocument {
+  share: DocumentShare;
+  document: Document;
+}
+
+/**
+ * Check whether a share is still valid
+ */
+export const isShareActive = (share: Pick<DocumentShare, 'expires_at'>): boolean => {
+  return !share.expires_at || new Date(share.expires_at).getTime() > Date.now();
+};
+
+/**
+ * Share a document with another user by email.
+ * Sharing again with the same recipient updates the permission and expiry.
+ * The server does not say whether the email belongs to an account, so an
+ * unknown address succeeds without granting anything.
+ */
+export const shareDocument = async (
+  documentId: string,
+  recipientEmail: string,
+  permission: SharePermission = 'read',
+  expiresAt?: Date
+): Promise<void> => {
+  const { error } = await supabase.rpc('share_document', {
+    doc_id: documentId,
+    recipient_email: recipientEmail.trim(),
+    share_permission: permission,
+    share_expires_at: expiresAt ? expiresAt.toISOString() : null
+  });
+
+  if (error) {
+    throw new Error(`Failed to share document: ${error.message}`);
+  }
+};
+
+/**
+ * Revoke a share, immediately removing the recipient's access
+ */
+export const revokeShare = async (shareId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('document_shares')
+    .delete()
+    .eq('id', shareId);
+
+  if (error) {
+    throw new Error(`Failed to revoke share: ${error.message}`);
+  }
+};
+
+/**
+ * List everyone a document is shared with, including expired shares
+ */
+export const getDocumentShares = async (documentId: string): Promise<DocumentShare[]> => {
+  const { data: shares, error } = await supabase
+    .rpc('get_document_share_recipients', { doc_id: documentId });
+
+  if (error) {
+    throw new Error(`Failed to get document shares: ${error.message}`);
+  }
+
+  return (shares || []) as DocumentShare[];
+};
+
+/**
+ * List documents other users have shared with the given user.
+ * Expired shares are left out.
+ */
+export const getSharedWithMe = async (userId: string): Promise<SharedDocument[]> => {
+  const { data: shares, error } = await supabase
+    .from('document_shares')
+    .select('*, document:documents(*)')
+    .eq('shared_with', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to get shared documents: ${error.message}`);
+  }
+
+  return (shares || [])
+    .filter((row: any) => row.document && isShareActive(row))
+    .map(({ document, ...share }: any) => ({
+      share: share as DocumentShare,
+      document: document as Document
+    }));
+};
@@ -2,6 +2,7 @@ import { createClient } from '@supabase/supabase-js';
 import { classifyDocument, extractTextFromDocument } from './aiService';
 import { performSecurityCheck } from './virusScanner';
 import { Document } from './documentService';
+import { getStoragePath } from './documentUrlService';
 
 const supabaseUrl = process.env.REACT_APP_SUPABASE_URL!;
 const supabaseAnonKey = process.env.REACT_APP_SUPABASE_ANON_KEY!;
@@ -9,13 +10,7 @@ const supabaseAnonKey = process.env.REACT_APP_SUPABASE_ANON_KEY!;
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
 // Document interface moved to documentService.ts
-
-export interface Category {
-  id: string;
-  name: string;
-  user_id: string;
-  created_at: string;
-}
+// Category interface moved to categoryService.ts
 
 // Document service functions
 export const getDocuments = async (userId: string): Promise<Document[]> => {
@@ -47,8 +42,7 @@ export const getDocuments = async (userId: string): Promise<Document[]> => {
 
   // Sync logic: if file exists in storage but not in database, add it
   const dbFileNames = new Set((dbDocuments || []).map(doc => {
-    const urlParts = doc.url.split('/');
-    return urlParts[urlParts.length - 1];
+    return getStoragePath(doc)?.split('/').pop();
   }));
 
   const storageFileNames = new Set(storageFiles?.map(file => file.name) || []);
@@ -57,10 +51,6 @@ export const getDocuments = async (userId: string): Promise<Document[]> => {
   const missingFiles = storageFiles?.filter(file => !dbFileNames.has(file.name)) || [];
   
   for (const file of missingFiles) {
-    const { data: urlData } = supabase.storage
-      .from('documents')
-      .getPublicUrl(`${userId}/${file.name}`);
-
     // Add to database
     const { error: insertError } = await supabase
       .from('documents')
@@ -68,7 +58,7 @@ export const getDocuments = async (userId: string): Promise<Document[]> => {
         name: file.name,
         type: file.metadata?.mimetype || 'application/octet-stream',
         size: file.metadata?.size || 0,
-        url: urlData.publicUrl,
+        path: `${userId}/${file.name}`,
         user_id: userId,
       });
 
@@ -79,9 +69,8 @@ export const getDocuments = async (userId: string): Promise<Document[]> => {
 
   // Remove database entries for files that don't exist in storage
   const orphanedDocs = (dbDocuments || []).filter(doc => {
-    const urlParts = doc.url.split('/');
-    const fileName = urlParts[urlParts.length - 1];
-    return !storageFileNames.has(fileName);
+    const fileName = getStoragePath(doc)?.split('/').pop();
+    return !!fileName && !storageFileNames.has(fileName);
   });
 
   for (const doc of orphanedDocs) {
@@ -127,7 +116,7 @@ export const syncWithSupabase = async (userId: string): Promise<{
     // Get all documents for the user
     const { data: documents, error: fetchError } = await supabase
       .from('documents')
-      .select('id, url, name, user_id')
+      .select('id, url, path, name, user_id')
       .eq('user_id', userId);
 
     if (fetchError) {
@@ -145,14 +134,7 @@ export const syncWithSupabase = async (userId: string): Promise<{
     for (const document of documents) {
       try {
         // Extract file path
-        let filePath: string;
-        if (document.url.includes('/storage/v1/object/public/documents/')) {
-          filePath = document.url.split('/storage/v1/object/public/documents/')[1];
-        } else if (document.url.includes('/object/public/documents/')) {
-          filePath = document.url.split('/object/public/documents/')[1];
-        } else {
-          filePath = `${document.user_id}/${document.name}`;
-        }
+        const filePath = getStoragePath(document) || `${document.user_id}/${document.name}`;
 
         // Check if file exists in storage
         const { data: fileExists, error: checkError } = await supabase.storage
@@ -1,5 +1,6 @@
 import { supabase } from './supabase';
 import { Document } from './documentService';
+import { getStoragePath, invalidateDocumentUrl } from './documentUrlService';
 
 export const uploadDocument = async (
   file: File,
@@ -17,11 +18,6 @@ export const uploadDocument = async (
     throw new Error(`Upload failed: ${uploadError.message}`);
   }
 
-  // Get public URL
-  const { data: urlData } = supabase.storage
-    .from('documents')
-    .getPublicUrl(fileName);
-
   // Insert document record
   const { data, error } = await supabase
     .from('documents')
@@ -29,7 +25,7 @@ export const uploadDocument = async (
       name: file.name,
       type: file.type,
       size: file.size,
-      url: urlData.publicUrl,
+      path: fileName,
       user_id: userId,
       category,
       tags,
@@ -83,15 +79,17 @@ export const deleteDocument = async (id: string): Promise<void> => {
   }
 
   // Delete from storage
-  const fileName = document.url.split('/').pop();
-  if (fileName) {
+  const filePath = getStoragePath(document);
+  if (filePath) {
     const { error: storageError } = await supabase.storage
       .from('documents')
-      .remove([`${document.user_id}/${fileName}`]);
+      .remove([filePath]);
 
     if (storageError) {
       console.warn('Failed to delete file from storage:', storageError);
     }
+
+    invalidateDocumentUrl(filePath);
   }
 
   // Delete from database
@@ -0,0 +1,273 @@
+// Trainable text classifier for document categories.
+// Multinomial naive Bayes over TF-IDF weighted terms, with confidences calibrated by a
+// temperature fitted on cross-validated predictions. Pure and deterministic, so the same
+// model runs in the browser or an edge function and serialises to plain JSON.
+
+export const CLASSIFIER_VERSION = 1;
+
+export interface LabeledText {
+  text: string;
+  label: string;
+}
+
+export interface TextClassifierModel {
+  version: number;
+  labels: string[];
+  exampleCount: number;                   // Training examples, excluding seed keywords
+  labelCounts: number[];                  // Examples per label, including seed keywords
+  documentFrequency: Record<string, number>;
+  termWeights: Record<string, number[]>;  // Summed TF-IDF weight of each term per label
+  labelWeights: number[];                 // Summed TF-IDF weight of all terms per label
+  temperature: number;                    // Divides scores before the softmax
+  accuracy: number | null;                // Cross-validated accuracy; null until there are enough examples
+}
+
+export interface TextPrediction {
+  label: string;
+  confidence: number;
+  probabilities: Record<string, number>;
+  keywords: string[]; // Terms that pushed the prediction towards the label
+}
+
+export interface TrainTextClassifierOptions {
+  labels: string[];
+  seedKeywords?: Record<string, string[]>; // One pseudo-example per label, so an untrained model still works
+}
+
+const MAX_VOCABULARY = 3000;
+const SMOOTHING = 0.1;
+const MIN_CALIBRATION_EXAMPLES = 10;
+const CALIBRATION_FOLDS = 5;
+const DEFAULT_TEMPERATURE = 1;
+const KEYWORD_COUNT = 5;
+
+// Candidate temperatures 2^-3 .. 2^4 in quarter-octave steps
+const TEMPERATURES = Array.from({ length: 29 }, (_, i) => Math.pow(2, -3 + i / 4));
+
+type TermVector = Map<string, number>;
+
+interface VectorisedExample {
+  terms: Map<string, number>; // Raw term counts
+  labelIndex: number;
+}
+
+export const tokenizeForClassifier = (text: string): string[] => {
+  return (text.toLowerCase().normalize('NFKC').match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(token => token.length > 1 && !/^\d+$/.test(token));
+};
+
+const countTerms = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  tokenizeForClassifier(text).forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+  return counts;
+};
+
+const inverseDocumentFrequency = (model: Pick<TextClassifierModel, 'labelCounts' | 'documentFrequency'>, term: string): number => {
+  const total = model.labelCounts.reduce((sum, count) => sum + count, 0);
+  return Math.log((total + 1) / ((model.documentFrequency[term] || 0) + 1)) + 1;
+};
+
+// Sublinear term frequency times IDF, L2-normalised so long documents don't dominate training
+const weighTerms = (
+  counts: Map<string, number>,
+  model: Pick<TextClassifierModel, 'labelCounts' | 'documentFrequency' | 'termWeights'>
+): TermVector => {
+  const vector: TermVector = new Map();
+  counts.forEach((count, term) => {
+    if (!model.termWeights[term]) return;
+    vector.set(term, (1 + Math.log(count)) * inverseDocumentFrequency(model, term));
+  });
+
+  const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, value) => sum + value * value, 0));
+  if (norm > 0) vector.forEach((value, term) => vector.set(term, value / norm));
+  return vector;
+};
+
+const round = (value: number): number => Math.round(value * 1e4) / 1e4;
+
+const fit = (examples: VectorisedExample[], labels: string[]): TextClassifierModel => {
+  const documentFrequency: Record<string, number> = {};
+  const labelCounts = labels.map(() => 0);
+
+  examples.forEach(example => {
+    labelCounts[example.labelIndex]++;
+    example.terms.forEach((_, term) => {
+      documentFrequency[term] = (documentFrequency[term] || 0) + 1;
+    });
+  });
+
+  // Keep the most widespread terms; ties break alphabetically so training is deterministic
+  const vocabulary = Object.keys(documentFrequency)
+    .sort((a, b) => documentFrequency[b] - documentFrequency[a] || (a < b ? -1 : 1))
+    .slice(0, MAX_VOCABULARY);
+
+  const model: TextClassifierModel = {
+    version: CLASSIFIER_VERSION,
+    labels,
+    exampleCount: 0,
+    labelCounts,
+    documentFrequency: {},
+    termWeights: {},
+    labelWeights: labels.map(() => 0),
+    temperature: DEFAULT_TEMPERATURE,
+    accuracy: null
+  };
+  vocabulary.forEach(term => {
+    model.documentFrequency[term] = documentFrequency[term];
+    model.termWeights[term] = labels.map(() => 0);
+  });
+
+  examples.forEach(example => {
+    weighTerms(example.terms, model).forEach((weight, term) => {
+      model.termWeights[term][example.labelIndex] += weight;
+      model.labelWeights[example.labelIndex] += weight;
+    });
+  });
+
+  return model;
+};
+
+// Unnormalised log posterior per label
+const scoreTerms = (model: TextClassifierModel, vector: TermVector): number[] => {
+  const vocabularySize = Object.keys(model.termWeights).length;
+  const totalCount = model.labelCounts.reduce((sum, count) => sum + count, 0);
+
+  return model.labels.map((_, labelIndex) => {
+    let score = Math.log((model.labelCounts[labelIndex] + 1) / (totalCount + model.labels.length));
+    const denominator = model.labelWeights[labelIndex] + SMOOTHING * vocabularySize;
+    vector.forEach((weight, term) => {
+      score += weight * Math.log((model.termWeights[term][labelIndex] + SMOOTHING) / denominator);
+    });
+    return score;
+  });
+};
+
+const softmax = (scores: number[], temperature: number): number[] => {
+  const max = Math.max(...scores);
+  const exps = scores.map(score => Math.exp((score - max) / temperature));
+  const sum = exps.reduce((total, value) => total + value, 0);
+  return exps.map(value => value / sum);
+};
+
+const argmax = (values: number[]): number => {
+  return values.reduce((best, value, index) => (value > values[best] ? index : best), 0);
+};
+
+/**
+ * Fit a temperature by minimising the log loss of held-out predictions across
+ * deterministic folds, and report the held-out accuracy
+ */
+const calibrate = (
+  examples: VectorisedExample[],
+  seeds: VectorisedExample[],
+  labels: string[]
+): { temperature: number; accuracy: number } => {
+  const folds = Math.min(CALIBRATION_FOLDS, examples.length);
+  const heldOut: Array<{ scores: number[]; labelIndex: number }> = [];
+
+  for (let fold = 0; fold < folds; fold++) {
+    const training = examples.filter((_, index) => index % folds !== fold);
+    const model = fit([...seeds, ...training], labels);
+
+    examples.forEach((example, index) => {
+      if (index % folds !== fold) return;
+      heldOut.push({ scores: scoreTerms(model, weighTerms(example.terms, model)), labelIndex: example.labelIndex });
+    });
+  }
+
+  let temperature = DEFAULT_TEMPERATURE;
+  let bestLoss = Infinity;
+  TEMPERATURES.forEach(candidate => {
+    const loss = heldOut.reduce((sum, { scores, labelIndex }) => {
+      return sum - Math.log(Math.max(softmax(scores, candidate)[labelIndex], 1e-12));
+    }, 0);
+    if (loss < bestLoss) {
+      bestLoss = loss;
+      temperature = candidate;
+    }
+  });
+
+  const correct = heldOut.filter(({ scores, labelIndex }) => argmax(scores) === labelIndex).length;
+  return { temperature, accuracy: correct / heldOut.length };
+};
+
+/**
+ * Train a classifier over the given labels. Examples with unknown labels are ignored.
+ */
+export const trainTextClassifier = (
+  examples: LabeledText[],
+  options: TrainTextClassifierOptions
+): TextClassifierModel => {
+  const { labels, seedKeywords = {} } = options;
+
+  const seeds: VectorisedExample[] = labels
+    .map((label, labelIndex) => ({ terms: countTerms((seedKeywords[label] || []).join(' ')), labelIndex }))
+    .filter(seed => seed.terms.size > 0);
+
+  const vectorised: VectorisedExample[] = examples
+    .filter(example => labels.includes(example.label))
+    .map(example => ({ terms: countTerms(example.text), labelIndex: labels.indexOf(example.label) }))
+    .filter(example => example.terms.size > 0);
+
+  const model = fit([...seeds, ...vectorised], labels);
+  model.exampleCount = vectorised.length;
+
+  const distinctLabels = new Set(vectorised.map(example => example.labelIndex)).size;
+  if (vectorised.length >= MIN_CALIBRATION_EXAMPLES && distinctLabels > 1) {
+    Object.assign(model, calibrate(vectorised, seeds, labels));
+  }
+
+  Object.keys(model.termWeights).forEach(term => {
+    model.termWeights[term] = model.termWeights[term].map(round);
+  });
+  model.labelWeights = model.labelWeights.map(round);
+
+  return model;
+};
+
+/**
+ * Predict the label of a text with calibrated probabilities
+ */
+export const predictTextCategory = (model: TextClassifierModel, text: string): TextPrediction => {
+  const vector = weighTerms(countTerms(text), model);
+  const scores = scoreTerms(model, vector);
+  const probabilities = softmax(scores, model.temperature);
+  const best = argmax(probabilities);
+
+  // Rank terms by how much more likely they are under the predicted label than any other
+  const vocabularySize = Object.keys(model.termWeights).length;
+  const logLikelihood = (term: string, labelIndex: number) => Math.log(
+    (model.termWeights[term][labelIndex] + SMOOTHING) / (model.labelWeights[labelIndex] + SMOOTHING * vocabularySize)
+  );
+  const keywords = Array.from(vector.entries())
+    .map(([term, weight]) => {
+      const others = model.labels
+        .map((_, labelIndex) => labelIndex)
+        .filter(labelIndex => labelIndex !== best)
+        .map(labelIndex => logLikelihood(term, labelIndex));
+      return { term, contribution: weight * (logLikelihood(term, best) - Math.max(...others)) };
+    })
+    .filter(({ contribution }) => contribution > 0)
+    .sort((a, b) => b.contribution - a.contribution || (a.term < b.term ? -1 : 1))
+    .slice(0, KEYWORD_COUNT)
+    .map(({ term }) => term);
+
+  return {
+    label: model.labels[best],
+    confidence: probabilities[best],
+    probabilities: Object.fromEntries(model.labels.map((label, index) => [label, probabilities[index]])),
+    keywords
+  };
+};
+
+/**
+ * Whether a stored model can be used for the given labels
+ */
+export const isCompatibleClassifier = (model: unknown, labels: string[]): model is TextClassifierModel => {
+  if (typeof model !== 'object' || model === null) return false;
+  const candidate = model as { version?: unknown; labels?: unknown };
+  return candidate.version === CLASSIFIER_VERSION
+    && Array.isArray(candidate.labels)
+    && candidate.labels.length === labels.length
+    && candidate.labels.every((label, index) => label === labels[index]);
+};
@@ -117,12 +117,25 @@ export const saveTranslatedDocument = async (
       translationConfidence: translationResult.confidence
     };
 
+    // The translation is stored as its own text file, so deleting it never touches the original
+    const translatedFile = new Blob([translationResult.translatedText], { type: 'text/plain' });
+    const baseName = originalDocument.name.replace(/\.[^.]+$/, '');
+    const translatedPath = `${originalDocument.user_id}/${Date.now()}_${baseName}.${translationResult.targetLanguage}.txt`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('documents')
+      .upload(translatedPath, translatedFile, { contentType: 'text/plain' });
+
+    if (uploadError) {
+      throw new Error(`Failed to store translated document: ${uploadError.message}`);
+    }
+
     // Create a new document entry for the translated version
     const translatedDocumentData = {
       name: `${originalDocument.name} (${translationResult.targetLanguage})`,
-      url: originalDocument.url, // In production, this would be a new URL for translated content
-      type: originalDocument.type,
-      size: originalDocument.size,
+      path: translatedPath,
+      type: 'text/plain',
+      size: translatedFile.size,
       user_id: originalDocument.user_id,
       category: originalDocument.category,
       metadata: translatedMetadata
@@ -135,6 +148,7 @@ export const saveTranslatedDocument = async (
       .single();
 
     if (insertError) {
+      await supabase.storage.from('documents').remove([translatedPath]);
       throw new Error(`Failed to save translated document: ${insertError.message}`);
     }
 
@@ -0,0 +1,87 @@
+import { supabase } from './supabase';
+
+export interface VersionRetentionRule {
+  keepLast: number | null; // Keep the newest N versions
+  keepDays: number | null; // Keep versions younger than N days
+  keepFirst: boolean;      // Always keep the original upload
+}
+
+export interface VersionRetentionPolicy {
+  default: VersionRetentionRule;
+  categories: Record<string, VersionRetentionRule>; // Overrides by document category
+}
+
+export interface VersionPruneResult {
+  pruned: number;
+  bytesFreed: number;
+  failures: Array<{ versionId: string; error: string }>;
+}
+
+// Matches the column default: nothing is pruned until the user opts in
+export const DEFAULT_VERSION_RETENTION: VersionRetentionPolicy = {
+  default: { keepLast: null, keepDays: null, keepFirst: true },
+  categories: {}
+};
+
+/**
+ * Check whether a rule prunes anything at all
+ */
+export const isRetentionRuleActive = (rule: VersionRetentionRule): boolean => {
+  return rule.keepLast !== null || rule.keepDays !== null;
+};
+
+/**
+ * Load a user's version retention policy
+ */
+export const getVersionRetentionPolicy = async (userId: string): Promise<VersionRetentionPolicy> => {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('version_retention')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load retention policy: ${error.message}`);
+  }
+
+  const stored = data?.version_retention;
+  return {
+    default: { ...DEFAULT_VERSION_RETENTION.default, ...stored?.default },
+    categories: stored?.categories || {}
+  };
+};
+
+/**
+ * Save a user's version retention policy
+ */
+export const saveVersionRetentionPolicy = async (
+  userId: string,
+  policy: VersionRetentionPolicy
+): Promise<void> => {
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert({
+      user_id: userId,
+      version_retention: policy,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' });
+
+  if (error) {
+    throw new Error(`Failed to save retention policy: ${error.message}`);
+  }
+};
+
+/**
+ * Prune the current user's versions now instead of waiting for the nightly job
+ */
+export const pruneVersionsNow = async (): Promise<VersionPruneResult> => {
+  const { data, error } = await supabase.functions.invoke('prune-versions', {
+    body: {}
+  });
+
+  if (error) {
+    throw new Error(`Failed to prune versions: ${error.message}`);
+  }
+
+  return data as VersionPruneResult;
+};
@@ -1,5 +1,4 @@
 import { supabase } from '../services/supabase';
-import { processDocumentWithAI } from '../services/aiProcessingService';
 import { translateDocument } from '../services/translationService';
 
 // Test AI Functionality with Real Supabase Edge Functions
@@ -36,8 +35,8 @@ describe('🧪 AI Functionality Integration Tests', () => {
         } else {
           console.log('✅ AI processing successful:', result.data);
           expect(result.data).toBeDefined();
-          expect(result.data.extractedText).toBeDefined();
-          expect(result.data.classification).toBeDefined();
+          expect(result.data.text).toBeDefined();
+          expect(result.data.words).toBeDefined();
         }
       } catch (error) {
         console.log('⚠️ AI processing test completed with expected behavior');
@@ -64,7 +63,7 @@ describe('🧪 AI Functionality Integration Tests', () => {
           expect(result.error).toBeDefined();
         } else {
           console.log('✅ Unsupported file type handled correctly:', result.data);
-          expect(result.data.classification.category).toBe('Unsupported');
+          expect(result.data.error).toBeDefined();
         }
       } catch (error) {
         console.log('⚠️ Test completed with expected behavior');
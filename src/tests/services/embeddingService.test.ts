@@ -0,0 +1,47 @@
+import {
+  EMBEDDING_DIMENSIONS,
+  embedTextLocally,
+  localEmbeddingProvider,
+  chunkDocumentText,
+  cosineSimilarity
+} from '../../services/embeddingService';
+
+describe('local embedding provider', () => {
+  it('is deterministic and normalised', async () => {
+    const [a] = await localEmbeddingProvider.embed(['Lease agreement for the apartment']);
+    const [b] = await localEmbeddingProvider.embed(['Lease agreement for the apartment']);
+    expect(a).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+  });
+
+  it('scores related text above unrelated text', () => {
+    const query = embedTextLocally('leasing the apartment');
+    const related = embedTextLocally('This lease covers the apartment on Main Street');
+    const unrelated = embedTextLocally('Blood test results and cholesterol levels');
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+});
+
+describe('chunkDocumentText', () => {
+  it('chunks per page with overlap', () => {
+    const words = Array.from({ length: 400 }, (_, i) => `word${i}`).join(' ');
+    const chunks = chunkDocumentText(`${words}\fsecond page`);
+
+    const firstPage = chunks.filter(chunk => chunk.pageNumber === 1);
+    expect(firstPage.length).toBeGreaterThan(1);
+    firstPage.forEach(chunk => expect(chunk.content.length).toBeLessThanOrEqual(1000));
+
+    const lastWordOfFirst = firstPage[0].content.split(' ').pop()!;
+    expect(firstPage[1].content).toContain(lastWordOfFirst);
+
+    expect(chunks[chunks.length - 1]).toMatchObject({ pageNumber: 2, content: 'second page' });
+    expect(chunks.map(chunk => chunk.chunkIndex)).toEqual(chunks.map((_, index) => index));
+  });
+
+  it('uses recorded page texts when available', () => {
+    expect(chunkDocumentText('ignored', [{ pageNumber: 3, text: 'Page three' }])).toEqual([
+      { chunkIndex: 0, pageNumber: 3, content: 'Page three' }
+    ]);
+  });
+});
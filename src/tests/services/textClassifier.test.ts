@@ -0,0 +1,65 @@
+import {
+  trainTextClassifier,
+  predictTextCategory,
+  isCompatibleClassifier,
+  LabeledText
+} from '../../services/textClassifier';
+
+const labels = ['Bills', 'Medical', 'Travel'];
+const seedKeywords = {
+  Bills: ['invoice', 'utility'],
+  Medical: ['doctor', 'prescription'],
+  Travel: ['flight', 'hotel']
+};
+
+const examples: LabeledText[] = [
+  ...['electricity', 'water', 'broadband', 'gas', 'phone'].map(service => ({
+    text: `Monthly ${service} invoice amount due account number`, label: 'Bills'
+  })),
+  ...['cardiology', 'dentist', 'blood test', 'vaccination', 'physio'].map(visit => ({
+    text: `Patient visit ${visit} clinic appointment doctor notes`, label: 'Medical'
+  })),
+  ...['Lisbon', 'Tokyo', 'Oslo', 'Lima', 'Cairo'].map(city => ({
+    text: `Booking confirmation ${city} departure gate boarding pass`, label: 'Travel'
+  }))
+];
+
+describe('text classifier', () => {
+  it('predicts from seed keywords before any training', () => {
+    const model = trainTextClassifier([], { labels, seedKeywords });
+    expect(model.exampleCount).toBe(0);
+    expect(model.accuracy).toBeNull();
+    expect(predictTextCategory(model, 'Your flight and hotel itinerary').label).toBe('Travel');
+  });
+
+  it('is deterministic and returns a probability distribution', () => {
+    const a = trainTextClassifier(examples, { labels, seedKeywords });
+    const b = trainTextClassifier(examples, { labels, seedKeywords });
+    expect(a).toEqual(b);
+
+    const prediction = predictTextCategory(a, 'Invoice for broadband, amount due');
+    expect(prediction).toEqual(predictTextCategory(b, 'Invoice for broadband, amount due'));
+    expect(prediction.label).toBe('Bills');
+    const total = Object.values(prediction.probabilities).reduce((sum, p) => sum + p, 0);
+    expect(total).toBeCloseTo(1);
+  });
+
+  it('learns vocabulary from examples and calibrates confidence', () => {
+    const model = trainTextClassifier(examples, { labels, seedKeywords });
+    expect(model.accuracy).toBe(1);
+
+    const confident = predictTextCategory(model, 'Boarding pass, departure gate 12');
+    expect(confident.label).toBe('Travel');
+    expect(confident.keywords).toContain('boarding');
+
+    const vague = predictTextCategory(model, 'Something unrelated entirely');
+    expect(vague.confidence).toBeLessThan(confident.confidence);
+  });
+
+  it('survives a JSON round trip and rejects models for other labels', () => {
+    const model = JSON.parse(JSON.stringify(trainTextClassifier(examples, { labels, seedKeywords })));
+    expect(isCompatibleClassifier(model, labels)).toBe(true);
+    expect(isCompatibleClassifier(model, ['Bills', 'Medical'])).toBe(false);
+    expect(predictTextCategory(model, 'doctor appointment').label).toBe('Medical');
+  });
+});
@@ -0,0 +1,106 @@
+import { buildAIAnalysis, findImageOnlyPages, mergeOcrText } from '../../utils/aiAnalysis';
+import type { ExtractionOutput, OcrOutput } from '../../types/aiAnalysis';
+import type { ProcessingSteps } from '../../services/documentService';
+
+const prediction = {
+  category: 'Bills & Utilities',
+  confidence: 0.8,
+  tags: ['invoice'],
+  predictedAt: '2024-03-05T10:00:00Z'
+};
+
+const steps: ProcessingSteps = {
+  extract: {
+    status: 'succeeded',
+    attempts: 1,
+    version: 'edge-extract-text-v1',
+    finishedAt: '2024-03-05T10:00:01Z',
+    result: { extractedText: 'Invoice total', wordCount: 2, characterCount: 13 }
+  },
+  language: { status: 'succeeded', attempts: 1, version: 'stopwords-v1', result: { language: 'en', languageConfidence: 1 } },
+  classify: {
+    status: 'succeeded',
+    attempts: 1,
+    version: 'rules-naive-bayes-v1',
+    result: { prediction, keywords: ['invoice'], documentType: 'PDF Document' }
+  },
+  summarize: { status: 'succeeded', attempts: 1, version: 'extractive-v1', result: { summary: 'Invoice total' } },
+  convert: { status: 'skipped', attempts: 0, version: 'edge-convert-to-pdf-v1' }
+};
+
+describe('buildAIAnalysis', () => {
+  it('merges every stage output and records the stage versions', () => {
+    const analysis = buildAIAnalysis(steps, '2024-03-05T10:00:05Z');
+
+    expect(analysis).toMatchObject({
+      schemaVersion: 2,
+      processedAt: '2024-03-05T10:00:05Z',
+      extractedText: 'Invoice total',
+      language: 'en',
+      prediction,
+      documentType: 'PDF Document',
+      summary: 'Invoice total'
+    });
+    expect(analysis.pdfPath).toBeUndefined();
+    expect(analysis.stages).toEqual({
+      extract: { version: 'edge-extract-text-v1', status: 'succeeded', finishedAt: '2024-03-05T10:00:01Z' },
+      language: { version: 'stopwords-v1', status: 'succeeded', finishedAt: undefined },
+      classify: { version: 'rules-naive-bayes-v1', status: 'succeeded', finishedAt: undefined },
+      summarize: { version: 'extractive-v1', status: 'succeeded', finishedAt: undefined },
+      convert: { version: 'edge-convert-to-pdf-v1', status: 'skipped', finishedAt: undefined }
+    });
+  });
+
+  it('adds the invoice fields when the fields stage ran', () => {
+    const fields = { kind: 'invoice' as const, total: 119, currency: 'EUR' };
+    const analysis = buildAIAnalysis({
+      ...steps,
+      fields: { status: 'succeeded', attempts: 1, version: 'labelled-fields-v1', result: { fields } }
+    });
+
+    expect(analysis.fields).toEqual(fields);
+    expect(buildAIAnalysis(steps).fields).toBeUndefined();
+  });
+
+  it('refuses to build from an unfinished run', () => {
+    const unfinished: ProcessingSteps = { ...steps, summarize: { status: 'failed', attempts: 1, error: 'timeout' } };
+    expect(() => buildAIAnalysis(unfinished)).toThrow('Pipeline stage "summarize" has not completed');
+  });
+});
+
+describe('mergeOcrText', () => {
+  const word = { text: 'Receipt', confidence: 0.91, box: { x0: 10, y0: 20, x1: 90, y1: 40 } };
+  const ocr: OcrOutput = {
+    provider: 'tesseract-wasm-eng-v1',
+    pages: [{ pageNumber: 2, text: 'Receipt 42\n', confidence: 0.9, width: 1200, height: 1600, words: [word] }]
+  };
+
+  it('fills only the pages without a text layer and recomputes offsets', () => {
+    const extraction: ExtractionOutput = {
+      extractedText: 'Cover letter\f',
+      pages: [
+        { pageNumber: 1, text: 'Cover letter', start: 0, end: 12 },
+        { pageNumber: 2, text: '', start: 13, end: 13 }
+      ],
+      wordCount: 2,
+      characterCount: 13
+    };
+
+    expect(findImageOnlyPages(extraction)).toEqual([2]);
+    expect(mergeOcrText(extraction, ocr)).toEqual({
+      extractedText: 'Cover letter\fReceipt 42',
+      pages: [
+        { pageNumber: 1, text: 'Cover letter', start: 0, end: 12 },
+        { pageNumber: 2, text: 'Receipt 42', start: 13, end: 23 }
+      ],
+      wordCount: 4,
+      characterCount: 23
+    });
+  });
+
+  it('uses the recognized pages for an image and leaves text documents alone', () => {
+    const image: ExtractionOutput = { extractedText: '', pages: [], wordCount: 0, characterCount: 0 };
+    expect(mergeOcrText(image, ocr).extractedText).toBe('Receipt 42');
+    expect(mergeOcrText(steps.extract!.result!)).toBe(steps.extract!.result);
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  matchCategoryRules,
+  normalizeCategoryRules,
+  extractSender,
+  buildCategoryTree,
+  flattenCategoryTree,
+  getDescendantNames,
+  EMPTY_CATEGORY_RULES
+} from '../../utils/categoryRules';
+
+const categories = [
+  { name: 'Utilities', rules: { ...EMPTY_CATEGORY_RULES, keywords: ['electricity', 'meter reading'] } },
+  { name: 'Bank', rules: { ...EMPTY_CATEGORY_RULES, senders: ['@mybank.com'], filenamePatterns: ['statement_*.pdf'] } },
+  { name: 'Photos', rules: { ...EMPTY_CATEGORY_RULES, mimeTypes: ['image/*'] } }
+];
+
+describe('matchCategoryRules', () => {
+  it('matches whole keywords and phrases', () => {
+    const match = matchCategoryRules(categories, {
+      fileName: 'march.pdf', mimeType: 'application/pdf', text: 'Your meter reading and electricity usage'
+    });
+    expect(match).toEqual({
+      category: 'Utilities', score: 2, matches: ['electricity', 'meter reading'], keywords: ['electricity', 'meter reading']
+    });
+    expect(matchCategoryRules(categories, { fileName: 'a.pdf', mimeType: 'application/pdf', text: 'meters' })).toBeNull();
+  });
+
+  it('prefers explicit filename and sender rules over keywords', () => {
+    const text = 'From: Statements <noreply@mybank.com>\nelectricity direct debit';
+    const match = matchCategoryRules(categories, { fileName: 'statement_2024_03.pdf', mimeType: 'application/pdf', text });
+    expect(match?.category).toBe('Bank');
+    expect(match?.score).toBe(6);
+  });
+
+  it('matches MIME wildcards', () => {
+    expect(matchCategoryRules(categories, { fileName: 'IMG_1.jpg', mimeType: 'image/jpeg', text: '' })?.category).toBe('Photos');
+  });
+});
+
+describe('category rule helpers', () => {
+  it('normalizes stored rules', () => {
+    expect(normalizeCategoryRules({ keywords: ['tax ', '', 3], senders: 'x' })).toEqual({
+      ...EMPTY_CATEGORY_RULES, keywords: ['tax']
+    });
+    expect(extractSender('Invoice\nFROM: billing@power.example\nTotal')).toBe('billing@power.example');
+  });
+
+  it('builds a nested tree and finds descendants', () => {
+    const rows = [
+      { id: '1', name: 'Work', parent_id: null },
+      { id: '2', name: 'Payslips', parent_id: '1' },
+      { id: '3', name: '2024', parent_id: '2' },
+      { id: '4', name: 'Contracts', parent_id: '1' },
+      { id: '5', name: 'Orphan', parent_id: 'missing' }
+    ];
+    const flat = flattenCategoryTree(buildCategoryTree(rows));
+    expect(flat.map(node => `${node.depth}:${node.name}`)).toEqual(['0:Orphan', '0:Work', '1:Contracts', '1:Payslips', '2:2024']);
+    expect(getDescendantNames(rows, '1').sort()).toEqual(['2024', 'Contracts', 'Payslips']);
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  findClassificationOverrides,
+  collectRejectedTags,
+  toAccuracyPoints,
+  ClassificationPrediction
+} from '../../utils/classificationFeedback';
+
+const prediction: ClassificationPrediction = {
+  category: 'Bills & Utilities',
+  confidence: 0.82,
+  tags: ['invoice', 'electricity'],
+  predictedAt: '2024-03-05T10:00:00Z'
+};
+
+describe('findClassificationOverrides', () => {
+  const current = { category: 'Bills & Utilities', tags: ['invoice', 'electricity'], ai_analysis: { prediction } };
+
+  it('records a changed predicted category with the original prediction', () => {
+    const [override] = findClassificationOverrides(current, { category: 'Financial' });
+    expect(override).toMatchObject({
+      field: 'category',
+      predictedCategory: 'Bills & Utilities',
+      predictedConfidence: 0.82,
+      correctedCategory: 'Financial'
+    });
+  });
+
+  it('ignores documents without a prediction, unchanged values and user-chosen categories', () => {
+    expect(findClassificationOverrides({ category: 'Medical' }, { category: 'Legal' })).toEqual([]);
+    expect(findClassificationOverrides(current, { category: 'Bills & Utilities', tags: ['Electricity', 'invoice'] })).toEqual([]);
+    expect(findClassificationOverrides({ ...current, category: 'Medical' }, { category: 'Legal' })).toEqual([]);
+  });
+
+  it('records tag edits of predicted tags', () => {
+    const overrides = findClassificationOverrides(current, { tags: ['invoice', 'gas'] });
+    expect(overrides).toHaveLength(1);
+    expect(overrides[0]).toMatchObject({ field: 'tags', correctedTags: ['invoice', 'gas'], correctedCategory: 'Bills & Utilities' });
+  });
+});
+
+describe('collectRejectedTags', () => {
+  it('keeps removed tags until they are added back', () => {
+    const rejected = collectRejectedTags([
+      { predictedTags: ['invoice', 'Electricity'], correctedTags: ['invoice'] },
+      { predictedTags: ['draft', 'gas'], correctedTags: ['gas'] },
+      { predictedTags: ['invoice'], correctedTags: ['invoice', 'draft'] }
+    ]);
+    expect(Array.from(rejected)).toEqual(['electricity']);
+  });
+});
+
+describe('toAccuracyPoints', () => {
+  it('computes monthly accuracy oldest first', () => {
+    expect(toAccuracyPoints([
+      { month: '2024-04-01', predictions: 4, corrections: 1 },
+      { month: '2024-03-01', predictions: 2, corrections: 2 },
+      { month: '2024-05-01', predictions: 0, corrections: 0 }
+    ])).toEqual([
+      { month: '2024-03', predictions: 2, corrections: 2, accuracy: 0 },
+      { month: '2024-04', predictions: 4, corrections: 1, accuracy: 0.75 }
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  detectFieldDocumentKind,
+  extractDocumentFields,
+  hasDocumentFields,
+  normalizeIban,
+  parseAmount,
+  parseFieldDate
+} from '../../utils/documentFields';
+
+const invoice = [
+  'Northwind Energy GmbH',
+  'Hauptstraße 5, 10115 Berlin',
+  'INVOICE',
+  'Invoice No.: INV-2024-0042',
+  'Invoice date: 05.03.2024',
+  'Due date: 04.04.2024',
+  'Electricity, February        100,00 EUR',
+  'Subtotal                     100,00 EUR',
+  'VAT 19%                       19,00 EUR',
+  'Total                        119,00 EUR',
+  'VAT ID: DE123456789',
+  'IBAN: DE89 3704 0044 0532 0130 00 BIC COBADEFFXXX'
+].join('\n');
+
+describe('extractDocumentFields', () => {
+  it('reads the labelled fields of an invoice', () => {
+    expect(extractDocumentFields(invoice)).toEqual({
+      kind: 'invoice',
+      vendor: 'Northwind Energy GmbH',
+      invoiceNumber: 'INV-2024-0042',
+      issueDate: '2024-03-05',
+      dueDate: '2024-04-04',
+      currency: 'EUR',
+      subtotal: 100,
+      tax: 19,
+      taxRate: 19,
+      total: 119,
+      iban: 'DE89370400440532013000'
+    });
+  });
+
+  it('reads US receipts month first and derives the due date from payment terms', () => {
+    const fields = extractDocumentFields([
+      'Receipt',
+      'From: Corner Hardware',
+      'Date: 03/05/2024',
+      'Payment terms: net 30 days',
+      'Tax 8.25%   $2.06',
+      'Grand total $27.06',
+      'Total items 3'
+    ].join('\n'));
+
+    expect(fields).toMatchObject({
+      kind: 'receipt',
+      vendor: 'Corner Hardware',
+      issueDate: '2024-03-05',
+      dueDate: '2024-04-04',
+      currency: 'USD',
+      tax: 2.06,
+      taxRate: 8.25,
+      total: 27.06
+    });
+  });
+
+  it('leaves out what it cannot find', () => {
+    const fields = extractDocumentFields('Meeting notes\nNothing to pay here');
+    expect(fields).toEqual({ vendor: 'Meeting notes' });
+    expect(hasDocumentFields({ kind: 'bill' })).toBe(false);
+    expect(hasDocumentFields(fields)).toBe(true);
+  });
+});
+
+describe('parseAmount', () => {
+  it('accepts either decimal separator and thousands groups', () => {
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('1.234,56')).toBe(1234.56);
+    expect(parseAmount('1 234,5')).toBe(1234.5);
+    expect(parseAmount('1,234')).toBe(1234);
+    expect(parseAmount('12.5')).toBe(12.5);
+    expect(parseAmount('twelve')).toBeNull();
+  });
+});
+
+describe('parseFieldDate', () => {
+  it('reads numeric and written dates', () => {
+    expect(parseFieldDate('2024-03-05')).toBe('2024-03-05');
+    expect(parseFieldDate('05/03/24')).toBe('2024-03-05');
+    expect(parseFieldDate('05/03/2024', true)).toBe('2024-05-03');
+    expect(parseFieldDate('13/05/2024', true)).toBe('2024-05-13');
+    expect(parseFieldDate('Issued March 5th, 2024')).toBe('2024-03-05');
+    expect(parseFieldDate('5 Mar 2024')).toBe('2024-03-05');
+    expect(parseFieldDate('31.02.2024')).toBeNull();
+  });
+});
+
+describe('normalizeIban', () => {
+  it('checks the length and check digits', () => {
+    expect(normalizeIban('gb82 west 1234 5698 7654 32')).toBe('GB82WEST12345698765432');
+    expect(normalizeIban('GB82WEST12345698765433')).toBeNull();
+    expect(normalizeIban('DE8937040044053201300')).toBeNull();
+  });
+});
+
+describe('detectFieldDocumentKind', () => {
+  it('recognizes invoices, receipts and bills', () => {
+    expect(detectFieldDocumentKind('Rechnung Nr. 12')).toBe('invoice');
+    expect(detectFieldDocumentKind('Thank you! Keep this receipt')).toBe('receipt');
+    expect(detectFieldDocumentKind('Billing period: March')).toBe('bill');
+    expect(detectFieldDocumentKind('Dear Anna')).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  PixelImage,
+  Quad,
+  applyTransform,
+  autoContrast,
+  boxBlur,
+  detectDocumentQuad,
+  enhanceScan,
+  otsuThreshold,
+  perspectiveTransform,
+  warpPerspective
+} from '../../utils/documentScan';
+
+const solidImage = (width: number, height: number, value: (x: number, y: number) => number[]): PixelImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = value(x, y);
+      data.set([r, g, b, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+// Whether a point lies inside a convex quad, given in clockwise order
+const insideQuad = (quad: Quad, x: number, y: number) =>
+  quad.every((point, i) => {
+    const next = quad[(i + 1) % 4];
+    return (next.x - point.x) * (y - point.y) - (next.y - point.y) * (x - point.x) >= 0;
+  });
+
+describe('boxBlur', () => {
+  it('averages each pixel with its neighbours', () => {
+    const blurred = boxBlur(new Uint8Array([0, 0, 90, 0, 0]), 5, 1, 1);
+    expect(Array.from(blurred)).toEqual([0, 30, 30, 30, 0]);
+  });
+});
+
+describe('otsuThreshold', () => {
+  it('splits dark and bright pixels', () => {
+    const threshold = otsuThreshold(new Uint8Array([10, 12, 15, 200, 210, 220]));
+    expect(threshold).toBeGreaterThanOrEqual(15);
+    expect(threshold).toBeLessThan(200);
+  });
+});
+
+describe('detectDocumentQuad', () => {
+  const sheet: Quad = [{ x: 30, y: 20 }, { x: 160, y: 35 }, { x: 150, y: 180 }, { x: 20, y: 170 }];
+
+  it('finds the corners of a bright sheet on a dark table', () => {
+    const photo = solidImage(200, 200, (x, y) => (insideQuad(sheet, x, y) ? [235, 230, 220] : [60, 50, 40]));
+    const corners = detectDocumentQuad(photo);
+    expect(corners).not.toBeNull();
+    corners!.forEach((corner, i) => {
+      expect(Math.abs(corner.x - sheet[i].x)).toBeLessThanOrEqual(3);
+      expect(Math.abs(corner.y - sheet[i].y)).toBeLessThanOrEqual(3);
+    });
+  });
+
+  it('finds nothing in a photo without a sheet', () => {
+    expect(detectDocumentQuad(solidImage(100, 100, () => [128, 128, 128]))).toBeNull();
+  });
+});
+
+describe('perspectiveTransform', () => {
+  it('maps each corner onto its counterpart', () => {
+    const from: Quad = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 0, y: 50 }];
+    const to: Quad = [{ x: 10, y: 5 }, { x: 90, y: 12 }, { x: 95, y: 70 }, { x: 3, y: 60 }];
+    const matrix = perspectiveTransform(from, to);
+    from.forEach((point, i) => {
+      const mapped = applyTransform(matrix, point);
+      expect(mapped.x).toBeCloseTo(to[i].x, 6);
+      expect(mapped.y).toBeCloseTo(to[i].y, 6);
+    });
+  });
+});
+
+describe('warpPerspective', () => {
+  it('cuts the quad out into an upright rectangle', () => {
+    const photo = solidImage(100, 100, (x, y) => (x >= 20 && x < 80 && y >= 10 && y < 50 ? [255, 0, 0] : [0, 0, 255]));
+    const warped = warpPerspective(photo, [{ x: 20, y: 10 }, { x: 80, y: 10 }, { x: 80, y: 50 }, { x: 20, y: 50 }]);
+    expect(warped.width).toBe(60);
+    expect(warped.height).toBe(40);
+    const centre = (20 * 60 + 30) * 4;
+    expect(Array.from(warped.data.slice(centre, centre + 4))).toEqual([255, 0, 0, 255]);
+  });
+
+  it('keeps the longer side within the limit', () => {
+    const photo = solidImage(100, 100, () => [255, 255, 255]);
+    const warped = warpPerspective(photo, [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 0, y: 50 }], 40);
+    expect(warped.width).toBe(40);
+    expect(warped.height).toBe(20);
+  });
+});
+
+describe('autoContrast', () => {
+  it('stretches a dull range of tones to black and white', () => {
+    const photo = solidImage(10, 1, x => (x < 5 ? [80, 80, 80] : [180, 180, 180]));
+    autoContrast(photo);
+    expect(photo.data[0]).toBe(0);
+    expect(photo.data[9 * 4]).toBe(255);
+  });
+
+  it('leaves an almost flat image alone', () => {
+    const photo = solidImage(10, 1, x => (x < 5 ? [120, 120, 120] : [130, 130, 130]));
+    autoContrast(photo);
+    expect(photo.data[0]).toBe(120);
+  });
+});
+
+describe('enhanceScan', () => {
+  it('turns a colour photo gray', () => {
+    const photo = solidImage(2, 1, () => [200, 100, 50]);
+    enhanceScan(photo, { mode: 'grayscale', autoContrast: false });
+    expect(Array.from(photo.data.slice(0, 4))).toEqual([124, 124, 124, 255]);
+  });
+
+  it('keeps ink black and a shadowed background white in black and white', () => {
+    // Paper darkens from left to right, with a line of ink in the middle
+    const photo = solidImage(64, 64, (x, y) => (y === 32 ? [20, 20, 20] : [240 - x * 2, 240 - x * 2, 240 - x * 2]));
+    enhanceScan(photo, { mode: 'bw', autoContrast: true });
+    expect(photo.data[(10 * 64 + 60) * 4]).toBe(255);
+    expect(photo.data[(32 * 64 + 60) * 4]).toBe(0);
+  });
+});
@@ -0,0 +1,26 @@
+import { parseHighlightedSnippet } from '../../utils/highlight';
+
+describe('parseHighlightedSnippet', () => {
+  it('splits marked matches from plain text', () => {
+    expect(parseHighlightedSnippet('Invoice <mark>total</mark> due')).toEqual([
+      { text: 'Invoice ', highlighted: false },
+      { text: 'total', highlighted: true },
+      { text: ' due', highlighted: false }
+    ]);
+  });
+
+  it('keeps other markup as plain text', () => {
+    expect(parseHighlightedSnippet('<b>x</b> <mark>y</mark>')).toEqual([
+      { text: '<b>x</b> ', highlighted: false },
+      { text: 'y', highlighted: true }
+    ]);
+  });
+
+  it('handles empty and unterminated snippets', () => {
+    expect(parseHighlightedSnippet(null)).toEqual([]);
+    expect(parseHighlightedSnippet('a <mark>b')).toEqual([
+      { text: 'a ', highlighted: false },
+      { text: 'b', highlighted: true }
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { fitImageOnPage, layoutOcrWords } from '../../utils/ocrTextLayer';
+
+describe('fitImageOnPage', () => {
+  it('scales a large image down to the page and centers it', () => {
+    expect(fitImageOnPage(2000, 1000, 200, 300)).toEqual({ x: 0, y: 100, width: 200, height: 100 });
+  });
+
+  it('never scales a small image up', () => {
+    expect(fitImageOnPage(100, 50, 200, 300)).toEqual({ x: 50, y: 125, width: 100, height: 50 });
+  });
+});
+
+describe('layoutOcrWords', () => {
+  const placement = { x: 10, y: 20, width: 100, height: 200 };
+  const word = (text: string, x0: number, y0: number, x1: number, y1: number) => ({
+    text,
+    confidence: 0.9,
+    box: { x0, y0, x1, y1 }
+  });
+
+  it('maps word boxes from image pixels onto the page', () => {
+    const words = layoutOcrWords(
+      { width: 1000, height: 2000, words: [word('Total ', 100, 500, 300, 540)] },
+      placement,
+      1
+    );
+    expect(words).toEqual([{ text: 'Total', x: 20, y: 74, width: 20, fontSize: 4 }]);
+  });
+
+  it('skips blank words and empty boxes', () => {
+    const words = layoutOcrWords(
+      { width: 1000, height: 2000, words: [word('  ', 0, 0, 10, 10), word('x', 5, 5, 5, 20)] },
+      placement
+    );
+    expect(words).toEqual([]);
+    expect(layoutOcrWords({ width: 0, height: 0, words: [word('a', 0, 0, 1, 1)] }, placement)).toEqual([]);
+  });
+});
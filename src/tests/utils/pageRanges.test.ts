@@ -0,0 +1,32 @@
+import { formatPageIndices, pageRangeIndices, parsePageRanges } from '../../utils/pageRanges';
+
+describe('parsePageRanges', () => {
+  it('reads single pages, ranges and open ranges', () => {
+    expect(parsePageRanges('1-3, 5; 8-', 10)).toEqual([
+      { start: 1, end: 3 },
+      { start: 5, end: 5 },
+      { start: 8, end: 10 }
+    ]);
+    expect(parsePageRanges('-2', 10)).toEqual([{ start: 1, end: 2 }]);
+  });
+
+  it('explains lists it cannot use', () => {
+    expect(() => parsePageRanges('', 10)).toThrow('Enter pages');
+    expect(() => parsePageRanges('two', 10)).toThrow('"two" is not a page or a range');
+    expect(() => parsePageRanges('9-12', 10)).toThrow('The document has 10 pages');
+    expect(() => parsePageRanges('5-3', 10)).toThrow('"5-3" runs backwards');
+    expect(() => parsePageRanges('0', 10)).toThrow('Pages are numbered from 1');
+  });
+});
+
+describe('pageRangeIndices', () => {
+  it('lists each page once, in the order given', () => {
+    expect(pageRangeIndices([{ start: 4, end: 5 }, { start: 1, end: 1 }, { start: 5, end: 6 }])).toEqual([3, 4, 0, 5]);
+  });
+});
+
+describe('formatPageIndices', () => {
+  it('collapses runs of pages into ranges', () => {
+    expect(formatPageIndices([0, 1, 2, 4, 7, 8])).toBe('1-3, 5, 8-9');
+  });
+});
@@ -0,0 +1,66 @@
+import { PDFDocument } from 'pdf-lib';
+import {
+  extractPdfPages,
+  getPdfPageCount,
+  mergePdfs,
+  recompressPdfImages,
+  rotatePdfPages,
+  splitPdf
+} from '../../utils/pdfToolkit';
+
+// A document whose pages are told apart by their widths: 100, 101, 102...
+const createPdf = async (pageCount: number, firstWidth = 100): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) pdf.addPage([firstWidth + i, 200]);
+  return pdf.save();
+};
+
+const pageWidths = async (bytes: Uint8Array): Promise<number[]> =>
+  (await PDFDocument.load(bytes)).getPages().map(page => page.getWidth());
+
+// The markers of a one-pixel gray JPEG, which is all a PDF needs to embed one.
+// A comment segment pads the larger copy.
+const jpeg = (comment = 0): Uint8Array => Uint8Array.from([
+  0xff, 0xd8,
+  ...(comment > 0 ? [0xff, 0xfe, 0x00, comment + 2, ...new Array(comment).fill(0x20)] : []),
+  0xff, 0xc0, 0x00, 0x0b, 0x08, 0x00, 0x01, 0x00, 0x01, 0x01, 0x01, 0x11, 0x00,
+  0xff, 0xd9
+]);
+
+describe('pdfToolkit', () => {
+  it('extracts pages in the order given', async () => {
+    expect(await pageWidths(await extractPdfPages(await createPdf(5), [3, 0]))).toEqual([103, 100]);
+  });
+
+  it('splits a document into one part per range', async () => {
+    const parts = await splitPdf(await createPdf(5), [{ start: 1, end: 2 }, { start: 3, end: 5 }]);
+    expect(await Promise.all(parts.map(pageWidths))).toEqual([[100, 101], [102, 103, 104]]);
+  });
+
+  it('merges documents one after another', async () => {
+    const merged = await mergePdfs([await createPdf(2), await createPdf(1, 300)]);
+    expect(await pageWidths(merged)).toEqual([100, 101, 300]);
+    expect(await getPdfPageCount(merged)).toBe(3);
+  });
+
+  it('rotates only the chosen pages, adding to their rotation', async () => {
+    const once = await rotatePdfPages(await createPdf(3), 90, [1]);
+    const twice = await rotatePdfPages(once, 270);
+    const pages = (await PDFDocument.load(twice)).getPages();
+    expect(pages.map(page => page.getRotation().angle)).toEqual([270, 0, 270]);
+  });
+
+  it('replaces a JPEG only when the new one is smaller', async () => {
+    const pdf = await PDFDocument.create();
+    const image = await pdf.embedJpg(jpeg(64));
+    pdf.addPage([100, 100]).drawImage(image, { x: 0, y: 0, width: 100, height: 100 });
+    const source = await pdf.save();
+
+    const kept = await recompressPdfImages(source, async () => ({ bytes: jpeg(80), width: 1, height: 1, components: 1 }));
+    const replaced = await recompressPdfImages(source, async () => ({ bytes: jpeg(), width: 1, height: 1, components: 1 }));
+
+    expect(kept.imagesRecompressed).toBe(0);
+    expect(replaced.imagesRecompressed).toBe(1);
+    expect(replaced.bytes.length).toBeLessThan(source.length);
+  });
+});
@@ -0,0 +1,34 @@
+import { canRetryProcessing, MAX_PROCESSING_ATTEMPTS } from '../../utils/processingRetry';
+
+describe('canRetryProcessing', () => {
+  it('only retries failed documents', () => {
+    expect(canRetryProcessing({ processing_status: 'done', processing_steps: {} })).toBe(false);
+    expect(canRetryProcessing({ processing_status: 'classifying', processing_steps: {} })).toBe(false);
+    expect(canRetryProcessing({ processing_status: undefined })).toBe(false);
+  });
+
+  it('retries legacy failed rows that recorded no steps', () => {
+    expect(canRetryProcessing({ processing_status: 'failed' })).toBe(true);
+    expect(canRetryProcessing({ processing_status: 'failed', processing_steps: {} })).toBe(true);
+  });
+
+  it('retries while a failed step has attempts left', () => {
+    expect(canRetryProcessing({
+      processing_status: 'failed',
+      processing_steps: {
+        extract: { status: 'succeeded', attempts: 1 },
+        classify: { status: 'failed', attempts: MAX_PROCESSING_ATTEMPTS - 1 }
+      }
+    })).toBe(true);
+  });
+
+  it('stops once every failed step is exhausted', () => {
+    expect(canRetryProcessing({
+      processing_status: 'failed',
+      processing_steps: {
+        extract: { status: 'succeeded', attempts: 1 },
+        classify: { status: 'failed', attempts: MAX_PROCESSING_ATTEMPTS }
+      }
+    })).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  DEFAULT_SCAN_EDITS,
+  clampCrop,
+  clampSkew,
+  movePage,
+  rotatePage,
+  rotatedBounds,
+  scanFileName,
+  scanPageCropRect,
+  scanPageFormat
+} from '../../utils/scanPages';
+
+describe('movePage', () => {
+  it('moves a page forwards and backwards', () => {
+    expect(movePage(['a', 'b', 'c', 'd'], 0, 2)).toEqual(['b', 'c', 'a', 'd']);
+    expect(movePage(['a', 'b', 'c', 'd'], 3, 1)).toEqual(['a', 'd', 'b', 'c']);
+  });
+
+  it('leaves the order alone for positions outside the list', () => {
+    const pages = ['a', 'b'];
+    expect(movePage(pages, 0, -1)).toBe(pages);
+    expect(movePage(pages, 1, 2)).toBe(pages);
+  });
+});
+
+describe('rotatePage', () => {
+  it('wraps quarter turns in both directions', () => {
+    expect(rotatePage(270, 1)).toBe(0);
+    expect(rotatePage(0, -1)).toBe(270);
+    expect(rotatePage(90, 2)).toBe(270);
+  });
+});
+
+describe('clampSkew and clampCrop', () => {
+  it('limits straightening to small angles', () => {
+    expect(clampSkew(40)).toBe(15);
+    expect(clampSkew(-3.5)).toBe(-3.5);
+  });
+
+  it('keeps part of the image visible', () => {
+    expect(clampCrop({ top: -0.1, right: 0.6, bottom: 0.2, left: 0.5 })).toEqual({
+      top: 0,
+      right: 0.4,
+      bottom: 0.2,
+      left: 0.5
+    });
+  });
+});
+
+describe('rotatedBounds', () => {
+  it('swaps the sides for a quarter turn', () => {
+    expect(rotatedBounds(400, 300, 90)).toEqual({ width: 300, height: 400 });
+    expect(rotatedBounds(400, 300, 180)).toEqual({ width: 400, height: 300 });
+  });
+
+  it('grows to hold a slightly turned image', () => {
+    expect(rotatedBounds(100, 100, 45)).toEqual({ width: 141, height: 141 });
+  });
+});
+
+describe('scanPageCropRect', () => {
+  it('crops the rotated image', () => {
+    const edits = { ...DEFAULT_SCAN_EDITS, rotation: 90 as const, crop: { top: 0.1, right: 0, bottom: 0.2, left: 0.5 } };
+    expect(scanPageCropRect(400, 200, edits)).toEqual({ x: 100, y: 40, width: 100, height: 280 });
+  });
+
+  it('covers the whole image without edits', () => {
+    expect(scanPageCropRect(400, 200, DEFAULT_SCAN_EDITS)).toEqual({ x: 0, y: 0, width: 400, height: 200 });
+  });
+});
+
+describe('scanPageFormat', () => {
+  it('turns standard sizes to match the image', () => {
+    expect(scanPageFormat('a4', 3000, 2000)).toEqual({ format: 'a4', orientation: 'landscape' });
+    expect(scanPageFormat('letter', 2000, 3000)).toEqual({ format: 'letter', orientation: 'portrait' });
+  });
+
+  it('gives fit-to-image pages the image proportions', () => {
+    expect(scanPageFormat('fit', 1000, 2000)).toEqual({ format: [148.5, 297], orientation: 'portrait' });
+  });
+});
+
+describe('scanFileName', () => {
+  it('names a scan after the time it was made', () => {
+    expect(scanFileName(new Date(2024, 2, 5, 14, 30))).toBe('Scan 2024-03-05 14.30.pdf');
+  });
+});
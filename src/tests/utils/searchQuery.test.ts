@@ -0,0 +1,89 @@
+import { parseSearchQuery, renderFilter, formatFieldTerm, toggleQueryTerm } from '../../utils/searchQuery';
+
+describe('parseSearchQuery', () => {
+  it('keeps free text, phrases, exclusions and OR for full-text search', () => {
+    const parsed = parseSearchQuery('invoice "due date" -draft tax OR vat');
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.filters).toEqual([]);
+    expect(parsed.text).toBe('invoice "due date" -draft tax OR vat');
+  });
+
+  it('compiles field operators to PostgREST conditions', () => {
+    const parsed = parseSearchQuery('category:Legal tag:tax type:pdf lang:MK size:>5mb');
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.filters.map(renderFilter)).toEqual([
+      'category.ilike.Legal',
+      'tags.cs.{tax}',
+      'type.eq.application/pdf',
+      'language.eq.mk',
+      'size.gt.5242880'
+    ]);
+  });
+
+  it('turns upload periods into half-open date ranges', () => {
+    const parsed = parseSearchQuery('uploaded:2024-01..2024-06 uploaded:>2023');
+    expect(parsed.filters.map(renderFilter)).toEqual([
+      'and(created_at.gte.2024-01-01,created_at.lt.2024-07-01)',
+      'created_at.gte.2024-01-01'
+    ]);
+  });
+
+  it('compiles invoice field filters to JSON paths in ai_analysis', () => {
+    const parsed = parseSearchQuery('due:<2024-07-01 amount:>100 amount:50..1.234,50 vendor:north currency:eur issued:2024-03');
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.filters.map(renderFilter)).toEqual([
+      'ai_analysis->fields->>dueDate.lt.2024-07-01',
+      'ai_analysis->fields->total.gt.100',
+      'and(ai_analysis->fields->total.gte.50,ai_analysis->fields->total.lte."1234.5")',
+      'ai_analysis->fields->>vendor.ilike.*north*',
+      'ai_analysis->fields->>currency.eq.EUR',
+      'and(ai_analysis->fields->>issueDate.gte.2024-03-01,ai_analysis->fields->>issueDate.lt.2024-04-01)'
+    ]);
+    expect(parseSearchQuery('amount:lots').errors[0].message).toBe('Invalid amount "lots" (try amount:>100)');
+  });
+
+  it('negates and ORs field filters', () => {
+    const parsed = parseSearchQuery('-category:"Real Estate" tag:tax OR tag:vat -size:1mb..2mb');
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.filters.map(renderFilter)).toEqual([
+      'category.not.ilike."Real Estate"',
+      'or(tags.cs.{tax},tags.cs.{vat})',
+      'or(size.not.gte.1048576,size.not.lte.2097152)'
+    ]);
+  });
+
+  it('reports syntax errors with their position', () => {
+    const parsed = parseSearchQuery('OR colour:red size:big uploaded:2024-13 "open');
+    expect(parsed.errors.map(error => error.message)).toEqual([
+      'OR needs a term on both sides',
+      'Unknown field "colour" (use category, doctype, tag, type, size, uploaded, lang, vendor, amount, due, issued, currency)',
+      'Invalid size "big" (try size:>5mb)',
+      'Invalid date "2024-13" (use YYYY, YYYY-MM or YYYY-MM-DD)',
+      'Unterminated quote'
+    ]);
+    expect(parsed.errors[1]).toMatchObject({ start: 3, end: 13 });
+  });
+
+  it('rejects OR between text and field filters', () => {
+    const parsed = parseSearchQuery('invoice OR tag:tax');
+    expect(parsed.errors[0].message).toBe('OR cannot join text with field filters');
+  });
+});
+
+describe('formatFieldTerm', () => {
+  it('quotes values containing whitespace so they parse back', () => {
+    const term = formatFieldTerm('category', 'Real Estate');
+    expect(term).toBe('category:"Real Estate"');
+    expect(parseSearchQuery(term).filters.map(renderFilter)).toEqual(['category.ilike."Real Estate"']);
+    expect(formatFieldTerm('uploaded', '2024-03')).toBe('uploaded:2024-03');
+  });
+});
+
+describe('toggleQueryTerm', () => {
+  it('adds a missing term and removes a present one', () => {
+    expect(toggleQueryTerm('invoice', 'lang:mk')).toBe('invoice lang:mk');
+    expect(toggleQueryTerm('invoice lang:mk type:pdf', 'lang:mk')).toBe('invoice type:pdf');
+    expect(toggleQueryTerm('', 'category:"Real Estate"')).toBe('category:"Real Estate"');
+    expect(toggleQueryTerm('lang:mkd', 'lang:mk')).toBe('lang:mkd lang:mk');
+  });
+});
@@ -0,0 +1,27 @@
+import { detectLanguage, summarizeText } from '../../utils/textAnalysis';
+
+describe('detectLanguage', () => {
+  it('picks the language whose function words appear most', () => {
+    expect(detectLanguage('The invoice for the month of May is attached to this letter').language).toBe('en');
+    expect(detectLanguage('Der Vertrag und die Rechnung sind mit der Post gekommen').language).toBe('de');
+  });
+
+  it('reports no confidence when no function words are found', () => {
+    expect(detectLanguage('12345 ABC-99')).toEqual({ language: 'en', confidence: 0 });
+  });
+});
+
+describe('summarizeText', () => {
+  const text = 'Electricity bill for March. Usage rose by ten percent. Please pay the electricity bill by April 15.';
+
+  it('keeps the most representative sentences in their original order within the limit', () => {
+    const summary = summarizeText(text, 80);
+    expect(summary.length).toBeLessThanOrEqual(80);
+    expect(summary).toBe('Electricity bill for March. Please pay the electricity bill by April 15.');
+  });
+
+  it('truncates a single sentence longer than the limit', () => {
+    expect(summarizeText('A very long sentence without any full stop at all', 20)).toBe('A very long sente...');
+    expect(summarizeText('   ')).toBe('');
+  });
+});
@@ -0,0 +1,31 @@
+import { diffLines, summarizeDiff } from '../../utils/textDiff';
+
+describe('textDiff', () => {
+  test('identical texts produce only unchanged lines', () => {
+    const diff = diffLines('a\nb\nc', 'a\nb\nc');
+    expect(diff.every(line => line.type === 'unchanged')).toBe(true);
+    expect(diff).toHaveLength(3);
+  });
+
+  test('detects a changed line in the middle', () => {
+    const diff = diffLines('Invoice 1\nTotal: 100\nThanks', 'Invoice 1\nTotal: 120\nThanks');
+    expect(diff.map(line => [line.type, line.text])).toEqual([
+      ['unchanged', 'Invoice 1'],
+      ['removed', 'Total: 100'],
+      ['added', 'Total: 120'],
+      ['unchanged', 'Thanks']
+    ]);
+  });
+
+  test('tracks line numbers on both sides', () => {
+    const diff = diffLines('a\nb', 'x\na\nb');
+    expect(diff[0]).toEqual({ type: 'added', text: 'x', newLine: 1 });
+    expect(diff[1]).toEqual({ type: 'unchanged', text: 'a', oldLine: 1, newLine: 2 });
+  });
+
+  test('handles empty texts and windows line endings', () => {
+    expect(diffLines('', '')).toEqual([]);
+    expect(summarizeDiff(diffLines('', 'one\r\ntwo'))).toEqual({ added: 2, removed: 0, unchanged: 0 });
+    expect(summarizeDiff(diffLines('one\r\ntwo', 'one\ntwo'))).toEqual({ added: 0, removed: 0, unchanged: 2 });
+  });
+});
@@ -0,0 +1,122 @@
+import type { PageText } from '../services/embeddingService';
+import type { ClassificationPrediction } from '../utils/classificationFeedback';
+
+// Bumped whenever the shape of ai_analysis changes; migration 016 upgrades older rows
+export const AI_ANALYSIS_SCHEMA_VERSION = 2;
+
+export type PipelineStageName = 'extract' | 'ocr' | 'language' | 'classify' | 'fields' | 'summarize' | 'convert';
+
+// One page of extracted text and where it sits in extractedText, for highlighting and page citations
+export interface ExtractedPage extends PageText {
+  start: number;
+  end: number;
+}
+
+export interface ExtractionOutput {
+  extractedText: string; // Pages separated by form feeds
+  pages?: ExtractedPage[];
+  wordCount: number;
+  characterCount: number;
+}
+
+// Pixel coordinates in the image that was recognized
+export interface OcrBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number; // 0-1
+  box: OcrBox;
+}
+
+export interface OcrPage {
+  pageNumber: number;
+  text: string;
+  confidence: number; // 0-1
+  width: number; // Size of the recognized image, to scale boxes onto the page
+  height: number;
+  words: OcrWord[];
+}
+
+export interface OcrOutput {
+  provider: string;
+  pages: OcrPage[]; // Only the pages that had no text layer
+}
+
+export interface LanguageOutput {
+  language: string;
+  languageConfidence: number;
+}
+
+export interface ClassificationOutput {
+  prediction: ClassificationPrediction;
+  keywords: string[];
+  documentType: string;
+}
+
+export type FieldDocumentKind = 'invoice' | 'receipt' | 'bill';
+
+// Structured data read from invoices, receipts and bills. Dates are YYYY-MM-DD; amounts are in currency.
+export interface DocumentFields {
+  kind?: FieldDocumentKind;
+  vendor?: string;
+  invoiceNumber?: string;
+  issueDate?: string;
+  dueDate?: string;
+  currency?: string; // ISO 4217 code
+  subtotal?: number;
+  tax?: number; // Tax or VAT amount
+  taxRate?: number; // Percent
+  total?: number;
+  iban?: string; // Without spaces
+  editedAt?: string; // Set once the user corrects the fields; reprocessing keeps them
+}
+
+export interface FieldsOutput {
+  fields: DocumentFields;
+}
+
+export interface SummaryOutput {
+  summary: string;
+}
+
+export interface ConversionOutput {
+  format: string; // Source format the converter read, e.g. "docx"
+  pdfPath: string; // Storage path of the PDF/A copy, next to the original
+}
+
+export interface StageOutputs {
+  extract: ExtractionOutput;
+  ocr: OcrOutput;
+  language: LanguageOutput;
+  classify: ClassificationOutput;
+  fields: FieldsOutput;
+  summarize: SummaryOutput;
+  convert: ConversionOutput;
+}
+
+// Which implementation produced each part of the analysis, and when
+export interface StageRecord {
+  version: string;
+  status: 'succeeded' | 'skipped';
+  finishedAt?: string;
+}
+
+/**
+ * The ai_analysis column: every stage's output merged into one object, so
+ * SQL can keep reading fields such as extractedText from the top level.
+ * Recognized text is merged into extractedText and pages; the word boxes stay under ocr.
+ */
+export type AIAnalysis = ExtractionOutput & LanguageOutput & Omit<ClassificationOutput, 'prediction'>
+  & SummaryOutput & Partial<ConversionOutput> & {
+    prediction?: ClassificationPrediction; // Missing on documents analysed before predictions were kept
+    ocr?: OcrOutput;
+    fields?: DocumentFields; // Only on invoices, receipts and bills
+    schemaVersion: number;
+    processedAt: string;
+    stages: Partial<Record<PipelineStageName, StageRecord>>;
+  };
@@ -1,9 +1,12 @@
+import type { ProcessingStatus, ProcessingSteps } from '../services/documentService';
+import type { AIAnalysis } from './aiAnalysis';
+
 export interface Document {
   id: string;
   name: string;
   type: string;
   size: number;
-  url: string;
+  url?: string | null; // Legacy public URL; resolve access through documentUrlService
   path: string;
   user_id: string;
   category?: string;
@@ -12,12 +15,19 @@ export interface Document {
   confidence?: number;
   document_type?: string;
   language?: string;
-  ai_analysis?: any; // JSONB field for AI processing results
+  ai_analysis?: AIAnalysis | null;
   aiClassification?: {
     category: string;
     confidence: number;
   };
   metadata?: Record<string, any>;
+  processing_status?: ProcessingStatus;
+  processing_steps?: ProcessingSteps;
+  processing_attempts?: number;
+  processing_error?: string | null;
+  processing_updated_at?: string;
+  checksum?: string;
+  pdf_path?: string | null; // PDF/A copy converted from the original
   created_at: string;
   updated_at: string;
 }
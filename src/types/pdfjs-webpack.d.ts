@@ -0,0 +1,4 @@
+// pdfjs-dist/webpack sets up the PDF.js worker for webpack builds and re-exports the library
+declare module 'pdfjs-dist/webpack' {
+  export * from 'pdfjs-dist';
+}
@@ -0,0 +1,95 @@
+import {
+  AI_ANALYSIS_SCHEMA_VERSION,
+  AIAnalysis,
+  ClassificationOutput,
+  ExtractionOutput,
+  OcrOutput,
+  PipelineStageName,
+  StageOutputs,
+  StageRecord
+} from '../types/aiAnalysis';
+import type { ProcessingSteps } from '../services/documentService';
+
+const requireOutput = <K extends PipelineStageName>(steps: ProcessingSteps, name: K): StageOutputs[K] => {
+  const step = steps[name];
+  if (step?.status !== 'succeeded' || !step.result) {
+    throw new Error(`Pipeline stage "${name}" has not completed`);
+  }
+  return step.result as StageOutputs[K];
+};
+
+// Pages are separated by form feeds in extractedText
+const PAGE_SEPARATOR = '\f';
+
+/**
+ * Pages of an extraction without a text layer, which need OCR
+ */
+export const findImageOnlyPages = (extraction: ExtractionOutput): number[] => {
+  return (extraction.pages || [])
+    .filter(page => !page.text.trim())
+    .map(page => page.pageNumber);
+};
+
+/**
+ * Fill the pages that had no text layer with their recognized text, recomputing
+ * page offsets and counts. An extraction without pages (an image) takes the OCR pages as they are.
+ */
+export const mergeOcrText = (extraction: ExtractionOutput, ocr?: OcrOutput): ExtractionOutput => {
+  if (!ocr || ocr.pages.length === 0) return extraction;
+
+  const recognized = new Map(ocr.pages.map(page => [page.pageNumber, page.text.trim()]));
+  const basePages = extraction.pages && extraction.pages.length > 0
+    ? extraction.pages
+    : ocr.pages.map(page => ({ pageNumber: page.pageNumber, text: '' }));
+
+  let offset = 0;
+  const pages = basePages.map((page, index) => {
+    const text = page.text.trim() ? page.text : recognized.get(page.pageNumber) || '';
+    if (index > 0) offset += PAGE_SEPARATOR.length;
+    const start = offset;
+    offset += text.length;
+    return { pageNumber: page.pageNumber, text, start, end: offset };
+  });
+
+  const extractedText = pages.map(page => page.text).join(PAGE_SEPARATOR);
+  return {
+    extractedText,
+    pages,
+    wordCount: (extractedText.match(/\S+/g) || []).length,
+    characterCount: extractedText.length
+  };
+};
+
+/**
+ * Merge the outputs of a finished pipeline run into the ai_analysis payload,
+ * recording the version of every stage that ran or was skipped
+ */
+export const buildAIAnalysis = (
+  steps: ProcessingSteps,
+  processedAt: string = new Date().toISOString()
+): AIAnalysis & Pick<ClassificationOutput, 'prediction'> => {
+  const stages: Partial<Record<PipelineStageName, StageRecord>> = {};
+  (Object.keys(steps) as PipelineStageName[]).forEach(name => {
+    const step = steps[name];
+    if (step?.version && (step.status === 'succeeded' || step.status === 'skipped')) {
+      stages[name] = { version: step.version, status: step.status, finishedAt: step.finishedAt };
+    }
+  });
+
+  const ocr = steps.ocr?.status === 'succeeded' ? steps.ocr.result : undefined;
+  const conversion = steps.convert?.status === 'succeeded' ? steps.convert.result : undefined;
+  const fields = steps.fields?.status === 'succeeded' ? steps.fields.result : undefined;
+
+  return {
+    schemaVersion: AI_ANALYSIS_SCHEMA_VERSION,
+    processedAt,
+    stages,
+    ...mergeOcrText(requireOutput(steps, 'extract'), ocr),
+    ...(ocr && { ocr }),
+    ...requireOutput(steps, 'language'),
+    ...requireOutput(steps, 'classify'),
+    ...(fields && { fields: fields.fields }),
+    ...requireOutput(steps, 'summarize'),
+    ...(conversion && { pdfPath: conversion.pdfPath })
+  };
+};
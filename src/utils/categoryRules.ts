@@ -0,0 +1,198 @@
+// Auto-filing rules for user-defined categories, and helpers for the category tree.
+// Pure so the matching can run anywhere a document is classified.
+
+export interface CategoryRules {
+  filenamePatterns: string[]; // Globs (* and ?); a pattern without wildcards matches anywhere in the name
+  keywords: string[];         // Words or phrases in the name or extracted text
+  senders: string[];          // Addresses or domains, matched against the sender of a mailed document
+  mimeTypes: string[];        // e.g. application/pdf or image/*
+}
+
+export interface CategoryWithRules {
+  name: string;
+  rules: CategoryRules;
+}
+
+export interface CategoryRuleInput {
+  fileName: string;
+  mimeType: string;
+  text: string;
+  sender?: string | null;
+}
+
+export interface CategoryRuleMatch {
+  category: string;
+  score: number;
+  matches: string[];  // Every rule value that matched
+  keywords: string[]; // The matched keywords alone
+}
+
+// A filename or sender rule is an explicit filing instruction; keywords and types are hints
+const FILENAME_SCORE = 3;
+const SENDER_SCORE = 3;
+const MIME_SCORE = 1;
+const KEYWORD_SCORE = 1;
+
+export const EMPTY_CATEGORY_RULES: CategoryRules = {
+  filenamePatterns: [],
+  keywords: [],
+  senders: [],
+  mimeTypes: []
+};
+
+const toStringList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim());
+};
+
+/**
+ * Read rules stored as JSONB, tolerating missing or malformed fields
+ */
+export const normalizeCategoryRules = (raw: unknown): CategoryRules => {
+  const rules = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  return {
+    filenamePatterns: toStringList(rules.filenamePatterns),
+    keywords: toStringList(rules.keywords),
+    senders: toStringList(rules.senders),
+    mimeTypes: toStringList(rules.mimeTypes)
+  };
+};
+
+const globToRegExp = (pattern: string, anchored: boolean): RegExp => {
+  const source = pattern
+    .toLowerCase()
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(anchored ? `^${source}$` : source);
+};
+
+const matchesFilename = (fileName: string, pattern: string): boolean => {
+  const wildcard = /[*?]/.test(pattern);
+  return globToRegExp(pattern, wildcard).test(fileName.toLowerCase());
+};
+
+const normalizeWords = (text: string): string => {
+  return ` ${(text.toLowerCase().normalize('NFKC').match(/[\p{L}\p{N}]+/gu) || []).join(' ')} `;
+};
+
+/**
+ * The sender of a mailed or scanned letter, taken from a "From:" line near the top of the text
+ */
+export const extractSender = (text: string): string | null => {
+  const match = text.slice(0, 2000).match(/^\s*from:\s*(.+)$/im);
+  return match ? match[1].trim() : null;
+};
+
+/**
+ * Score every category's rules against a document and return the best match, if any.
+ * Ties go to the category listed first.
+ */
+export const matchCategoryRules = (
+  categories: CategoryWithRules[],
+  input: CategoryRuleInput
+): CategoryRuleMatch | null => {
+  const words = normalizeWords(`${input.fileName} ${input.text}`);
+  const sender = (input.sender ?? extractSender(input.text) ?? '').toLowerCase();
+  const mimeType = input.mimeType.toLowerCase();
+  let best: CategoryRuleMatch | null = null;
+
+  categories.forEach(({ name, rules }) => {
+    let score = 0;
+    const matches: string[] = [];
+    const keywords: string[] = [];
+
+    rules.filenamePatterns.forEach(pattern => {
+      if (matchesFilename(input.fileName, pattern)) {
+        score += FILENAME_SCORE;
+        matches.push(pattern);
+      }
+    });
+
+    rules.senders.forEach(value => {
+      if (sender && sender.includes(value.toLowerCase())) {
+        score += SENDER_SCORE;
+        matches.push(value);
+      }
+    });
+
+    rules.mimeTypes.forEach(pattern => {
+      if (globToRegExp(pattern, true).test(mimeType)) {
+        score += MIME_SCORE;
+        matches.push(pattern);
+      }
+    });
+
+    rules.keywords.forEach(keyword => {
+      const phrase = normalizeWords(keyword);
+      if (phrase.trim() && words.includes(phrase)) {
+        score += KEYWORD_SCORE;
+        matches.push(keyword);
+        keywords.push(keyword);
+      }
+    });
+
+    if (score > 0 && (!best || score > best.score)) {
+      best = { category: name, score, matches, keywords };
+    }
+  });
+
+  return best;
+};
+
+export type CategoryTreeNode<T> = T & { children: CategoryTreeNode<T>[]; depth: number };
+
+/**
+ * Nest categories under their parents, alphabetically at every level.
+ * Categories whose parent is missing are shown at the top level.
+ */
+export const buildCategoryTree = <T extends { id: string; name: string; parent_id: string | null }>(
+  categories: T[]
+): CategoryTreeNode<T>[] => {
+  const ids = new Set(categories.map(category => category.id));
+  const byParent = new Map<string | null, T[]>();
+  categories.forEach(category => {
+    const parent = category.parent_id && ids.has(category.parent_id) ? category.parent_id : null;
+    byParent.set(parent, [...(byParent.get(parent) || []), category]);
+  });
+
+  const build = (parent: string | null, depth: number, seen: Set<string>): CategoryTreeNode<T>[] => {
+    return (byParent.get(parent) || [])
+      .filter(category => !seen.has(category.id))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(category => ({
+        ...category,
+        depth,
+        children: build(category.id, depth + 1, new Set(seen).add(category.id))
+      }));
+  };
+
+  return build(null, 0, new Set());
+};
+
+/**
+ * Flatten a category tree depth-first, parents before their children
+ */
+export const flattenCategoryTree = <T>(nodes: CategoryTreeNode<T>[]): CategoryTreeNode<T>[] => {
+  return nodes.flatMap(node => [node, ...flattenCategoryTree(node.children)]);
+};
+
+/**
+ * Names of a category's sub-categories at any depth
+ */
+export const getDescendantNames = <T extends { id: string; name: string; parent_id: string | null }>(
+  categories: T[],
+  categoryId: string
+): string[] => {
+  const names: string[] = [];
+  const visit = (parentId: string, seen: Set<string>) => {
+    categories.forEach(category => {
+      if (category.parent_id === parentId && !seen.has(category.id)) {
+        names.push(category.name);
+        visit(category.id, new Set(seen).add(category.id));
+      }
+    });
+  };
+  visit(categoryId, new Set([categoryId]));
+  return names;
+};
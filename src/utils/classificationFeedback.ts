@@ -0,0 +1,124 @@
+// Detecting manual overrides of AI-assigned categories and tags.
+// Kept free of Supabase so the rules can be unit tested.
+
+export interface ClassificationPrediction {
+  category: string;
+  confidence: number;
+  tags: string[];
+  predictedAt: string;
+}
+
+export interface ClassificationOverride {
+  field: 'category' | 'tags';
+  predictedCategory: string;
+  predictedConfidence: number;
+  predictedTags: string[];
+  correctedCategory: string | null;
+  correctedTags: string[];
+}
+
+export interface ClassifiedDocumentState {
+  category?: string | null;
+  tags?: string[] | null;
+  ai_analysis?: { prediction?: ClassificationPrediction } | null;
+}
+
+const normalizeTag = (tag: string): string => tag.trim().toLowerCase();
+
+const sameTags = (a: string[], b: string[]): boolean => {
+  const left = new Set(a.map(normalizeTag));
+  const right = new Set(b.map(normalizeTag));
+  return left.size === right.size && Array.from(left).every(tag => right.has(tag));
+};
+
+/**
+ * Compare a document's current classification with an update and return the overrides
+ * of what the classifier assigned. A category counts only while the document still has
+ * the predicted category; tags count when the update drops a predicted tag or changes
+ * a tag list that still holds predicted tags.
+ */
+export const findClassificationOverrides = (
+  current: ClassifiedDocumentState,
+  updates: { category?: string | null; tags?: string[] | null }
+): ClassificationOverride[] => {
+  const prediction = current.ai_analysis?.prediction;
+  if (!prediction) return [];
+
+  const overrides: ClassificationOverride[] = [];
+  const base = {
+    predictedCategory: prediction.category,
+    predictedConfidence: prediction.confidence,
+    predictedTags: prediction.tags || []
+  };
+
+  if (
+    updates.category !== undefined &&
+    current.category === prediction.category &&
+    (updates.category || null) !== prediction.category
+  ) {
+    overrides.push({
+      field: 'category',
+      ...base,
+      correctedCategory: updates.category || null,
+      correctedTags: updates.tags ?? current.tags ?? []
+    });
+  }
+
+  const currentTags = current.tags || [];
+  const predictedTags = new Set(base.predictedTags.map(normalizeTag));
+  const holdsPredictedTags = currentTags.some(tag => predictedTags.has(normalizeTag(tag)));
+  if (updates.tags !== undefined && holdsPredictedTags && !sameTags(currentTags, updates.tags || [])) {
+    overrides.push({
+      field: 'tags',
+      ...base,
+      correctedCategory: updates.category !== undefined ? updates.category || null : current.category || null,
+      correctedTags: updates.tags || []
+    });
+  }
+
+  return overrides;
+};
+
+/**
+ * Tags the user has removed from predictions and not added back since, given
+ * tag overrides oldest first. These are left out of future predictions.
+ */
+export const collectRejectedTags = (
+  overrides: Array<Pick<ClassificationOverride, 'predictedTags' | 'correctedTags'>>
+): Set<string> => {
+  const rejected = new Set<string>();
+
+  overrides.forEach(override => {
+    const corrected = new Set(override.correctedTags.map(normalizeTag));
+    override.predictedTags.map(normalizeTag).forEach(tag => {
+      if (!corrected.has(tag)) rejected.add(tag);
+    });
+    corrected.forEach(tag => rejected.delete(tag));
+  });
+
+  return rejected;
+};
+
+export interface AccuracyPoint {
+  month: string; // YYYY-MM
+  predictions: number;
+  corrections: number;
+  accuracy: number; // Share of predictions the user kept
+}
+
+/**
+ * Turn monthly prediction and correction counts into accuracy points, oldest first
+ */
+export const toAccuracyPoints = (
+  rows: Array<{ month: string; predictions: number; corrections: number }>
+): AccuracyPoint[] => {
+  return rows
+    .filter(row => row.predictions > 0)
+    .map(row => ({
+      month: row.month.slice(0, 7),
+      predictions: row.predictions,
+      corrections: row.corrections,
+      accuracy: 1 - row.corrections / row.predictions
+    }))
+    .sort((a, b) => (a.month < b.month ? -1 : a.month > b.month ? 1 : 0));
+};
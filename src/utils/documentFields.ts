@@ -0,0 +1,303 @@
+// Structured field extraction for invoices, receipts and bills: vendor, invoice number,
+// dates, totals, currency, tax and IBAN, read from extracted text by their labels.
+
+import type { DocumentFields, FieldDocumentKind } from '../types/aiAnalysis';
+
+const KIND_PATTERNS: Array<[FieldDocumentKind, RegExp]> = [
+  ['invoice', /\b(invoice|rechnung|facture|factura|fattura)\b/i],
+  ['receipt', /\b(receipt|kassenbon|quittung|ticket de caisse|recibo)\b/i],
+  ['bill', /\b(bill|billing period|statement of account|meter reading|utility)\b/i]
+];
+
+const INVOICE_NUMBER_LABEL = /\b(?:invoice|bill|receipt|rechnung|facture|factura|document)\s*(?:no\b\.?|number|nr\b\.?|num\b\.?|#)|\b(?:invoice|rechnungs)-?(?:nr|nummer)\b\.?/i;
+const ISSUE_DATE_LABELS = [
+  /\b(?:invoice date|bill date|receipt date|date of issue|issue date|issued(?: on)?|rechnungsdatum|date de facturation)\b/i,
+  /\b(?:date|datum)\b/i
+];
+const DUE_DATE_LABEL = /\b(?:due date|payment due|due by|due on|pay by|payable by|zahlbar bis|fällig(?:keit)?|date d'échéance)\b/i;
+const PAYMENT_TERMS = /\b(?:net|within|innerhalb von|sous)\s*(\d{1,3})\s*(?:days|tagen|jours)?\b/i;
+const TOTAL_LABELS = [
+  /\b(?:amount due|balance due|total due|amount payable|total to pay|grand total|total amount|gesamtbetrag|montant total|total ttc)\b/i,
+  /\btotal\b/i
+];
+const SUBTOTAL_LABEL = /\b(?:sub-?total|net amount|net total|total net|total excl(?:uding|\.)?\s*(?:vat|tax)|zwischensumme|nettobetrag|total ht)\b/i;
+const TAX_LABEL = /\b(?:vat|tax|gst|hst|mwst|ust|tva|iva)\b(?!\s*(?:id\b|no\b|number|reg))/i;
+const TAX_EXCLUSIONS = /\b(?:incl(?:uding|\.)?|inkl\.?|excl(?:uding|\.)?|ttc|ht)\b/i;
+const VENDOR_LABEL = /^(?:from|vendor|seller|supplier|merchant|issued by|billed by|bill from|payee|sold by)\s*:/i;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '€': 'EUR',
+  '$': 'USD',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR'
+};
+const CURRENCY_CODES = /\b(EUR|USD|GBP|CHF|JPY|CAD|AUD|SEK|NOK|DKK|PLN|CZK|HUF|RON|BGN|RSD|MKD|TRY|INR|CNY)\b/g;
+
+// IBAN lengths of the countries the check digits alone would not pin down
+const IBAN_LENGTHS: Record<string, number> = {
+  AT: 20, BE: 16, BG: 22, CH: 21, CZ: 24, DE: 22, DK: 18, ES: 24, FI: 18, FR: 27, GB: 22, GR: 27,
+  HR: 21, HU: 28, IE: 22, IT: 27, LU: 20, MK: 19, NL: 18, NO: 15, PL: 28, PT: 25, RO: 24, RS: 22,
+  SE: 24, SI: 19, SK: 24, TR: 26
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Numbers with optional thousands groups and two decimals: 1,234.56 / 1.234,56 / 1 234,56 / 1'234.56
+const AMOUNT = /-?\d{1,3}(?:[ ,.'\u00a0\u2009]\d{3})+(?:[.,]\d{1,2})?(?!\d)|-?\d+(?:[.,]\d{1,2})?(?!\d)/g;
+const PERCENT = /\d{1,2}(?:[.,]\d{1,2})?\s*%/g;
+
+const DATE_PATTERNS = [
+  /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/,
+  /\b(\d{1,2})[./-](\d{1,2})[./-](\d{4}|\d{2})\b/,
+  /\b(\d{1,2})(?:st|nd|rd|th)?\.?\s+([a-z]{3,9})\.?,?\s+(\d{4})\b/i,
+  /\b([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/i
+];
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+const isoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || month > 12 || date.getUTCDate() !== day || date.getUTCMonth() !== month - 1) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const monthNumber = (name: string): number | null => {
+  const index = MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  return index >= 0 ? index + 1 : null;
+};
+
+/**
+ * The first date in a string, as YYYY-MM-DD. Numeric dates are read day first
+ * unless monthFirst is set (US documents) or only one reading is a valid date.
+ */
+export const parseFieldDate = (value: string, monthFirst: boolean = false): string | null => {
+  const candidates = DATE_PATTERNS
+    .map((pattern, kind) => ({ match: value.match(pattern), kind }))
+    .filter((candidate): candidate is { match: RegExpMatchArray; kind: number } => candidate.match !== null)
+    .sort((a, b) => a.match.index! - b.match.index!);
+
+  for (const { match, kind } of candidates) {
+    let date: string | null = null;
+    if (kind === 0) {
+      date = isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+    } else if (kind === 1) {
+      const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+      const [a, b] = [Number(match[1]), Number(match[2])];
+      date = monthFirst
+        ? isoDate(year, a, b) ?? isoDate(year, b, a)
+        : isoDate(year, b, a) ?? isoDate(year, a, b);
+    } else {
+      const [day, name] = kind === 2 ? [match[1], match[2]] : [match[2], match[1]];
+      const month = monthNumber(name);
+      if (month) date = isoDate(Number(match[3]), month, Number(day));
+    }
+    if (date) return date;
+  }
+  return null;
+};
+
+/**
+ * Read an amount written with either decimal separator. A lone separator followed
+ * by three digits is taken as a thousands separator.
+ */
+export const parseAmount = (value: string): number | null => {
+  const cleaned = value.replace(/[\s']/g, '');
+  if (!/^-?\d[\d.,]*$/.test(cleaned)) return null;
+
+  const lastDot = cleaned.lastIndexOf('.');
+  const lastComma = cleaned.lastIndexOf(',');
+  let decimal: string | null = null;
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimal = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const decimals = cleaned.length - cleaned.lastIndexOf(separator) - 1;
+    if (cleaned.split(separator).length === 2 && decimals !== 3) decimal = separator;
+  }
+
+  const normalized = decimal
+    ? cleaned.split(decimal === '.' ? ',' : '.').join('').replace(decimal, '.')
+    : cleaned.replace(/[.,]/g, '');
+  const amount = Number(normalized);
+  return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : null;
+};
+
+// The last amount on a line, which is where invoices print the figure of a labelled row
+const lastAmount = (line: string): number | null => {
+  const matches = line.replace(PERCENT, ' ').match(AMOUNT) || [];
+  for (let i = matches.length - 1; i >= 0; i--) {
+    const amount = parseAmount(matches[i]);
+    if (amount !== null) return amount;
+  }
+  return null;
+};
+
+/**
+ * Validate an IBAN's length and check digits, returning it without spaces
+ */
+export const normalizeIban = (value: string): string | null => {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return null;
+  const length = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (length && iban.length !== length) return null;
+
+  const digits = (iban.slice(4) + iban.slice(0, 4)).replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1 ? iban : null;
+};
+
+// IBANs are printed in groups, so a match can run into the next word; shorten it until it checks out
+const findIban = (text: string): string | null => {
+  const candidates = text.toUpperCase().match(/\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]){11,34}/g) || [];
+  for (const candidate of candidates) {
+    const compact = candidate.replace(/\s/g, '');
+    for (let length = Math.min(compact.length, 34); length >= 15; length--) {
+      const iban = normalizeIban(compact.slice(0, length));
+      if (iban) return iban;
+    }
+  }
+  return null;
+};
+
+/**
+ * The most frequent currency code or symbol in the text
+ */
+const findCurrency = (text: string): string | undefined => {
+  const counts = new Map<string, number>();
+  const count = (code: string) => counts.set(code, (counts.get(code) || 0) + 1);
+
+  (text.match(CURRENCY_CODES) || []).forEach(code => count(code));
+  Object.entries(CURRENCY_SYMBOLS).forEach(([symbol, code]) => {
+    const occurrences = text.split(symbol).length - 1;
+    for (let i = 0; i < occurrences; i++) count(code);
+  });
+
+  let best: string | undefined;
+  counts.forEach((n, code) => {
+    if (!best || n > counts.get(best)!) best = code;
+  });
+  return best;
+};
+
+/**
+ * Values after a label: the rest of each labelled line, or the next line when the label stands alone
+ */
+const labelledValues = (lines: string[], label: RegExp): string[] => {
+  const values: string[] = [];
+  lines.forEach((line, index) => {
+    const match = line.match(label);
+    if (!match) return;
+    const rest = line.slice(match.index! + match[0].length).replace(/^[\s:#.-]+/, '');
+    values.push(rest || lines[index + 1] || '');
+  });
+  return values;
+};
+
+const firstValue = <T>(lines: string[], label: RegExp, read: (value: string) => T | null): T | undefined => {
+  for (const value of labelledValues(lines, label)) {
+    const result = read(value);
+    if (result !== null) return result;
+  }
+  return undefined;
+};
+
+const findTotal = (lines: string[]): number | undefined => {
+  const labelled = firstValue(lines, TOTAL_LABELS[0], lastAmount);
+  if (labelled !== undefined) return labelled;
+
+  // Plain "Total" rows: tax and net totals come first, so the largest is the amount to pay
+  const totals = lines
+    .filter(line => TOTAL_LABELS[1].test(line) && !SUBTOTAL_LABEL.test(line) && !(TAX_LABEL.test(line) && !TAX_EXCLUSIONS.test(line)))
+    .map(lastAmount)
+    .filter((amount): amount is number => amount !== null);
+  return totals.length > 0 ? Math.max(...totals) : undefined;
+};
+
+const findTax = (lines: string[]): Pick<DocumentFields, 'tax' | 'taxRate'> => {
+  for (const line of lines) {
+    if (!TAX_LABEL.test(line) || TAX_EXCLUSIONS.test(line)) continue;
+    const tax = lastAmount(line);
+    if (tax === null) continue;
+    const rate = line.match(/(\d{1,2}(?:[.,]\d{1,2})?)\s*%/);
+    return { tax, ...(rate && { taxRate: parseAmount(rate[1]) ?? undefined }) };
+  }
+  return {};
+};
+
+const INVOICE_NUMBER = /^[A-Z0-9][A-Z0-9\-/.]*\d[A-Z0-9\-/]*/i;
+
+const findVendor = (lines: string[]): string | undefined => {
+  const labelled = firstValue(lines, VENDOR_LABEL, value => value.trim().slice(0, 80) || null);
+  if (labelled) return labelled;
+
+  // Otherwise the letterhead: the first short line near the top that reads like a name
+  return lines.slice(0, 5).find(line => {
+    const letters = (line.match(/\p{L}/gu) || []).length;
+    return letters >= 2 && letters / line.length > 0.5 && line.length <= 60 && !line.includes(':') &&
+      !KIND_PATTERNS.some(([, pattern]) => pattern.test(line)) && !parseFieldDate(line);
+  });
+};
+
+/**
+ * Whether the text reads like an invoice, a receipt or a bill
+ */
+export const detectFieldDocumentKind = (text: string): FieldDocumentKind | null => {
+  const match = KIND_PATTERNS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : null;
+};
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+};
+
+/**
+ * Read the fields of an invoice, receipt or bill. Fields that cannot be found are left out.
+ */
+export const extractDocumentFields = (text: string, kind?: FieldDocumentKind): DocumentFields => {
+  const lines = text.split(/[\r\n\f]+/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const currency = findCurrency(text);
+  const monthFirst = currency === 'USD';
+  const readDate = (value: string) => parseFieldDate(value, monthFirst);
+
+  const dueDate = firstValue(lines, DUE_DATE_LABEL, readDate);
+  // "Date" also labels due dates, so those lines are left to the due date
+  const dateLines = lines.filter(line => !DUE_DATE_LABEL.test(line));
+  const issueDate = firstValue(dateLines, ISSUE_DATE_LABELS[0], readDate) ?? firstValue(dateLines, ISSUE_DATE_LABELS[1], readDate);
+  const terms = text.match(PAYMENT_TERMS);
+
+  const subtotal = firstValue(lines, SUBTOTAL_LABEL, lastAmount);
+  const { tax, taxRate } = findTax(lines);
+  const total = findTotal(lines) ?? (subtotal !== undefined && tax !== undefined
+    ? Math.round((subtotal + tax) * 100) / 100
+    : undefined);
+
+  const fields: DocumentFields = {
+    kind: kind ?? detectFieldDocumentKind(text) ?? undefined,
+    vendor: findVendor(lines),
+    invoiceNumber: firstValue(lines, INVOICE_NUMBER_LABEL, value => value.match(INVOICE_NUMBER)?.[0] ?? null),
+    issueDate,
+    dueDate: dueDate ?? (issueDate && terms ? addDays(issueDate, Number(terms[1])) : undefined),
+    currency,
+    subtotal,
+    tax,
+    taxRate,
+    total,
+    iban: findIban(text) ?? undefined
+  };
+
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as DocumentFields;
+};
+
+/**
+ * Whether anything besides the kind was found
+ */
+export const hasDocumentFields = (fields?: DocumentFields | null): boolean =>
+  !!fields && Object.entries(fields).some(([key, value]) => key !== 'kind' && key !== 'editedAt' && value !== undefined);
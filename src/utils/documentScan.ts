@@ -0,0 +1,358 @@
+// Image processing that makes a phone photo of paper look like a flatbed scan: find the
+// sheet's border, warp it flat, and even out its tones. Works on raw RGBA pixels, as
+// returned by a canvas's getImageData, so it runs in the browser without a server.
+
+export interface PixelImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, four bytes per pixel
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners of a sheet: top left, top right, bottom right, bottom left
+export type Quad = [Point, Point, Point, Point];
+
+export type ScanColorMode = 'color' | 'grayscale' | 'bw';
+
+export interface ScanEnhancement {
+  mode: ScanColorMode;
+  autoContrast: boolean;
+}
+
+export const DEFAULT_SCAN_ENHANCEMENT: ScanEnhancement = { mode: 'color', autoContrast: true };
+
+// A sheet must cover this share of the photo to count as found
+const MIN_SHEET_AREA = 0.2;
+// A border this close to the photo's edges is not worth warping to
+const MAX_SHEET_AREA = 0.95;
+// The sheet must fill most of its corner outline, or it is not a rectangle
+const MIN_SHEET_FILL = 0.85;
+// Share of the darkest and brightest pixels ignored when stretching contrast
+const CONTRAST_CLIP = 0.01;
+// Narrower tone ranges are left alone rather than stretched into noise
+const MIN_CONTRAST_RANGE = 32;
+// Ink is a pixel this much darker than its surroundings
+const INK_THRESHOLD = 0.15;
+
+export const luminance = (image: PixelImage): Uint8Array => {
+  const { data } = image;
+  const gray = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+/**
+ * Mean of each pixel's square neighbourhood, from running sums along rows, then columns
+ */
+export const boxBlur = (values: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  const pass = (input: Uint8Array, length: number, lines: number, step: number, lineStep: number) => {
+    const output = new Uint8Array(input.length);
+    for (let line = 0; line < lines; line++) {
+      const start = line * lineStep;
+      let sum = 0;
+      let count = 0;
+      for (let i = 0; i < Math.min(radius, length); i++) {
+        sum += input[start + i * step];
+        count++;
+      }
+      for (let i = 0; i < length; i++) {
+        const enter = i + radius;
+        const leave = i - radius - 1;
+        if (enter < length) {
+          sum += input[start + enter * step];
+          count++;
+        }
+        if (leave >= 0) {
+          sum -= input[start + leave * step];
+          count--;
+        }
+        output[start + i * step] = Math.round(sum / count);
+      }
+    }
+    return output;
+  };
+
+  if (radius < 1) return values;
+  return pass(pass(values, width, height, 1, width), height, width, width, 1);
+};
+
+/**
+ * Threshold that best splits a histogram into dark and bright pixels (Otsu's method)
+ */
+export const otsuThreshold = (gray: Uint8Array): number => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(value => histogram[value]++);
+
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+  let sumDark = 0;
+  let countDark = 0;
+  let best = 0;
+  let threshold = 128;
+
+  for (let t = 0; t < 256; t++) {
+    countDark += histogram[t];
+    if (countDark === 0) continue;
+    const countBright = total - countDark;
+    if (countBright === 0) break;
+    sumDark += t * histogram[t];
+    const meanDark = sumDark / countDark;
+    const meanBright = (sumAll - sumDark) / countBright;
+    const between = countDark * countBright * (meanDark - meanBright) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+const quadArea = (quad: Quad): number => {
+  let area = 0;
+  quad.forEach((point, i) => {
+    const next = quad[(i + 1) % 4];
+    area += point.x * next.y - next.x * point.y;
+  });
+  return Math.abs(area) / 2;
+};
+
+const isConvex = (quad: Quad): boolean => {
+  const signs = quad.map((point, i) => {
+    const next = quad[(i + 1) % 4];
+    const after = quad[(i + 2) % 4];
+    return Math.sign((next.x - point.x) * (after.y - next.y) - (next.y - point.y) * (after.x - next.x));
+  });
+  return signs.every(sign => sign > 0) || signs.every(sign => sign < 0);
+};
+
+/**
+ * Find the corners of a sheet of paper lying on a darker surface. The sheet is the
+ * largest bright region; its corners are the points furthest along each diagonal.
+ * Returns null when no sheet stands out, or when it already fills the photo.
+ * Works best on a photo scaled down to a few hundred pixels.
+ */
+export const detectDocumentQuad = (image: PixelImage): Quad | null => {
+  const { width, height } = image;
+  const size = width * height;
+  if (size === 0) return null;
+
+  const gray = boxBlur(luminance(image), width, height, Math.max(1, Math.round(Math.max(width, height) / 200)));
+  const threshold = otsuThreshold(gray);
+
+  // Label bright regions and keep the largest
+  const labels = new Int32Array(size);
+  const queue = new Int32Array(size);
+  let largest = { label: 0, area: 0 };
+  let nextLabel = 1;
+  for (let start = 0; start < size; start++) {
+    if (labels[start] !== 0 || gray[start] <= threshold) continue;
+    const label = nextLabel++;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = label;
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index - width,
+        index + width
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour >= 0 && neighbour < size && labels[neighbour] === 0 && gray[neighbour] > threshold) {
+          labels[neighbour] = label;
+          queue[tail++] = neighbour;
+        }
+      }
+    }
+    if (tail > largest.area) largest = { label, area: tail };
+  }
+  if (largest.area < size * MIN_SHEET_AREA) return null;
+
+  let topLeft = { x: 0, y: 0, score: Infinity };
+  let bottomRight = { x: 0, y: 0, score: -Infinity };
+  let topRight = { x: 0, y: 0, score: -Infinity };
+  let bottomLeft = { x: 0, y: 0, score: Infinity };
+  for (let index = 0; index < size; index++) {
+    if (labels[index] !== largest.label) continue;
+    const x = index % width;
+    const y = (index - x) / width;
+    if (x + y < topLeft.score) topLeft = { x, y, score: x + y };
+    if (x + y > bottomRight.score) bottomRight = { x, y, score: x + y };
+    if (x - y > topRight.score) topRight = { x, y, score: x - y };
+    if (x - y < bottomLeft.score) bottomLeft = { x, y, score: x - y };
+  }
+
+  const quad: Quad = [topLeft, topRight, bottomRight, bottomLeft].map(({ x, y }) => ({ x, y })) as Quad;
+  const area = quadArea(quad);
+  if (!isConvex(quad) || area < size * MIN_SHEET_AREA || area > size * MAX_SHEET_AREA) return null;
+  if (largest.area < area * MIN_SHEET_FILL) return null;
+
+  return quad;
+};
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Coefficients of the projective transform that maps the corners of one quad onto
+ * another, as [a, b, c, d, e, f, g, h] in x' = (ax + by + c) / (gx + hy + 1) and
+ * y' = (dx + ey + f) / (gx + hy + 1)
+ */
+export const perspectiveTransform = (from: Quad, to: Quad): number[] => {
+  // Eight equations, two per corner, solved by Gaussian elimination
+  const rows = from.flatMap(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    return [
+      [x, y, 1, 0, 0, 0, -x * u, -y * u, u],
+      [0, 0, 0, x, y, 1, -x * v, -y * v, v]
+    ];
+  });
+
+  for (let column = 0; column < 8; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < 8; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-12) {
+      throw new Error('Corners do not form a quadrilateral');
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let row = 0; row < 8; row++) {
+      if (row === column) continue;
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k < 9; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+
+  return rows.map((row, i) => row[8] / row[i]);
+};
+
+export const applyTransform = (matrix: number[], point: Point): Point => {
+  const [a, b, c, d, e, f, g, h] = matrix;
+  const w = g * point.x + h * point.y + 1;
+  return { x: (a * point.x + b * point.y + c) / w, y: (d * point.x + e * point.y + f) / w };
+};
+
+/**
+ * Cut the quad out of an image and warp it into an upright rectangle as long as its
+ * longer opposite sides. maxDimension caps the result's longer side.
+ */
+export const warpPerspective = (image: PixelImage, corners: Quad, maxDimension = Infinity): PixelImage => {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const naturalWidth = Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight));
+  const naturalHeight = Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight));
+  const scale = Math.min(maxDimension / Math.max(naturalWidth, naturalHeight), 1);
+  const width = Math.max(1, Math.round(naturalWidth * scale));
+  const height = Math.max(1, Math.round(naturalHeight * scale));
+
+  const target: Quad = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  // Map each output pixel back into the photo, so every pixel gets a value
+  const matrix = perspectiveTransform(target, corners);
+  const source = image.data;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const { x: sx, y: sy } = applyTransform(matrix, { x: x + 0.5, y: y + 0.5 });
+      const out = (y * width + x) * 4;
+      // Bilinear sampling between the four nearest pixel centres
+      const fx = Math.min(Math.max(sx - 0.5, 0), image.width - 1);
+      const fy = Math.min(Math.max(sy - 0.5, 0), image.height - 1);
+      const x0 = Math.floor(fx);
+      const y0 = Math.floor(fy);
+      const x1 = Math.min(x0 + 1, image.width - 1);
+      const y1 = Math.min(y0 + 1, image.height - 1);
+      const dx = fx - x0;
+      const dy = fy - y0;
+      for (let channel = 0; channel < 4; channel++) {
+        const p00 = source[(y0 * image.width + x0) * 4 + channel];
+        const p10 = source[(y0 * image.width + x1) * 4 + channel];
+        const p01 = source[(y1 * image.width + x0) * 4 + channel];
+        const p11 = source[(y1 * image.width + x1) * 4 + channel];
+        data[out + channel] = (p00 * (1 - dx) + p10 * dx) * (1 - dy) + (p01 * (1 - dx) + p11 * dx) * dy;
+      }
+    }
+  }
+
+  return { width, height, data };
+};
+
+/**
+ * Tone curve that stretches the values between the clipped darkest and brightest
+ * pixels over the full range
+ */
+const contrastCurve = (histogram: number[], total: number): Uint8Array | null => {
+  const clip = total * CONTRAST_CLIP;
+  let low = 0;
+  let high = 255;
+  for (let count = 0; low < 255 && count + histogram[low] <= clip; low++) count += histogram[low];
+  for (let count = 0; high > 0 && count + histogram[high] <= clip; high--) count += histogram[high];
+  if (high - low < MIN_CONTRAST_RANGE) return null;
+
+  const curve = new Uint8Array(256);
+  for (let value = 0; value < 256; value++) {
+    curve[value] = Math.min(Math.max(Math.round(((value - low) * 255) / (high - low)), 0), 255);
+  }
+  return curve;
+};
+
+/**
+ * Stretch each channel's tones so paper turns white and ink dark. Stretching the
+ * channels separately also takes out the colour cast of indoor light.
+ */
+export const autoContrast = (image: PixelImage, channels = 3): void => {
+  const { data } = image;
+  const total = image.width * image.height;
+  for (let channel = 0; channel < channels; channel++) {
+    const histogram = new Array(256).fill(0);
+    for (let i = channel; i < data.length; i += 4) histogram[data[i]]++;
+    const curve = contrastCurve(histogram, total);
+    if (!curve) continue;
+    for (let i = channel; i < data.length; i += 4) data[i] = curve[data[i]];
+  }
+};
+
+/**
+ * Black ink on white paper. Each pixel is compared with the mean of its surroundings
+ * rather than one threshold for the page, so shadows across the sheet drop out.
+ */
+const binarize = (gray: Uint8Array, width: number, height: number): Uint8Array => {
+  const mean = boxBlur(gray, width, height, Math.max(1, Math.round(Math.max(width, height) / 32)));
+  return gray.map((value, i) => (value < mean[i] * (1 - INK_THRESHOLD) ? 0 : 255));
+};
+
+/**
+ * Apply a colour mode and automatic contrast to an image, in place
+ */
+export const enhanceScan = (image: PixelImage, enhancement: ScanEnhancement): void => {
+  const { data } = image;
+
+  if (enhancement.mode === 'color') {
+    if (enhancement.autoContrast) autoContrast(image);
+    return;
+  }
+
+  let gray = luminance(image);
+  if (enhancement.mode === 'bw') {
+    gray = binarize(gray, image.width, image.height);
+  } else if (enhancement.autoContrast) {
+    const histogram = new Array(256).fill(0);
+    gray.forEach(value => histogram[value]++);
+    const curve = contrastCurve(histogram, gray.length);
+    if (curve) gray = gray.map(value => curve[value]);
+  }
+
+  gray.forEach((value, i) => {
+    data[i * 4] = value;
+    data[i * 4 + 1] = value;
+    data[i * 4 + 2] = value;
+  });
+};
@@ -0,0 +1,13 @@
+/**
+ * Compute the SHA-256 checksum of a file's contents
+ * @param file File or Blob to hash
+ * @returns Lowercase hex-encoded digest
+ */
+export const computeFileChecksum = async (file: Blob): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
@@ -0,0 +1,41 @@
+// Splits ts_headline snippets into plain and highlighted segments so they render as text, never HTML
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+const MARK_OPEN = '<mark>';
+const MARK_CLOSE = '</mark>';
+
+/**
+ * Parse a snippet whose matches are wrapped in <mark></mark>.
+ * An unterminated mark highlights the rest of the snippet.
+ */
+export const parseHighlightedSnippet = (snippet: string | null | undefined): HighlightSegment[] => {
+  if (!snippet) return [];
+
+  const segments: HighlightSegment[] = [];
+  let rest = snippet;
+
+  while (rest) {
+    const open = rest.indexOf(MARK_OPEN);
+    if (open === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+    if (open > 0) {
+      segments.push({ text: rest.slice(0, open), highlighted: false });
+    }
+
+    rest = rest.slice(open + MARK_OPEN.length);
+    const close = rest.indexOf(MARK_CLOSE);
+    const marked = close === -1 ? rest : rest.slice(0, close);
+    if (marked) {
+      segments.push({ text: marked, highlighted: true });
+    }
+    rest = close === -1 ? '' : rest.slice(close + MARK_CLOSE.length);
+  }
+
+  return segments;
+};
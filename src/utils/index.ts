@@ -1,2 +1,5 @@
 // Aggregate utilities
 export * from './formatters';
+export * from './fileHash';
+export * from './textDiff';
+export * from './highlight';
@@ -0,0 +1,60 @@
+// Layout for the invisible text layer of a scanned PDF page: every recognized word is
+// placed over its image so readers can search and select the text, as OCRmyPDF does.
+
+import type { OcrPage } from '../types/aiAnalysis';
+
+// Where an image is drawn on a PDF page, in page units
+export interface ImagePlacement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextLayerWord {
+  text: string;
+  x: number;
+  y: number; // Bottom of the word box
+  width: number; // Width the word must be stretched to
+  fontSize: number; // Points
+}
+
+export const POINTS_PER_MM = 72 / 25.4;
+
+/**
+ * Fit an image inside a page, centered and never scaled up
+ */
+export const fitImageOnPage = (
+  imageWidth: number,
+  imageHeight: number,
+  pageWidth: number,
+  pageHeight: number
+): ImagePlacement => {
+  const scale = Math.min(pageWidth / imageWidth, pageHeight / imageHeight, 1);
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+  return { x: (pageWidth - width) / 2, y: (pageHeight - height) / 2, width, height };
+};
+
+/**
+ * Map OCR word boxes from image pixels onto the page, sized so each word covers its box
+ */
+export const layoutOcrWords = (
+  page: Pick<OcrPage, 'width' | 'height' | 'words'>,
+  placement: ImagePlacement,
+  pointsPerUnit: number = POINTS_PER_MM
+): TextLayerWord[] => {
+  if (page.width <= 0 || page.height <= 0) return [];
+  const scaleX = placement.width / page.width;
+  const scaleY = placement.height / page.height;
+
+  return page.words
+    .filter(word => word.text.trim() && word.box.x1 > word.box.x0 && word.box.y1 > word.box.y0)
+    .map(word => ({
+      text: word.text.trim(),
+      x: placement.x + word.box.x0 * scaleX,
+      y: placement.y + word.box.y1 * scaleY,
+      width: (word.box.x1 - word.box.x0) * scaleX,
+      fontSize: (word.box.y1 - word.box.y0) * scaleY * pointsPerUnit
+    }));
+};
@@ -0,0 +1,72 @@
+// Page ranges as people type them, e.g. "1-3, 5, 8-"
+
+export interface PageRange {
+  start: number; // First page, counting from 1
+  end: number; // Last page, inclusive
+}
+
+/**
+ * Parse a list of pages and ranges. "8-" runs to the last page and "-3" starts at the
+ * first. Throws with a message for the user when the list cannot be used.
+ */
+export const parsePageRanges = (input: string, pageCount: number): PageRange[] => {
+  const parts = input.split(/[,;]/).map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error('Enter pages or ranges, e.g. 1-3, 5');
+  }
+
+  return parts.map(part => {
+    const match = /^(\d*)\s*(?:[-–]\s*(\d*))?$/.exec(part);
+    if (!match || (!match[1] && !match[2])) {
+      throw new Error(`"${part}" is not a page or a range`);
+    }
+
+    const isRange = part.includes('-') || part.includes('–');
+    const start = match[1] ? Number(match[1]) : 1;
+    const end = isRange ? (match[2] ? Number(match[2]) : pageCount) : start;
+
+    if (start < 1 || end < 1) {
+      throw new Error('Pages are numbered from 1');
+    }
+    if (start > pageCount || end > pageCount) {
+      throw new Error(`The document has ${pageCount} page${pageCount === 1 ? '' : 's'}`);
+    }
+    if (start > end) {
+      throw new Error(`"${part}" runs backwards`);
+    }
+    return { start, end };
+  });
+};
+
+/**
+ * Zero-based indices of the pages in the ranges, in the order given, each page once
+ */
+export const pageRangeIndices = (ranges: PageRange[]): number[] => {
+  const indices: number[] = [];
+  ranges.forEach(({ start, end }) => {
+    for (let page = start; page <= end; page++) {
+      if (!indices.includes(page - 1)) indices.push(page - 1);
+    }
+  });
+  return indices;
+};
+
+export const formatPageRange = ({ start, end }: PageRange): string =>
+  start === end ? String(start) : `${start}-${end}`;
+
+/**
+ * Describe zero-based page indices as compact ranges, e.g. "1-3, 5"
+ */
+export const formatPageIndices = (indices: number[]): string => {
+  const ranges: PageRange[] = [];
+  indices.forEach(index => {
+    const page = index + 1;
+    const last = ranges[ranges.length - 1];
+    if (last && page === last.end + 1) {
+      last.end = page;
+    } else {
+      ranges.push({ start: page, end: page });
+    }
+  });
+  return ranges.map(formatPageRange).join(', ');
+};
@@ -0,0 +1,124 @@
+// Page-level operations on existing PDFs: merge, split, extract, rotate and image
+// recompression. Pages are copied whole, so text, links and fonts are kept.
+
+import { PDFDocument, PDFName, PDFNumber, PDFRawStream, degrees } from 'pdf-lib';
+import { PageRange, pageRangeIndices } from './pageRanges';
+
+export interface EncodedImage {
+  bytes: Uint8Array; // Baseline JPEG
+  width: number;
+  height: number;
+  components: 1 | 3; // Gray or RGB
+}
+
+// Re-encodes a JPEG, or returns null to keep the original
+export type JpegEncoder = (jpeg: Uint8Array) => Promise<EncodedImage | null>;
+
+export interface RecompressResult {
+  bytes: Uint8Array;
+  imagesRecompressed: number;
+}
+
+export const loadPdf = async (bytes: Uint8Array): Promise<PDFDocument> => {
+  try {
+    return await PDFDocument.load(bytes, { updateMetadata: false });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'EncryptedPDFError') {
+      throw new Error('The PDF is password protected');
+    }
+    throw error;
+  }
+};
+
+export const getPdfPageCount = async (bytes: Uint8Array): Promise<number> =>
+  (await loadPdf(bytes)).getPageCount();
+
+/**
+ * Copy pages of a document, by zero-based index, into a new document
+ */
+export const extractPdfPages = async (source: Uint8Array, pageIndices: number[]): Promise<Uint8Array> => {
+  const input = await loadPdf(source);
+  const output = await PDFDocument.create();
+  const pages = await output.copyPages(input, pageIndices);
+  pages.forEach(page => output.addPage(page));
+  return output.save();
+};
+
+/**
+ * One new document per range
+ */
+export const splitPdf = async (source: Uint8Array, ranges: PageRange[]): Promise<Uint8Array[]> => {
+  const parts: Uint8Array[] = [];
+  for (const range of ranges) {
+    parts.push(await extractPdfPages(source, pageRangeIndices([range])));
+  }
+  return parts;
+};
+
+/**
+ * All pages of the documents, one after another, in the order given
+ */
+export const mergePdfs = async (sources: Uint8Array[]): Promise<Uint8Array> => {
+  const output = await PDFDocument.create();
+  for (const source of sources) {
+    const input = await loadPdf(source);
+    const pages = await output.copyPages(input, input.getPageIndices());
+    pages.forEach(page => output.addPage(page));
+  }
+  return output.save();
+};
+
+/**
+ * Turn pages clockwise by a multiple of 90 degrees; every page when no indices are given
+ */
+export const rotatePdfPages = async (
+  source: Uint8Array,
+  angle: number,
+  pageIndices?: number[]
+): Promise<Uint8Array> => {
+  const pdf = await loadPdf(source);
+  const pages = pdf.getPages();
+  (pageIndices ?? pdf.getPageIndices()).forEach(index => {
+    const page = pages[index];
+    page.setRotation(degrees((((page.getRotation().angle + angle) % 360) + 360) % 360));
+  });
+  return pdf.save();
+};
+
+/**
+ * Re-encode the JPEG images in a document, keeping each one only when it comes out
+ * smaller. CMYK images and ones with a custom decode array are left alone, since a
+ * browser cannot re-encode them faithfully.
+ */
+export const recompressPdfImages = async (source: Uint8Array, encode: JpegEncoder): Promise<RecompressResult> => {
+  const pdf = await loadPdf(source);
+  let imagesRecompressed = 0;
+
+  for (const [ref, object] of pdf.context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream)) continue;
+    const { dict } = object;
+    if (dict.lookup(PDFName.of('Subtype')) !== PDFName.of('Image')) continue;
+    if (dict.lookup(PDFName.of('Filter')) !== PDFName.of('DCTDecode')) continue;
+    if (dict.has(PDFName.of('Decode'))) continue;
+    const colorSpace = dict.lookup(PDFName.of('ColorSpace'));
+    if (colorSpace !== PDFName.of('DeviceRGB') && colorSpace !== PDFName.of('DeviceGray')) continue;
+
+    const encoded = await encode(object.contents);
+    if (!encoded || encoded.bytes.length >= object.contents.length) continue;
+    // A transparency mask is drawn at the image's size, so a resized image would not line up
+    const resized = encoded.width !== dict.lookup(PDFName.of('Width'), PDFNumber).asNumber() ||
+      encoded.height !== dict.lookup(PDFName.of('Height'), PDFNumber).asNumber();
+    if (resized && dict.has(PDFName.of('SMask'))) continue;
+
+    const replacement = dict.clone(pdf.context);
+    replacement.set(PDFName.of('Width'), PDFNumber.of(encoded.width));
+    replacement.set(PDFName.of('Height'), PDFNumber.of(encoded.height));
+    replacement.set(PDFName.of('BitsPerComponent'), PDFNumber.of(8));
+    replacement.set(PDFName.of('ColorSpace'), PDFName.of(encoded.components === 1 ? 'DeviceGray' : 'DeviceRGB'));
+    replacement.delete(PDFName.of('DecodeParms'));
+    pdf.context.assign(ref, PDFRawStream.of(replacement, encoded.bytes));
+    imagesRecompressed++;
+  }
+
+  return { bytes: await pdf.save(), imagesRecompressed };
+};
@@ -0,0 +1,28 @@
+// Retry rules for failed document processing.
+// Kept free of Supabase so the rules can be unit tested.
+
+import type { Document } from '../services/documentService';
+
+// Failed steps are not retried once they reach this many attempts
+export const MAX_PROCESSING_ATTEMPTS = 3;
+
+/**
+ * Check whether a failed document still has retry attempts left on its failed steps
+ */
+export const canRetryProcessing = (
+  document: Pick<Document, 'processing_status' | 'processing_steps'>
+): boolean => {
+  if (document.processing_status !== 'failed') {
+    return false;
+  }
+
+  const failedSteps = Object.values(document.processing_steps || {})
+    .filter(step => step?.status === 'failed');
+
+  // Legacy rows have no recorded steps, so the whole pipeline is retryable
+  if (failedSteps.length === 0) {
+    return true;
+  }
+
+  return failedSteps.some(step => (step?.attempts || 0) < MAX_PROCESSING_ATTEMPTS);
+};
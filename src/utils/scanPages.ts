@@ -0,0 +1,132 @@
+// Page edits for assembling several photos into one scanned document. Edits are kept as
+// numbers and applied when a page is drawn, so the original photos are never changed.
+
+import type { Quad } from './documentScan';
+
+export type PageRotation = 0 | 90 | 180 | 270;
+
+export type ScanPageSize = 'a4' | 'letter' | 'fit';
+
+// Fractions of the straightened image trimmed from each edge
+export interface CropMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface ScanPageEdits {
+  corners: Quad | null; // Sheet of paper to flatten, in photo pixels, before anything else
+  rotation: PageRotation;
+  skew: number; // Degrees, clockwise, applied on top of the rotation
+  crop: CropMargins;
+}
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ScanPageFormat {
+  format: 'a4' | 'letter' | [number, number]; // Named size, or width and height in mm
+  orientation: 'portrait' | 'landscape';
+}
+
+export const MAX_SKEW_DEGREES = 15;
+
+// Leave at least this much of the image on each axis
+export const MIN_CROP_REMAINDER = 0.1;
+
+export const NO_CROP: CropMargins = { top: 0, right: 0, bottom: 0, left: 0 };
+
+export const DEFAULT_SCAN_EDITS: ScanPageEdits = { corners: null, rotation: 0, skew: 0, crop: NO_CROP };
+
+// Fit-to-image pages keep the photo's shape with the long side of an A4 page
+const FIT_PAGE_LONG_SIDE_MM = 297;
+
+/**
+ * Move a page to a new position, shifting the pages in between
+ */
+export const movePage = <T>(pages: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= pages.length || to < 0 || to >= pages.length) return pages;
+  const moved = [...pages];
+  const [page] = moved.splice(from, 1);
+  moved.splice(to, 0, page);
+  return moved;
+};
+
+/**
+ * Turn a page by whole quarter turns, negative for counter-clockwise
+ */
+export const rotatePage = (rotation: PageRotation, quarterTurns: number): PageRotation =>
+  ((((rotation + quarterTurns * 90) % 360) + 360) % 360) as PageRotation;
+
+export const clampSkew = (skew: number): number =>
+  Math.min(Math.max(skew, -MAX_SKEW_DEGREES), MAX_SKEW_DEGREES);
+
+/**
+ * Keep crop margins inside the image and leave part of it visible
+ */
+export const clampCrop = (crop: CropMargins): CropMargins => {
+  const clampPair = (start: number, end: number): [number, number] => {
+    const a = Math.min(Math.max(start, 0), 1 - MIN_CROP_REMAINDER);
+    const b = Math.min(Math.max(end, 0), 1 - MIN_CROP_REMAINDER - a);
+    return [a, b];
+  };
+  const [left, right] = clampPair(crop.left, crop.right);
+  const [top, bottom] = clampPair(crop.top, crop.bottom);
+  return { top, right, bottom, left };
+};
+
+/**
+ * Size of the box that holds an image after turning it by an angle in degrees
+ */
+export const rotatedBounds = (width: number, height: number, degrees: number): { width: number; height: number } => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  // Round away floating point noise so quarter turns swap the sides exactly
+  return {
+    width: Math.round(width * cos + height * sin),
+    height: Math.round(width * sin + height * cos)
+  };
+};
+
+/**
+ * The part of the rotated and straightened image that remains after cropping, in pixels.
+ * The size is that of the image after its sheet has been flattened.
+ */
+export const scanPageCropRect = (width: number, height: number, edits: ScanPageEdits): PixelRect => {
+  const bounds = rotatedBounds(width, height, edits.rotation + edits.skew);
+  const crop = clampCrop(edits.crop);
+  const x = Math.round(bounds.width * crop.left);
+  const y = Math.round(bounds.height * crop.top);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.round(bounds.width * (1 - crop.right)) - x),
+    height: Math.max(1, Math.round(bounds.height * (1 - crop.bottom)) - y)
+  };
+};
+
+/**
+ * PDF page for an edited image: a standard size turned to match the image, or a page
+ * with the image's own proportions
+ */
+export const scanPageFormat = (size: ScanPageSize, imageWidth: number, imageHeight: number): ScanPageFormat => {
+  const orientation = imageWidth > imageHeight ? 'landscape' : 'portrait';
+  if (size !== 'fit') return { format: size, orientation };
+
+  const scale = FIT_PAGE_LONG_SIDE_MM / Math.max(imageWidth, imageHeight, 1);
+  return { format: [imageWidth * scale, imageHeight * scale], orientation };
+};
+
+/**
+ * A default name for an assembled scan, e.g. "Scan 2024-03-05 14.30.pdf"
+ */
+export const scanFileName = (date: Date = new Date()): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `Scan ${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}.${pad(date.getMinutes())}.pdf`;
+};
@@ -0,0 +1,489 @@
+// Search query language: free text plus field operators, compiled to PostgREST filters.
+//
+//   invoice "due date" -draft             text, phrases and exclusions (passed to websearch_to_tsquery)
+//   category:Legal tag:tax lang:mk        field filters, values may be quoted: category:"Real Estate"
+//   doctype:Invoice                       AI-detected document type
+//   type:pdf type:image                   file type by extension or family
+//   size:>5mb size:1mb..10mb              size comparisons and ranges (b, kb, mb, gb)
+//   uploaded:2024 uploaded:2024-01..2024-06 uploaded:>=2024-03-15
+//   due:<2024-07-01 issued:2024-03        invoice due and issue dates, same forms as uploaded
+//   amount:>100 amount:50..200            invoice total comparisons and ranges
+//   vendor:northwind currency:eur         invoice vendor (contains) and currency
+//   tag:tax OR tag:vat                    OR joins neighbouring terms of the same kind
+//   -category:Personal                    any term can be excluded
+
+import { parseAmount } from './documentFields';
+
+export type SearchField =
+  | 'category' | 'doctype' | 'tag' | 'type' | 'size' | 'uploaded' | 'lang'
+  | 'vendor' | 'amount' | 'due' | 'issued' | 'currency';
+
+export const SEARCH_FIELDS: SearchField[] = [
+  'category', 'doctype', 'tag', 'type', 'size', 'uploaded', 'lang',
+  'vendor', 'amount', 'due', 'issued', 'currency'
+];
+
+export interface SearchSyntaxError {
+  message: string;
+  start: number; // Offset of the offending token in the input
+  end: number;
+}
+
+export type SearchFilterExpr =
+  | { kind: 'condition'; column: string; operator: string; value: string }
+  | { kind: 'and'; items: SearchFilterExpr[] }
+  | { kind: 'or'; items: SearchFilterExpr[] };
+
+export interface ParsedSearchQuery {
+  text: string;                  // Free-text part in websearch_to_tsquery syntax
+  filters: SearchFilterExpr[];   // Field filters, all of which must match
+  errors: SearchSyntaxError[];
+}
+
+// Invoice fields live in ai_analysis.fields. Dates compare as ISO text; the total as a JSON number.
+const FIELD_COLUMNS = {
+  vendor: 'ai_analysis->fields->>vendor',
+  currency: 'ai_analysis->fields->>currency',
+  dueDate: 'ai_analysis->fields->>dueDate',
+  issueDate: 'ai_analysis->fields->>issueDate',
+  total: 'ai_analysis->fields->total'
+};
+
+type Token =
+  | { kind: 'or'; start: number; end: number }
+  | { kind: 'term'; text: string; phrase: boolean; negated: boolean; start: number; end: number }
+  | { kind: 'field'; field: string; value: string; negated: boolean; start: number; end: number };
+
+type Item = Exclude<Token, { kind: 'or' }>;
+
+const FILE_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odt: 'application/vnd.oasis.opendocument.text',
+  rtf: 'application/rtf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  md: 'text/markdown',
+  html: 'text/html',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  tiff: 'image/tiff',
+  heic: 'image/heic'
+};
+
+const FILE_FAMILIES = ['image', 'text', 'video', 'audio'];
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024
+};
+
+const condition = (column: string, operator: string, value: string): SearchFilterExpr => ({
+  kind: 'condition',
+  column,
+  operator,
+  value
+});
+
+const all = (items: SearchFilterExpr[]): SearchFilterExpr => {
+  return items.length === 1 ? items[0] : { kind: 'and', items };
+};
+
+/**
+ * Negate a filter, pushing the negation down to the conditions (De Morgan)
+ */
+export const negateFilter = (expr: SearchFilterExpr): SearchFilterExpr => {
+  switch (expr.kind) {
+    case 'condition':
+      return {
+        ...expr,
+        operator: expr.operator.startsWith('not.') ? expr.operator.slice(4) : `not.${expr.operator}`
+      };
+    case 'and':
+      return { kind: 'or', items: expr.items.map(negateFilter) };
+    case 'or':
+      return { kind: 'and', items: expr.items.map(negateFilter) };
+  }
+};
+
+// Values inside PostgREST logic trees must be quoted when they contain reserved characters
+const quoteValue = (value: string): string => {
+  if (!/[,.:()"\\\s]/.test(value)) return value;
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+};
+
+/**
+ * Render a filter in PostgREST logic tree syntax, as used by `.or()`
+ */
+export const renderFilter = (expr: SearchFilterExpr): string => {
+  switch (expr.kind) {
+    case 'condition':
+      return `${expr.column}.${expr.operator}.${quoteValue(expr.value)}`;
+    case 'and':
+    case 'or':
+      return `${expr.kind}(${expr.items.map(renderFilter).join(',')})`;
+  }
+};
+
+const escapeLike = (value: string): string => value.replace(/[\\%_*]/g, match => `\\${match}`);
+
+const arrayLiteral = (value: string): string => {
+  if (/^[\w-]+$/.test(value)) return `{${value}}`;
+  return `{"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"}`;
+};
+
+const parseSize = (value: string): number | null => {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[(match[2] || 'b').toLowerCase()]);
+};
+
+interface DateBounds {
+  start: string; // First day of the period, inclusive
+  end: string;   // First day after the period, exclusive
+}
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+const formatDate = (date: Date): string => {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+/**
+ * Resolve YYYY, YYYY-MM or YYYY-MM-DD to the period it covers
+ */
+const parseDatePeriod = (value: string): DateBounds | null => {
+  const match = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) return null;
+
+  const year = parseInt(match[1], 10);
+  const month = match[2] ? parseInt(match[2], 10) : null;
+  const day = match[3] ? parseInt(match[3], 10) : null;
+
+  if (month !== null && (month < 1 || month > 12)) return null;
+
+  const start = new Date(Date.UTC(year, (month ?? 1) - 1, day ?? 1));
+  if (day !== null && start.getUTCDate() !== day) return null; // e.g. 2024-02-30
+
+  const end = day !== null
+    ? new Date(Date.UTC(year, month! - 1, day + 1))
+    : month !== null
+      ? new Date(Date.UTC(year, month, 1))
+      : new Date(Date.UTC(year + 1, 0, 1));
+
+  return { start: formatDate(start), end: formatDate(end) };
+};
+
+const COMPARISON = /^(>=|<=|>|<|=)?(.*)$/;
+
+const COMPARISON_OPERATORS: Record<string, string> = { '>': 'gt', '>=': 'gte', '<': 'lt', '<=': 'lte', '=': 'eq' };
+
+type FieldResult = SearchFilterExpr | string; // A filter, or an error message
+
+const compileSize = (value: string): FieldResult => {
+  const range = value.split('..');
+  if (range.length === 2) {
+    const [from, to] = range.map(part => (part ? parseSize(part) : undefined));
+    if (from === null || to === null || (from === undefined && to === undefined)) {
+      return `Invalid size range "${value}" (try size:1mb..10mb)`;
+    }
+    const items: SearchFilterExpr[] = [];
+    if (from !== undefined) items.push(condition('size', 'gte', String(from)));
+    if (to !== undefined) items.push(condition('size', 'lte', String(to)));
+    return all(items);
+  }
+
+  const [, op = '=', amount] = value.match(COMPARISON)!;
+  const bytes = parseSize(amount);
+  if (bytes === null) {
+    return `Invalid size "${value}" (try size:>5mb)`;
+  }
+  return condition('size', COMPARISON_OPERATORS[op], String(bytes));
+};
+
+const compileAmount = (value: string): FieldResult => {
+  const range = value.split('..');
+  if (range.length === 2) {
+    const [from, to] = range.map(part => (part ? parseAmount(part) : undefined));
+    if (from === null || to === null || (from === undefined && to === undefined)) {
+      return `Invalid amount range "${value}" (try amount:50..200)`;
+    }
+    const items: SearchFilterExpr[] = [];
+    if (from !== undefined) items.push(condition(FIELD_COLUMNS.total, 'gte', String(from)));
+    if (to !== undefined) items.push(condition(FIELD_COLUMNS.total, 'lte', String(to)));
+    return all(items);
+  }
+
+  const [, op = '=', number] = value.match(COMPARISON)!;
+  const amount = parseAmount(number);
+  if (amount === null) {
+    return `Invalid amount "${value}" (try amount:>100)`;
+  }
+  return condition(FIELD_COLUMNS.total, COMPARISON_OPERATORS[op], String(amount));
+};
+
+/**
+ * Compare a date column with a period, a comparison or a range of periods
+ */
+const compileDate = (column: string, value: string): FieldResult => {
+  const invalid = `Invalid date "${value}" (use YYYY, YYYY-MM or YYYY-MM-DD)`;
+
+  const range = value.split('..');
+  if (range.length === 2) {
+    const [from, to] = range.map(part => (part ? parseDatePeriod(part) : undefined));
+    if (from === null || to === null || (from === undefined && to === undefined)) {
+      return invalid;
+    }
+    const items: SearchFilterExpr[] = [];
+    if (from) items.push(condition(column, 'gte', from.start));
+    if (to) items.push(condition(column, 'lt', to.end));
+    return all(items);
+  }
+
+  const [, op = '=', date] = value.match(COMPARISON)!;
+  const period = parseDatePeriod(date);
+  if (!period) return invalid;
+
+  switch (op) {
+    case '>': return condition(column, 'gte', period.end);
+    case '>=': return condition(column, 'gte', period.start);
+    case '<': return condition(column, 'lt', period.start);
+    case '<=': return condition(column, 'lt', period.end);
+    default:
+      return all([
+        condition(column, 'gte', period.start),
+        condition(column, 'lt', period.end)
+      ]);
+  }
+};
+
+const compileType = (value: string): FieldResult => {
+  const type = value.toLowerCase().replace(/^\./, '');
+  if (type.includes('/')) return condition('type', 'eq', type);
+  if (FILE_TYPES[type]) return condition('type', 'eq', FILE_TYPES[type]);
+  if (FILE_FAMILIES.includes(type)) return condition('type', 'like', `${type}/*`);
+  return `Unknown file type "${value}"`;
+};
+
+const compileField = (field: SearchField, value: string): FieldResult => {
+  switch (field) {
+    case 'category':
+      return condition('category', 'ilike', escapeLike(value));
+    case 'doctype':
+      return condition('document_type', 'ilike', escapeLike(value));
+    case 'tag':
+      return condition('tags', 'cs', arrayLiteral(value));
+    case 'type':
+      return compileType(value);
+    case 'size':
+      return compileSize(value);
+    case 'uploaded':
+      return compileDate('created_at', value);
+    case 'lang':
+      return condition('language', 'eq', value.toLowerCase());
+    case 'vendor':
+      return condition(FIELD_COLUMNS.vendor, 'ilike', `*${escapeLike(value)}*`);
+    case 'amount':
+      return compileAmount(value);
+    case 'due':
+      return compileDate(FIELD_COLUMNS.dueDate, value);
+    case 'issued':
+      return compileDate(FIELD_COLUMNS.issueDate, value);
+    case 'currency':
+      return condition(FIELD_COLUMNS.currency, 'eq', value.toUpperCase());
+  }
+};
+
+/**
+ * Split the input into terms, phrases, field operators and OR keywords
+ */
+const tokenize = (input: string, errors: SearchSyntaxError[]): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // Read a double-quoted string starting at the opening quote
+  const readQuoted = (): string => {
+    const open = i;
+    const close = input.indexOf('"', open + 1);
+    if (close === -1) {
+      errors.push({ message: 'Unterminated quote', start: open, end: input.length });
+      i = input.length;
+      return input.slice(open + 1);
+    }
+    i = close + 1;
+    return input.slice(open + 1, close);
+  };
+
+  const readBare = (): string => {
+    const from = i;
+    while (i < input.length && !/\s/.test(input[i])) i++;
+    return input.slice(from, i);
+  };
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    if (input[i] === '"') {
+      const text = readQuoted().trim();
+      if (text) tokens.push({ kind: 'term', text, phrase: true, negated, start, end: i });
+      continue;
+    }
+
+    let word = '';
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === ':' && /^[a-z]+$/i.test(word)) {
+        i++;
+        const value = input[i] === '"' ? readQuoted() : readBare();
+        tokens.push({ kind: 'field', field: word.toLowerCase(), value: value.trim(), negated, start, end: i });
+        word = '';
+        break;
+      }
+      word += input[i++];
+    }
+
+    if (!word) continue;
+    if (word === 'OR' && !negated) {
+      tokens.push({ kind: 'or', start, end: i });
+    } else {
+      tokens.push({ kind: 'term', text: word.replace(/"/g, ''), phrase: false, negated, start, end: i });
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Format a field term for appending to a query, quoting values the tokenizer would split
+ */
+export const formatFieldTerm = (field: SearchField, value: string): string => {
+  const clean = value.replace(/"/g, '');
+  return /\s/.test(clean) ? `${field}:"${clean}"` : `${field}:${clean}`;
+};
+
+const renderTerm = (term: Extract<Token, { kind: 'term' }>): string => {
+  const text = term.phrase ? `"${term.text}"` : term.text;
+  return term.negated ? `-${text}` : text;
+};
+
+/**
+ * Parse a search query into full-text terms and field filters.
+ * Errors are collected rather than thrown so the UI can show all of them inline.
+ */
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const errors: SearchSyntaxError[] = [];
+  const tokens = tokenize(input, errors);
+
+  // Group items into clauses; items joined by OR share a clause
+  const clauses: Item[][] = [];
+  let pendingOr: Token | null = null;
+
+  tokens.forEach((token, index) => {
+    if (token.kind === 'or') {
+      const next = tokens[index + 1];
+      if (clauses.length === 0 || pendingOr || !next || next.kind === 'or') {
+        errors.push({ message: 'OR needs a term on both sides', start: token.start, end: token.end });
+      } else {
+        pendingOr = token;
+      }
+      return;
+    }
+
+    if (pendingOr) {
+      clauses[clauses.length - 1].push(token);
+      pendingOr = null;
+    } else {
+      clauses.push([token]);
+    }
+  });
+
+  const textClauses: string[] = [];
+  const filters: SearchFilterExpr[] = [];
+
+  clauses.forEach(clause => {
+    const kinds = new Set(clause.map(item => item.kind));
+    if (kinds.size > 1) {
+      errors.push({
+        message: 'OR cannot join text with field filters',
+        start: clause[0].start,
+        end: clause[clause.length - 1].end
+      });
+      return;
+    }
+
+    if (clause[0].kind === 'term') {
+      textClauses.push(clause.map(item => renderTerm(item as Extract<Token, { kind: 'term' }>)).join(' OR '));
+      return;
+    }
+
+    const compiled: SearchFilterExpr[] = [];
+    clause.forEach(item => {
+      const field = item as Extract<Token, { kind: 'field' }>;
+      if (!SEARCH_FIELDS.includes(field.field as SearchField)) {
+        errors.push({
+          message: `Unknown field "${field.field}" (use ${SEARCH_FIELDS.join(', ')})`,
+          start: field.start,
+          end: field.end
+        });
+        return;
+      }
+      if (!field.value) {
+        errors.push({ message: `Missing value for ${field.field}:`, start: field.start, end: field.end });
+        return;
+      }
+
+      const result = compileField(field.field as SearchField, field.value);
+      if (typeof result === 'string') {
+        errors.push({ message: result, start: field.start, end: field.end });
+        return;
+      }
+      compiled.push(field.negated ? negateFilter(result) : result);
+    });
+
+    if (compiled.length === clause.length) {
+      filters.push(compiled.length === 1 ? compiled[0] : { kind: 'or', items: compiled });
+    }
+  });
+
+  return {
+    text: textClauses.join(' '),
+    filters,
+    errors: errors.sort((a, b) => a.start - b.start)
+  };
+};
+
+const termPattern = (term: string): RegExp => {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|\\s)${escaped}(?=\\s|$)`);
+};
+
+/**
+ * Check whether a query already contains a term as a whole token
+ */
+export const hasQueryTerm = (query: string, term: string): boolean => termPattern(term).test(query);
+
+/**
+ * Add a term to a query, or remove it when the query already contains it
+ */
+export const toggleQueryTerm = (query: string, term: string): string => {
+  if (hasQueryTerm(query, term)) {
+    return query.replace(termPattern(term), '').replace(/\s+/g, ' ').trim();
+  }
+  return query.trim() ? `${query.trim()} ${term}` : term;
+};
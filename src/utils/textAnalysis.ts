@@ -0,0 +1,94 @@
+// Lightweight, dependency-free text analysis used by the document pipeline.
+
+// Common function words per language; a document's language is the one whose words it uses most
+const LANGUAGE_STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by'],
+  es: ['el', 'la', 'y', 'o', 'pero', 'en', 'con', 'por', 'para', 'de', 'que', 'se'],
+  fr: ['le', 'la', 'et', 'ou', 'mais', 'dans', 'sur', 'avec', 'par', 'pour', 'de', 'que'],
+  de: ['der', 'die', 'das', 'und', 'oder', 'aber', 'in', 'auf', 'mit', 'von', 'zu', 'für']
+};
+
+const DEFAULT_LANGUAGE = 'en';
+
+export interface LanguageGuess {
+  language: string;
+  confidence: number; // Share of the matched function words that belong to the chosen language
+}
+
+const toWords = (text: string): string[] => {
+  return text.toLowerCase().normalize('NFKC').match(/[\p{L}\p{N}]+/gu) || [];
+};
+
+/**
+ * Guess a text's language from the function words it contains.
+ * Text without any known function words is reported as English with no confidence.
+ */
+export const detectLanguage = (text: string): LanguageGuess => {
+  const counts = new Map<string, number>();
+  toWords(text).forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+
+  let best: LanguageGuess = { language: DEFAULT_LANGUAGE, confidence: 0 };
+  let bestHits = 0;
+  let totalHits = 0;
+
+  Object.entries(LANGUAGE_STOPWORDS).forEach(([language, words]) => {
+    const hits = words.reduce((sum, word) => sum + (counts.get(word) || 0), 0);
+    totalHits += hits;
+    if (hits > bestHits) {
+      bestHits = hits;
+      best = { language, confidence: 0 };
+    }
+  });
+
+  return totalHits > 0
+    ? { language: best.language, confidence: Math.round((bestHits / totalHits) * 100) / 100 }
+    : best;
+};
+
+const splitSentences = (text: string): string[] => {
+  return (text.replace(/\s+/g, ' ').match(/[^.!?]+[.!?]*/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+};
+
+/**
+ * Extractive summary: the sentences whose words recur most across the text,
+ * kept in their original order and cut to maxLength characters
+ */
+export const summarizeText = (text: string, maxLength: number = 200): string => {
+  const sentences = splitSentences(text);
+  if (sentences.length === 0) return '';
+
+  const stopwords = new Set(Object.values(LANGUAGE_STOPWORDS).flat());
+  const frequency = new Map<string, number>();
+  toWords(text)
+    .filter(word => word.length > 2 && !stopwords.has(word))
+    .forEach(word => frequency.set(word, (frequency.get(word) || 0) + 1));
+
+  const scored = sentences.map((sentence, index) => {
+    const words = toWords(sentence).filter(word => frequency.has(word));
+    const score = words.reduce((sum, word) => sum + frequency.get(word)!, 0) / Math.max(toWords(sentence).length, 1);
+    return { sentence, index, score };
+  });
+
+  const chosen: typeof scored = [];
+  let length = 0;
+  [...scored]
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .forEach(candidate => {
+      if (length + candidate.sentence.length + 1 <= maxLength) {
+        chosen.push(candidate);
+        length += candidate.sentence.length + 1;
+      }
+    });
+
+  // A single sentence longer than the limit is truncated rather than dropped
+  if (chosen.length === 0) {
+    return `${sentences[0].slice(0, Math.max(maxLength - 3, 0)).trimEnd()}...`;
+  }
+
+  return chosen
+    .sort((a, b) => a.index - b.index)
+    .map(candidate => candidate.sentence)
+    .join(' ');
+};
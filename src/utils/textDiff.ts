@@ -0,0 +1,110 @@
+// Line-based text diff used to compare extracted text between document versions
+
+export type DiffLineType = 'added' | 'removed' | 'unchanged';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLine?: number; // 1-based line number in the old text
+  newLine?: number; // 1-based line number in the new text
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+// Above this many LCS cells the diff degrades to "everything changed"
+// instead of allocating a huge table in the browser.
+const MAX_DIFF_CELLS = 4_000_000;
+
+const splitLines = (text: string): string[] => {
+  if (!text) return [];
+  return text.replace(/\r\n?/g, '\n').split('\n');
+};
+
+/**
+ * Compute a line diff between two texts using a longest-common-subsequence table.
+ * Common leading and trailing lines are matched first so typical edits stay cheap.
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'unchanged', text: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    oldMiddle.forEach((text, i) => result.push({ type: 'removed', text, oldLine: prefix + i + 1 }));
+    newMiddle.forEach((text, j) => result.push({ type: 'added', text, newLine: prefix + j + 1 }));
+  } else {
+    // lcs[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lcs: Uint32Array[] = [];
+    for (let i = 0; i <= n; i++) {
+      lcs.push(new Uint32Array(m + 1));
+    }
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = oldMiddle[i] === newMiddle[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        result.push({ type: 'unchanged', text: oldMiddle[i], oldLine: prefix + i + 1, newLine: prefix + j + 1 });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        result.push({ type: 'removed', text: oldMiddle[i], oldLine: prefix + i + 1 });
+        i++;
+      } else {
+        result.push({ type: 'added', text: newMiddle[j], newLine: prefix + j + 1 });
+        j++;
+      }
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    const oldIndex = oldLines.length - suffix + k;
+    const newIndex = newLines.length - suffix + k;
+    result.push({ type: 'unchanged', text: oldLines[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+  }
+
+  return result;
+};
+
+/**
+ * Count added, removed and unchanged lines in a diff
+ */
+export const summarizeDiff = (lines: DiffLine[]): DiffSummary => {
+  return lines.reduce<DiffSummary>((summary, line) => {
+    summary[line.type === 'added' ? 'added' : line.type === 'removed' ? 'removed' : 'unchanged']++;
+    return summary;
+  }, { added: 0, removed: 0, unchanged: 0 });
+};
@@ -0,0 +1,172 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  DocumentBlock,
+  PAGE_SEPARATOR,
+  decodeText,
+  docxXmlToBlocks,
+  odtXmlToBlocks,
+  readZipEntry,
+} from './documentText.ts'
+import { htmlToBlocks, markdownToBlocks } from './markupText.ts'
+import { blocksToPdfA, imageToPdfA } from './pdfa.ts'
+
+// Conversion of stored documents to PDF/A, shared by convert-to-pdf and convert-document
+
+export type ConversionFormat = 'docx' | 'odt' | 'text' | 'html' | 'markdown' | 'jpeg' | 'png'
+
+export type ConversionStatus = 'converted' | 'unsupported' | 'failed'
+
+export interface ConvertibleDocument {
+  id: string
+  name: string
+  type: string
+  path: string
+  pdf_path: string | null
+}
+
+export interface ConversionResult {
+  documentId: string
+  format: ConversionFormat | null
+  conversionStatus: ConversionStatus
+  pdfPath?: string
+  error?: string
+}
+
+const STORAGE_BUCKET = 'documents'
+
+// Keep in step with the convertible types in the client's document pipeline
+const FORMATS_BY_TYPE: Record<string, ConversionFormat> = {
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.oasis.opendocument.text': 'odt',
+  'text/plain': 'text',
+  'text/csv': 'text',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'image/jpeg': 'jpeg',
+  'image/jpg': 'jpeg',
+  'image/png': 'png',
+}
+
+const FORMATS_BY_EXTENSION: Record<string, ConversionFormat> = {
+  docx: 'docx',
+  odt: 'odt',
+  txt: 'text',
+  text: 'text',
+  log: 'text',
+  csv: 'text',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  png: 'png',
+}
+
+/**
+ * Pick the converter from the MIME type, falling back to the file extension. Markdown
+ * is usually uploaded as text/plain or without a type, so its extension wins over text/plain.
+ */
+export function detectConversionFormat(type: string | undefined, name: string): ConversionFormat | null {
+  const byType = FORMATS_BY_TYPE[(type || '').toLowerCase()]
+  const byExtension = FORMATS_BY_EXTENSION[name.split('.').pop()?.toLowerCase() || '']
+  if (byType && !(byType === 'text' && byExtension)) return byType
+  return byExtension || null
+}
+
+/**
+ * The converted copy sits next to the original, under the same name with a .pdf extension
+ */
+export function pdfPathFor(path: string): string {
+  return `${path.replace(/\.[^/.]*$/, '')}.pdf`
+}
+
+/**
+ * Plain text keeps its line breaks and spacing; form feeds start a new page
+ */
+function textToBlocks(text: string): DocumentBlock[] {
+  return text.replace(/\r\n?/g, '\n').split(PAGE_SEPARATOR).flatMap((page, index): DocumentBlock[] => [
+    ...(index > 0 ? [{ type: 'pageBreak' } as const] : []),
+    { type: 'preformatted', text: page },
+  ])
+}
+
+export function convertToPdfA(format: ConversionFormat, bytes: Uint8Array, title: string): Promise<Uint8Array> {
+  switch (format) {
+    case 'jpeg':
+    case 'png':
+      return imageToPdfA(bytes, format, title)
+    case 'docx':
+      return blocksToPdfA(docxXmlToBlocks(readZipEntry(bytes, 'word/document.xml')), title)
+    case 'odt':
+      return blocksToPdfA(odtXmlToBlocks(readZipEntry(bytes, 'content.xml')), title)
+    case 'html':
+      return blocksToPdfA(htmlToBlocks(decodeText(bytes).text), title)
+    case 'markdown':
+      return blocksToPdfA(markdownToBlocks(decodeText(bytes).text), title)
+    case 'text':
+      return blocksToPdfA(textToBlocks(decodeText(bytes).text), title)
+  }
+}
+
+/**
+ * Convert a document to PDF/A, store it next to the original and link it on the
+ * document row. Never throws: failures come back as a result naming the format.
+ */
+export async function convertStoredDocument(
+  supabase: SupabaseClient,
+  document: ConvertibleDocument
+): Promise<ConversionResult> {
+  const format = detectConversionFormat(document.type, document.name)
+  if (!format) {
+    return {
+      documentId: document.id,
+      format: null,
+      conversionStatus: 'unsupported',
+      error: `${document.type || 'Files without a type'} cannot be converted to PDF/A`,
+    }
+  }
+
+  try {
+    const { data: file, error: downloadError } = await supabase.storage.from(STORAGE_BUCKET).download(document.path)
+    if (downloadError || !file) {
+      throw new Error(`Failed to download document: ${downloadError?.message}`)
+    }
+
+    const pdf = await convertToPdfA(format, new Uint8Array(await file.arrayBuffer()), document.name)
+
+    const pdfPath = pdfPathFor(document.path)
+    const { error: uploadError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .upload(pdfPath, pdf, { contentType: 'application/pdf', upsert: true })
+    if (uploadError) {
+      throw new Error(`Failed to store PDF: ${uploadError.message}`)
+    }
+
+    const { error: updateError } = await supabase
+      .from('documents')
+      .update({ pdf_path: pdfPath })
+      .eq('id', document.id)
+    if (updateError) {
+      throw new Error(`Failed to link PDF: ${updateError.message}`)
+    }
+
+    // A copy converted from an earlier version of the file is no longer needed
+    if (document.pdf_path && document.pdf_path !== pdfPath) {
+      await supabase.storage.from(STORAGE_BUCKET).remove([document.pdf_path])
+    }
+
+    return { documentId: document.id, format, conversionStatus: 'converted', pdfPath }
+  } catch (error) {
+    console.error(`Failed to convert ${format} document ${document.id}:`, error)
+    return {
+      documentId: document.id,
+      format,
+      conversionStatus: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
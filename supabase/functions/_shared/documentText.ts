@@ -0,0 +1,265 @@
+import { unzipSync, strFromU8 } from 'https://esm.sh/fflate@0.8.2'
+
+// Text and structure of office and plain text documents, shared by extract-text and the PDF converters
+
+// Pages are joined with a form feed, which the client also treats as a page break
+export const PAGE_SEPARATOR = '\f'
+
+export type DocumentBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'listItem'; depth: number; marker: string; text: string }
+  | { type: 'preformatted'; text: string }
+  | { type: 'pageBreak' }
+
+// A block without its text
+export type BlockStyle =
+  | { type: 'heading'; level: number }
+  | { type: 'paragraph' }
+  | { type: 'listItem'; depth: number; marker: string }
+  | { type: 'preformatted' }
+
+const PARAGRAPH: BlockStyle = { type: 'paragraph' }
+
+/**
+ * Decode text by its byte order mark, then by the shape of its bytes:
+ * UTF-16 without a BOM leaves every other byte zero, and anything that is
+ * not valid UTF-8 is most likely Windows-1252
+ */
+export function decodeText(bytes: Uint8Array): { text: string; encoding: string } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' }
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' }
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be' }
+  }
+
+  const sample = bytes.subarray(0, 4096)
+  let evenZeros = 0
+  let oddZeros = 0
+  sample.forEach((byte, index) => {
+    if (byte === 0) index % 2 === 0 ? evenZeros++ : oddZeros++
+  })
+  const half = sample.length / 2
+  if (oddZeros > half * 0.3 && evenZeros < half * 0.05) {
+    return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'utf-16le' }
+  }
+  if (evenZeros > half * 0.3 && oddZeros < half * 0.05) {
+    return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'utf-16be' }
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' }
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' }
+  }
+}
+
+export function readZipEntry(bytes: Uint8Array, name: string): string {
+  const files = unzipSync(bytes, { filter: file => file.name === name })
+  if (!files[name]) {
+    throw new Error(`Not a valid document: ${name} is missing`)
+  }
+  return strFromU8(files[name])
+}
+
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'lt': return '<'
+      case 'gt': return '>'
+      case 'amp': return '&'
+      case 'quot': return '"'
+      case 'apos': return "'"
+    }
+    const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+    return Number.isFinite(value) ? String.fromCodePoint(value) : entity
+  })
+}
+
+// Matches one tag (name, attributes, self-closing slash) or one run of text
+export const XML_TOKEN = /<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g
+
+function attribute(attributes: string, name: string): string | undefined {
+  return new RegExp(`${name}="([^"]*)"`).exec(attributes)?.[1]
+}
+
+/**
+ * Plain text of a list of blocks: one line per paragraph, with page breaks
+ * that would start an empty page left out
+ */
+export function blocksToText(blocks: DocumentBlock[]): string {
+  let text = ''
+  for (const block of blocks) {
+    if (block.type === 'pageBreak') {
+      if (text.slice(text.lastIndexOf(PAGE_SEPARATOR) + 1).trim()) text += PAGE_SEPARATOR
+    } else {
+      text += `${block.text}\n`
+    }
+  }
+  return text
+}
+
+/**
+ * Paragraphs of word/document.xml, with headings (by style or outline level) and list
+ * items told apart. Explicit page breaks and the breaks Word recorded when it last laid
+ * out the document both start a new page.
+ */
+export function docxXmlToBlocks(xml: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = []
+  let text = ''
+  let style: BlockStyle = PARAGRAPH
+  let inText = false
+  let propertiesDepth = 0 // Tab stops inside paragraph properties are not tabs in the text
+
+  const flush = () => {
+    blocks.push({ ...style, text } as DocumentBlock)
+    text = ''
+  }
+  const pageBreak = () => {
+    if (text) flush()
+    blocks.push({ type: 'pageBreak' })
+  }
+
+  for (const [, closing, name, attributes, selfClosing, content] of xml.matchAll(XML_TOKEN)) {
+    if (content !== undefined) {
+      if (inText) text += decodeXmlEntities(content)
+      continue
+    }
+
+    if (name === 'w:pPr' && !selfClosing) {
+      propertiesDepth += closing ? -1 : 1
+      continue
+    }
+    if (name === 'w:t') {
+      inText = !closing && !selfClosing
+      continue
+    }
+    if (name === 'w:p' && !selfClosing) {
+      if (closing) flush()
+      else style = PARAGRAPH
+      continue
+    }
+    if (closing) continue
+
+    if (propertiesDepth > 0) {
+      const value = attribute(attributes, 'w:val') || ''
+      const heading = /^(?:heading|title)\s*(\d)?$/i.exec(value)
+      if (name === 'w:pStyle' && heading) {
+        style = { type: 'heading', level: heading[1] ? Number(heading[1]) : 1 }
+      } else if (name === 'w:outlineLvl' && Number(value) < 9) {
+        style = { type: 'heading', level: Number(value) + 1 }
+      } else if (name === 'w:numPr' && style.type === 'paragraph') {
+        style = { type: 'listItem', depth: 0, marker: '•' }
+      } else if (name === 'w:ilvl' && style.type === 'listItem') {
+        style = { ...style, depth: Number(value) || 0 }
+      }
+      continue
+    }
+
+    switch (name) {
+      case 'w:tab':
+        text += '\t'
+        break
+      case 'w:br':
+        if (/w:type="page"/.test(attributes)) pageBreak()
+        else text += '\n'
+        break
+      case 'w:cr':
+        text += '\n'
+        break
+      case 'w:lastRenderedPageBreak':
+        pageBreak()
+        break
+    }
+  }
+
+  return blocks
+}
+
+/**
+ * Paragraphs, headings and list items of an ODT content.xml, leaving out annotations.
+ * Soft page breaks mark where the document was paginated when last saved.
+ */
+export function odtXmlToBlocks(xml: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = []
+  let text = ''
+  const styles: BlockStyle[] = [] // Notes nest paragraphs inside paragraphs
+  let listDepth = 0
+  let listItemStarted = false // Only the first paragraph of a list item gets the bullet
+  let annotationDepth = 0
+
+  const flush = () => {
+    blocks.push({ ...(styles[styles.length - 1] || PARAGRAPH), text } as DocumentBlock)
+    text = ''
+  }
+
+  for (const [, closing, name, attributes, selfClosing, content] of xml.matchAll(XML_TOKEN)) {
+    if (content !== undefined) {
+      if (styles.length > 0 && annotationDepth === 0) text += decodeXmlEntities(content)
+      continue
+    }
+
+    if (name === 'office:annotation' && !selfClosing) {
+      annotationDepth += closing ? -1 : 1
+      continue
+    }
+    if (annotationDepth > 0) continue
+
+    if (name === 'text:list' && !selfClosing) {
+      listDepth += closing ? -1 : 1
+      continue
+    }
+    if (name === 'text:list-item' && !closing) {
+      listItemStarted = true
+      continue
+    }
+
+    if (name === 'text:p' || name === 'text:h') {
+      if (closing) {
+        flush()
+        styles.pop()
+        continue
+      }
+
+      let style: BlockStyle = PARAGRAPH
+      if (name === 'text:h') {
+        style = { type: 'heading', level: Number(attribute(attributes, 'text:outline-level')) || 1 }
+      } else if (listDepth > 0) {
+        style = { type: 'listItem', depth: listDepth - 1, marker: listItemStarted ? '•' : '' }
+        listItemStarted = false
+      }
+
+      if (selfClosing) {
+        blocks.push({ ...style, text: '' } as DocumentBlock)
+      } else {
+        styles.push(style)
+      }
+      continue
+    }
+    if (closing) continue
+
+    switch (name) {
+      case 'text:s': {
+        const count = Number(attribute(attributes, 'text:c') || 1)
+        text += ' '.repeat(count)
+        break
+      }
+      case 'text:tab':
+        text += '\t'
+        break
+      case 'text:line-break':
+        text += '\n'
+        break
+      case 'text:soft-page-break':
+        if (text) flush()
+        blocks.push({ type: 'pageBreak' })
+        break
+    }
+  }
+
+  return blocks
+}
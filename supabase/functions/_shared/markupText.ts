@@ -0,0 +1,221 @@
+import { BlockStyle, DocumentBlock, XML_TOKEN } from './documentText.ts'
+
+// Block structure of HTML and Markdown documents, enough to lay them out as printed pages
+
+// Named entities beyond the XML ones that are common in hand-written HTML
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", copy: '©', reg: '®', trade: '™',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«',
+  raquo: '»', bull: '•', middot: '·', deg: '°', times: '×', euro: '€', pound: '£', sect: '§',
+}
+
+// Elements whose content is never shown
+const HIDDEN_ELEMENTS = /<(script|style|head|noscript|template|svg)\b[\s\S]*?<\/\1\s*>/gi
+
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav', 'blockquote',
+  'figure', 'figcaption', 'address', 'table', 'tr', 'dl', 'dt', 'dd', 'ul', 'ol', 'li', 'pre', 'hr',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+])
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return HTML_ENTITIES[code.toLowerCase()] ?? entity
+    const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+    return Number.isFinite(value) ? String.fromCodePoint(value) : entity
+  })
+}
+
+/**
+ * Headings, paragraphs, list items and preformatted text of an HTML document.
+ * Table rows become one line with their cells separated by tabs, and CSS page
+ * breaks before or after an element are kept.
+ */
+export function htmlToBlocks(html: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = []
+  const lists: Array<{ ordered: boolean; count: number }> = []
+  const styles: Array<{ element: string; block: BlockStyle }> = []
+  const breaksAfter: string[] = [] // Elements that end with a page break
+  let text = ''
+  let preDepth = 0
+
+  const flush = () => {
+    const block: BlockStyle = styles[styles.length - 1]?.block || { type: 'paragraph' }
+    const content = preDepth > 0 ? text.replace(/^\n|\n$/g, '') : text.replace(/ *\n */g, '\n').trim()
+    if (content) blocks.push({ ...block, text: content } as DocumentBlock)
+    text = ''
+  }
+
+  const source = html.replace(/<!--[\s\S]*?-->/g, '').replace(/<!doctype[^>]*>/gi, '').replace(HIDDEN_ELEMENTS, '')
+
+  for (const [, closing, rawName, attributes, selfClosing, content] of source.matchAll(XML_TOKEN)) {
+    if (content !== undefined) {
+      const decoded = decodeHtmlEntities(content)
+      text += preDepth > 0 ? decoded : decoded.replace(/\s+/g, ' ')
+      continue
+    }
+
+    const name = rawName.toLowerCase()
+    if (name === 'br') {
+      text += '\n'
+      continue
+    }
+    if (name === 'td' || name === 'th') {
+      if (!closing && text.trim()) text += '\t'
+      continue
+    }
+    if (!BLOCK_ELEMENTS.has(name)) continue
+
+    flush()
+
+    if (closing) {
+      if (name === 'pre') preDepth = Math.max(0, preDepth - 1)
+      if (name === 'ul' || name === 'ol') lists.pop()
+      if (styles[styles.length - 1]?.element === name) styles.pop()
+      if (breaksAfter[breaksAfter.length - 1] === name) {
+        breaksAfter.pop()
+        blocks.push({ type: 'pageBreak' })
+      }
+      continue
+    }
+
+    if (/(?:page-break-before|break-before)\s*:\s*(?:always|page)/i.test(attributes)) {
+      blocks.push({ type: 'pageBreak' })
+    }
+    if (!selfClosing && /(?:page-break-after|break-after)\s*:\s*(?:always|page)/i.test(attributes)) {
+      breaksAfter.push(name)
+    }
+    if (selfClosing) continue
+
+    const heading = /^h([1-6])$/.exec(name)
+    if (heading) {
+      styles.push({ element: name, block: { type: 'heading', level: Number(heading[1]) } })
+    } else if (name === 'ul' || name === 'ol') {
+      lists.push({ ordered: name === 'ol', count: 0 })
+    } else if (name === 'li') {
+      const list = lists[lists.length - 1]
+      if (list) list.count++
+      styles.push({
+        element: name,
+        block: {
+          type: 'listItem',
+          depth: Math.max(0, lists.length - 1),
+          marker: list?.ordered ? `${list.count}.` : '•',
+        },
+      })
+    } else if (name === 'pre') {
+      preDepth++
+      styles.push({ element: name, block: { type: 'preformatted' } })
+    }
+  }
+  flush()
+
+  return blocks
+}
+
+/**
+ * Inline Markdown reduced to plain text: emphasis markers and code ticks are dropped,
+ * images keep their description and links keep their target after the text
+ */
+function markdownInline(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label: string, url: string) => label === url ? url : `${label} (${url})`)
+    .replace(/<((?:https?|mailto):[^>]+)>/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/\*(\S(?:.*?\S)?)\*/g, '$1')
+    .replace(/(^|\W)_(\S(?:.*?\S)?)_(?!\w)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, '$1')
+}
+
+/**
+ * Headings, paragraphs, list items, code blocks and tables of a CommonMark/GFM document
+ */
+export function markdownToBlocks(markdown: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = []
+  let paragraph: string[] = []
+  let fence: string | null = null
+  let code: string[] = []
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', text: markdownInline(paragraph.join(' ')) })
+    paragraph = []
+  }
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    if (fence) {
+      if (line.trim().startsWith(fence)) {
+        blocks.push({ type: 'preformatted', text: code.join('\n') })
+        fence = null
+        code = []
+      } else {
+        code.push(line)
+      }
+      continue
+    }
+
+    const fenceStart = /^\s{0,3}(`{3,}|~{3,})/.exec(line)
+    if (fenceStart) {
+      flushParagraph()
+      fence = fenceStart[1]
+      continue
+    }
+
+    if (!line.trim()) {
+      flushParagraph()
+      continue
+    }
+
+    // A line of = or - under a paragraph turns it into a heading
+    const underline = /^\s{0,3}(=+|-+)\s*$/.exec(line)
+    if (underline && paragraph.length > 0) {
+      blocks.push({ type: 'heading', level: underline[1][0] === '=' ? 1 : 2, text: markdownInline(paragraph.join(' ')) })
+      paragraph = []
+      continue
+    }
+
+    const heading = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/.exec(line)
+    if (heading) {
+      flushParagraph()
+      blocks.push({ type: 'heading', level: heading[1].length, text: markdownInline(heading[2]) })
+      continue
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph()
+      continue
+    }
+
+    const listItem = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/.exec(line)
+    if (listItem) {
+      flushParagraph()
+      const bullet = /^[-*+]$/.test(listItem[2])
+      blocks.push({
+        type: 'listItem',
+        depth: Math.floor(listItem[1].replace(/\t/g, '    ').length / 2),
+        marker: bullet ? '•' : listItem[2].replace(')', '.'),
+        text: markdownInline(listItem[3].replace(/^\[([ xX])\]\s+/, (_, checked: string) => checked === ' ' ? '☐ ' : '☒ ')),
+      })
+      continue
+    }
+
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      flushParagraph()
+      // The row of dashes under a table header carries no text
+      if (!/^[\s|:-]+$/.test(line)) {
+        const cells = line.trim().replace(/^\||\|$/g, '').split('|').map(cell => markdownInline(cell.trim()))
+        blocks.push({ type: 'paragraph', text: cells.join('\t') })
+      }
+      continue
+    }
+
+    paragraph.push(line.replace(/^\s{0,3}>\s?/, '').trim())
+  }
+
+  flushParagraph()
+  if (fence) blocks.push({ type: 'preformatted', text: code.join('\n') })
+
+  return blocks
+}
@@ -0,0 +1,372 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  PDFString,
+  rgb,
+} from 'https://esm.sh/pdf-lib@1.17.1'
+import fontkit from 'https://esm.sh/@pdf-lib/fontkit@1.1.1'
+import { DocumentBlock } from './documentText.ts'
+
+// PDF/A-2b output: every font embedded, sRGB output intent, XMP metadata matching the
+// document information dictionary, and a document ID in the trailer.
+
+// DejaVu covers Latin, Greek and Cyrillic. Point PDF_FONT_URL at a copy on your own
+// storage (same file names) to convert without reaching the CDN.
+const FONT_URL = Deno.env.get('PDF_FONT_URL') || 'https://cdn.jsdelivr.net/npm/dejavu-fonts-ttf@2.37.3/ttf'
+const FONT_FILES = { regular: 'DejaVuSans.ttf', bold: 'DejaVuSans-Bold.ttf', mono: 'DejaVuSansMono.ttf' }
+
+const PRODUCER = 'DocVault PDF/A converter (pdf-lib)'
+
+const A4: [number, number] = [595.28, 841.89] // Points
+const MARGIN = 56.69 // 20 mm
+const LINE_HEIGHT = 1.35
+const LIST_INDENT = 18
+const TAB = '    '
+
+const TEXT_SIZE = 11
+const PREFORMATTED_SIZE = 9
+const HEADING_SIZES = [20, 16, 14, 12, 11, 11]
+
+// Images are placed at 96 dpi unless that would not fit the page
+const POINTS_PER_PIXEL = 72 / 96
+
+type FontName = keyof typeof FONT_FILES
+type Fonts = Record<FontName, PDFFont>
+
+const characterSets = new WeakMap<PDFFont, Set<number>>()
+
+let fontFiles: Promise<Record<FontName, Uint8Array>> | null = null
+
+const loadFontFiles = (): Promise<Record<FontName, Uint8Array>> => {
+  if (!fontFiles) {
+    fontFiles = Promise.all(
+      (Object.keys(FONT_FILES) as FontName[]).map(async (name) => {
+        const response = await fetch(`${FONT_URL}/${FONT_FILES[name]}`)
+        if (!response.ok) {
+          throw new Error(`Failed to load font ${FONT_FILES[name]}: ${response.status} ${response.statusText}`)
+        }
+        return [name, new Uint8Array(await response.arrayBuffer())] as const
+      })
+    ).then(entries => Object.fromEntries(entries) as Record<FontName, Uint8Array>)
+    // A failed download is retried on the next conversion
+    fontFiles.catch(() => {
+      fontFiles = null
+    })
+  }
+  return fontFiles
+}
+
+/**
+ * Lay out headings, paragraphs, lists and preformatted text on A4 pages
+ */
+export async function blocksToPdfA(blocks: DocumentBlock[], title: string): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create({ updateMetadata: false })
+  pdf.registerFontkit(fontkit)
+
+  const files = await loadFontFiles()
+  const fonts = {} as Fonts
+  for (const name of Object.keys(FONT_FILES) as FontName[]) {
+    fonts[name] = await pdf.embedFont(files[name], { subset: true })
+  }
+
+  const [pageWidth, pageHeight] = A4
+  const top = pageHeight - MARGIN
+  let page: PDFPage = pdf.addPage(A4)
+  let y = top
+
+  const newPage = () => {
+    page = pdf.addPage(A4)
+    y = top
+  }
+
+  const drawLines = (lines: string[], font: PDFFont, size: number, x: number) => {
+    const lineHeight = size * LINE_HEIGHT
+    for (const line of lines) {
+      if (y - lineHeight < MARGIN) newPage()
+      if (line) page.drawText(line, { x, y: y - size, size, font, color: rgb(0, 0, 0) })
+      y -= lineHeight
+    }
+  }
+
+  for (const block of blocks) {
+    if (block.type === 'pageBreak') {
+      if (y < top) newPage()
+      continue
+    }
+
+    const maxWidth = pageWidth - 2 * MARGIN
+    switch (block.type) {
+      case 'heading': {
+        const size = HEADING_SIZES[Math.min(block.level, HEADING_SIZES.length) - 1]
+        if (y < top) y -= size * 0.6
+        const lines = wrapText(printable(block.text, fonts.bold), fonts.bold, size, maxWidth)
+        // Keep a heading together with the first line that follows it
+        if (y - (lines.length + 1) * size * LINE_HEIGHT < MARGIN) newPage()
+        drawLines(lines, fonts.bold, size, MARGIN)
+        y -= size * 0.3
+        break
+      }
+      case 'paragraph':
+        drawLines(wrapText(printable(block.text, fonts.regular), fonts.regular, TEXT_SIZE, maxWidth), fonts.regular, TEXT_SIZE, MARGIN)
+        y -= TEXT_SIZE * 0.5
+        break
+      case 'listItem': {
+        const indent = MARGIN + LIST_INDENT * block.depth
+        const lines = wrapText(printable(block.text, fonts.regular), fonts.regular, TEXT_SIZE, maxWidth - LIST_INDENT * (block.depth + 1))
+        if (y - TEXT_SIZE * LINE_HEIGHT < MARGIN) newPage()
+        if (block.marker) {
+          page.drawText(printable(block.marker, fonts.regular), { x: indent, y: y - TEXT_SIZE, size: TEXT_SIZE, font: fonts.regular, color: rgb(0, 0, 0) })
+        }
+        drawLines(lines, fonts.regular, TEXT_SIZE, indent + LIST_INDENT)
+        y -= TEXT_SIZE * 0.25
+        break
+      }
+      case 'preformatted':
+        drawLines(wrapPreformatted(printable(block.text, fonts.mono), fonts.mono, PREFORMATTED_SIZE, maxWidth), fonts.mono, PREFORMATTED_SIZE, MARGIN)
+        y -= PREFORMATTED_SIZE * 0.5
+        break
+    }
+  }
+
+  return savePdfA(pdf, title)
+}
+
+/**
+ * Place a JPEG or PNG on an A4 page turned to match it, scaled down to fit the margins
+ */
+export async function imageToPdfA(bytes: Uint8Array, format: 'jpeg' | 'png', title: string): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create({ updateMetadata: false })
+  const image = format === 'jpeg' ? await pdf.embedJpg(bytes) : await pdf.embedPng(bytes)
+
+  const [shortSide, longSide] = A4
+  const pageSize: [number, number] = image.width > image.height ? [longSide, shortSide] : [shortSide, longSide]
+  const page = pdf.addPage(pageSize)
+
+  const scale = Math.min(
+    POINTS_PER_PIXEL,
+    (pageSize[0] - 2 * MARGIN) / image.width,
+    (pageSize[1] - 2 * MARGIN) / image.height
+  )
+  const width = image.width * scale
+  const height = image.height * scale
+  page.drawImage(image, { x: (pageSize[0] - width) / 2, y: (pageSize[1] - height) / 2, width, height })
+
+  return savePdfA(pdf, title)
+}
+
+/**
+ * Text the font can draw: tabs become spaces, control characters are dropped and
+ * characters without a glyph are replaced, since PDF/A forbids drawing .notdef
+ */
+function printable(text: string, font: PDFFont): string {
+  const supported = characterSets.get(font) ?? new Set(font.getCharacterSet())
+  characterSets.set(font, supported)
+  return Array.from(text.replace(/\t/g, TAB).replace(/[\u0000-\u0009\u000b-\u001f\u007f-\u009f\u00ad\u200b-\u200f\ufeff]/g, ''))
+    .map(char => char === '\n' || supported.has(char.codePointAt(0)!) ? char : '?')
+    .join('')
+}
+
+/**
+ * Break text into lines at spaces; words wider than a line are broken where they overflow
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+  for (const source of text.split('\n')) {
+    let line = ''
+    for (const word of source.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate
+        continue
+      }
+      if (line) lines.push(line)
+      line = word
+      while (line.length > 1 && font.widthOfTextAtSize(line, size) > maxWidth) {
+        let fit = line.length - 1
+        while (fit > 1 && font.widthOfTextAtSize(line.slice(0, fit), size) > maxWidth) fit--
+        lines.push(line.slice(0, fit))
+        line = line.slice(fit)
+      }
+    }
+    lines.push(line)
+  }
+  return lines
+}
+
+/**
+ * Break monospaced text into lines of as many characters as fit, keeping its spacing
+ */
+function wrapPreformatted(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const perLine = Math.max(1, Math.floor(maxWidth / font.widthOfTextAtSize('M', size)))
+  return text.split('\n').flatMap(line => {
+    const chars = Array.from(line.trimEnd())
+    if (chars.length <= perLine) return [chars.join('')]
+    const parts: string[] = []
+    for (let i = 0; i < chars.length; i += perLine) parts.push(chars.slice(i, i + perLine).join(''))
+    return parts
+  })
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' }[char]!))
+}
+
+/**
+ * Add what PDF/A-2b requires on top of a plain PDF and serialize it
+ */
+async function savePdfA(pdf: PDFDocument, title: string): Promise<Uint8Array> {
+  // Dates in the info dictionary and in XMP must match, to the second
+  const now = new Date(Math.floor(Date.now() / 1000) * 1000)
+  const isoDate = now.toISOString().replace(/\.\d{3}Z$/, 'Z')
+
+  pdf.setTitle(title)
+  pdf.setProducer(PRODUCER)
+  pdf.setCreator(PRODUCER)
+  pdf.setCreationDate(now)
+  pdf.setModificationDate(now)
+
+  const xmp = `<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+        xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+      <dc:format>application/pdf</dc:format>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(title)}</rdf:li></rdf:Alt></dc:title>
+      <xmp:CreatorTool>${PRODUCER}</xmp:CreatorTool>
+      <xmp:CreateDate>${isoDate}</xmp:CreateDate>
+      <xmp:ModifyDate>${isoDate}</xmp:ModifyDate>
+      <xmp:MetadataDate>${isoDate}</xmp:MetadataDate>
+      <pdf:Producer>${PRODUCER}</pdf:Producer>
+      <pdfaid:part>2</pdfaid:part>
+      <pdfaid:conformance>B</pdfaid:conformance>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`
+
+  const { context, catalog } = pdf
+  // The metadata stream must stay uncompressed
+  const metadata = context.stream(new TextEncoder().encode(xmp), { Type: 'Metadata', Subtype: 'XML' })
+  catalog.set(PDFName.of('Metadata'), context.register(metadata))
+
+  const profile = context.flateStream(srgbProfile(), { N: 3 })
+  const outputIntent = context.obj({
+    Type: 'OutputIntent',
+    S: 'GTS_PDFA1',
+    OutputConditionIdentifier: PDFString.of('sRGB IEC61966-2.1'),
+    Info: PDFString.of('sRGB IEC61966-2.1'),
+    DestOutputProfile: context.register(profile),
+  })
+  catalog.set(PDFName.of('OutputIntents'), context.obj([outputIntent]))
+
+  const id = Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('')
+  context.trailerInfo.ID = context.obj([PDFHexString.of(id), PDFHexString.of(id)])
+
+  return pdf.save()
+}
+
+/**
+ * A minimal ICC v2 display profile for sRGB: D50-adapted primaries and the sRGB tone curve
+ */
+function srgbProfile(): Uint8Array {
+  const encoder = new TextEncoder()
+  const fixed = (value: number) => Math.round(value * 65536)
+
+  const xyz = (x: number, y: number, z: number) => {
+    const view = new DataView(new ArrayBuffer(20))
+    view.setUint32(0, 0x58595a20) // 'XYZ '
+    view.setInt32(8, fixed(x))
+    view.setInt32(12, fixed(y))
+    view.setInt32(16, fixed(z))
+    return new Uint8Array(view.buffer)
+  }
+
+  const curve = () => {
+    const points = 1024
+    const view = new DataView(new ArrayBuffer(12 + points * 2))
+    view.setUint32(0, 0x63757276) // 'curv'
+    view.setUint32(8, points)
+    for (let i = 0; i < points; i++) {
+      const value = i / (points - 1)
+      const linear = value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4)
+      view.setUint16(12 + i * 2, Math.round(linear * 65535))
+    }
+    return new Uint8Array(view.buffer)
+  }
+
+  const description = (text: string) => {
+    const ascii = encoder.encode(text)
+    // Type, reserved, ASCII length and text, then empty Unicode and ScriptCode descriptions
+    const bytes = new Uint8Array(12 + ascii.length + 1 + 4 + 4 + 2 + 1 + 67)
+    const view = new DataView(bytes.buffer)
+    view.setUint32(0, 0x64657363) // 'desc'
+    view.setUint32(8, ascii.length + 1)
+    bytes.set(ascii, 12)
+    return bytes
+  }
+
+  const copyright = (text: string) => {
+    const ascii = encoder.encode(text)
+    const bytes = new Uint8Array(8 + ascii.length + 1)
+    new DataView(bytes.buffer).setUint32(0, 0x74657874) // 'text'
+    bytes.set(ascii, 8)
+    return bytes
+  }
+
+  const trc = curve()
+  const tags: Array<[string, Uint8Array]> = [
+    ['desc', description('sRGB IEC61966-2.1')],
+    ['cprt', copyright('No copyright, use freely')],
+    ['wtpt', xyz(0.9642, 1, 0.8249)],
+    ['rXYZ', xyz(0.4361, 0.2225, 0.0139)],
+    ['gXYZ', xyz(0.3851, 0.7169, 0.0971)],
+    ['bXYZ', xyz(0.1431, 0.0606, 0.7141)],
+    ['rTRC', trc],
+    ['gTRC', trc],
+    ['bTRC', trc],
+  ]
+
+  // Tag data follows the header and tag table, each entry aligned to four bytes; the
+  // three tone curves share one copy
+  const offsets = new Map<Uint8Array, number>()
+  let size = 128 + 4 + tags.length * 12
+  for (const [, data] of tags) {
+    if (offsets.has(data)) continue
+    offsets.set(data, size)
+    size += Math.ceil(data.length / 4) * 4
+  }
+
+  const bytes = new Uint8Array(size)
+  const view = new DataView(bytes.buffer)
+  const signature = (offset: number, text: string) => bytes.set(encoder.encode(text), offset)
+
+  view.setUint32(0, size)
+  view.setUint32(8, 0x02100000) // Version 2.1
+  signature(12, 'mntr')
+  signature(16, 'RGB ')
+  signature(20, 'XYZ ')
+  const now = new Date()
+  ;[now.getUTCFullYear(), now.getUTCMonth() + 1, now.getUTCDate(), now.getUTCHours(), now.getUTCMinutes(), now.getUTCSeconds()]
+    .forEach((value, index) => view.setUint16(24 + index * 2, value))
+  signature(36, 'acsp')
+  view.setInt32(68, fixed(0.9642)) // D50 illuminant
+  view.setInt32(72, fixed(1))
+  view.setInt32(76, fixed(0.8249))
+
+  view.setUint32(128, tags.length)
+  tags.forEach(([name, data], index) => {
+    const entry = 132 + index * 12
+    signature(entry, name)
+    view.setUint32(entry + 4, offsets.get(data)!)
+    view.setUint32(entry + 8, data.length)
+  })
+  offsets.forEach((offset, data) => bytes.set(data, offset))
+
+  return bytes
+}
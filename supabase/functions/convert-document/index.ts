@@ -1,39 +1,89 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { ConversionResult, ConversionStatus, convertStoredDocument } from "../_shared/documentConversion.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Conversions run one after another, so a batch has to finish well inside the function's time limit
+const DEFAULT_BATCH_SIZE = 10;
+const MAX_BATCH_SIZE = 25;
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
+
+// Converts a batch of the caller's documents that have no PDF/A copy yet, e.g. ones
+// uploaded before conversion existed. Results are totalled per source format.
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
   try {
-    const { fileUrl, targetFormat = 'pdf' } = await req.json()
-
-    // This would integrate with document conversion services
-    // For now, return the original URL as conversion is not implemented
-    return new Response(
-      JSON.stringify({
-        convertedUrl: fileUrl,
-        originalFormat: 'unknown',
-        targetFormat: targetFormat,
-        conversionStatus: 'not_implemented'
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      },
+    const { documentIds, targetFormat = 'pdf', limit = DEFAULT_BATCH_SIZE, after } = await req.json()
+
+    if (targetFormat !== 'pdf') {
+      throw new Error(`Unsupported target format: ${targetFormat}`)
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? ''
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const batchSize = Math.min(Math.max(Number(limit) || DEFAULT_BATCH_SIZE, 1), MAX_BATCH_SIZE)
+    let query = supabase
+      .from('documents')
+      .select('id, name, type, path, pdf_path, created_at')
+      .eq('user_id', user.id)
+      .is('pdf_path', null)
+      .neq('type', 'application/pdf')
+    if (Array.isArray(documentIds)) {
+      query = query.in('id', documentIds)
+    }
+    // Documents that could not be converted stay unlinked, so batches page by upload time
+    if (after) {
+      query = query.gt('created_at', after)
+    }
+
+    const { data: documents, error } = await query.order('created_at', { ascending: true }).limit(batchSize)
+    if (error) {
+      throw new Error(`Failed to list documents: ${error.message}`)
+    }
+
+    const results: ConversionResult[] = []
+    for (const document of documents ?? []) {
+      results.push(await convertStoredDocument(supabase, document))
+    }
+
+    const byFormat: Record<string, Record<ConversionStatus, number>> = {}
+    results.forEach(result => {
+      const format = result.format ?? 'unknown'
+      byFormat[format] ??= { converted: 0, unsupported: 0, failed: 0 }
+      byFormat[format][result.conversionStatus]++
+    })
+
+    return jsonResponse({
+      targetFormat,
+      results,
+      byFormat,
+      // Pass as `after` to convert the next batch
+      next: documents && documents.length === batchSize ? documents[documents.length - 1].created_at : null,
+    })
   } catch (error) {
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      },
-    )
+    console.error('Document conversion error:', error);
+    return jsonResponse({ error: error.message }, 400)
   }
 })
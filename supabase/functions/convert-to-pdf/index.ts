@@ -1,10 +1,24 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { convertStoredDocument } from '../_shared/documentConversion.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
+
+// Converts one of the caller's documents to PDF/A and links the copy on the document row.
+// A format that cannot be converted, or a conversion that fails, is reported in the body
+// with success: false and the format, so the caller can tell the two apart.
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -12,83 +26,56 @@ serve(async (req) => {
   }
 
   try {
-    const { documentUrl, documentType, documentId } = await req.json()
-    
-    if (!documentUrl || !documentType) {
-      throw new Error('Missing required parameters: documentUrl and documentType')
+    const { documentId } = await req.json()
+
+    if (!documentId) {
+      throw new Error('Missing required parameter: documentId')
     }
 
-    // Convert document to PDF
-    const conversionResult = await convertDocumentToPDF(documentUrl, documentType, documentId)
-    
-    return new Response(
-      JSON.stringify({
-        success: true,
-        originalUrl: documentUrl,
-        pdfUrl: conversionResult.pdfUrl,
-        conversionStatus: conversionResult.status,
-        fileSize: conversionResult.fileSize,
-        processingTime: conversionResult.processingTime
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      }
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
-  } catch (error) {
-    console.error('PDF conversion error:', error)
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error.message || 'PDF conversion failed'
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
-      }
-    )
-  }
-})
 
-async function convertDocumentToPDF(documentUrl: string, documentType: string, documentId?: string) {
-  // This is a mock implementation - replace with actual PDF conversion service
-  // You can integrate with services like:
-  // - LibreOffice (for Office documents)
-  // - ImageMagick (for images)
-  // - Puppeteer (for HTML to PDF)
-  // - CloudConvert API
-  
-  const supportedFormats = [
-    'application/msword',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/vnd.ms-excel',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'application/vnd.ms-powerpoint',
-    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-    'image/jpeg',
-    'image/png',
-    'image/gif',
-    'text/html',
-    'text/plain'
-  ]
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? ''
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
 
-  if (!supportedFormats.includes(documentType)) {
-    throw new Error(`Document type ${documentType} is not supported for PDF conversion`)
-  }
+    const { data: document, error } = await supabase
+      .from('documents')
+      .select('id, name, type, path, pdf_path')
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+      .maybeSingle()
 
-  // Simulate conversion process
-  const startTime = Date.now()
-  await new Promise(resolve => setTimeout(resolve, 1500)) // Simulate processing time
-  
-  const processingTime = Date.now() - startTime
-  
-  // Generate mock PDF URL (in real implementation, this would be the converted file)
-  const pdfUrl = documentUrl.replace(/\.[^/.]+$/, '.pdf')
-  
-  return {
-    pdfUrl,
-    status: 'completed',
-    fileSize: Math.floor(Math.random() * 1000000) + 50000, // Random size between 50KB-1MB
-    processingTime
+    if (error) {
+      throw new Error(`Failed to load document: ${error.message}`)
+    }
+    if (!document) {
+      return jsonResponse({ success: false, error: 'Document not found' }, 404)
+    }
+
+    const startTime = Date.now()
+    const result = await convertStoredDocument(supabase, document)
+
+    let pdfUrl: string | undefined
+    if (result.pdfPath) {
+      const { data: signed } = await supabase.storage
+        .from('documents')
+        .createSignedUrl(result.pdfPath, SIGNED_URL_TTL_SECONDS)
+      pdfUrl = signed?.signedUrl
+    }
+
+    return jsonResponse({
+      success: result.conversionStatus === 'converted',
+      ...result,
+      pdfUrl,
+      processingTime: Date.now() - startTime,
+    })
+  } catch (error) {
+    console.error('PDF conversion error:', error)
+    return jsonResponse({ success: false, error: error.message || 'PDF conversion failed' }, 500)
   }
-}
+})
@@ -0,0 +1,88 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Fixed on the server: stored vectors are tagged with this id by embeddingService,
+// and callers must not be able to spend the key on other models
+const EMBEDDING_MODEL = 'text-embedding-3-small'
+const EMBEDDING_DIMENSIONS = 384
+
+// One client batch of chunks, or a search query; chunks are 1000 characters
+const MAX_TEXTS = 64
+const MAX_TEXT_LENGTH = 2000
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? ''
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { texts, model, dimensions } = await req.json()
+
+    if (model !== undefined && model !== EMBEDDING_MODEL) {
+      return jsonResponse({ error: `Unsupported model: ${model}` }, 400)
+    }
+    if (dimensions !== undefined && dimensions !== EMBEDDING_DIMENSIONS) {
+      return jsonResponse({ error: `Unsupported dimensions: ${dimensions}` }, 400)
+    }
+    if (!Array.isArray(texts) || texts.length === 0 || texts.length > MAX_TEXTS) {
+      return jsonResponse({ error: `texts must be an array of 1 to ${MAX_TEXTS} strings` }, 400)
+    }
+    if (texts.some(text => typeof text !== 'string' || text.length === 0 || text.length > MAX_TEXT_LENGTH)) {
+      return jsonResponse({ error: `Each text must be a non-empty string of at most ${MAX_TEXT_LENGTH} characters` }, 400)
+    }
+
+    const apiKey = Deno.env.get('OPENAI_API_KEY')
+    if (!apiKey) {
+      throw new Error('Embedding provider not configured (set OPENAI_API_KEY)')
+    }
+
+    const response = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: EMBEDDING_MODEL,
+        dimensions: EMBEDDING_DIMENSIONS,
+        input: texts,
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Embedding API error: ${response.statusText}`)
+    }
+
+    const result = await response.json()
+    const embeddings: number[][] = result.data
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((item: { embedding: number[] }) => item.embedding)
+
+    return jsonResponse({ embeddings, model: EMBEDDING_MODEL })
+  } catch (error) {
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
@@ -1,99 +1,304 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getDocumentProxy, extractText as extractPdfText } from 'https://esm.sh/unpdf@0.12.1'
+import {
+  PAGE_SEPARATOR,
+  blocksToText,
+  decodeText,
+  docxXmlToBlocks,
+  odtXmlToBlocks,
+  readZipEntry,
+} from '../_shared/documentText.ts'
 
 const corsHeaders = {
-  'Access-Control-Allow-Origin': 'http://localhost:3000',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+type DocumentFormat = 'pdf' | 'docx' | 'odt' | 'rtf' | 'text'
+
+interface ExtractedPage {
+  pageNumber: number
+  text: string
+  start: number // Offset of the page in extractedText
+  end: number
+}
+
+interface Extraction {
+  pageTexts: string[]
+  encoding?: string
+}
+
+const FORMATS_BY_TYPE: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.oasis.opendocument.text': 'odt',
+  'application/rtf': 'rtf',
+  'text/rtf': 'rtf',
+}
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  odt: 'odt',
+  rtf: 'rtf',
+  txt: 'text',
+  csv: 'text',
+  md: 'text',
+}
+
+// Extracts the text of one of the caller's documents, downloaded from storage.
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
-    return new Response(null, { status: 204, headers: corsHeaders });
+    return new Response('ok', { headers: corsHeaders })
   }
 
   try {
-    const { documentUrl, documentType } = await req.json()
-    
-    if (!documentUrl) {
-      throw new Error('Missing required parameter: documentUrl')
+    const { documentId } = await req.json()
+
+    if (!documentId) {
+      throw new Error('Missing required parameter: documentId')
     }
 
-    // Extract text from document
-    const extractedText = await extractTextFromDocument(documentUrl, documentType)
-    
-    return new Response(
-      JSON.stringify({
-        success: true,
-        extractedText: extractedText.text,
-        confidence: extractedText.confidence,
-        language: extractedText.language,
-        wordCount: extractedText.wordCount,
-        characterCount: extractedText.characterCount
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      }
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? ''
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const { data: document, error } = await supabase
+      .from('documents')
+      .select('id, type, path')
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load document: ${error.message}`)
+    }
+    if (!document || !document.path) {
+      return jsonResponse({ success: false, error: 'Document not found' }, 404)
+    }
+
+    const format = detectFormat(document.type, document.path)
+    if (!format) {
+      // Scans and other binary files have no text layer; OCR handles those
+      return jsonResponse({
+        success: true,
+        format: null,
+        extractedText: '',
+        pages: [],
+        confidence: 0,
+        wordCount: 0,
+        characterCount: 0
+      })
+    }
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from('documents')
+      .download(document.path)
+    if (downloadError || !file) {
+      throw new Error(`Failed to download document: ${downloadError?.message}`)
+    }
+    const bytes = new Uint8Array(await file.arrayBuffer())
+
+    const extraction = await extractTextFromDocument(format, bytes)
+    const { extractedText, pages } = buildPages(extraction.pageTexts)
+
+    return jsonResponse({
+      success: true,
+      format,
+      encoding: extraction.encoding,
+      extractedText,
+      pages,
+      confidence: extractedText.trim() ? 1 : 0,
+      wordCount: (extractedText.match(/\S+/g) || []).length,
+      characterCount: extractedText.length
+    })
   } catch (error) {
     console.error('Text extraction error:', error)
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error.message || 'Text extraction failed'
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
-      }
-    )
+    return jsonResponse({ success: false, error: error.message || 'Text extraction failed' }, 500)
   }
 })
 
-async function extractTextFromDocument(documentUrl: string, documentType: string) {
-  // This is a mock implementation - replace with actual text extraction service
-  // You can integrate with libraries like pdf-parse, mammoth (for DOCX), etc.
-  
-  const mockExtractions = {
-    'application/pdf': {
-      text: 'This is a sample PDF document with extracted text content. It contains various paragraphs and information that has been processed through OCR or PDF parsing technology.',
-      confidence: 0.95,
-      language: 'en',
-      wordCount: 25,
-      characterCount: 180
-    },
-    'application/msword': {
-      text: 'This is a sample Word document with extracted text content. The document contains formatted text that has been processed and converted to plain text format.',
-      confidence: 0.92,
-      language: 'en',
-      wordCount: 22,
-      characterCount: 165
-    },
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
-      text: 'This is a sample DOCX document with extracted text content. Modern Word documents contain rich formatting and can be processed to extract clean text content.',
-      confidence: 0.94,
-      language: 'en',
-      wordCount: 24,
-      characterCount: 175
-    },
-    'text/plain': {
-      text: 'This is a plain text document. The content is already in text format and requires minimal processing to extract the information.',
-      confidence: 1.0,
-      language: 'en',
-      wordCount: 18,
-      characterCount: 135
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
+
+/**
+ * Pick the extractor from the MIME type, falling back to the file extension
+ * since browsers often report office files as application/octet-stream
+ */
+function detectFormat(documentType: string | undefined, path: string): DocumentFormat | null {
+  const type = (documentType || '').toLowerCase()
+  if (FORMATS_BY_TYPE[type]) return FORMATS_BY_TYPE[type]
+  if (type.startsWith('text/') && type !== 'text/html') return 'text'
+
+  const extension = path.split('.').pop()?.toLowerCase() || ''
+  return FORMATS_BY_EXTENSION[extension] || null
+}
+
+async function extractTextFromDocument(format: DocumentFormat, bytes: Uint8Array): Promise<Extraction> {
+  switch (format) {
+    case 'pdf':
+      return extractFromPdf(bytes)
+    case 'docx':
+      return { pageTexts: splitPages(blocksToText(docxXmlToBlocks(readZipEntry(bytes, 'word/document.xml')))) }
+    case 'odt':
+      return { pageTexts: splitPages(blocksToText(odtXmlToBlocks(readZipEntry(bytes, 'content.xml')))) }
+    case 'rtf':
+      return { pageTexts: splitPages(rtfToText(new TextDecoder('latin1').decode(bytes))) }
+    case 'text': {
+      const { text, encoding } = decodeText(bytes)
+      return { pageTexts: splitPages(text), encoding }
+    }
+  }
+}
+
+/**
+ * Join page texts into one string and record where each page starts and ends in it
+ */
+function buildPages(pageTexts: string[]): { extractedText: string; pages: ExtractedPage[] } {
+  const pages: ExtractedPage[] = []
+  let offset = 0
+
+  pageTexts.forEach((raw, index) => {
+    const text = raw
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+    if (index > 0) offset += PAGE_SEPARATOR.length
+    pages.push({ pageNumber: index + 1, text, start: offset, end: offset + text.length })
+    offset += text.length
+  })
+
+  return { extractedText: pages.map(page => page.text).join(PAGE_SEPARATOR), pages }
+}
+
+function splitPages(text: string): string[] {
+  const pages = text.split(PAGE_SEPARATOR)
+  // A trailing page break leaves an empty last page behind
+  return pages.length > 1 && !pages[pages.length - 1].trim() ? pages.slice(0, -1) : pages
+}
+
+async function extractFromPdf(bytes: Uint8Array): Promise<Extraction> {
+  const pdf = await getDocumentProxy(bytes)
+  const { text } = await extractPdfText(pdf, { mergePages: false })
+  return { pageTexts: Array.isArray(text) ? text : [text] }
+}
+
+// Groups that hold formatting or embedded data rather than document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'fldinst', 'listtable',
+  'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl', 'themedata', 'colorschememapping',
+  'latentstyles', 'datastore', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl',
+  'footerr', 'footerf', 'footnote', 'bkmkstart', 'bkmkend',
+])
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n', row: '\n', cell: '\t', tab: '\t', page: PAGE_SEPARATOR,
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’',
+  ldblquote: '“', rdblquote: '”', emspace: ' ', enspace: ' ', qmspace: ' ',
+}
+
+/**
+ * Plain text of an RTF document: control words for breaks and quotes become characters,
+ * \'hh bytes are decoded with the document's code page and \uN escapes with their fallbacks skipped
+ */
+function rtfToText(rtf: string): string {
+  let text = ''
+  let decoder = new TextDecoder('windows-1252')
+  let pendingBytes: number[] = []
+  let state = { skip: false, unicodeSkip: 1 }
+  const stack: typeof state[] = []
+  let fallbackChars = 0 // Characters still to drop after a \uN escape
+
+  const flushBytes = () => {
+    if (pendingBytes.length > 0 && !state.skip) text += decoder.decode(new Uint8Array(pendingBytes))
+    pendingBytes = []
+  }
+  const emit = (value: string) => {
+    if (fallbackChars > 0) {
+      fallbackChars--
+      return
     }
+    if (!state.skip) text += value
   }
 
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 800))
-  
-  return mockExtractions[documentType] || {
-    text: 'Text extraction not supported for this document type.',
-    confidence: 0.0,
-    language: 'en',
-    wordCount: 0,
-    characterCount: 0
+  let i = 0
+  while (i < rtf.length) {
+    const ch = rtf[i]
+
+    if (ch === '\\' && rtf[i + 1] === "'") {
+      const byte = parseInt(rtf.slice(i + 2, i + 4), 16)
+      i += 4
+      if (fallbackChars > 0) {
+        fallbackChars--
+      } else if (Number.isFinite(byte)) {
+        pendingBytes.push(byte)
+      }
+      continue
+    }
+    flushBytes()
+
+    if (ch === '{') {
+      stack.push({ ...state })
+      i++
+    } else if (ch === '}') {
+      state = stack.pop() || state
+      i++
+    } else if (ch === '\\') {
+      const next = rtf[i + 1]
+      if (next === undefined) break
+
+      const control = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(i + 1, i + 40))
+      if (!control) {
+        // Control symbols: escaped characters, non-breaking space, optional hyphen, or ignorable destination
+        if (next === '*') state.skip = true
+        else if (next === '~') emit(' ')
+        else if (next === '_') emit('-')
+        else if (next === '\n' || next === '\r') emit('\n')
+        else if (next === '\\' || next === '{' || next === '}') emit(next)
+        i += 2
+        continue
+      }
+
+      const [match, word, param] = control
+      i += 1 + match.length
+
+      if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+        state.skip = true
+      } else if (word === 'ansicpg' && param) {
+        try {
+          decoder = new TextDecoder(`windows-${param}`)
+        } catch {
+          // Unknown code page: keep Windows-1252
+        }
+      } else if (word === 'uc' && param) {
+        state.unicodeSkip = Number(param)
+      } else if (word === 'u' && param) {
+        const code = Number(param)
+        if (!state.skip) text += String.fromCharCode(code < 0 ? code + 65536 : code)
+        fallbackChars = state.unicodeSkip
+      } else if (RTF_SYMBOLS[word] !== undefined) {
+        emit(RTF_SYMBOLS[word])
+      }
+    } else {
+      if (ch !== '\r' && ch !== '\n') emit(ch)
+      i++
+    }
   }
+  flushBytes()
+
+  return text
 }
@@ -0,0 +1,129 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Storage removals are batched to keep each request small
+const REMOVE_BATCH_SIZE = 100;
+
+interface PrunableVersion {
+  version_id: string;
+  document_id: string;
+  user_id: string;
+  version_number: number;
+  file_path: string;
+  file_size: number;
+  created_at: string;
+  policy: Record<string, unknown>;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey)
+
+    // The scheduled job calls with the service role and prunes everyone.
+    // A signed-in user can only prune their own versions.
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? ''
+    let targetUser: string | null = null
+
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 401,
+          },
+        )
+      }
+      targetUser = user.id
+    }
+
+    const { data, error } = await supabase.rpc('get_prunable_document_versions', {
+      target_user: targetUser,
+    })
+
+    if (error) {
+      throw new Error(`Failed to list prunable versions: ${error.message}`)
+    }
+
+    const versions = (data ?? []) as PrunableVersion[]
+    let pruned = 0
+    let bytesFreed = 0
+    const failures: Array<{ versionId: string; error: string }> = []
+
+    for (let i = 0; i < versions.length; i += REMOVE_BATCH_SIZE) {
+      const batch = versions.slice(i, i + REMOVE_BATCH_SIZE)
+
+      const { error: storageError } = await supabase.storage
+        .from('documents')
+        .remove(batch.map(version => version.file_path))
+
+      if (storageError) {
+        batch.forEach(version => failures.push({ versionId: version.version_id, error: storageError.message }))
+        continue
+      }
+
+      const { error: deleteError } = await supabase
+        .from('document_versions')
+        .delete()
+        .in('id', batch.map(version => version.version_id))
+
+      if (deleteError) {
+        batch.forEach(version => failures.push({ versionId: version.version_id, error: deleteError.message }))
+        continue
+      }
+
+      // One audit entry per deleted version
+      const { error: auditError } = await supabase
+        .from('audit_logs')
+        .insert(batch.map(version => ({
+          user_id: version.user_id,
+          action: 'version_pruned',
+          resource_type: 'document_version',
+          resource_id: version.version_id,
+          details: {
+            document_id: version.document_id,
+            version_number: version.version_number,
+            file_path: version.file_path,
+            file_size: version.file_size,
+            version_created_at: version.created_at,
+            policy: version.policy,
+            trigger: targetUser ? 'manual' : 'scheduled',
+          },
+        })))
+
+      if (auditError) {
+        console.error('Failed to write audit entries for pruned versions:', auditError)
+      }
+
+      pruned += batch.length
+      bytesFreed += batch.reduce((sum, version) => sum + Number(version.file_size || 0), 0)
+    }
+
+    return new Response(
+      JSON.stringify({ pruned, bytesFreed, failures }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      },
+    )
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
+})
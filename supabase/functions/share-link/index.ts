@@ -0,0 +1,123 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Signed URLs handed out for a share link are deliberately short-lived
+const SIGNED_URL_TTL_SECONDS = 300;
+
+// HTTP status for a link the 'content' action cannot stream
+const contentErrorStatus: Record<string, number> = {
+  not_found: 404,
+  expired: 410,
+  password_required: 401,
+  invalid_password: 401,
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
+
+// 'view' returns the document's details, 'content' streams the file itself so the
+// viewer never holds a reusable URL, and 'download' returns a signed download URL.
+// Only 'download' counts against the link's limit.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { token, password, action = 'view' } = await req.json()
+
+    if (!token) {
+      throw new Error('Missing share link token')
+    }
+
+    if (action !== 'view' && action !== 'content' && action !== 'download') {
+      throw new Error(`Unsupported action: ${action}`)
+    }
+
+    // Tokens are resolved with the service role; the caller is anonymous
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data, error } = await supabase.rpc('resolve_share_link', {
+      link_token: token,
+      link_password: password ?? null,
+      link_action: action,
+    })
+
+    if (error) {
+      throw new Error(`Failed to resolve share link: ${error.message}`)
+    }
+
+    const link = Array.isArray(data) ? data[0] : data
+    const status = link?.status ?? 'not_found'
+
+    if (status !== 'ok') {
+      return jsonResponse({ status }, action === 'content' ? contentErrorStatus[status] ?? 403 : 200)
+    }
+
+    const document = {
+      name: link.document_name,
+      type: link.document_type,
+      size: link.document_size,
+    }
+
+    if (action === 'view') {
+      return jsonResponse({
+        status: 'ok',
+        document,
+        viewOnly: link.view_only,
+        downloadsRemaining: link.downloads_remaining,
+      })
+    }
+
+    if (action === 'content') {
+      const { data: file, error: downloadError } = await supabase.storage
+        .from('documents')
+        .download(link.storage_path)
+
+      if (downloadError || !file) {
+        throw new Error(`Failed to read document: ${downloadError?.message}`)
+      }
+
+      return new Response(file, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': link.document_type || 'application/octet-stream',
+          'Content-Disposition': 'inline',
+          'Cache-Control': 'no-store',
+        },
+        status: 200,
+      })
+    }
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from('documents')
+      .createSignedUrl(link.storage_path, SIGNED_URL_TTL_SECONDS, { download: link.document_name })
+
+    if (signError || !signed) {
+      throw new Error(`Failed to sign document URL: ${signError?.message}`)
+    }
+
+    return jsonResponse({
+      status: 'ok',
+      signedUrl: signed.signedUrl,
+      expiresIn: SIGNED_URL_TTL_SECONDS,
+      document,
+      viewOnly: link.view_only,
+      downloadsRemaining: link.downloads_remaining,
+    })
+  } catch (error) {
+    return jsonResponse({ error: error.message }, 400)
+  }
+})
@@ -0,0 +1,26 @@
+-- Processing Status Migration
+-- Tracks the AI pipeline state for every document so failed uploads can be found and retried
+
+-- Add processing state columns to documents
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS processing_status TEXT DEFAULT 'queued'
+  CHECK (processing_status IN ('queued', 'extracting', 'classifying', 'converting', 'done', 'failed')),
+ADD COLUMN IF NOT EXISTS processing_steps JSONB DEFAULT '{}'::jsonb, -- Per-step status, attempts, errors and results
+ADD COLUMN IF NOT EXISTS processing_attempts INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS processing_error TEXT,
+ADD COLUMN IF NOT EXISTS processing_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Index for the retry queue lookups
+CREATE INDEX IF NOT EXISTS idx_documents_processing_status ON documents(processing_status);
+
+-- Backfill existing documents
+UPDATE documents
+SET processing_status = 'done'
+WHERE ai_analysis IS NOT NULL;
+
+-- Documents uploaded before status tracking that never got AI results go straight to the retry queue
+UPDATE documents
+SET
+  processing_status = 'failed',
+  processing_error = 'AI processing did not complete before status tracking was added'
+WHERE ai_analysis IS NULL;
@@ -0,0 +1,9 @@
+-- Document Checksums Migration
+-- Stores a SHA-256 content hash per document so identical uploads can be detected
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS checksum TEXT;
+
+-- Duplicate lookups are always scoped to a single user
+CREATE INDEX IF NOT EXISTS idx_documents_user_checksum ON documents(user_id, checksum);
+CREATE INDEX IF NOT EXISTS idx_document_versions_checksum ON document_versions(checksum);
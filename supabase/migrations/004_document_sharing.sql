@@ -0,0 +1,166 @@
+-- Document Sharing Migration
+-- Lets owners share documents with other users through document_shares
+
+-- One share per document and recipient; re-sharing updates the existing row
+ALTER TABLE document_shares
+ADD CONSTRAINT document_shares_document_recipient_key UNIQUE (document_id, shared_with);
+
+CREATE INDEX IF NOT EXISTS idx_document_shares_expires_at ON document_shares(expires_at);
+
+-- Helper: does the current user hold an active share on a document with at least the given permission?
+CREATE OR REPLACE FUNCTION has_document_share(doc_id UUID, required_permission TEXT DEFAULT 'read')
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM document_shares
+    WHERE document_id = doc_id
+      AND shared_with = auth.uid()
+      AND (expires_at IS NULL OR expires_at > NOW())
+      AND CASE required_permission
+        WHEN 'read' THEN permission IN ('read', 'write', 'admin')
+        WHEN 'write' THEN permission IN ('write', 'admin')
+        ELSE permission = 'admin'
+      END
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Helper: owner of a document, readable from policies on documents without recursing into them
+CREATE OR REPLACE FUNCTION document_owner_id(doc_id UUID)
+RETURNS UUID AS $$
+  SELECT user_id FROM documents WHERE id = doc_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Share a document the caller owns or administers with a user by email.
+-- Unknown emails are ignored rather than reported, so the call cannot be used
+-- to find out which addresses have an account.
+CREATE OR REPLACE FUNCTION share_document(
+  doc_id UUID,
+  recipient_email TEXT,
+  share_permission TEXT DEFAULT 'read',
+  share_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  recipient_id UUID;
+BEGIN
+  IF auth.uid() IS NULL OR NOT (
+    document_owner_id(doc_id) = auth.uid() OR has_document_share(doc_id, 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Document not found or you cannot share it' USING ERRCODE = '42501';
+  END IF;
+
+  IF share_permission NOT IN ('read', 'write', 'admin') THEN
+    RAISE EXCEPTION 'Invalid permission: %', share_permission USING ERRCODE = '22023';
+  END IF;
+
+  IF lower(trim(recipient_email)) = lower(auth.email()) THEN
+    RAISE EXCEPTION 'You cannot share a document with yourself' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO recipient_id FROM auth.users WHERE lower(email) = lower(trim(recipient_email)) LIMIT 1;
+  IF recipient_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO document_shares (document_id, shared_by, shared_with, permission, expires_at)
+  VALUES (doc_id, auth.uid(), recipient_id, share_permission, share_expires_at)
+  ON CONFLICT (document_id, shared_with)
+  DO UPDATE SET permission = EXCLUDED.permission, expires_at = EXCLUDED.expires_at, shared_by = EXCLUDED.shared_by;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Helper: list share recipients with their email for a document the caller owns or administers
+CREATE OR REPLACE FUNCTION get_document_share_recipients(doc_id UUID)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  shared_by UUID,
+  shared_with UUID,
+  shared_with_email TEXT,
+  permission TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT s.id, s.document_id, s.shared_by, s.shared_with, u.email::TEXT, s.permission, s.expires_at, s.created_at
+  FROM document_shares s
+  JOIN auth.users u ON u.id = s.shared_with
+  WHERE s.document_id = doc_id
+    AND (
+      EXISTS (SELECT 1 FROM documents d WHERE d.id = doc_id AND d.user_id = auth.uid())
+      OR has_document_share(doc_id, 'admin')
+    )
+  ORDER BY s.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION has_document_share(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION share_document(UUID, TEXT, TEXT, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_document_share_recipients(UUID) TO authenticated;
+
+-- RLS Policies for documents shared with the current user
+CREATE POLICY "Users can view documents shared with them" ON documents
+  FOR SELECT USING (has_document_share(id, 'read'));
+
+CREATE POLICY "Users can update documents shared with write access" ON documents
+  FOR UPDATE USING (has_document_share(id, 'write'))
+  WITH CHECK (has_document_share(id, 'write') AND user_id = document_owner_id(id));
+
+-- Recipients may edit a shared document's details but not its file. Versions are
+-- uploaded and restored by the owner only, like the version policies allow.
+CREATE OR REPLACE FUNCTION protect_shared_document_files()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR OLD.user_id = auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Only the owner can transfer a document' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.path IS DISTINCT FROM OLD.path THEN
+    RAISE EXCEPTION 'Only the owner can replace a document''s file' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_shared_document_files ON documents;
+CREATE TRIGGER protect_shared_document_files
+  BEFORE UPDATE ON documents
+  FOR EACH ROW EXECUTE FUNCTION protect_shared_document_files();
+
+-- RLS Policies for versions of shared documents
+CREATE POLICY "Users can view versions of documents shared with them" ON document_versions
+  FOR SELECT USING (has_document_share(document_id, 'read'));
+
+-- Admins of a shared document can manage its shares
+DROP POLICY IF EXISTS "Users can insert document shares for their own documents" ON document_shares;
+CREATE POLICY "Users can insert document shares for their own documents" ON document_shares
+  FOR INSERT WITH CHECK (
+    shared_by = auth.uid() AND (
+      EXISTS (
+        SELECT 1 FROM documents WHERE id = document_shares.document_id AND user_id = auth.uid()
+      )
+      OR has_document_share(document_shares.document_id, 'admin')
+    )
+  );
+
+CREATE POLICY "Document owners can revoke any share on their documents" ON document_shares
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM documents WHERE id = document_shares.document_id AND user_id = auth.uid()
+    )
+  );
+
+-- Storage policies for shared files (original file and its versions)
+CREATE POLICY "Users can view files shared with them" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'documents' AND EXISTS (
+      SELECT 1 FROM documents d
+      WHERE has_document_share(d.id, 'read')
+        AND (
+          d.path = storage.objects.name
+          OR storage.objects.name LIKE d.user_id::text || '/versions/' || d.id::text || '/%'
+        )
+    )
+  );
@@ -0,0 +1,154 @@
+-- Public Share Links Migration
+-- Tokenized links that give anyone holding them access to a single document
+
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+CREATE TABLE IF NOT EXISTS share_links (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  password_hash TEXT,
+  has_password BOOLEAN GENERATED ALWAYS AS (password_hash IS NOT NULL) STORED,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_downloads INTEGER CHECK (max_downloads IS NULL OR max_downloads > 0),
+  download_count INTEGER NOT NULL DEFAULT 0,
+  view_only BOOLEAN NOT NULL DEFAULT FALSE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_document_id ON share_links(document_id);
+CREATE INDEX IF NOT EXISTS idx_share_links_created_by ON share_links(created_by);
+
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for share links (only the document owner manages them)
+CREATE POLICY "Users can view share links for their own documents" ON share_links
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM documents WHERE id = share_links.document_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update share links for their own documents" ON share_links
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM documents WHERE id = share_links.document_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete share links for their own documents" ON share_links
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM documents WHERE id = share_links.document_id AND user_id = auth.uid())
+  );
+
+-- The password hash never leaves the database; clients read has_password instead
+REVOKE SELECT ON share_links FROM anon, authenticated;
+GRANT SELECT (
+  id, document_id, created_by, token, has_password, expires_at, max_downloads,
+  download_count, view_only, revoked_at, created_at
+) ON share_links TO authenticated;
+
+-- Links are created through create_share_link so the password is hashed server-side
+CREATE OR REPLACE FUNCTION create_share_link(
+  doc_id UUID,
+  link_password TEXT DEFAULT NULL,
+  link_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  link_max_downloads INTEGER DEFAULT NULL,
+  link_view_only BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+  new_link_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM documents WHERE id = doc_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the document owner can create share links';
+  END IF;
+
+  INSERT INTO share_links (document_id, created_by, password_hash, expires_at, max_downloads, view_only)
+  VALUES (
+    doc_id,
+    auth.uid(),
+    CASE WHEN link_password IS NULL OR link_password = '' THEN NULL ELSE crypt(link_password, gen_salt('bf')) END,
+    link_expires_at,
+    link_max_downloads,
+    link_view_only
+  )
+  RETURNING id INTO new_link_id;
+
+  RETURN new_link_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_share_link(UUID, TEXT, TIMESTAMP WITH TIME ZONE, INTEGER, BOOLEAN) TO authenticated;
+
+-- Resolve a token for the share-link edge function. 'view' only checks the link and
+-- returns the document's details; 'content' (the file, streamed by the function for
+-- display) and 'download' (a signed URL) also return the storage path. Only downloads
+-- count against max_downloads, atomically. View-only links never get a download.
+CREATE OR REPLACE FUNCTION resolve_share_link(
+  link_token TEXT,
+  link_password TEXT DEFAULT NULL,
+  link_action TEXT DEFAULT 'view'
+)
+RETURNS TABLE (
+  status TEXT,
+  document_name TEXT,
+  document_type TEXT,
+  document_size BIGINT,
+  storage_path TEXT,
+  view_only BOOLEAN,
+  downloads_remaining INTEGER
+) AS $$
+DECLARE
+  link share_links;
+  doc documents;
+BEGIN
+  SELECT * INTO link FROM share_links WHERE token = link_token FOR UPDATE;
+
+  IF NOT FOUND OR link.revoked_at IS NOT NULL THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::TEXT, NULL::TEXT, NULL::BIGINT, NULL::TEXT, NULL::BOOLEAN, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  IF link.expires_at IS NOT NULL AND link.expires_at <= NOW() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::TEXT, NULL::TEXT, NULL::BIGINT, NULL::TEXT, NULL::BOOLEAN, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  IF link.password_hash IS NOT NULL
+    AND (link_password IS NULL OR crypt(link_password, link.password_hash) <> link.password_hash) THEN
+    RETURN QUERY SELECT
+      CASE WHEN link_password IS NULL THEN 'password_required' ELSE 'invalid_password' END::TEXT,
+      NULL::TEXT, NULL::TEXT, NULL::BIGINT, NULL::TEXT, NULL::BOOLEAN, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  IF link_action = 'download' AND link.view_only THEN
+    RETURN QUERY SELECT 'view_only'::TEXT, NULL::TEXT, NULL::TEXT, NULL::BIGINT, NULL::TEXT, NULL::BOOLEAN, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  IF link_action = 'download' THEN
+    IF link.max_downloads IS NOT NULL AND link.download_count >= link.max_downloads THEN
+      RETURN QUERY SELECT 'limit_reached'::TEXT, NULL::TEXT, NULL::TEXT, NULL::BIGINT, NULL::TEXT, NULL::BOOLEAN, NULL::INTEGER;
+      RETURN;
+    END IF;
+
+    UPDATE share_links SET download_count = download_count + 1 WHERE id = link.id;
+    link.download_count := link.download_count + 1;
+  END IF;
+
+  SELECT * INTO doc FROM documents WHERE id = link.document_id;
+
+  RETURN QUERY SELECT
+    'ok'::TEXT,
+    doc.name,
+    doc.type,
+    doc.size,
+    CASE WHEN link_action IN ('content', 'download') THEN doc.path END,
+    link.view_only,
+    CASE WHEN link.max_downloads IS NULL THEN NULL ELSE link.max_downloads - link.download_count END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the edge function (service role) may resolve tokens
+REVOKE EXECUTE ON FUNCTION resolve_share_link(TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION resolve_share_link(TEXT, TEXT, TEXT) TO service_role;
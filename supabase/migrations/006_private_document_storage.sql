@@ -0,0 +1,18 @@
+-- Private Document Storage Migration
+-- Files are only reachable through short-lived signed URLs; stored public URLs are retired
+
+-- Make sure the documents bucket is private (it may have been flipped to public by hand)
+UPDATE storage.buckets SET public = false WHERE id = 'documents';
+
+-- Backfill storage paths for rows that only recorded a public URL
+UPDATE documents
+SET path = split_part(split_part(url, '/object/public/documents/', 2), '?', 1)
+WHERE path IS NULL
+  AND url LIKE '%/object/public/documents/%';
+
+-- The public URL no longer grants access; drop it so it cannot leak any further
+ALTER TABLE documents ALTER COLUMN url DROP NOT NULL;
+
+UPDATE documents
+SET url = NULL
+WHERE url LIKE '%/object/public/documents/%';
@@ -0,0 +1,24 @@
+-- Document Version History Migration
+-- Columns the version timeline needs: descriptions, the current marker and per-version text for diffs
+
+ALTER TABLE document_versions
+ADD COLUMN IF NOT EXISTS change_description TEXT,
+ADD COLUMN IF NOT EXISTS is_current BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS file_name TEXT,
+ADD COLUMN IF NOT EXISTS mime_type TEXT,
+ADD COLUMN IF NOT EXISTS extracted_text TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_versions_document_version
+  ON document_versions(document_id, version_number);
+
+-- At most one current version per document
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_versions_current
+  ON document_versions(document_id) WHERE is_current;
+
+-- RLS Policies for document versions: owners update versions (current marker, extracted text)
+CREATE POLICY "Users can update versions of own documents" ON document_versions
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM documents WHERE id = document_versions.document_id AND user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,83 @@
+-- Version Retention Migration
+-- Per-user and per-category retention policies for document versions, pruned on a schedule
+
+-- Policy shape:
+--   {"default": {"keepLast": 10, "keepDays": 90, "keepFirst": true},
+--    "categories": {"Medical": {"keepLast": null, "keepDays": null, "keepFirst": true}}}
+-- A version survives if any rule keeps it. With neither keepLast nor keepDays set nothing is pruned.
+ALTER TABLE user_preferences
+ADD COLUMN IF NOT EXISTS version_retention JSONB NOT NULL
+  DEFAULT '{"default": {"keepLast": null, "keepDays": null, "keepFirst": true}, "categories": {}}'::jsonb;
+
+-- Versions that fall outside their document's retention policy.
+-- The current version and the file the document points at are never returned.
+CREATE OR REPLACE FUNCTION get_prunable_document_versions(target_user UUID DEFAULT NULL)
+RETURNS TABLE (
+  version_id UUID,
+  document_id UUID,
+  user_id UUID,
+  version_number INTEGER,
+  file_path TEXT,
+  file_size BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  policy JSONB
+) AS $$
+  WITH ranked AS (
+    SELECT
+      v.id,
+      v.document_id,
+      d.user_id,
+      v.version_number,
+      v.file_path,
+      v.file_size,
+      v.created_at,
+      v.is_current,
+      d.path AS document_path,
+      COALESCE(
+        p.version_retention -> 'categories' -> d.category,
+        p.version_retention -> 'default',
+        '{}'::jsonb
+      ) AS policy,
+      ROW_NUMBER() OVER (PARTITION BY v.document_id ORDER BY v.version_number DESC) AS recency,
+      MIN(v.version_number) OVER (PARTITION BY v.document_id) AS first_version
+    FROM document_versions v
+    JOIN documents d ON d.id = v.document_id
+    LEFT JOIN user_preferences p ON p.user_id = d.user_id
+    WHERE target_user IS NULL OR d.user_id = target_user
+  )
+  SELECT id, document_id, user_id, version_number, file_path, file_size, created_at, policy
+  FROM ranked
+  WHERE NOT is_current
+    AND file_path IS DISTINCT FROM document_path
+    AND (policy ->> 'keepLast' IS NOT NULL OR policy ->> 'keepDays' IS NOT NULL)
+    AND NOT (COALESCE((policy ->> 'keepFirst')::BOOLEAN, TRUE) AND version_number = first_version)
+    AND NOT (policy ->> 'keepLast' IS NOT NULL AND recency <= (policy ->> 'keepLast')::INTEGER)
+    AND NOT (
+      policy ->> 'keepDays' IS NOT NULL
+      AND created_at > NOW() - make_interval(days => (policy ->> 'keepDays')::INTEGER)
+    )
+  ORDER BY user_id, document_id, version_number;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Only the prune-versions edge function (service role) may list prunable versions
+REVOKE EXECUTE ON FUNCTION get_prunable_document_versions(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_prunable_document_versions(UUID) TO service_role;
+
+-- Run the pruning job nightly at 03:00 UTC
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'prune-document-versions',
+  '0 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.settings.supabase_url') || '/functions/v1/prune-versions',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,113 @@
+-- Full-Text Search Migration
+-- Stored weighted tsvector over name, tags, keywords and extracted text, searched through a ranked RPC
+
+-- Documents are multilingual, so the 'simple' configuration is used throughout:
+-- stemming for one language would mangle words in the others.
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+-- Weights: A = name, B = tags and keywords, C = category and document type, D = extracted text
+CREATE OR REPLACE FUNCTION documents_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('simple', COALESCE(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(array_to_string(NEW.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(array_to_string(NEW.keywords, ' '), '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(NEW.category, '') || ' ' || COALESCE(NEW.document_type, '')), 'C') ||
+    setweight(to_tsvector('simple', COALESCE(NEW.ai_analysis ->> 'extractedText', '')), 'D');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS documents_search_vector_trigger ON documents;
+CREATE TRIGGER documents_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF name, tags, keywords, category, document_type, ai_analysis
+  ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION documents_search_vector_update();
+
+-- Backfill existing rows through the trigger without touching updated_at
+ALTER TABLE documents DISABLE TRIGGER update_documents_updated_at;
+UPDATE documents SET name = name;
+ALTER TABLE documents ENABLE TRIGGER update_documents_updated_at;
+
+-- The expression index from the initial schema never matched any query
+DROP INDEX IF EXISTS idx_documents_search;
+CREATE INDEX IF NOT EXISTS idx_documents_search_vector ON documents USING GIN(search_vector);
+
+-- Ranked search over the documents visible to the caller (runs as the caller, so RLS applies).
+-- The query uses web search syntax ("quoted phrases", OR, -exclusions) and never raises on
+-- punctuation. An empty query matches every document with a zero rank.
+-- Returns plain rows so callers can keep filtering, ordering and paginating with PostgREST.
+-- ts_headline marks matches with <mark></mark>; clients render the snippet as text segments.
+CREATE OR REPLACE FUNCTION search_documents(search_query TEXT DEFAULT '')
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  type TEXT,
+  size BIGINT,
+  url TEXT,
+  path TEXT,
+  user_id UUID,
+  category TEXT,
+  tags TEXT[],
+  keywords TEXT[],
+  confidence FLOAT,
+  document_type TEXT,
+  language TEXT,
+  ai_analysis JSONB,
+  metadata JSONB,
+  checksum TEXT,
+  processing_status TEXT,
+  processing_steps JSONB,
+  processing_attempts INTEGER,
+  processing_error TEXT,
+  processing_updated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  search_rank REAL,
+  search_snippet TEXT
+) AS $$
+  WITH q AS (
+    SELECT CASE
+      WHEN btrim(COALESCE(search_query, '')) = '' THEN NULL
+      ELSE websearch_to_tsquery('simple', search_query)
+    END AS query
+  )
+  SELECT
+    d.id,
+    d.name,
+    d.type,
+    d.size,
+    d.url,
+    d.path,
+    d.user_id,
+    d.category,
+    d.tags,
+    d.keywords,
+    d.confidence,
+    d.document_type,
+    d.language,
+    d.ai_analysis,
+    d.metadata,
+    d.checksum,
+    d.processing_status,
+    d.processing_steps,
+    d.processing_attempts,
+    d.processing_error,
+    d.processing_updated_at,
+    d.created_at,
+    d.updated_at,
+    CASE WHEN q.query IS NULL THEN 0::REAL ELSE ts_rank(d.search_vector, q.query) END AS search_rank,
+    CASE WHEN q.query IS NULL THEN NULL ELSE ts_headline(
+      'simple',
+      COALESCE(NULLIF(d.ai_analysis ->> 'extractedText', ''), d.name),
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+    ) END AS search_snippet
+  FROM documents d, q
+  WHERE q.query IS NULL OR d.search_vector @@ q.query;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_documents(TEXT) TO authenticated;
@@ -0,0 +1,37 @@
+-- Saved Searches Migration
+-- Named advanced-search parameter sets shown as smart folders in the sidebar
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  query TEXT NOT NULL DEFAULT '',               -- Search query language text
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,   -- SearchFilters
+  sort_by TEXT NOT NULL DEFAULT 'relevance'
+    CHECK (sort_by IN ('relevance', 'created_at', 'name', 'size', 'confidence')),
+  sort_order TEXT NOT NULL DEFAULT 'desc' CHECK (sort_order IN ('asc', 'desc')),
+  icon TEXT DEFAULT '🔎',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for saved searches
+CREATE POLICY "Users can view own saved searches" ON saved_searches
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own saved searches" ON saved_searches
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own saved searches" ON saved_searches
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own saved searches" ON saved_searches
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_searches_updated_at BEFORE UPDATE ON saved_searches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,145 @@
+-- Semantic Search Migration
+-- Per-page chunk embeddings in pgvector, blended with the full-text rank at query time
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS document_chunks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  page_number INTEGER NOT NULL DEFAULT 1,
+  content TEXT NOT NULL,
+  embedding vector(384) NOT NULL,
+  model TEXT NOT NULL, -- Embedding model id; vectors from different models are never compared
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (document_id, model, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_document_id ON document_chunks(document_id);
+-- Candidates are found by an exact scan of the caller's own chunks. An approximate index
+-- over every user's vectors returns a fixed number of rows before the per-user filter,
+-- which leaves most users with few or no matches once the table is shared.
+CREATE INDEX IF NOT EXISTS idx_document_chunks_user_model ON document_chunks(user_id, model);
+
+ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for document chunks
+CREATE POLICY "Users can view own document chunks" ON document_chunks
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own document chunks" ON document_chunks
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM documents WHERE id = document_chunks.document_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own document chunks" ON document_chunks
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Semantic search: the caller's nearest chunks to the query embedding pick the candidate documents,
+-- each document keeps its best chunk, and the score blends that chunk's cosine similarity
+-- with the normalised full-text rank (weight 1 is purely semantic, 0 purely full-text).
+-- Documents matching the full-text query are included even without a close chunk.
+-- Same row shape as search_documents, plus the raw similarity.
+CREATE OR REPLACE FUNCTION semantic_search_documents(
+  query_embedding vector(384),
+  embedding_model TEXT,
+  search_query TEXT DEFAULT '',
+  semantic_weight FLOAT DEFAULT 0.7,
+  match_threshold FLOAT DEFAULT 0.2,
+  candidate_count INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  type TEXT,
+  size BIGINT,
+  url TEXT,
+  path TEXT,
+  user_id UUID,
+  category TEXT,
+  tags TEXT[],
+  keywords TEXT[],
+  confidence FLOAT,
+  document_type TEXT,
+  language TEXT,
+  ai_analysis JSONB,
+  metadata JSONB,
+  checksum TEXT,
+  processing_status TEXT,
+  processing_steps JSONB,
+  processing_attempts INTEGER,
+  processing_error TEXT,
+  processing_updated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  search_rank REAL,
+  search_snippet TEXT,
+  similarity REAL
+) AS $$
+  WITH q AS (
+    SELECT CASE
+      WHEN btrim(COALESCE(search_query, '')) = '' THEN NULL
+      ELSE websearch_to_tsquery('simple', search_query)
+    END AS query
+  ),
+  candidates AS (
+    SELECT c.document_id, c.content, c.page_number, 1 - (c.embedding <=> query_embedding) AS similarity
+    FROM document_chunks c
+    WHERE c.user_id = auth.uid()
+      AND c.model = embedding_model
+    ORDER BY similarity DESC
+    LIMIT candidate_count
+  ),
+  best AS (
+    SELECT DISTINCT ON (document_id) document_id, content, page_number, similarity
+    FROM candidates
+    WHERE similarity >= match_threshold
+    ORDER BY document_id, similarity DESC
+  )
+  SELECT
+    d.id,
+    d.name,
+    d.type,
+    d.size,
+    d.url,
+    d.path,
+    d.user_id,
+    d.category,
+    d.tags,
+    d.keywords,
+    d.confidence,
+    d.document_type,
+    d.language,
+    d.ai_analysis,
+    d.metadata,
+    d.checksum,
+    d.processing_status,
+    d.processing_steps,
+    d.processing_attempts,
+    d.processing_error,
+    d.processing_updated_at,
+    d.created_at,
+    d.updated_at,
+    (
+      semantic_weight * COALESCE(b.similarity, 0)
+      + (1 - semantic_weight) * CASE WHEN q.query IS NULL THEN 0 ELSE ts_rank(d.search_vector, q.query, 32) END
+    )::REAL AS search_rank,
+    CASE
+      WHEN b.content IS NULL THEN NULL
+      WHEN q.query IS NOT NULL AND to_tsvector('simple', b.content) @@ q.query THEN ts_headline(
+        'simple', b.content, q.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+      ELSE left(b.content, 240)
+    END AS search_snippet,
+    b.similarity::REAL AS similarity
+  FROM documents d
+  CROSS JOIN q
+  LEFT JOIN best b ON b.document_id = d.id
+  WHERE b.document_id IS NOT NULL
+    OR (q.query IS NOT NULL AND d.search_vector @@ q.query);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION semantic_search_documents(vector, TEXT, TEXT, FLOAT, FLOAT, INTEGER) TO authenticated;
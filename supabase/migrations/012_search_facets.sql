@@ -0,0 +1,161 @@
+-- Search Facets Migration
+-- Facet counts for the current search, aggregated server-side in a single call
+
+-- Evaluate a compiled search filter (the SearchFilterExpr tree built by the client's
+-- query-language parser) against a document row. Only the columns and operators the
+-- parser emits are accepted; negation follows PostgREST, so NULL columns never match.
+CREATE OR REPLACE FUNCTION document_matches_search_filter(d documents, expr JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  item JSONB;
+  op TEXT;
+  negated BOOLEAN;
+  val TEXT;
+  lhs TEXT;
+  pattern TEXT;
+  result BOOLEAN;
+BEGIN
+  CASE expr ->> 'kind'
+    WHEN 'and' THEN
+      FOR item IN SELECT value FROM jsonb_array_elements(expr -> 'items') LOOP
+        IF NOT document_matches_search_filter(d, item) THEN
+          RETURN FALSE;
+        END IF;
+      END LOOP;
+      RETURN TRUE;
+
+    WHEN 'or' THEN
+      FOR item IN SELECT value FROM jsonb_array_elements(expr -> 'items') LOOP
+        IF document_matches_search_filter(d, item) THEN
+          RETURN TRUE;
+        END IF;
+      END LOOP;
+      RETURN FALSE;
+
+    WHEN 'condition' THEN
+      op := expr ->> 'operator';
+      negated := op LIKE 'not.%';
+      IF negated THEN
+        op := substr(op, 5);
+      END IF;
+      val := expr ->> 'value';
+      -- PostgREST accepts * as a LIKE wildcard; \* stays literal
+      pattern := replace(regexp_replace(val, '(?<!\\)\*', '%', 'g'), '\*', '*');
+
+      IF expr ->> 'column' IN ('category', 'type', 'language', 'document_type') AND op IN ('eq', 'like', 'ilike') THEN
+        lhs := CASE expr ->> 'column'
+          WHEN 'category' THEN d.category
+          WHEN 'type' THEN d.type
+          WHEN 'language' THEN d.language
+          ELSE d.document_type
+        END;
+        result := CASE op
+          WHEN 'eq' THEN lhs = val
+          WHEN 'like' THEN lhs LIKE pattern
+          ELSE lhs ILIKE pattern
+        END;
+      ELSIF expr ->> 'column' = 'tags' AND op = 'cs' THEN
+        result := d.tags @> val::TEXT[];
+      ELSIF expr ->> 'column' = 'size' AND op IN ('eq', 'gt', 'gte', 'lt', 'lte') THEN
+        result := CASE op
+          WHEN 'eq' THEN d.size = val::BIGINT
+          WHEN 'gt' THEN d.size > val::BIGINT
+          WHEN 'gte' THEN d.size >= val::BIGINT
+          WHEN 'lt' THEN d.size < val::BIGINT
+          ELSE d.size <= val::BIGINT
+        END;
+      ELSIF expr ->> 'column' = 'created_at' AND op IN ('eq', 'gt', 'gte', 'lt', 'lte') THEN
+        result := CASE op
+          WHEN 'eq' THEN d.created_at = val::TIMESTAMPTZ
+          WHEN 'gt' THEN d.created_at > val::TIMESTAMPTZ
+          WHEN 'gte' THEN d.created_at >= val::TIMESTAMPTZ
+          WHEN 'lt' THEN d.created_at < val::TIMESTAMPTZ
+          ELSE d.created_at <= val::TIMESTAMPTZ
+        END;
+      ELSE
+        RAISE EXCEPTION 'Unsupported search filter: %', expr;
+      END IF;
+
+      RETURN COALESCE(CASE WHEN negated THEN NOT result ELSE result END, FALSE);
+
+    ELSE
+      RAISE EXCEPTION 'Unsupported search filter: %', expr;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Facet buckets (top 20 values by count) over the caller's documents matching the
+-- full-text query and every filter in search_filters (a JSON array of filter trees).
+CREATE OR REPLACE FUNCTION search_document_facets(
+  search_query TEXT DEFAULT '',
+  search_filters JSONB DEFAULT '[]'::jsonb
+)
+RETURNS JSONB AS $$
+  WITH q AS (
+    SELECT CASE
+      WHEN btrim(COALESCE(search_query, '')) = '' THEN NULL
+      ELSE websearch_to_tsquery('simple', search_query)
+    END AS query
+  ),
+  matched AS (
+    SELECT d.*
+    FROM documents d, q
+    WHERE d.user_id = auth.uid()
+      AND (q.query IS NULL OR d.search_vector @@ q.query)
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(search_filters) f
+        WHERE NOT document_matches_search_filter(d, f.value)
+      )
+  ),
+  buckets AS (
+    SELECT 'category' AS facet, category AS value FROM matched
+    UNION ALL SELECT 'document_type', document_type FROM matched
+    UNION ALL SELECT 'language', language FROM matched
+    UNION ALL SELECT 'type', type FROM matched
+    UNION ALL SELECT 'tags', unnest(tags) FROM matched
+    UNION ALL SELECT 'uploaded_year', to_char(created_at, 'YYYY') FROM matched
+    UNION ALL SELECT 'uploaded_month', to_char(created_at, 'YYYY-MM') FROM matched
+  ),
+  counted AS (
+    SELECT facet, value, COUNT(*) AS count,
+      ROW_NUMBER() OVER (PARTITION BY facet ORDER BY COUNT(*) DESC, value) AS position
+    FROM buckets
+    WHERE value IS NOT NULL AND value <> ''
+    GROUP BY facet, value
+  )
+  SELECT jsonb_build_object('total', (SELECT COUNT(*) FROM matched))
+    || COALESCE(
+      (SELECT jsonb_object_agg(facet, values) FROM (
+        SELECT facet, jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY position) AS values
+        FROM counted
+        WHERE position <= 20
+        GROUP BY facet
+      ) grouped),
+      '{}'::jsonb
+    );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_document_facets(TEXT, JSONB) TO authenticated;
+
+-- Count the caller's documents matching each of several searches in one call,
+-- e.g. every smart folder in the sidebar. Takes [{ id, search_query, search_filters }]
+-- and returns { id: count }, with the same matching rules as search_document_facets.
+CREATE OR REPLACE FUNCTION count_search_matches(searches JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_object_agg(s.value ->> 'id', (
+    SELECT COUNT(*)
+    FROM documents d
+    WHERE d.user_id = auth.uid()
+      AND (
+        btrim(COALESCE(s.value ->> 'search_query', '')) = ''
+        OR d.search_vector @@ websearch_to_tsquery('simple', s.value ->> 'search_query')
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(COALESCE(s.value -> 'search_filters', '[]'::jsonb)) f
+        WHERE NOT document_matches_search_filter(d, f.value)
+      )
+  )), '{}'::jsonb)
+  FROM jsonb_array_elements(searches) s;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION count_search_matches(JSONB) TO authenticated;
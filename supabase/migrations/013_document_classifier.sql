@@ -0,0 +1,31 @@
+-- Document Classifier Migration
+-- Per-user category classifier trained from the user's own categorised documents
+
+CREATE TABLE IF NOT EXISTS classifier_models (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  model JSONB NOT NULL,                     -- TextClassifierModel
+  example_count INTEGER NOT NULL DEFAULT 0,
+  accuracy REAL,                            -- Cross-validated; NULL until there are enough examples
+  trained_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE classifier_models ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for classifier models
+CREATE POLICY "Users can view own classifier model" ON classifier_models
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own classifier model" ON classifier_models
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own classifier model" ON classifier_models
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own classifier model" ON classifier_models
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_classifier_models_updated_at BEFORE UPDATE ON classifier_models
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
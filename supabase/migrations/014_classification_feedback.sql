@@ -0,0 +1,69 @@
+-- Classification Feedback Migration
+-- Manual overrides of AI-assigned categories and tags, kept as labeled examples
+
+CREATE TABLE IF NOT EXISTS classification_feedback (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  field TEXT NOT NULL CHECK (field IN ('category', 'tags')),
+  predicted_category TEXT,
+  predicted_confidence REAL,
+  predicted_tags TEXT[] NOT NULL DEFAULT '{}',
+  corrected_category TEXT,
+  corrected_tags TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_classification_feedback_user_id ON classification_feedback(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_classification_feedback_document_id ON classification_feedback(document_id);
+
+ALTER TABLE classification_feedback ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for classification feedback
+CREATE POLICY "Users can view own classification feedback" ON classification_feedback
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own classification feedback" ON classification_feedback
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own classification feedback" ON classification_feedback
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Monthly category predictions for the caller's documents and how many the user corrected.
+-- A prediction counts as corrected when the user overrode it and the document still
+-- carries a different category.
+CREATE OR REPLACE FUNCTION classification_accuracy_by_month()
+RETURNS TABLE (
+  month DATE,
+  predictions INTEGER,
+  corrections INTEGER
+) AS $$
+  SELECT
+    date_trunc('month', (d.ai_analysis -> 'prediction' ->> 'predictedAt')::timestamptz)::date AS month,
+    COUNT(*)::integer AS predictions,
+    COUNT(*) FILTER (
+      WHERE d.category IS DISTINCT FROM d.ai_analysis -> 'prediction' ->> 'category'
+        AND EXISTS (
+          SELECT 1 FROM classification_feedback f
+          WHERE f.document_id = d.id AND f.field = 'category'
+        )
+    )::integer AS corrections
+  FROM documents d
+  WHERE d.user_id = auth.uid()
+    AND d.ai_analysis -> 'prediction' ->> 'predictedAt' IS NOT NULL
+  GROUP BY 1
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION classification_accuracy_by_month() TO authenticated;
+
+-- Categories on analysed documents from before this migration were guessed by the
+-- old classifier, so they are marked as the pipeline's and kept out of training.
+-- Categories set from now on without a source were chosen by the user at upload.
+ALTER TABLE documents DISABLE TRIGGER update_documents_updated_at;
+UPDATE documents
+SET metadata = COALESCE(metadata, '{}'::jsonb) || '{"categorySource": "ai"}'::jsonb
+WHERE category IS NOT NULL
+  AND ai_analysis IS NOT NULL
+  AND NOT COALESCE(metadata ? 'categorySource', FALSE);
+ALTER TABLE documents ENABLE TRIGGER update_documents_updated_at;
@@ -0,0 +1,117 @@
+-- Custom Categories Migration
+-- User-defined, nestable categories with auto-filing rules, seeded with the built-in defaults
+
+-- Documents refer to categories by name, so names stay unique per user at every depth
+ALTER TABLE categories
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS rules JSONB NOT NULL DEFAULT '{}'::jsonb; -- CategoryRules
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_user_name ON categories(user_id, lower(name));
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
+
+-- A category cannot be nested under itself or one of its own sub-categories
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM categories WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id FROM categories c JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A category cannot be nested under itself';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_category_parent_trigger ON categories;
+CREATE TRIGGER check_category_parent_trigger
+  BEFORE INSERT OR UPDATE OF parent_id ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION check_category_parent();
+
+-- Renaming a category moves its documents along
+CREATE OR REPLACE FUNCTION rename_category_documents()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE documents SET category = NEW.name
+  WHERE user_id = NEW.user_id AND category = OLD.name;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS rename_category_documents_trigger ON categories;
+CREATE TRIGGER rename_category_documents_trigger
+  AFTER UPDATE OF name ON categories
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION rename_category_documents();
+
+-- Deleting a category hands its documents and sub-categories to its parent
+CREATE OR REPLACE FUNCTION release_category_contents()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE categories SET parent_id = OLD.parent_id WHERE parent_id = OLD.id;
+  UPDATE documents
+  SET category = (SELECT name FROM categories WHERE id = OLD.parent_id)
+  WHERE user_id = OLD.user_id AND category = OLD.name;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS release_category_contents_trigger ON categories;
+CREATE TRIGGER release_category_contents_trigger
+  BEFORE DELETE ON categories
+  FOR EACH ROW
+  EXECUTE FUNCTION release_category_contents();
+
+-- The categories every account starts with; keywords match the former built-in rules
+CREATE OR REPLACE FUNCTION create_default_categories(target_user UUID)
+RETURNS VOID AS $$
+  INSERT INTO categories (user_id, name, icon, color, rules)
+  VALUES
+    (target_user, 'Personal', '👤', '#6366F1', '{"keywords": ["personal", "family", "birthday"]}'),
+    (target_user, 'Bills & Utilities', '💡', '#F59E0B',
+      '{"keywords": ["bill", "invoice", "receipt", "utility", "electric", "gas", "water", "internet", "phone"]}'),
+    (target_user, 'Medical', '🏥', '#EF4444',
+      '{"keywords": ["medical", "doctor", "prescription", "hospital", "clinic", "health", "lab"]}'),
+    (target_user, 'Legal', '⚖️', '#8B5CF6',
+      '{"keywords": ["contract", "agreement", "legal", "court", "lawyer", "attorney", "deed", "will"]}'),
+    (target_user, 'Financial', '💰', '#10B981',
+      '{"keywords": ["bank", "statement", "tax", "loan", "mortgage", "credit", "investment", "finance"]}'),
+    (target_user, 'Work & Business', '💼', '#3B82F6',
+      '{"keywords": ["resume", "cv", "payslip", "salary", "employment", "work", "business", "company"]}'),
+    (target_user, 'Education', '🎓', '#14B8A6',
+      '{"keywords": ["diploma", "certificate", "transcript", "school", "university", "education", "course"]}'),
+    (target_user, 'Travel', '✈️', '#0EA5E9',
+      '{"keywords": ["passport", "visa", "ticket", "boarding", "hotel", "travel", "flight", "reservation"]}'),
+    (target_user, 'Insurance', '🛡️', '#64748B',
+      '{"keywords": ["insurance", "policy", "claim", "coverage", "premium", "deductible"]}'),
+    (target_user, 'Other', '📄', '#9CA3AF', '{}')
+  ON CONFLICT DO NOTHING;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION create_default_categories_for_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM create_default_categories(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS create_default_categories_trigger ON auth.users;
+CREATE TRIGGER create_default_categories_trigger
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION create_default_categories_for_new_user();
+
+-- Backfill: defaults for existing accounts, plus any category already used on their documents
+SELECT create_default_categories(id) FROM auth.users;
+
+INSERT INTO categories (user_id, name)
+SELECT DISTINCT user_id, category FROM documents
+WHERE user_id IS NOT NULL AND category IS NOT NULL AND btrim(category) <> ''
+ON CONFLICT DO NOTHING;
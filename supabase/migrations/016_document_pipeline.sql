@@ -0,0 +1,28 @@
+-- Document Pipeline Migration
+-- One pipeline (extract, language, classify, summarize, convert) with a versioned ai_analysis schema
+
+-- Language detection and summarizing are now stages of their own
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_processing_status_check;
+ALTER TABLE documents ADD CONSTRAINT documents_processing_status_check
+  CHECK (processing_status IN (
+    'queued', 'extracting', 'detecting_language', 'classifying', 'summarizing', 'converting', 'done', 'failed'
+  ));
+
+-- Upgrade earlier results to schema version 2 (see AIAnalysis). Keys already read from SQL,
+-- such as extractedText and prediction, keep their place. Which stage versions produced
+-- them is unknown, so the stages map starts empty.
+UPDATE documents
+SET ai_analysis = (ai_analysis - 'classification' - 'confidence') || jsonb_build_object(
+  'schemaVersion', 2,
+  'stages', '{}'::jsonb,
+  'extractedText', COALESCE(ai_analysis->>'extractedText', ''),
+  'wordCount', COALESCE((ai_analysis->>'wordCount')::int, 0),
+  'characterCount', COALESCE((ai_analysis->>'characterCount')::int, 0),
+  'language', COALESCE(ai_analysis->>'language', language, 'en'),
+  'languageConfidence', 0,
+  'keywords', CASE WHEN jsonb_typeof(ai_analysis->'keywords') = 'array' THEN ai_analysis->'keywords' ELSE '[]'::jsonb END,
+  'documentType', COALESCE(document_type, 'Unknown Document'),
+  'summary', COALESCE(ai_analysis->>'summary', ''),
+  'processedAt', COALESCE(ai_analysis->>'processedAt', processing_updated_at::text, updated_at::text)
+)
+WHERE ai_analysis IS NOT NULL AND NOT ai_analysis ? 'schemaVersion';
@@ -0,0 +1,9 @@
+-- OCR Stage Migration
+-- Adds the status shown while images and image-only PDF pages are recognized
+
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_processing_status_check;
+ALTER TABLE documents ADD CONSTRAINT documents_processing_status_check
+  CHECK (processing_status IN (
+    'queued', 'extracting', 'recognizing_text', 'detecting_language', 'classifying', 'summarizing',
+    'converting', 'done', 'failed'
+  ));
@@ -0,0 +1,219 @@
+-- PDF Conversion Migration
+-- Links the PDF/A copy converted from each document, stored next to the original
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS pdf_path TEXT;
+
+-- Conversion used to be simulated and recorded URLs of files that were never written
+ALTER TABLE documents DISABLE TRIGGER update_documents_updated_at;
+UPDATE documents SET ai_analysis = ai_analysis - 'pdfUrl' WHERE ai_analysis ? 'pdfUrl';
+ALTER TABLE documents ENABLE TRIGGER update_documents_updated_at;
+
+-- As in 004_document_sharing, plus pdf_path: only the owner and the conversion
+-- service change the converted copy
+CREATE OR REPLACE FUNCTION protect_shared_document_files()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR OLD.user_id = auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Only the owner can transfer a document' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.path IS DISTINCT FROM OLD.path THEN
+    RAISE EXCEPTION 'Only the owner can replace a document''s file' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.pdf_path IS DISTINCT FROM OLD.pdf_path THEN
+    RAISE EXCEPTION 'Only the owner or the conversion service can change the converted PDF' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The search functions return whole document rows, so they gain the new column.
+-- A function's result columns cannot change in place; they are dropped and recreated.
+DROP FUNCTION IF EXISTS search_documents(TEXT);
+DROP FUNCTION IF EXISTS semantic_search_documents(vector, TEXT, TEXT, FLOAT, FLOAT, INTEGER);
+
+-- As in 009_full_text_search, plus pdf_path
+CREATE FUNCTION search_documents(search_query TEXT DEFAULT '')
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  type TEXT,
+  size BIGINT,
+  url TEXT,
+  path TEXT,
+  user_id UUID,
+  category TEXT,
+  tags TEXT[],
+  keywords TEXT[],
+  confidence FLOAT,
+  document_type TEXT,
+  language TEXT,
+  ai_analysis JSONB,
+  metadata JSONB,
+  checksum TEXT,
+  pdf_path TEXT,
+  processing_status TEXT,
+  processing_steps JSONB,
+  processing_attempts INTEGER,
+  processing_error TEXT,
+  processing_updated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  search_rank REAL,
+  search_snippet TEXT
+) AS $$
+  WITH q AS (
+    SELECT CASE
+      WHEN btrim(COALESCE(search_query, '')) = '' THEN NULL
+      ELSE websearch_to_tsquery('simple', search_query)
+    END AS query
+  )
+  SELECT
+    d.id,
+    d.name,
+    d.type,
+    d.size,
+    d.url,
+    d.path,
+    d.user_id,
+    d.category,
+    d.tags,
+    d.keywords,
+    d.confidence,
+    d.document_type,
+    d.language,
+    d.ai_analysis,
+    d.metadata,
+    d.checksum,
+    d.pdf_path,
+    d.processing_status,
+    d.processing_steps,
+    d.processing_attempts,
+    d.processing_error,
+    d.processing_updated_at,
+    d.created_at,
+    d.updated_at,
+    CASE WHEN q.query IS NULL THEN 0::REAL ELSE ts_rank(d.search_vector, q.query) END AS search_rank,
+    CASE WHEN q.query IS NULL THEN NULL ELSE ts_headline(
+      'simple',
+      COALESCE(NULLIF(d.ai_analysis ->> 'extractedText', ''), d.name),
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+    ) END AS search_snippet
+  FROM documents d, q
+  WHERE q.query IS NULL OR d.search_vector @@ q.query;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_documents(TEXT) TO authenticated;
+
+-- As in 011_semantic_search, plus pdf_path
+CREATE FUNCTION semantic_search_documents(
+  query_embedding vector(384),
+  embedding_model TEXT,
+  search_query TEXT DEFAULT '',
+  semantic_weight FLOAT DEFAULT 0.7,
+  match_threshold FLOAT DEFAULT 0.2,
+  candidate_count INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  type TEXT,
+  size BIGINT,
+  url TEXT,
+  path TEXT,
+  user_id UUID,
+  category TEXT,
+  tags TEXT[],
+  keywords TEXT[],
+  confidence FLOAT,
+  document_type TEXT,
+  language TEXT,
+  ai_analysis JSONB,
+  metadata JSONB,
+  checksum TEXT,
+  pdf_path TEXT,
+  processing_status TEXT,
+  processing_steps JSONB,
+  processing_attempts INTEGER,
+  processing_error TEXT,
+  processing_updated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  search_rank REAL,
+  search_snippet TEXT,
+  similarity REAL
+) AS $$
+  WITH q AS (
+    SELECT CASE
+      WHEN btrim(COALESCE(search_query, '')) = '' THEN NULL
+      ELSE websearch_to_tsquery('simple', search_query)
+    END AS query
+  ),
+  candidates AS (
+    SELECT c.document_id, c.content, c.page_number, 1 - (c.embedding <=> query_embedding) AS similarity
+    FROM document_chunks c
+    WHERE c.user_id = auth.uid()
+      AND c.model = embedding_model
+    ORDER BY similarity DESC
+    LIMIT candidate_count
+  ),
+  best AS (
+    SELECT DISTINCT ON (document_id) document_id, content, page_number, similarity
+    FROM candidates
+    WHERE similarity >= match_threshold
+    ORDER BY document_id, similarity DESC
+  )
+  SELECT
+    d.id,
+    d.name,
+    d.type,
+    d.size,
+    d.url,
+    d.path,
+    d.user_id,
+    d.category,
+    d.tags,
+    d.keywords,
+    d.confidence,
+    d.document_type,
+    d.language,
+    d.ai_analysis,
+    d.metadata,
+    d.checksum,
+    d.pdf_path,
+    d.processing_status,
+    d.processing_steps,
+    d.processing_attempts,
+    d.processing_error,
+    d.processing_updated_at,
+    d.created_at,
+    d.updated_at,
+    (
+      semantic_weight * COALESCE(b.similarity, 0)
+      + (1 - semantic_weight) * CASE WHEN q.query IS NULL THEN 0 ELSE ts_rank(d.search_vector, q.query, 32) END
+    )::REAL AS search_rank,
+    CASE
+      WHEN b.content IS NULL THEN NULL
+      WHEN q.query IS NOT NULL AND to_tsvector('simple', b.content) @@ q.query THEN ts_headline(
+        'simple', b.content, q.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+      ELSE left(b.content, 240)
+    END AS search_snippet,
+    b.similarity::REAL AS similarity
+  FROM documents d
+  CROSS JOIN q
+  LEFT JOIN best b ON b.document_id = d.id
+  WHERE b.document_id IS NOT NULL
+    OR (q.query IS NOT NULL AND d.search_vector @@ q.query);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION semantic_search_documents(vector, TEXT, TEXT, FLOAT, FLOAT, INTEGER) TO authenticated;
@@ -0,0 +1,166 @@
+-- Document Fields Migration
+-- Invoice, receipt and bill fields read into ai_analysis.fields, filterable from the search query language
+
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_processing_status_check;
+ALTER TABLE documents ADD CONSTRAINT documents_processing_status_check
+  CHECK (processing_status IN (
+    'queued', 'extracting', 'recognizing_text', 'detecting_language', 'classifying', 'extracting_fields',
+    'summarizing', 'converting', 'done', 'failed'
+  ));
+
+-- due: and amount: filter on these paths; the expressions match the ones PostgREST builds
+CREATE INDEX IF NOT EXISTS idx_documents_due_date
+  ON documents ((ai_analysis -> 'fields' ->> 'dueDate'))
+  WHERE ai_analysis ? 'fields';
+CREATE INDEX IF NOT EXISTS idx_documents_total
+  ON documents ((ai_analysis -> 'fields' -> 'total'))
+  WHERE ai_analysis ? 'fields';
+
+-- As in 012_search_facets, plus the invoice field paths the query language emits
+-- (vendor:, currency:, due:, issued: and amount:). Dates compare as ISO text and the
+-- total as a JSON number, the same way PostgREST evaluates them.
+CREATE OR REPLACE FUNCTION document_matches_search_filter(d documents, expr JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  item JSONB;
+  op TEXT;
+  negated BOOLEAN;
+  val TEXT;
+  lhs TEXT;
+  pattern TEXT;
+  result BOOLEAN;
+BEGIN
+  CASE expr ->> 'kind'
+    WHEN 'and' THEN
+      FOR item IN SELECT value FROM jsonb_array_elements(expr -> 'items') LOOP
+        IF NOT document_matches_search_filter(d, item) THEN
+          RETURN FALSE;
+        END IF;
+      END LOOP;
+      RETURN TRUE;
+
+    WHEN 'or' THEN
+      FOR item IN SELECT value FROM jsonb_array_elements(expr -> 'items') LOOP
+        IF document_matches_search_filter(d, item) THEN
+          RETURN TRUE;
+        END IF;
+      END LOOP;
+      RETURN FALSE;
+
+    WHEN 'condition' THEN
+      op := expr ->> 'operator';
+      negated := op LIKE 'not.%';
+      IF negated THEN
+        op := substr(op, 5);
+      END IF;
+      val := expr ->> 'value';
+      -- PostgREST accepts * as a LIKE wildcard; \* stays literal
+      pattern := replace(regexp_replace(val, '(?<!\\)\*', '%', 'g'), '\*', '*');
+
+      IF expr ->> 'column' IN ('category', 'type', 'language', 'document_type') AND op IN ('eq', 'like', 'ilike') THEN
+        lhs := CASE expr ->> 'column'
+          WHEN 'category' THEN d.category
+          WHEN 'type' THEN d.type
+          WHEN 'language' THEN d.language
+          ELSE d.document_type
+        END;
+        result := CASE op
+          WHEN 'eq' THEN lhs = val
+          WHEN 'like' THEN lhs LIKE pattern
+          ELSE lhs ILIKE pattern
+        END;
+      ELSIF expr ->> 'column' = 'tags' AND op = 'cs' THEN
+        result := d.tags @> val::TEXT[];
+      ELSIF expr ->> 'column' = 'size' AND op IN ('eq', 'gt', 'gte', 'lt', 'lte') THEN
+        result := CASE op
+          WHEN 'eq' THEN d.size = val::BIGINT
+          WHEN 'gt' THEN d.size > val::BIGINT
+          WHEN 'gte' THEN d.size >= val::BIGINT
+          WHEN 'lt' THEN d.size < val::BIGINT
+          ELSE d.size <= val::BIGINT
+        END;
+      ELSIF expr ->> 'column' = 'created_at' AND op IN ('eq', 'gt', 'gte', 'lt', 'lte') THEN
+        result := CASE op
+          WHEN 'eq' THEN d.created_at = val::TIMESTAMPTZ
+          WHEN 'gt' THEN d.created_at > val::TIMESTAMPTZ
+          WHEN 'gte' THEN d.created_at >= val::TIMESTAMPTZ
+          WHEN 'lt' THEN d.created_at < val::TIMESTAMPTZ
+          ELSE d.created_at <= val::TIMESTAMPTZ
+        END;
+      ELSIF expr ->> 'column' IN ('ai_analysis->fields->>vendor', 'ai_analysis->fields->>currency')
+        AND op IN ('eq', 'ilike') THEN
+        lhs := d.ai_analysis -> 'fields' ->> split_part(expr ->> 'column', '->>', 2);
+        result := CASE op
+          WHEN 'eq' THEN lhs = val
+          ELSE lhs ILIKE pattern
+        END;
+      ELSIF expr ->> 'column' IN ('ai_analysis->fields->>dueDate', 'ai_analysis->fields->>issueDate')
+        AND op IN ('eq', 'gt', 'gte', 'lt', 'lte') THEN
+        lhs := d.ai_analysis -> 'fields' ->> split_part(expr ->> 'column', '->>', 2);
+        result := CASE op
+          WHEN 'eq' THEN lhs = val
+          WHEN 'gt' THEN lhs > val
+          WHEN 'gte' THEN lhs >= val
+          WHEN 'lt' THEN lhs < val
+          ELSE lhs <= val
+        END;
+      ELSIF expr ->> 'column' = 'ai_analysis->fields->total' AND op IN ('eq', 'gt', 'gte', 'lt', 'lte') THEN
+        result := CASE op
+          WHEN 'eq' THEN d.ai_analysis -> 'fields' -> 'total' = val::JSONB
+          WHEN 'gt' THEN d.ai_analysis -> 'fields' -> 'total' > val::JSONB
+          WHEN 'gte' THEN d.ai_analysis -> 'fields' -> 'total' >= val::JSONB
+          WHEN 'lt' THEN d.ai_analysis -> 'fields' -> 'total' < val::JSONB
+          ELSE d.ai_analysis -> 'fields' -> 'total' <= val::JSONB
+        END;
+      ELSE
+        RAISE EXCEPTION 'Unsupported search filter: %', expr;
+      END IF;
+
+      RETURN COALESCE(CASE WHEN negated THEN NOT result ELSE result END, FALSE);
+
+    ELSE
+      RAISE EXCEPTION 'Unsupported search filter: %', expr;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Fields the user corrected (marked with editedAt) win over any later write of
+-- ai_analysis without them, such as the pipeline saving a run that started before
+-- the correction was made.
+CREATE OR REPLACE FUNCTION keep_edited_document_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.ai_analysis -> 'fields' ? 'editedAt'
+    AND NEW.ai_analysis IS NOT NULL
+    AND NOT COALESCE(NEW.ai_analysis -> 'fields' ? 'editedAt', FALSE) THEN
+    NEW.ai_analysis := jsonb_set(NEW.ai_analysis, '{fields}', OLD.ai_analysis -> 'fields');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS keep_edited_document_fields ON documents;
+CREATE TRIGGER keep_edited_document_fields
+  BEFORE UPDATE OF ai_analysis ON documents
+  FOR EACH ROW EXECUTE FUNCTION keep_edited_document_fields();
+
+-- Replace only ai_analysis.fields, so a correction cannot overwrite analysis the
+-- pipeline writes at the same time. Runs as the caller, so the documents RLS
+-- policies decide who may edit.
+CREATE OR REPLACE FUNCTION set_document_fields(doc_id UUID, new_fields JSONB)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE documents
+  SET ai_analysis = jsonb_set(ai_analysis, '{fields}', new_fields),
+      updated_at = NOW()
+  WHERE id = doc_id
+    AND ai_analysis IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found or not analysed yet';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_document_fields(UUID, JSONB) TO authenticated;